@@ -10,8 +10,10 @@ import { AuthProvider } from "./hooks/useAuth";
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
 import SocialQualifyForm from "./pages/SocialQualifyForm";
-import SiliconValleyConsulting from "./pages/SiliconValleyConsulting";
+import CompanyDetail from "./pages/CompanyDetail";
+import CompanyAdmin from "./pages/CompanyAdmin";
 import Marketplace from "./pages/Marketplace";
+import Dashboard from "./pages/Dashboard";
 
 const queryClient = new QueryClient();
 
@@ -26,10 +28,9 @@ const App = () => (
             <Route path="/" element={<Index />} />
             <Route path="/social-qualify-form" element={<SocialQualifyForm />} />
             <Route path="/marketplace" element={<Marketplace />} />
-            <Route
-              path="/companies/silicon-valley-consulting"
-              element={<SiliconValleyConsulting />}
-            />
+            <Route path="/companies/:slug" element={<CompanyDetail />} />
+            <Route path="/companies/:slug/admin" element={<CompanyAdmin />} />
+            <Route path="/dashboard" element={<Dashboard />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
@@ -1,25 +1,34 @@
 import { useState, useEffect } from 'react';
+import type { Post, PostsResponse } from '@shared/schemas';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Loader2, AlertCircle } from 'lucide-react';
+import { Loader2, AlertCircle, ArrowUp, MessageSquare } from 'lucide-react';
 
-interface Post {
-  id: number;
-  title: string;
-  content: string;
-  author: string;
-  createdAt: string;
-}
+async function fetchPostsPage(after?: string): Promise<PostsResponse> {
+  const response = await fetch(after ? `/api/posts?after=${encodeURIComponent(after)}` : '/api/posts');
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({
+      message: `HTTP ${response.status}: ${response.statusText}`,
+    }));
+    throw new Error(errorData.message || 'Failed to fetch posts');
+  }
 
-interface PostsResponse {
-  success: boolean;
-  posts?: Post[];
-  message?: string;
+  const data: PostsResponse = await response.json();
+
+  if (!data.success || !data.posts) {
+    throw new Error(data.message || 'Invalid response format');
+  }
+  return data;
 }
 
 export function PostsList() {
   const [posts, setPosts] = useState<Post[]>([]);
+  const [after, setAfter] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
@@ -28,22 +37,9 @@ export function PostsList() {
         setLoading(true);
         setError(null);
 
-        const response = await fetch('/api/posts');
-
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({
-            message: `HTTP ${response.status}: ${response.statusText}`,
-          }));
-          throw new Error(errorData.message || 'Failed to fetch posts');
-        }
-
-        const data: PostsResponse = await response.json();
-
-        if (data.success && data.posts) {
-          setPosts(data.posts);
-        } else {
-          throw new Error(data.message || 'Invalid response format');
-        }
+        const data = await fetchPostsPage();
+        setPosts(data.posts!);
+        setAfter(data.after ?? null);
       } catch (err: any) {
         setError(err.message || 'An error occurred while fetching posts');
       } finally {
@@ -54,6 +50,21 @@ export function PostsList() {
     fetchPosts();
   }, []);
 
+  const handleLoadMore = async () => {
+    if (!after) return;
+
+    try {
+      setLoadingMore(true);
+      const data = await fetchPostsPage(after);
+      setPosts((current) => [...current, ...data.posts!]);
+      setAfter(data.after ?? null);
+    } catch (err: any) {
+      setError(err.message || 'An error occurred while fetching posts');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center p-8">
@@ -72,7 +83,8 @@ export function PostsList() {
     );
   }
 
-  if (posts.length === 0) {
+  // A page of only NSFW posts comes back empty but can still have more after it
+  if (posts.length === 0 && !after) {
     return (
       <div className="p-8 text-center text-gray-500">
         <p>No posts available.</p>
@@ -86,18 +98,59 @@ export function PostsList() {
       {posts.map((post) => (
         <Card key={post.id}>
           <CardHeader>
-            <CardTitle>{post.title}</CardTitle>
+            <CardTitle className="flex items-start gap-2">
+              <a href={post.permalink} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                {post.title}
+              </a>
+              {post.over18 && <Badge variant="destructive">NSFW</Badge>}
+            </CardTitle>
           </CardHeader>
-          <CardContent>
-            <p className="text-gray-600 mb-2">{post.content}</p>
-            <div className="text-sm text-gray-500">
-              <span>By {post.author}</span>
-              <span className="mx-2">•</span>
-              <span>{new Date(post.createdAt).toLocaleDateString()}</span>
+          <CardContent className="flex gap-4">
+            {post.thumbnail && (
+              <img
+                src={post.thumbnail}
+                alt=""
+                loading="lazy"
+                className="h-20 w-20 flex-shrink-0 rounded object-cover"
+              />
+            )}
+            <div className="min-w-0">
+              <p className="text-gray-600 mb-2 break-words">{post.content}</p>
+              <div className="flex flex-wrap items-center text-sm text-gray-500">
+                <span>By {post.author}</span>
+                <span className="mx-2">•</span>
+                <span>{new Date(post.createdAt).toLocaleDateString()}</span>
+                <span className="mx-2">•</span>
+                <span>r/{post.subreddit}</span>
+                <span className="mx-2">•</span>
+                <span className="flex items-center gap-1">
+                  <ArrowUp className="h-3 w-3" />
+                  {post.score}
+                </span>
+                <span className="mx-2">•</span>
+                <span className="flex items-center gap-1">
+                  <MessageSquare className="h-3 w-3" />
+                  {post.numComments} comments
+                </span>
+              </div>
             </div>
           </CardContent>
         </Card>
       ))}
+      {after && (
+        <div className="flex justify-center">
+          <Button variant="outline" onClick={handleLoadMore} disabled={loadingMore}>
+            {loadingMore ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Loading...
+              </>
+            ) : (
+              'Load more posts'
+            )}
+          </Button>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,381 @@
+import { useState, useEffect } from "react";
+import { useParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2, AlertTriangle, Star } from "lucide-react";
+import {
+  CONTRACTOR_STATUSES_REQUIRING_REASON,
+  PERFORMANCE_REVIEW_MAX_RATING,
+  getAllowedTransitions,
+  type ContractorRequestSummary,
+  type ContractorRequestsResponse,
+  type ContractorReviewResponse,
+  type ContractorStatus,
+  type ContractorStatusChange,
+  type ContractorTransition,
+  type PerformanceReviewResponse,
+} from "@shared/schemas";
+import { useAuth } from "@/hooks/useAuth";
+import { UserMenu } from "@/components/UserMenu";
+
+const STATUS_BADGES: Record<ContractorStatus, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  accepted: "bg-green-100 text-green-800",
+  rejected: "bg-red-100 text-red-800",
+  withdrawn: "bg-gray-100 text-gray-800",
+  active: "bg-blue-100 text-blue-800",
+  suspended: "bg-orange-100 text-orange-800",
+  completed: "bg-purple-100 text-purple-800",
+};
+
+const DESTRUCTIVE_STATUSES: readonly ContractorStatus[] = ["rejected", "suspended"];
+
+// Requests whose contractor has started working for the company, so can be rated
+const RATEABLE_STATUSES: readonly ContractorStatus[] = ["active", "suspended", "completed"];
+
+function RateContractor({
+  slug,
+  request,
+  authHeaders,
+  onRated,
+}: {
+  slug: string;
+  request: ContractorRequestSummary;
+  authHeaders?: Record<string, string>;
+  onRated: (message: string) => void;
+}) {
+  const [rating, setRating] = useState(0);
+  const [comment, setComment] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async () => {
+    setSaving(true);
+
+    try {
+      const response = await fetch(
+        `/api/admin/companies/${slug}/contractor-requests/${request.id}/performance-reviews`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json", ...authHeaders },
+          body: JSON.stringify({ rating, comment }),
+        },
+      );
+      const data: PerformanceReviewResponse = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.message || "Failed to save rating");
+      }
+
+      setRating(0);
+      setComment("");
+      onRated(`Rated ${request.email} ${rating} stars`);
+    } catch (err: any) {
+      onRated(err.message || "An error occurred");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2 border-t pt-3">
+      <div className="flex items-center gap-1">
+        {Array.from({ length: PERFORMANCE_REVIEW_MAX_RATING }, (_, i) => i + 1).map((stars) => (
+          <button
+            key={stars}
+            type="button"
+            aria-label={`Rate ${request.email} ${stars} stars`}
+            aria-pressed={rating === stars}
+            onClick={() => setRating(stars)}
+          >
+            <Star
+              className={`h-5 w-5 ${stars <= rating ? "fill-yellow-400 text-yellow-400" : "text-gray-300"}`}
+            />
+          </button>
+        ))}
+      </div>
+      <Textarea
+        aria-label={`Comment on ${request.email}`}
+        placeholder="How did they do? (optional)"
+        value={comment}
+        onChange={(e) => setComment(e.target.value)}
+        rows={2}
+      />
+      <Button size="sm" disabled={rating === 0 || saving} onClick={handleSave}>
+        {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Save Rating
+      </Button>
+    </div>
+  );
+}
+
+export default function CompanyAdmin() {
+  const { slug } = useParams<{ slug: string }>();
+  const { user, session, loading: authLoading } = useAuth();
+  const [showAll, setShowAll] = useState(false);
+  const [requests, setRequests] = useState<ContractorRequestSummary[]>([]);
+  const [requestsLoading, setRequestsLoading] = useState(true);
+  const [requestsError, setRequestsError] = useState<string | null>(null);
+  // Transition waiting for the admin to type a reason
+  const [pendingChange, setPendingChange] = useState<{
+    id: number;
+    transition: ContractorTransition;
+  } | null>(null);
+  const [reason, setReason] = useState("");
+  const [reviewingId, setReviewingId] = useState<number | null>(null);
+  const [message, setMessage] = useState("");
+
+  const authHeaders = session?.access_token
+    ? { Authorization: `Bearer ${session.access_token}` }
+    : undefined;
+
+  useEffect(() => {
+    if (authLoading || !session?.access_token) {
+      setRequestsLoading(authLoading);
+      return;
+    }
+
+    const fetchRequests = async () => {
+      try {
+        setRequestsLoading(true);
+        setRequestsError(null);
+
+        const response = await fetch(
+          `/api/admin/companies/${slug}/contractor-requests?status=${showAll ? "all" : "pending"}`,
+          { headers: authHeaders },
+        );
+        const data: ContractorRequestsResponse = await response.json();
+
+        if (!response.ok || !data.success || !data.requests) {
+          throw new Error(data.message || "Failed to load contractor requests");
+        }
+
+        setRequests(data.requests);
+      } catch (err: any) {
+        setRequestsError(err.message || "Failed to load contractor requests");
+      } finally {
+        setRequestsLoading(false);
+      }
+    };
+
+    fetchRequests();
+  }, [slug, showAll, authLoading, session?.access_token]);
+
+  const submitStatusChange = async (id: number, change: ContractorStatusChange) => {
+    setReviewingId(id);
+    setMessage("");
+
+    try {
+      const response = await fetch(
+        `/api/admin/companies/${slug}/contractor-requests/${id}/status`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json", ...authHeaders },
+          body: JSON.stringify(change),
+        },
+      );
+      const data: ContractorReviewResponse = await response.json();
+
+      if (!response.ok || !data.success || !data.request) {
+        throw new Error(data.message || "Failed to review contractor request");
+      }
+
+      const reviewed = data.request;
+      setRequests((current) =>
+        showAll || reviewed.status === "pending"
+          ? current.map((request) => (request.id === reviewed.id ? reviewed : request))
+          : current.filter((request) => request.id !== reviewed.id),
+      );
+      setPendingChange(null);
+      setReason("");
+      setMessage(`${data.message}: ${reviewed.email}`);
+    } catch (err: any) {
+      setMessage(err.message || "An error occurred");
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  const handleTransition = (id: number, transition: ContractorTransition) => {
+    if (CONTRACTOR_STATUSES_REQUIRING_REASON.includes(transition.to)) {
+      setPendingChange({ id, transition });
+      setReason("");
+    } else {
+      submitStatusChange(id, { status: transition.to });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-green-50">
+      {/* Header */}
+      <header className="border-b bg-white/80 backdrop-blur-sm sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <div className="w-8 h-8 bg-gradient-to-r from-blue-600 to-green-600 rounded-lg flex items-center justify-center">
+              <span className="text-white font-bold text-sm">FD</span>
+            </div>
+            <span className="text-xl font-bold text-gray-900">FairDataUse</span>
+          </div>
+          <div className="flex items-center space-x-6">
+            <nav className="hidden md:flex space-x-6">
+              <a
+                href={`/companies/${slug}`}
+                className="text-gray-600 hover:text-gray-900 transition-colors"
+              >
+                ← Back to Company Page
+              </a>
+            </nav>
+            <UserMenu />
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-16">
+        <div className="max-w-4xl mx-auto">
+          <div className="text-center mb-12">
+            <h1 className="text-4xl font-bold text-gray-900 mb-4">
+              Contractor Requests
+            </h1>
+            <p className="text-xl text-gray-600">
+              Review who has asked to join this company. Accepted contractors can start work immediately.
+            </p>
+          </div>
+
+          {!authLoading && !user && (
+            <Alert className="mb-8">
+              <AlertDescription>
+                Please sign in with a company admin account to review contractor requests.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {message && (
+            <Alert className="mb-8 border-blue-200 bg-blue-50">
+              <AlertDescription className="text-blue-800">{message}</AlertDescription>
+            </Alert>
+          )}
+
+          {requestsError && (
+            <Alert variant="destructive" className="mb-8">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>{requestsError}</AlertDescription>
+            </Alert>
+          )}
+
+          {user && (
+            <div className="mb-6 flex justify-end gap-2">
+              <Button
+                variant={showAll ? "outline" : "default"}
+                size="sm"
+                onClick={() => setShowAll(false)}
+              >
+                Pending
+              </Button>
+              <Button
+                variant={showAll ? "default" : "outline"}
+                size="sm"
+                onClick={() => setShowAll(true)}
+              >
+                All requests
+              </Button>
+            </div>
+          )}
+
+          {requestsLoading && (
+            <div className="flex items-center justify-center p-8">
+              <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+            </div>
+          )}
+
+          {!requestsLoading && !requestsError && user && requests.length === 0 && (
+            <p className="text-center text-gray-600 py-12">
+              {showAll ? "No contractor requests yet." : "No pending contractor requests."}
+            </p>
+          )}
+
+          <div className="space-y-4">
+            {requests.map((request) => (
+              <Card key={request.id}>
+                <CardHeader className="pb-3">
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="text-lg">{request.email}</CardTitle>
+                    <Badge className={STATUS_BADGES[request.status]}>{request.status}</Badge>
+                  </div>
+                  <CardDescription>
+                    u/{request.redditUsername} · requested{" "}
+                    {new Date(request.createdAt).toLocaleDateString()}
+                  </CardDescription>
+                </CardHeader>
+
+                {(getAllowedTransitions(request.status, "company").length > 0 ||
+                  RATEABLE_STATUSES.includes(request.status)) && (
+                  <CardContent className="space-y-3">
+                    {pendingChange?.id === request.id ? (
+                      <>
+                        <Textarea
+                          aria-label={`Reason for ${pendingChange.transition.label.toLowerCase()} ${request.email}`}
+                          placeholder="Tell the contractor why"
+                          value={reason}
+                          onChange={(e) => setReason(e.target.value)}
+                        />
+                        <div className="flex gap-2">
+                          <Button
+                            variant="destructive"
+                            disabled={!reason.trim() || reviewingId === request.id}
+                            onClick={() =>
+                              submitStatusChange(request.id, {
+                                status: pendingChange.transition.to,
+                                reason,
+                              })
+                            }
+                          >
+                            Confirm {pendingChange.transition.label}
+                          </Button>
+                          <Button variant="ghost" onClick={() => setPendingChange(null)}>
+                            Cancel
+                          </Button>
+                        </div>
+                      </>
+                    ) : (
+                      <div className="flex gap-2">
+                        {getAllowedTransitions(request.status, "company").map((transition) => (
+                          <Button
+                            key={transition.to}
+                            variant={DESTRUCTIVE_STATUSES.includes(transition.to) ? "outline" : "default"}
+                            disabled={reviewingId === request.id}
+                            onClick={() => handleTransition(request.id, transition)}
+                          >
+                            {reviewingId === request.id && (
+                              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                            )}
+                            {transition.label}
+                          </Button>
+                        ))}
+                      </div>
+                    )}
+                    {RATEABLE_STATUSES.includes(request.status) && (
+                      <RateContractor
+                        slug={slug!}
+                        request={request}
+                        authHeaders={authHeaders}
+                        onRated={setMessage}
+                      />
+                    )}
+                  </CardContent>
+                )}
+              </Card>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,950 @@
+import { useState, useEffect } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2, ExternalLink, CheckCircle, Clock, AlertTriangle, Star, Flag } from "lucide-react";
+import {
+  ContractorRequestSchema,
+  LIVE_CONTRACTOR_STATUSES,
+  PERFORMANCE_REVIEW_MAX_RATING,
+  type BonusRule,
+  type Company,
+  type CompanyResponse,
+  type CompanyReview,
+  type CompanyReviewFlagResponse,
+  type CompanyReviewResponse,
+  type CompanyReviewsResponse,
+  type ContractorRequest,
+  type ContractorRequestResponse,
+  type ContractorStatus,
+  type MyContractorRequest,
+  type MyContractorRequestsResponse,
+  type SigningBonusProgress,
+  type SigningBonusResponse,
+  type WithdrawContractorRequestResponse,
+} from "@shared/schemas";
+import { useAuth } from "@/hooks/useAuth";
+import { useCurrency } from "@/hooks/useCurrency";
+import { UserMenu } from "@/components/UserMenu";
+import NotFound from "./NotFound";
+
+const REQUEST_STATUS_DESCRIPTIONS: Record<ContractorStatus, string> = {
+  pending: "We've notified the company. Check your email within 72 hours.",
+  accepted: "The company accepted your request.",
+  active: "You're working with this company.",
+  rejected: "The company declined your request.",
+  withdrawn: "You withdrew your request.",
+  suspended: "Your work with this company is suspended.",
+  completed: "Your work with this company is complete.",
+};
+
+const BONUS_TERMS: Record<BonusRule, (threshold: number) => string> = {
+  approved_hours: (threshold) => `${threshold} approved hours`,
+  submitted_tasks: (threshold) => `${threshold} submitted tasks`,
+  review_rating: (threshold) => `a ${threshold}+ star review`,
+};
+
+const BONUS_PROGRESS: Record<BonusRule, (progress: number, threshold: number) => string> = {
+  approved_hours: (progress, threshold) => `${progress} of ${threshold} approved hours`,
+  submitted_tasks: (progress, threshold) => `${progress} of ${threshold} submitted tasks`,
+  review_rating: (progress, threshold) =>
+    progress > 0
+      ? `Best review so far: ${progress} of ${threshold} stars needed`
+      : `No reviews yet. You need ${threshold} stars or more.`,
+};
+
+// Requests that have been working toward the signing bonus
+const BONUS_STATUSES: ContractorStatus[] = ["accepted", "active", "suspended", "completed"];
+
+function Stars({ rating, label }: { rating: number; label: string }) {
+  return (
+    <div className="flex items-center gap-0.5" aria-label={label}>
+      {Array.from({ length: PERFORMANCE_REVIEW_MAX_RATING }, (_, i) => i + 1).map((stars) => (
+        <Star
+          key={stars}
+          className={`h-4 w-4 ${stars <= Math.round(rating) ? "fill-yellow-400 text-yellow-400" : "text-gray-300"}`}
+        />
+      ))}
+    </div>
+  );
+}
+
+function CompanyReviews({
+  company,
+  canReview,
+  authHeaders,
+}: {
+  company: Company;
+  canReview: boolean;
+  authHeaders?: Record<string, string>;
+}) {
+  const [reviews, setReviews] = useState<CompanyReview[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [message, setMessage] = useState("");
+  const [rating, setRating] = useState(0);
+  const [comment, setComment] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [reviewed, setReviewed] = useState(false);
+  const [reportingId, setReportingId] = useState<number | null>(null);
+  const [reportReason, setReportReason] = useState("");
+  const [reportedIds, setReportedIds] = useState<number[]>([]);
+
+  const fetchReviews = async (cursor?: string) => {
+    const params = cursor ? `?${new URLSearchParams({ cursor })}` : "";
+    const response = await fetch(`/api/companies/${company.slug}/reviews${params}`);
+    const data: CompanyReviewsResponse = await response.json();
+
+    if (!response.ok || !data.success) {
+      throw new Error(data.message || "Failed to load reviews");
+    }
+    return data;
+  };
+
+  useEffect(() => {
+    let ignore = false;
+
+    fetchReviews()
+      .then((data) => {
+        if (ignore) return;
+        setReviews(data.reviews ?? []);
+        setNextCursor(data.nextCursor ?? null);
+      })
+      .catch((err) => console.warn("Failed to load company reviews:", err));
+
+    return () => {
+      ignore = true;
+    };
+  }, [company.slug]);
+
+  const handleLoadMore = async () => {
+    if (!nextCursor) return;
+    setLoadingMore(true);
+
+    try {
+      const data = await fetchReviews(nextCursor);
+      setReviews((current) => [...current, ...(data.reviews ?? [])]);
+      setNextCursor(data.nextCursor ?? null);
+    } catch (err: any) {
+      setMessage(err.message || "An error occurred");
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const handleSubmitReview = async () => {
+    setSaving(true);
+
+    try {
+      const response = await fetch(`/api/companies/${company.slug}/reviews`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...authHeaders },
+        body: JSON.stringify({ rating, comment }),
+      });
+      const data: CompanyReviewResponse = await response.json();
+
+      // 409 means the user already reviewed the company, so stop offering the form
+      if (response.status === 409) setReviewed(true);
+      if (!response.ok || !data.success || !data.review) {
+        throw new Error(data.message || "Failed to save review");
+      }
+
+      setReviews((current) => [data.review!, ...current]);
+      setReviewed(true);
+      setMessage(data.message);
+    } catch (err: any) {
+      setMessage(err.message || "An error occurred");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReport = async (reviewId: number) => {
+    try {
+      const response = await fetch(`/api/companies/${company.slug}/reviews/${reviewId}/flags`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...authHeaders },
+        body: JSON.stringify({ reason: reportReason }),
+      });
+      const data: CompanyReviewFlagResponse = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.message || "Failed to report review");
+      }
+
+      setReportedIds((current) => [...current, reviewId]);
+      setReportingId(null);
+      setReportReason("");
+      setMessage(data.message);
+    } catch (err: any) {
+      setMessage(err.message || "An error occurred");
+    }
+  };
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle>Contractor Reviews</CardTitle>
+        <CardDescription>
+          {company.rating === null ? (
+            "No reviews yet"
+          ) : (
+            <span className="flex items-center gap-2">
+              <Stars rating={company.rating} label={`Rated ${company.rating.toFixed(1)} out of 5`} />
+              {company.rating.toFixed(1)} from {company.reviewCount}{" "}
+              {company.reviewCount === 1 ? "review" : "reviews"} by contractors who completed work here
+            </span>
+          )}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {message && (
+          <Alert>
+            <AlertDescription>{message}</AlertDescription>
+          </Alert>
+        )}
+
+        {canReview && !reviewed && (
+          <div className="space-y-2 border-b pb-4">
+            <h4 className="font-semibold text-gray-900">How was working with {company.name}?</h4>
+            <div className="flex items-center gap-1">
+              {Array.from({ length: PERFORMANCE_REVIEW_MAX_RATING }, (_, i) => i + 1).map((stars) => (
+                <button
+                  key={stars}
+                  type="button"
+                  aria-label={`Rate ${company.name} ${stars} stars`}
+                  aria-pressed={rating === stars}
+                  onClick={() => setRating(stars)}
+                >
+                  <Star
+                    className={`h-5 w-5 ${stars <= rating ? "fill-yellow-400 text-yellow-400" : "text-gray-300"}`}
+                  />
+                </button>
+              ))}
+            </div>
+            <Textarea
+              aria-label="Your review"
+              placeholder="What should other contractors know? (optional)"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              rows={3}
+            />
+            <Button size="sm" disabled={rating === 0 || saving} onClick={handleSubmitReview}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Post Review
+            </Button>
+          </div>
+        )}
+
+        {reviews.map((review) => (
+          <div key={review.id} className="space-y-1 border-b pb-3 last:border-b-0">
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <Stars rating={review.rating} label={`${review.rating} stars`} />
+                <span className="text-xs text-gray-500">
+                  {new Date(review.createdAt).toLocaleDateString()}
+                </span>
+              </div>
+              {authHeaders && !reportedIds.includes(review.id) && reportingId !== review.id && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  aria-label={`Report review ${review.id}`}
+                  onClick={() => {
+                    setReportingId(review.id);
+                    setReportReason("");
+                  }}
+                >
+                  <Flag className="h-3 w-3 mr-1" />
+                  Report
+                </Button>
+              )}
+            </div>
+            {review.comment && <p className="text-gray-700 text-sm">{review.comment}</p>}
+            {reportingId === review.id && (
+              <div className="space-y-2">
+                <Textarea
+                  aria-label="Why are you reporting this review?"
+                  placeholder="Abusive, off-topic, not a real engagement..."
+                  value={reportReason}
+                  onChange={(e) => setReportReason(e.target.value)}
+                  rows={2}
+                />
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    variant="destructive"
+                    disabled={!reportReason.trim()}
+                    onClick={() => handleReport(review.id)}
+                  >
+                    Send Report
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => setReportingId(null)}>
+                    Cancel
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+
+        {nextCursor && (
+          <Button variant="outline" className="w-full" disabled={loadingMore} onClick={handleLoadMore}>
+            {loadingMore && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Load More Reviews
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function CompanyDetail() {
+  const { slug } = useParams<{ slug: string }>();
+  const navigate = useNavigate();
+  const { user, session } = useAuth();
+  const { currency, currencyLoading, formatCurrency } = useCurrency();
+  const [company, setCompany] = useState<Company | null>(null);
+  const [companyLoading, setCompanyLoading] = useState(true);
+  const [companyError, setCompanyError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [joinSlackRequested, setJoinSlackRequested] = useState(false);
+  const [canStartJob, setCanStartJob] = useState(false);
+  const [myRequest, setMyRequest] = useState<MyContractorRequest | null>(null);
+  const [withdrawing, setWithdrawing] = useState(false);
+  const [message, setMessage] = useState("");
+  const [signingBonus, setSigningBonus] = useState<SigningBonusProgress | null>(null);
+
+  const authHeaders = session?.access_token
+    ? { Authorization: `Bearer ${session.access_token}` }
+    : undefined;
+
+  const applyMyRequest = (request: MyContractorRequest | null) => {
+    setMyRequest(request);
+    // Rejected, withdrawn and completed requests leave the user free to ask again
+    setJoinSlackRequested(request !== null && LIVE_CONTRACTOR_STATUSES.includes(request.status));
+    setCanStartJob(request?.canStartJob ?? false);
+  };
+
+  const fetchMyRequest = async (): Promise<MyContractorRequest | null> => {
+    if (!authHeaders) return null;
+
+    try {
+      const response = await fetch("/api/me/contractor-requests", { headers: authHeaders });
+      const data: MyContractorRequestsResponse = await response.json();
+
+      // 404 means no qualification record yet, so there can be no request
+      if (!response.ok || !data.success || !data.requests) return null;
+
+      // Requests come newest first, and only the newest for a company can still be live
+      return data.requests.find((request) => request.companySlug === slug) ?? null;
+    } catch (err) {
+      console.warn("Failed to load existing contractor requests:", err);
+      return null;
+    }
+  };
+
+  // Restore the button state from any request the user already made, so a
+  // reload never offers a duplicate request
+  useEffect(() => {
+    let ignore = false;
+
+    fetchMyRequest().then((request) => {
+      if (!ignore) applyMyRequest(request);
+    });
+
+    return () => {
+      ignore = true;
+    };
+  }, [slug, session?.access_token]);
+
+  useEffect(() => {
+    if (!authHeaders || !myRequest || !BONUS_STATUSES.includes(myRequest.status)) {
+      setSigningBonus(null);
+      return;
+    }
+
+    let ignore = false;
+
+    fetch(`/api/me/engagements/${myRequest.id}/signing-bonus`, { headers: authHeaders })
+      .then(async (response) => {
+        const data: SigningBonusResponse = await response.json();
+        if (!ignore) setSigningBonus(response.ok && data.success ? (data.bonus ?? null) : null);
+      })
+      .catch((err) => console.warn("Failed to load signing bonus progress:", err));
+
+    return () => {
+      ignore = true;
+    };
+  }, [myRequest?.id, myRequest?.status, session?.access_token]);
+
+  useEffect(() => {
+    const fetchCompany = async () => {
+      try {
+        setCompanyLoading(true);
+        setCompanyError(null);
+
+        const response = await fetch(`/api/companies/${slug}`);
+        const data: CompanyResponse = await response.json();
+
+        if (response.ok && data.success && data.company) {
+          setCompany(data.company);
+        } else if (response.status === 404) {
+          setCompany(null);
+        } else {
+          throw new Error(data.message || "Failed to load company");
+        }
+      } catch (err: any) {
+        setCompanyError(err.message || "Failed to load company");
+      } finally {
+        setCompanyLoading(false);
+      }
+    };
+
+    fetchCompany();
+  }, [slug]);
+
+  const handleJoinSlack = async () => {
+    // Check if user is authenticated
+    if (!user?.email) {
+      setMessage("Please sign in to join this company. Click the user menu in the top right to sign in.");
+      return;
+    }
+
+    setLoading(true);
+    setMessage("");
+
+    try {
+      const requestData: ContractorRequest = {
+        companySlug: company.slug,
+        companyName: company.name,
+      };
+
+      const validatedData = ContractorRequestSchema.parse(requestData);
+
+      const response = await fetch("/api/contractor-request", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(session?.access_token && {
+            Authorization: `Bearer ${session.access_token}`,
+          }),
+        },
+        body: JSON.stringify(validatedData),
+      });
+
+      // Check if response is OK first
+      if (!response.ok) {
+        // Try to parse JSON error message, fallback to status text
+        let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
+        try {
+          const errorData = await response.json();
+          if (errorData.message) {
+            errorMessage = errorData.message;
+
+            // Special handling for "User not found" error
+            if (errorData.message.includes("User not found") || errorData.message.includes("qualification form")) {
+              errorMessage = "You need to complete the qualification form first. Redirecting you there now...";
+              setTimeout(() => {
+                navigate("/social-qualify-form");
+              }, 3000);
+            }
+          }
+        } catch {
+          // If JSON parsing fails, use the default error message
+        }
+        throw new Error(errorMessage);
+      }
+
+      // Only parse JSON if response is OK
+      const result: ContractorRequestResponse = await response.json();
+
+      if (result.success) {
+        setJoinSlackRequested(true);
+        setMessage(result.message);
+
+        // Pick up the new request's id so it can be withdrawn
+        const created = await fetchMyRequest();
+        if (created) applyMyRequest(created);
+      }
+    } catch (err: any) {
+      setMessage(err.message || "An error occurred");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleWithdraw = async () => {
+    if (!myRequest) return;
+
+    setWithdrawing(true);
+    setMessage("");
+
+    try {
+      const response = await fetch(`/api/me/contractor-requests/${myRequest.id}`, {
+        method: "DELETE",
+        headers: authHeaders,
+      });
+      const data: WithdrawContractorRequestResponse = await response.json();
+
+      if (!response.ok || !data.success || !data.request) {
+        throw new Error(data.message || "Failed to withdraw request");
+      }
+
+      applyMyRequest(data.request);
+      setMessage(data.message);
+    } catch (err: any) {
+      setMessage(err.message || "An error occurred");
+    } finally {
+      setWithdrawing(false);
+    }
+  };
+
+  const handleStartJob = () => {
+    navigate("/dashboard");
+  };
+
+  if (companyLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  if (companyError) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <Alert variant="destructive" className="max-w-md">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>{companyError}</AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  if (!company) {
+    return <NotFound />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-green-50">
+      {/* Header */}
+      <header className="border-b bg-white/80 backdrop-blur-sm sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <div className="w-8 h-8 bg-gradient-to-r from-blue-600 to-green-600 rounded-lg flex items-center justify-center">
+              <span className="text-white font-bold text-sm">FD</span>
+            </div>
+            <span className="text-xl font-bold text-gray-900">FairDataUse</span>
+          </div>
+          <div className="flex items-center space-x-6">
+            <nav className="hidden md:flex space-x-6">
+              <a
+                href="/marketplace"
+                className="text-gray-600 hover:text-gray-900 transition-colors"
+              >
+                ← Back to Marketplace
+              </a>
+              <a
+                href="/marketplace"
+                className="text-gray-600 hover:text-gray-900 transition-colors"
+              >
+                Browse Companies
+              </a>
+            </nav>
+            <UserMenu />
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-16">
+        <div className="max-w-4xl mx-auto">
+          {/* Company Header */}
+          <div className="text-center mb-12">
+            <div className={`w-20 h-20 bg-gradient-to-r ${company.gradient} rounded-full flex items-center justify-center mx-auto mb-6`}>
+              <span className="text-white font-bold text-2xl">{company.acronym}</span>
+            </div>
+            <h1 className="text-4xl font-bold text-gray-900 mb-4">
+              {company.name}
+            </h1>
+            {company.websiteUrl && (
+              <div className="flex items-center justify-center gap-4 mb-4">
+                <a
+                  href={company.websiteUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center gap-2 text-blue-600 hover:text-blue-700 transition-colors"
+                >
+                  <ExternalLink className="w-4 h-4" />
+                  {new URL(company.websiteUrl).hostname}
+                </a>
+              </div>
+            )}
+            <p className="text-xl text-gray-600 max-w-2xl mx-auto">
+              {company.description}
+            </p>
+          </div>
+
+          {/* Compensation */}
+          <Card className="mb-8 border-green-200 bg-green-50">
+            <CardHeader>
+              <CardTitle className="text-green-800 flex items-center gap-2">
+                💰 Compensation Package
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-center">
+                <div className="text-3xl font-bold text-green-600 mb-2">
+                  {currencyLoading
+                    ? "$--/hour + $--- bonus"
+                    : `${formatCurrency(company.hourlyRate)}/hour + ${formatCurrency(company.bonus)} performance bonus`}
+                </div>
+                <p className="text-green-700">
+                  Competitive hourly rate with significant performance
+                  incentives
+                </p>
+                <p className="text-sm text-green-700 mt-2">
+                  Bonus paid after {BONUS_TERMS[company.bonusRule](company.bonusThreshold)}
+                </p>
+                {signingBonus && (
+                  <div className="mt-4 space-y-2 text-left">
+                    <Progress
+                      value={Math.min(100, (signingBonus.progress / signingBonus.threshold) * 100)}
+                      aria-label="Signing bonus progress"
+                    />
+                    <p className="text-sm text-green-800">
+                      {signingBonus.unlockedAt
+                        ? `Bonus unlocked ${new Date(signingBonus.unlockedAt).toLocaleDateString()} and added to your earnings`
+                        : BONUS_PROGRESS[signingBonus.rule](signingBonus.progress, signingBonus.threshold)}
+                    </p>
+                  </div>
+                )}
+                {currency.code !== "USD" && !currencyLoading && (
+                  <p className="text-sm text-green-600 mt-2">
+                    Prices shown in {currency.code} (converted from USD)
+                  </p>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Info Section */}
+          <div className="mt-16 mb-16 bg-blue-50 rounded-lg p-8 border border-blue-200">
+            <div className="text-center max-w-4xl mx-auto">
+              <AlertTriangle className="w-12 h-12 text-blue-600 mx-auto mb-4" />
+              <h3 className="text-2xl font-bold text-blue-900 mb-4">
+                How Our Marketplace Works
+              </h3>
+              <div className="space-y-4 text-blue-800">
+                <p>
+                  <strong>Step 1:</strong> Complete your first assignment with your first match ({company.name}) to establish your reputation and work quality.
+                </p>
+                <p>
+                  <strong>Step 2:</strong> Receive a positive review (4+ stars) from your initial company to unlock additional opportunities.
+                </p>
+                <p>
+                  <strong>Step 3:</strong> Browse and apply to work with multiple companies simultaneously, increasing your earning potential.
+                </p>
+                <p className="text-sm">
+                  This system ensures high-quality part-ttime contractors and helps companies find reliable talent through proven track records.
+                </p>
+              </div>
+            </div>
+          </div>
+
+          {/* Current Tasks */}
+          {company.tasks.length > 0 && (
+            <Card className="mb-8">
+              <CardHeader>
+                <CardTitle>Part-time Tasks</CardTitle>
+                <CardDescription>
+                  What you'll be doing for {company.name}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  {company.tasks.map((task) => (
+                    <div key={task.title} className="flex items-start gap-3">
+                      <div className="w-2 h-2 bg-blue-600 rounded-full mt-2"></div>
+                      <div>
+                        <h4 className="font-semibold text-gray-900">
+                          {task.title}
+                        </h4>
+                        <p className="text-gray-600">{task.description}</p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Reviews */}
+          <CompanyReviews
+            company={company}
+            canReview={myRequest?.status === "completed"}
+            authHeaders={authHeaders}
+          />
+
+          {/* How It Works */}
+          <Card className="mb-8">
+            <CardHeader>
+              <CardTitle>Onboarding & Payment Process</CardTitle>
+              <CardDescription>
+                Step-by-step process to get started
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-6">
+                <div className="flex items-start gap-4">
+                  <div className="w-8 h-8 bg-blue-600 text-white rounded-full flex items-center justify-center font-bold text-sm">
+                    1
+                  </div>
+                  <div>
+                    <h4 className="font-semibold text-gray-900 mb-2">
+                      Join Company Slack
+                    </h4>
+                    <p className="text-gray-600">
+                      Click the "Join Slack" button below. We'll contact{" "}
+                      {company.name} to get an invite link sent to you within 72 hours.
+                    </p>
+                  </div>
+                </div>
+
+                <div className="flex items-start gap-4">
+                  <div className="w-8 h-8 bg-blue-600 text-white rounded-full flex items-center justify-center font-bold text-sm">
+                    2
+                  </div>
+                  <div>
+                    <h4 className="font-semibold text-gray-900 mb-2">
+                      Review Getting Started Docs
+                    </h4>
+                    <p className="text-gray-600">
+                      Once you join their Slack, they'll provide comprehensive
+                      how-to-get-started documentation. Read through everything
+                      carefully.
+                    </p>
+                  </div>
+                </div>
+
+                <div className="flex items-start gap-4">
+                  <div className="w-8 h-8 bg-blue-600 text-white rounded-full flex items-center justify-center font-bold text-sm">
+                    3
+                  </div>
+                  <div>
+                    <h4 className="font-semibold text-gray-900 mb-2">
+                      Start Job & Payment Security
+                    </h4>
+                    <p className="text-gray-600">
+                      Return here and click "Start Job". We'll automatically
+                      deduct 1 month's pay from their company account to ensure
+                      you get paid.
+                    </p>
+                  </div>
+                </div>
+
+                <div className="flex items-start gap-4">
+                  <div className="w-8 h-8 bg-blue-600 text-white rounded-full flex items-center justify-center font-bold text-sm">
+                    4
+                  </div>
+                  <div>
+                    <h4 className="font-semibold text-gray-900 mb-2">
+                      Daily Task Submission
+                    </h4>
+                    <p className="text-gray-600">
+                      Complete daily tasks and submit proof (links, screenshots)
+                      here. A FairDataUse team member will verify within 7 days
+                      and release your weekly payment.
+                    </p>
+                  </div>
+                </div>
+
+                <div className="flex items-start gap-4">
+                  <div className="w-8 h-8 bg-green-600 text-white rounded-full flex items-center justify-center font-bold text-sm">
+                    5
+                  </div>
+                  <div>
+                    <h4 className="font-semibold text-gray-900 mb-2">
+                      Payment Setup
+                    </h4>
+                    <p className="text-gray-600">
+                      After your first payment is released, you'll receive a
+                      Stripe link to set up direct deposit for future payments.
+                    </p>
+                  </div>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Authentication Status */}
+          {!user?.email && (
+            <Alert className="mb-6 border-orange-200 bg-orange-50">
+              <AlertTriangle className="h-4 w-4 text-orange-600" />
+              <AlertDescription className="text-orange-800">
+                <strong>Sign in required:</strong> You need to be signed in to join this company.
+                Click the user menu in the top right corner to sign in with your email.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {user?.email && (
+            <Alert className="mb-6 border-green-200 bg-green-50">
+              <CheckCircle className="h-4 w-4 text-green-600" />
+              <AlertDescription className="text-green-800">
+                <strong>Signed in as:</strong> {user.email}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {/* Messages */}
+          {message && (
+            <Alert className={`mb-6 ${message.includes("Redirecting") ? "border-blue-200 bg-blue-50" : ""}`}>
+              <AlertDescription>{message}</AlertDescription>
+            </Alert>
+          )}
+
+          {/* Action Buttons */}
+          <div className="grid md:grid-cols-2 gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  {joinSlackRequested ? (
+                    <>
+                      <CheckCircle className="w-5 h-5 text-green-600" />
+                      Slack Request Sent
+                    </>
+                  ) : (
+                    <>
+                      <Clock className="w-5 h-5 text-blue-600" />
+                      Join Company Slack
+                    </>
+                  )}
+                </CardTitle>
+                <CardDescription>
+                  {myRequest || joinSlackRequested
+                    ? REQUEST_STATUS_DESCRIPTIONS[myRequest?.status ?? "pending"]
+                    : "Request an invitation to the company's Slack workspace"}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Button
+                  onClick={handleJoinSlack}
+                  disabled={loading || joinSlackRequested}
+                  className="w-full"
+                  variant={joinSlackRequested ? "secondary" : "default"}
+                >
+                  {loading ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Requesting...
+                    </>
+                  ) : joinSlackRequested ? (
+                    "Request Sent ✓"
+                  ) : !user?.email ? (
+                    "Sign In to Join Slack"
+                  ) : myRequest ? (
+                    "Request Again"
+                  ) : (
+                    "Join Slack"
+                  )}
+                </Button>
+                {!user?.email && (
+                  <p className="text-xs text-gray-500 mt-2 text-center">
+                    You must be signed in to request Slack access
+                  </p>
+                )}
+                {myRequest?.status === "pending" && (
+                  <Button
+                    onClick={handleWithdraw}
+                    disabled={withdrawing}
+                    variant="ghost"
+                    className="w-full mt-2"
+                  >
+                    {withdrawing ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        Withdrawing...
+                      </>
+                    ) : (
+                      "Withdraw Request"
+                    )}
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  {canStartJob ? (
+                    <>
+                      <CheckCircle className="w-5 h-5 text-green-600" />
+                      Ready to Start
+                    </>
+                  ) : (
+                    <>
+                      <Clock className="w-5 h-5 text-gray-400" />
+                      Start Job
+                    </>
+                  )}
+                </CardTitle>
+                <CardDescription>
+                  {canStartJob
+                    ? "The company has approved you as a contractor"
+                    : "Available after company approval"}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Button
+                  onClick={handleStartJob}
+                  disabled={!canStartJob}
+                  className="w-full"
+                  variant={canStartJob ? "default" : "secondary"}
+                >
+                  {canStartJob ? "Start Job" : "Waiting for Approval"}
+                </Button>
+                {!canStartJob && (
+                  <p className="text-xs text-gray-500 mt-2 text-center">
+                    This button will be enabled once the company accepts you as
+                    a contractor
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Security Notice */}
+          <Card className="mt-8 border-blue-200 bg-blue-50">
+            <CardContent className="pt-6">
+              <div className="flex items-start gap-3">
+                <div className="text-blue-600 text-xl">🔒</div>
+                <div>
+                  <h4 className="font-semibold text-blue-900 mb-2">
+                    Payment Protection
+                  </h4>
+                  <p className="text-blue-800 text-sm">
+                    FairDataUse holds company funds in escrow to guarantee your
+                    payment. You'll only work after we've secured payment for
+                    your services.
+                  </p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
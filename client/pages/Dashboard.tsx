@@ -0,0 +1,797 @@
+import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2, AlertTriangle, CheckCircle, Paperclip } from "lucide-react";
+import {
+  ManualTimeEntrySchema,
+  TASK_ATTACHMENT_MAX_BYTES,
+  TASK_ATTACHMENT_MAX_FILES,
+  TaskSubmissionSchema,
+  type ContractorStatus,
+  type DashboardResponse,
+  type DashboardTask,
+  type Engagement,
+  type RedditOwnershipResponse,
+  type RedditOwnershipStatus,
+  type RedditVerificationCodeResponse,
+  type RedditVerificationStatusResponse,
+  type TaskAttachmentInput,
+  type TaskSubmissionResponse,
+  type TaskSubmissionSummary,
+  type TimeEntriesResponse,
+  type TimeEntry,
+  type TimeEntryResponse,
+  type TimeEntryStatus,
+  type TimesheetTotals,
+} from "@shared/schemas";
+import { useAuth } from "@/hooks/useAuth";
+import { UserMenu } from "@/components/UserMenu";
+
+const STATUS_BADGES: Partial<Record<ContractorStatus, string>> = {
+  accepted: "bg-green-100 text-green-800",
+  active: "bg-blue-100 text-blue-800",
+  suspended: "bg-orange-100 text-orange-800",
+};
+
+// The file's contents as base64, without the data: URL prefix
+function readFileAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(",")[1] ?? "");
+    reader.onerror = () => reject(reader.error ?? new Error(`Could not read ${file.name}`));
+    reader.readAsDataURL(file);
+  });
+}
+
+function formatSize(bytes: number): string {
+  return bytes < 1024 * 1024
+    ? `${Math.max(1, Math.round(bytes / 1024))} KB`
+    : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function SubmittedWork({ submission }: { submission: TaskSubmissionSummary }) {
+  return (
+    <div className="rounded-md border border-green-200 bg-green-50 p-3 text-sm space-y-2">
+      <div className="flex items-center gap-2 font-medium text-green-800">
+        <CheckCircle className="h-4 w-4" />
+        Submitted {new Date(submission.createdAt).toLocaleString()}
+      </div>
+      <p className="whitespace-pre-wrap text-gray-700">{submission.body}</p>
+      {submission.links.length > 0 && (
+        <ul className="space-y-1">
+          {submission.links.map((link) => (
+            <li key={link}>
+              <a
+                href={link}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-blue-600 hover:underline break-all"
+              >
+                {link}
+              </a>
+            </li>
+          ))}
+        </ul>
+      )}
+      {submission.attachments.length > 0 && (
+        <ul className="space-y-1 text-gray-600">
+          {submission.attachments.map((attachment) => (
+            <li key={attachment.id} className="flex items-center gap-1">
+              <Paperclip className="h-3 w-3" />
+              {attachment.filename} ({formatSize(attachment.sizeBytes)})
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function TaskSubmissionForm({
+  task,
+  authHeaders,
+  onSubmitted,
+}: {
+  task: DashboardTask;
+  authHeaders?: Record<string, string>;
+  onSubmitted: (submission: TaskSubmissionSummary) => void;
+}) {
+  const [body, setBody] = useState("");
+  const [links, setLinks] = useState("");
+  const [files, setFiles] = useState<File[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState("");
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    // Checked before reading the files so a huge upload fails fast
+    if (files.length > TASK_ATTACHMENT_MAX_FILES) {
+      setError(`Attach at most ${TASK_ATTACHMENT_MAX_FILES} files`);
+      return;
+    }
+    if (files.reduce((sum, file) => sum + file.size, 0) > TASK_ATTACHMENT_MAX_BYTES) {
+      setError(`Attachments must be ${TASK_ATTACHMENT_MAX_BYTES / 1024 / 1024} MB or less in total`);
+      return;
+    }
+
+    setSubmitting(true);
+
+    try {
+      const attachments: TaskAttachmentInput[] = await Promise.all(
+        files.map(async (file) => ({
+          filename: file.name,
+          contentType: file.type || undefined,
+          data: await readFileAsBase64(file),
+        })),
+      );
+
+      const parsed = TaskSubmissionSchema.safeParse({
+        body,
+        links: links
+          .split("\n")
+          .map((link) => link.trim())
+          .filter(Boolean),
+        attachments,
+      });
+      if (!parsed.success) {
+        throw new Error(parsed.error.issues.map((issue) => issue.message).join(", "));
+      }
+
+      const response = await fetch(`/api/me/tasks/${task.id}/submissions`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...authHeaders },
+        body: JSON.stringify(parsed.data),
+      });
+      const data: TaskSubmissionResponse = await response.json();
+
+      if (!response.ok || !data.success || !data.submission) {
+        throw new Error(data.message || "Failed to submit your work");
+      }
+
+      onSubmitted(data.submission);
+    } catch (err: any) {
+      setError(err.message || "An error occurred");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div className="space-y-1">
+        <Label htmlFor={`task-${task.id}-body`}>What did you do?</Label>
+        <Textarea
+          id={`task-${task.id}-body`}
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          placeholder="Describe the work you did for this task"
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor={`task-${task.id}-links`}>Links (one per line)</Label>
+        <Textarea
+          id={`task-${task.id}-links`}
+          value={links}
+          onChange={(e) => setLinks(e.target.value)}
+          placeholder="https://reddit.com/r/..."
+          rows={2}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor={`task-${task.id}-files`}>Attachments</Label>
+        <Input
+          id={`task-${task.id}-files`}
+          type="file"
+          multiple
+          onChange={(e) => setFiles(Array.from(e.target.files ?? []))}
+        />
+        <p className="text-xs text-gray-500">
+          Up to {TASK_ATTACHMENT_MAX_FILES} files, {TASK_ATTACHMENT_MAX_BYTES / 1024 / 1024} MB in total
+        </p>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Button type="submit" disabled={submitting || !body.trim()}>
+        {submitting ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Submitting...
+          </>
+        ) : (
+          "Submit Work"
+        )}
+      </Button>
+    </form>
+  );
+}
+
+const TIME_ENTRY_BADGES: Record<TimeEntryStatus, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  approved: "bg-green-100 text-green-800",
+  disputed: "bg-red-100 text-red-800",
+};
+
+function formatHours(seconds: number): string {
+  return `${(seconds / 3600).toFixed(2)} h`;
+}
+
+// Hourly rates and amounts are USD cents
+function formatCents(cents: number): string {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+function TimeTracker({
+  engagement,
+  authHeaders,
+}: {
+  engagement: Engagement;
+  authHeaders?: Record<string, string>;
+}) {
+  const [entries, setEntries] = useState<TimeEntry[]>([]);
+  const [totals, setTotals] = useState<TimesheetTotals | null>(null);
+  const [week, setWeek] = useState("");
+  const [description, setDescription] = useState("");
+  const [startedAt, setStartedAt] = useState("");
+  const [endedAt, setEndedAt] = useState("");
+  // Set when the server says a timer is running that this week's entries don't show
+  const [runningElsewhere, setRunningElsewhere] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  const baseUrl = `/api/me/engagements/${engagement.contractorId}`;
+  const running = runningElsewhere || entries.some((entry) => entry.endedAt === null);
+
+  const loadEntries = async () => {
+    const response = await fetch(`${baseUrl}/time-entries`, { headers: authHeaders });
+    const data: TimeEntriesResponse = await response.json();
+
+    if (!response.ok || !data.success || !data.entries || !data.totals) {
+      throw new Error(data.message || "Failed to load your hours");
+    }
+
+    setEntries(data.entries);
+    setTotals(data.totals);
+    setWeek(data.week ?? "");
+  };
+
+  useEffect(() => {
+    loadEntries().catch((err) => setError(err.message || "Failed to load your hours"));
+  }, [engagement.contractorId]);
+
+  // Sends a time-entry request, then reloads the week so totals stay in step
+  const send = async (path: string, body: unknown) => {
+    setBusy(true);
+    setError("");
+
+    try {
+      const response = await fetch(`${baseUrl}${path}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...authHeaders },
+        body: JSON.stringify(body),
+      });
+      const data: TimeEntryResponse = await response.json();
+
+      if (!response.ok || !data.success) {
+        if (path === "/timer/start" && response.status === 409) {
+          setRunningElsewhere(true);
+        }
+        throw new Error(data.message || "Failed to save your hours");
+      }
+
+      await loadEntries();
+      return true;
+    } catch (err: any) {
+      setError(err.message || "An error occurred");
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleTimer = async () => {
+    if (running) {
+      if (await send("/timer/stop", {})) {
+        setRunningElsewhere(false);
+      }
+    } else if (await send("/timer/start", { description })) {
+      setDescription("");
+    }
+  };
+
+  const handleAddEntry = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    // datetime-local values are in the browser's time zone
+    const parsed = ManualTimeEntrySchema.safeParse({
+      startedAt: startedAt && new Date(startedAt).toISOString(),
+      endedAt: endedAt && new Date(endedAt).toISOString(),
+      description,
+    });
+    if (!parsed.success) {
+      setError(parsed.error.issues.map((issue) => issue.message).join(", "));
+      return;
+    }
+
+    if (await send("/time-entries", parsed.data)) {
+      setStartedAt("");
+      setEndedAt("");
+      setDescription("");
+    }
+  };
+
+  const handleDownload = async () => {
+    setError("");
+
+    try {
+      const response = await fetch(`${baseUrl}/timesheet.csv?week=${week}`, {
+        headers: authHeaders,
+      });
+      if (!response.ok) {
+        throw new Error("Failed to download your timesheet");
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `timesheet-${week}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      setError(err.message || "An error occurred");
+    }
+  };
+
+  return (
+    <div className="rounded-lg border p-4 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="font-semibold text-gray-900">Hours this week</h3>
+        <span className="text-sm text-gray-500">
+          {engagement.hourlyRateCents !== null
+            ? `${formatCents(engagement.hourlyRateCents)}/hr`
+            : "No hourly rate"}
+        </span>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-gray-600">No hours logged this week.</p>
+      ) : (
+        <ul className="space-y-2 text-sm">
+          {entries.map((entry) => (
+            <li key={entry.id} className="flex items-center justify-between gap-2">
+              <span className="text-gray-700">
+                {new Date(entry.startedAt).toLocaleString()}
+                {entry.description && ` · ${entry.description}`}
+                {entry.disputeReason && (
+                  <span className="block text-red-700">{entry.disputeReason}</span>
+                )}
+              </span>
+              <span className="flex items-center gap-2 whitespace-nowrap">
+                {entry.durationSeconds === null ? "Running" : formatHours(entry.durationSeconds)}
+                <Badge className={TIME_ENTRY_BADGES[entry.status]}>{entry.status}</Badge>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {totals && (
+        <p className="text-sm text-gray-700">
+          Total {formatHours(totals.seconds)} · Approved {formatHours(totals.approvedSeconds)} (
+          {formatCents(totals.approvedAmountCents)})
+        </p>
+      )}
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {engagement.canStartJob && (
+        <form onSubmit={handleAddEntry} className="space-y-3">
+          <div className="space-y-1">
+            <Label htmlFor={`hours-${engagement.contractorId}-description`}>Working on</Label>
+            <Input
+              id={`hours-${engagement.contractorId}-description`}
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="What are you working on?"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor={`hours-${engagement.contractorId}-start`}>Started</Label>
+              <Input
+                id={`hours-${engagement.contractorId}-start`}
+                type="datetime-local"
+                value={startedAt}
+                onChange={(e) => setStartedAt(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor={`hours-${engagement.contractorId}-end`}>Ended</Label>
+              <Input
+                id={`hours-${engagement.contractorId}-end`}
+                type="datetime-local"
+                value={endedAt}
+                onChange={(e) => setEndedAt(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button type="button" onClick={handleTimer} disabled={busy}>
+              {running ? "Stop Timer" : "Start Timer"}
+            </Button>
+            <Button type="submit" variant="outline" disabled={busy || !startedAt || !endedAt}>
+              Log Hours
+            </Button>
+            <Button type="button" variant="outline" onClick={handleDownload} disabled={!week}>
+              Download Timesheet
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {!engagement.canStartJob && running && (
+        <Button type="button" onClick={handleTimer} disabled={busy}>
+          Stop Timer
+        </Button>
+      )}
+    </div>
+  );
+}
+
+// Codes expire, and a code checked too often is spent; either way the user needs a new one
+const SPENT_CODE_STATUSES: RedditOwnershipStatus[] = ["no_active_code", "too_many_attempts"];
+
+function RedditVerification({ authHeaders }: { authHeaders?: Record<string, string> }) {
+  const [state, setState] = useState<RedditVerificationStatusResponse | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState("");
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    let ignore = false;
+
+    fetch("/api/me/reddit-verification", { headers: authHeaders })
+      .then(async (response) => {
+        const data: RedditVerificationStatusResponse = await response.json();
+        // 404 means no qualification record yet, so there is no account to verify
+        if (!ignore && response.ok && data.success) setState(data);
+      })
+      .catch((err) => console.warn("Failed to load Reddit verification:", err));
+
+    return () => {
+      ignore = true;
+    };
+  }, [authHeaders?.Authorization]);
+
+  if (!state) return null;
+
+  const handleIssueCode = async () => {
+    setBusy(true);
+    setMessage("");
+    setError("");
+
+    try {
+      const response = await fetch("/api/me/reddit-verification/code", {
+        method: "POST",
+        headers: authHeaders,
+      });
+      const data: RedditVerificationCodeResponse = await response.json();
+
+      if (!response.ok || !data.success) {
+        if (response.status === 409) setState({ ...state, verified: true });
+        throw new Error(data.message || "Failed to get a verification code");
+      }
+
+      setState({ ...state, code: data.code, expiresAt: data.expiresAt });
+    } catch (err: any) {
+      setError(err.message || "An error occurred");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleVerify = async () => {
+    setBusy(true);
+    setMessage("");
+    setError("");
+
+    try {
+      const response = await fetch("/api/me/reddit-verification/verify", {
+        method: "POST",
+        headers: authHeaders,
+      });
+      const data: RedditOwnershipResponse = await response.json();
+
+      if (data.status === "verified") {
+        setState({ ...state, verified: true, code: undefined, expiresAt: undefined });
+        setMessage(data.message);
+        return;
+      }
+      if (data.status && SPENT_CODE_STATUSES.includes(data.status)) {
+        setState({ ...state, code: undefined, expiresAt: undefined });
+      }
+      throw new Error(data.message || "Failed to check your Reddit profile");
+    } catch (err: any) {
+      setError(err.message || "An error occurred");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (state.verified) {
+    return (
+      <Card className="mb-8 border-green-200 bg-green-50">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-green-800">
+            <CheckCircle className="h-5 w-5" />
+            Reddit account verified
+          </CardTitle>
+          <CardDescription className="text-green-700">
+            {message || `You've proved you own u/${state.redditUsername}.`}
+          </CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="mb-8 border-blue-200">
+      <CardHeader>
+        <CardTitle>Verify your Reddit account</CardTitle>
+        <CardDescription>
+          Prove you own u/{state.redditUsername} so your Reddit data starts earning.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {state.code ? (
+          <div className="space-y-2">
+            <p className="text-sm text-gray-700">
+              Add this code to your Reddit profile description, or post it to your profile, then
+              check your profile below.
+            </p>
+            <p className="font-mono text-2xl font-bold tracking-wider text-gray-900">
+              {state.code}
+            </p>
+            {state.expiresAt && (
+              <p className="text-xs text-gray-500">
+                Expires at {new Date(state.expiresAt).toLocaleTimeString()}
+              </p>
+            )}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-700">
+            We'll give you a one-time code to add to your Reddit profile.
+          </p>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          {state.code && (
+            <Button onClick={handleVerify} disabled={busy}>
+              {busy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Check My Profile
+            </Button>
+          )}
+          <Button variant={state.code ? "outline" : "default"} onClick={handleIssueCode} disabled={busy}>
+            {state.code ? "Get a New Code" : "Get Verification Code"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function Dashboard() {
+  const { user, session, loading: authLoading } = useAuth();
+  const [engagements, setEngagements] = useState<Engagement[]>([]);
+  const [dashboardLoading, setDashboardLoading] = useState(true);
+  const [dashboardError, setDashboardError] = useState<string | null>(null);
+
+  const authHeaders = session?.access_token
+    ? { Authorization: `Bearer ${session.access_token}` }
+    : undefined;
+
+  useEffect(() => {
+    if (authLoading || !session?.access_token) {
+      setDashboardLoading(authLoading);
+      return;
+    }
+
+    const fetchDashboard = async () => {
+      try {
+        setDashboardLoading(true);
+        setDashboardError(null);
+
+        const response = await fetch("/api/me/dashboard", { headers: authHeaders });
+        const data: DashboardResponse = await response.json();
+
+        // 404 means no qualification record yet, so there can be no engagements
+        if (response.status === 404) {
+          setEngagements([]);
+          return;
+        }
+        if (!response.ok || !data.success || !data.engagements) {
+          throw new Error(data.message || "Failed to load your dashboard");
+        }
+
+        setEngagements(data.engagements);
+      } catch (err: any) {
+        setDashboardError(err.message || "Failed to load your dashboard");
+      } finally {
+        setDashboardLoading(false);
+      }
+    };
+
+    fetchDashboard();
+  }, [authLoading, session?.access_token]);
+
+  const handleSubmitted = (contractorId: number, submission: TaskSubmissionSummary) => {
+    setEngagements((current) =>
+      current.map((engagement) =>
+        engagement.contractorId === contractorId
+          ? {
+              ...engagement,
+              tasks: engagement.tasks.map((task) =>
+                task.id === submission.taskId ? { ...task, submission } : task,
+              ),
+            }
+          : engagement,
+      ),
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-green-50">
+      {/* Header */}
+      <header className="border-b bg-white/80 backdrop-blur-sm sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <div className="w-8 h-8 bg-gradient-to-r from-blue-600 to-green-600 rounded-lg flex items-center justify-center">
+              <span className="text-white font-bold text-sm">FD</span>
+            </div>
+            <span className="text-xl font-bold text-gray-900">FairDataUse</span>
+          </div>
+          <div className="flex items-center space-x-6">
+            <nav className="hidden md:flex space-x-6">
+              <a href="/marketplace" className="text-gray-600 hover:text-gray-900 transition-colors">
+                Marketplace
+              </a>
+            </nav>
+            <UserMenu />
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-16">
+        <div className="max-w-4xl mx-auto">
+          <div className="text-center mb-12">
+            <h1 className="text-4xl font-bold text-gray-900 mb-4">Job Dashboard</h1>
+            <p className="text-xl text-gray-600">
+              Your daily tasks and hours for each company you work with.
+            </p>
+          </div>
+
+          {!authLoading && !user && (
+            <Alert className="mb-8">
+              <AlertDescription>
+                Please sign in to see your tasks. Click the user menu in the top right to sign in.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {user && authHeaders && <RedditVerification authHeaders={authHeaders} />}
+
+          {dashboardError && (
+            <Alert variant="destructive" className="mb-8">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>{dashboardError}</AlertDescription>
+            </Alert>
+          )}
+
+          {dashboardLoading && (
+            <div className="flex items-center justify-center p-8">
+              <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+            </div>
+          )}
+
+          {!dashboardLoading && !dashboardError && user && engagements.length === 0 && (
+            <p className="text-center text-gray-600 py-12">
+              You're not working with any companies yet.{" "}
+              <Link to="/marketplace" className="text-blue-600 hover:underline">
+                Find one in the marketplace
+              </Link>
+              .
+            </p>
+          )}
+
+          <div className="space-y-8">
+            {engagements.map((engagement) => (
+              <Card key={engagement.contractorId}>
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="text-2xl">
+                      <Link to={`/companies/${engagement.companySlug}`} className="hover:underline">
+                        {engagement.companyName}
+                      </Link>
+                    </CardTitle>
+                    <Badge className={STATUS_BADGES[engagement.status]}>{engagement.status}</Badge>
+                  </div>
+                  <CardDescription>
+                    {engagement.canStartJob
+                      ? "Submit your work on each task below."
+                      : "Your work with this company is on hold, so you can't submit tasks."}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <TimeTracker engagement={engagement} authHeaders={authHeaders} />
+                  {engagement.tasks.length === 0 && (
+                    <p className="text-gray-600">No tasks assigned yet. Check back tomorrow.</p>
+                  )}
+                  {engagement.tasks.map((task) => (
+                    <div key={task.id} className="rounded-lg border p-4 space-y-3">
+                      <div>
+                        <div className="flex items-center justify-between gap-2">
+                          <h3 className="font-semibold text-gray-900">{task.title}</h3>
+                          <span className="text-sm text-gray-500">{task.taskDate}</span>
+                        </div>
+                        {task.description && (
+                          <p className="text-sm text-gray-600 whitespace-pre-wrap mt-1">
+                            {task.description}
+                          </p>
+                        )}
+                      </div>
+                      {task.submission ? (
+                        <SubmittedWork submission={task.submission} />
+                      ) : (
+                        engagement.canStartJob && (
+                          <TaskSubmissionForm
+                            task={task}
+                            authHeaders={authHeaders}
+                            onSubmitted={(submission) =>
+                              handleSubmitted(engagement.contractorId, submission)
+                            }
+                          />
+                        )
+                      )}
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
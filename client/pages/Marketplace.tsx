@@ -1,6 +1,8 @@
 import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import {
   Card,
   CardContent,
@@ -11,26 +13,22 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { UserMenu } from "@/components/UserMenu";
+import { useAuth } from "@/hooks/useAuth";
 import {
   Users,
   Star,
   Lock,
   ExternalLink,
-  AlertTriangle
+  AlertTriangle,
+  Loader2,
+  Search
 } from "lucide-react";
-
-interface Company {
-  id: string;
-  name: string;
-  acronym: string;
-  description: string;
-  hourlyRate: number;
-  bonus: number;
-  hiresCount: number;
-  gradient: string;
-  isAvailable: boolean;
-  category: string;
-}
+import {
+  MULTI_COMPANY_MIN_RATING,
+  type Company,
+  type CompaniesResponse,
+  type CompanySort,
+} from "@shared/schemas";
 
 interface CurrencyRate {
   code: string;
@@ -38,9 +36,35 @@ interface CurrencyRate {
   rate: number;
 }
 
+const PAGE_SIZE = 12;
+
+// Filters kept in the URL so a filtered view can be shared or bookmarked
+const FILTER_PARAMS = ["q", "category", "minRate", "maxRate", "sort"] as const;
+
+const SORT_OPTIONS: { value: CompanySort; label: string }[] = [
+  { value: "featured", label: "Featured" },
+  { value: "rate_desc", label: "Highest hourly rate" },
+  { value: "rate_asc", label: "Lowest hourly rate" },
+  { value: "bonus_desc", label: "Highest bonus" },
+  { value: "hires_desc", label: "Most hires" },
+  { value: "name_asc", label: "Name (A-Z)" },
+];
+
+const selectClassName =
+  "flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2";
+
 export default function Marketplace() {
   const navigate = useNavigate();
+  const { session } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
   const [showLockedAlert, setShowLockedAlert] = useState(false);
+  const [companies, setCompanies] = useState<Company[]>([]);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [companiesLoading, setCompaniesLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [companiesError, setCompaniesError] = useState<string | null>(null);
+  const [searchText, setSearchText] = useState(searchParams.get("q") ?? "");
   const [currency, setCurrency] = useState<CurrencyRate>({
     code: "USD",
     symbol: "$",
@@ -147,275 +171,118 @@ export default function Marketplace() {
     };
   }, []);
 
+  const filterQuery = FILTER_PARAMS.reduce((params, key) => {
+    const value = searchParams.get(key);
+    if (value) params.set(key, value);
+    return params;
+  }, new URLSearchParams()).toString();
+
+  const fetchCompanyPage = async (cursor?: string): Promise<CompaniesResponse> => {
+    const params = new URLSearchParams(filterQuery);
+    params.set("limit", String(PAGE_SIZE));
+    if (cursor) params.set("cursor", cursor);
+
+    // Signed-in contractors may have unlocked more companies
+    const response = await fetch(`/api/companies?${params.toString()}`, {
+      headers: session?.access_token ? { Authorization: `Bearer ${session.access_token}` } : undefined,
+    });
+    const data: CompaniesResponse = await response.json();
+
+    if (!response.ok || !data.success || !data.companies) {
+      throw new Error(data.message || "Failed to load companies");
+    }
+
+    return data;
+  };
+
+  useEffect(() => {
+    // Ignore responses for filters the user has already moved away from
+    let ignore = false;
+
+    const fetchCompanies = async () => {
+      try {
+        setCompaniesLoading(true);
+        setCompaniesError(null);
+
+        const data = await fetchCompanyPage();
+        if (ignore) return;
+
+        setCompanies(data.companies!);
+        setCategories(data.categories ?? []);
+        setNextCursor(data.nextCursor ?? null);
+      } catch (err: any) {
+        if (ignore) return;
+        setCompanies([]);
+        setNextCursor(null);
+        setCompaniesError(err.message || "Failed to load companies");
+      } finally {
+        if (!ignore) setCompaniesLoading(false);
+      }
+    };
+
+    fetchCompanies();
+
+    return () => {
+      ignore = true;
+    };
+  }, [filterQuery, session?.access_token]);
+
+  // Push the search box into the URL once the user pauses typing
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      if (searchText.trim() !== (searchParams.get("q") ?? "")) {
+        updateFilter("q", searchText.trim());
+      }
+    }, 300);
+
+    return () => clearTimeout(timer);
+  }, [searchText]);
+
+  const updateFilter = (key: (typeof FILTER_PARAMS)[number], value: string) => {
+    setSearchParams(
+      (current) => {
+        const next = new URLSearchParams(current);
+        if (value && !(key === "sort" && value === "featured")) {
+          next.set(key, value);
+        } else {
+          next.delete(key);
+        }
+        return next;
+      },
+      { replace: true },
+    );
+  };
+
+  const clearFilters = () => {
+    setSearchText("");
+    setSearchParams(new URLSearchParams(), { replace: true });
+  };
+
+  const handleLoadMore = async () => {
+    if (!nextCursor) return;
+
+    try {
+      setLoadingMore(true);
+      const data = await fetchCompanyPage(nextCursor);
+      setCompanies((current) => [...current, ...data.companies!]);
+      setNextCursor(data.nextCursor ?? null);
+    } catch (err: any) {
+      setCompaniesError(err.message || "Failed to load companies");
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const hasFilters = filterQuery !== "";
+
   const formatCurrency = (amount: number) => {
     const converted = (amount * currency.rate).toFixed(2);
     return `${currency.symbol}${converted}`;
   };
 
-  const companies: Company[] = [
-    // Available company
-    {
-      id: "silicon-valley-consulting",
-      name: "Silicon Valley Consulting",
-      acronym: "SVC",
-      description: "A marketing consultancy helping technology companies grow their communities and engagement",
-      hourlyRate: 2.00,
-      bonus: 500,
-      hiresCount: 14,
-      gradient: "from-purple-600 to-blue-600",
-      isAvailable: true,
-      category: "Marketing & Growth"
-    },
-    // Fake companies (blurred)
-    {
-      id: "tech-innovations",
-      name: "Tech Innovations Corp",
-      acronym: "TIC",
-      description: "Leading technology solutions for enterprise clients",
-      hourlyRate: 3.50,
-      bonus: 750,
-      hiresCount: 28,
-      gradient: "from-green-600 to-teal-600",
-      isAvailable: false,
-      category: "Technology"
-    },
-    {
-      id: "digital-marketing-pro",
-      name: "Digital Marketing Pro",
-      acronym: "DMP",
-      description: "Full-service digital marketing agency for SaaS companies",
-      hourlyRate: 4.00,
-      bonus: 600,
-      hiresCount: 35,
-      gradient: "from-pink-600 to-red-600",
-      isAvailable: false,
-      category: "Digital Marketing"
-    },
-    {
-      id: "growth-hackers-inc",
-      name: "Growth Hackers Inc",
-      acronym: "GHI",
-      description: "Data-driven growth strategies for startups",
-      hourlyRate: 2.75,
-      bonus: 800,
-      hiresCount: 22,
-      gradient: "from-orange-600 to-yellow-600",
-      isAvailable: false,
-      category: "Growth & Analytics"
-    },
-    {
-      id: "social-media-masters",
-      name: "Social Media Masters",
-      acronym: "SMM",
-      description: "Social media management and community building",
-      hourlyRate: 2.25,
-      bonus: 400,
-      hiresCount: 41,
-      gradient: "from-blue-600 to-indigo-600",
-      isAvailable: false,
-      category: "Social Media"
-    },
-    {
-      id: "content-creators-hub",
-      name: "Content Creators Hub",
-      acronym: "CCH",
-      description: "Video and written content creation services",
-      hourlyRate: 3.00,
-      bonus: 500,
-      hiresCount: 19,
-      gradient: "from-purple-600 to-pink-600",
-      isAvailable: false,
-      category: "Content Creation"
-    },
-    {
-      id: "ai-automation-labs",
-      name: "AI Automation Labs",
-      acronym: "AAL",
-      description: "Artificial intelligence solutions for business automation",
-      hourlyRate: 5.00,
-      bonus: 1000,
-      hiresCount: 12,
-      gradient: "from-cyan-600 to-blue-600",
-      isAvailable: false,
-      category: "AI & Automation"
-    },
-    {
-      id: "startup-accelerator",
-      name: "Startup Accelerator",
-      acronym: "SA",
-      description: "Helping early-stage startups scale and grow",
-      hourlyRate: 2.50,
-      bonus: 600,
-      hiresCount: 33,
-      gradient: "from-red-600 to-orange-600",
-      isAvailable: false,
-      category: "Startup Services"
-    },
-    {
-      id: "ecommerce-experts",
-      name: "E-commerce Experts",
-      acronym: "EE",
-      description: "Online store optimization and conversion strategies",
-      hourlyRate: 3.25,
-      bonus: 550,
-      hiresCount: 26,
-      gradient: "from-green-600 to-emerald-600",
-      isAvailable: false,
-      category: "E-commerce"
-    },
-    {
-      id: "blockchain-builders",
-      name: "Blockchain Builders",
-      acronym: "BB",
-      description: "Decentralized applications and crypto solutions",
-      hourlyRate: 4.50,
-      bonus: 900,
-      hiresCount: 8,
-      gradient: "from-yellow-600 to-orange-600",
-      isAvailable: false,
-      category: "Blockchain"
-    },
-    {
-      id: "mobile-app-studio",
-      name: "Mobile App Studio",
-      acronym: "MAS",
-      description: "iOS and Android app development and marketing",
-      hourlyRate: 3.75,
-      bonus: 650,
-      hiresCount: 31,
-      gradient: "from-indigo-600 to-purple-600",
-      isAvailable: false,
-      category: "Mobile Development"
-    },
-    {
-      id: "data-analytics-firm",
-      name: "Data Analytics Firm",
-      acronym: "DAF",
-      description: "Business intelligence and data visualization",
-      hourlyRate: 4.25,
-      bonus: 700,
-      hiresCount: 17,
-      gradient: "from-teal-600 to-cyan-600",
-      isAvailable: false,
-      category: "Data & Analytics"
-    },
-    {
-      id: "influencer-network",
-      name: "Influencer Network",
-      acronym: "IN",
-      description: "Connecting brands with social media influencers",
-      hourlyRate: 2.75,
-      bonus: 450,
-      hiresCount: 45,
-      gradient: "from-pink-600 to-purple-600",
-      isAvailable: false,
-      category: "Influencer Marketing"
-    },
-    {
-      id: "video-production-co",
-      name: "Video Production Co",
-      acronym: "VPC",
-      description: "Professional video content for marketing campaigns",
-      hourlyRate: 3.50,
-      bonus: 800,
-      hiresCount: 23,
-      gradient: "from-red-600 to-pink-600",
-      isAvailable: false,
-      category: "Video Production"
-    },
-    {
-      id: "seo-specialists",
-      name: "SEO Specialists",
-      acronym: "SS",
-      description: "Search engine optimization and organic traffic growth",
-      hourlyRate: 2.90,
-      bonus: 520,
-      hiresCount: 38,
-      gradient: "from-green-600 to-blue-600",
-      isAvailable: false,
-      category: "SEO & SEM"
-    },
-    {
-      id: "ux-design-collective",
-      name: "UX Design Collective",
-      acronym: "UDC",
-      description: "User experience design for web and mobile applications",
-      hourlyRate: 4.00,
-      bonus: 750,
-      hiresCount: 21,
-      gradient: "from-orange-600 to-red-600",
-      isAvailable: false,
-      category: "UX/UI Design"
-    },
-    {
-      id: "cybersecurity-pros",
-      name: "Cybersecurity Pros",
-      acronym: "CP",
-      description: "Information security and threat protection services",
-      hourlyRate: 5.50,
-      bonus: 1200,
-      hiresCount: 9,
-      gradient: "from-gray-600 to-gray-800",
-      isAvailable: false,
-      category: "Cybersecurity"
-    },
-    {
-      id: "cloud-solutions-ltd",
-      name: "Cloud Solutions Ltd",
-      acronym: "CSL",
-      description: "Cloud infrastructure and migration services",
-      hourlyRate: 4.75,
-      bonus: 850,
-      hiresCount: 15,
-      gradient: "from-blue-600 to-cyan-600",
-      isAvailable: false,
-      category: "Cloud Services"
-    },
-    {
-      id: "fintech-innovators",
-      name: "FinTech Innovators",
-      acronym: "FI",
-      description: "Financial technology solutions and payment systems",
-      hourlyRate: 4.25,
-      bonus: 900,
-      hiresCount: 11,
-      gradient: "from-emerald-600 to-teal-600",
-      isAvailable: false,
-      category: "Financial Technology"
-    },
-    {
-      id: "gaming-studios-group",
-      name: "Gaming Studios Group",
-      acronym: "GSG",
-      description: "Mobile and PC game development and marketing",
-      hourlyRate: 3.25,
-      bonus: 600,
-      hiresCount: 29,
-      gradient: "from-purple-600 to-indigo-600",
-      isAvailable: false,
-      category: "Gaming"
-    },
-    {
-      id: "healthtech-solutions",
-      name: "HealthTech Solutions",
-      acronym: "HTS",
-      description: "Digital health platforms and telemedicine",
-      hourlyRate: 4.50,
-      bonus: 800,
-      hiresCount: 13,
-      gradient: "from-green-600 to-lime-600",
-      isAvailable: false,
-      category: "Healthcare Technology"
-    }
-  ];
-
   const handleCompanyClick = (company: Company) => {
     if (company.isAvailable) {
-      if (company.id === "silicon-valley-consulting") {
-        navigate("/companies/silicon-valley-consulting");
-      } else {
-        navigate(`/companies/${company.id}`);
-      }
+      navigate(`/companies/${company.slug}`);
     } else {
       setShowLockedAlert(true);
       setTimeout(() => setShowLockedAlert(false), 5000);
@@ -470,17 +337,105 @@ export default function Marketplace() {
             <Alert className="mb-8 border-orange-200 bg-orange-50">
               <Lock className="h-4 w-4 text-orange-600" />
               <AlertDescription className="text-orange-800">
-                <strong>Company Locked:</strong> You need to complete your first assignment with Silicon Valley Consulting 
-                and receive a positive review before you can work with other companies. This ensures quality and builds your reputation on our platform.
+                <strong>Company Locked:</strong> You need to complete your first assignment with Silicon Valley Consulting
+                and receive a {MULTI_COMPANY_MIN_RATING}+ star review before you can work with other companies. This ensures quality and builds your reputation on our platform.
               </AlertDescription>
             </Alert>
           )}
 
+          {/* Filters */}
+          <div className="mb-8 grid grid-cols-1 gap-4 rounded-lg border bg-white p-4 md:grid-cols-2 lg:grid-cols-5">
+            <div className="space-y-2 lg:col-span-2">
+              <Label htmlFor="company-search">Search</Label>
+              <div className="relative">
+                <Search className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                <Input
+                  id="company-search"
+                  type="search"
+                  placeholder="Search companies"
+                  className="pl-9"
+                  value={searchText}
+                  onChange={(e) => setSearchText(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="company-category">Category</Label>
+              <select
+                id="company-category"
+                className={selectClassName}
+                value={searchParams.get("category") ?? ""}
+                onChange={(e) => updateFilter("category", e.target.value)}
+              >
+                <option value="">All categories</option>
+                {categories.map((category) => (
+                  <option key={category} value={category}>
+                    {category}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Hourly rate (USD)</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  aria-label="Minimum hourly rate"
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  placeholder="Min"
+                  value={searchParams.get("minRate") ?? ""}
+                  onChange={(e) => updateFilter("minRate", e.target.value)}
+                />
+                <Input
+                  aria-label="Maximum hourly rate"
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  placeholder="Max"
+                  value={searchParams.get("maxRate") ?? ""}
+                  onChange={(e) => updateFilter("maxRate", e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="company-sort">Sort by</Label>
+              <select
+                id="company-sort"
+                className={selectClassName}
+                value={searchParams.get("sort") ?? "featured"}
+                onChange={(e) => updateFilter("sort", e.target.value)}
+              >
+                {SORT_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {companiesError && (
+            <Alert variant="destructive" className="mb-8">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>{companiesError}</AlertDescription>
+            </Alert>
+          )}
+
+          {companiesLoading && (
+            <div className="flex items-center justify-center p-8">
+              <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+            </div>
+          )}
+
           {/* Companies Grid */}
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
             {companies.map((company) => (
               <Card 
-                key={company.id}
+                key={company.slug}
                 className={`
                   relative overflow-hidden transition-all duration-300 cursor-pointer
                   ${company.isAvailable 
@@ -535,9 +490,20 @@ export default function Marketplace() {
                         <Users className="w-4 h-4" />
                         <span>{company.hiresCount} hires</span>
                       </div>
-                      <div className="flex items-center gap-1">
+                      <div
+                        className="flex items-center gap-1"
+                        aria-label={
+                          company.rating === null
+                            ? "No reviews yet"
+                            : `Rated ${company.rating.toFixed(1)} from ${company.reviewCount} reviews`
+                        }
+                      >
                         <Star className="w-4 h-4 fill-yellow-400 text-yellow-400" />
-                        <span>4.8</span>
+                        <span>
+                          {company.rating === null
+                            ? "New"
+                            : `${company.rating.toFixed(1)} (${company.reviewCount})`}
+                        </span>
                       </div>
                     </div>
 
@@ -557,6 +523,32 @@ export default function Marketplace() {
             ))}
           </div>
 
+          {!companiesLoading && !companiesError && companies.length === 0 && (
+            <div className="text-center py-12 text-gray-600">
+              <p className="mb-4">No companies match your filters.</p>
+              {hasFilters && (
+                <Button variant="outline" onClick={clearFilters}>
+                  Clear filters
+                </Button>
+              )}
+            </div>
+          )}
+
+          {nextCursor && !companiesLoading && (
+            <div className="mt-8 flex justify-center">
+              <Button variant="outline" onClick={handleLoadMore} disabled={loadingMore}>
+                {loadingMore ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Loading...
+                  </>
+                ) : (
+                  "Load more companies"
+                )}
+              </Button>
+            </div>
+          )}
+
           {/* Info Section */}
           <div className="mt-16 bg-blue-50 rounded-lg p-8 border border-blue-200">
             <div className="text-center max-w-4xl mx-auto">
@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { Link, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -163,6 +163,11 @@ export default function SocialQualifyForm() {
                 <AlertDescription className="text-blue-800">
                   📧 <strong>Check your email!</strong> We've sent you a magic link to sign in.
                   Click the link in your email to access your account and manage your opportunities.
+                  Then verify your Reddit account from your{" "}
+                  <Link to="/dashboard" className="underline">
+                    dashboard
+                  </Link>{" "}
+                  so your Reddit data starts earning.
                 </AlertDescription>
               </Alert>
             )}
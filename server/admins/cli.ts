@@ -0,0 +1,65 @@
+/**
+ * Company Admins CLI
+ * Run by support to give people at a company access to its admin pages
+ * Usage:
+ *   tsx server/admins/cli.ts add <email> <company slug>
+ *   tsx server/admins/cli.ts remove <email> <company slug>
+ *   tsx server/admins/cli.ts list [company slug]
+ */
+
+import "dotenv/config";
+import { closeDatabase } from "../db";
+import { addCompanyAdmin, listCompanyAdmins, removeCompanyAdmin } from "../services/company-admins";
+
+const COMMANDS = "add, remove, list";
+
+function parseArgs(args: string[]): { email: string; companySlug: string } {
+  const [email, companySlug] = args;
+  if (!email?.includes("@") || !companySlug) {
+    throw new Error("Expected <email> <company slug>");
+  }
+  return { email, companySlug };
+}
+
+async function main([command, ...args]: string[]) {
+  switch (command) {
+    case "add": {
+      const { email, companySlug } = parseArgs(args);
+      const { admin, created } = await addCompanyAdmin(email, companySlug);
+      console.log(
+        `[ADMIN] ${admin.email}`,
+        created ? "is now an admin of" : "was already an admin of",
+        companySlug
+      );
+      return;
+    }
+    case "remove": {
+      const { email, companySlug } = parseArgs(args);
+      const removed = await removeCompanyAdmin(email, companySlug);
+      console.log(`[ADMIN] ${email}`, removed ? "removed from" : "was not an admin of", companySlug);
+      return;
+    }
+    case "list": {
+      const admins = await listCompanyAdmins(args[0]);
+      if (admins.length === 0) {
+        console.log("[ADMIN] No company admins.");
+      }
+      for (const admin of admins) {
+        console.log(
+          `[ADMIN] ${admin.companySlug}: ${admin.email}`,
+          admin.supabaseUserId ? "(signed in)" : "(not signed in yet)"
+        );
+      }
+      return;
+    }
+    default:
+      throw new Error(`Unknown command '${command ?? ""}'. Use one of: ${COMMANDS}`);
+  }
+}
+
+main(process.argv.slice(2))
+  .catch((error) => {
+    console.error("[ADMIN] Failed:", error.message);
+    process.exitCode = 1;
+  })
+  .finally(() => closeDatabase());
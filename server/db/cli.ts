@@ -0,0 +1,53 @@
+/**
+ * Migration CLI
+ * Usage:
+ *   tsx server/db/cli.ts up
+ *   tsx server/db/cli.ts down [steps]
+ *   tsx server/db/cli.ts status
+ */
+
+import "dotenv/config";
+import { closeDatabase, getDatabase } from "./index";
+import { getMigrationStatus, migrateDown, migrateUp } from "./migrate";
+
+async function main(command: string | undefined, arg: string | undefined) {
+  const pool = getDatabase();
+
+  switch (command) {
+    case "up": {
+      await migrateUp(pool);
+      break;
+    }
+    case "down": {
+      const steps = arg === undefined ? 1 : Number(arg);
+      if (!Number.isInteger(steps) || steps < 1) {
+        throw new Error(`Invalid number of steps: ${arg}`);
+      }
+      await migrateDown(pool, steps);
+      break;
+    }
+    case "status": {
+      const status = await getMigrationStatus(pool);
+      for (const migration of status) {
+        const state = migration.applied
+          ? `applied ${migration.appliedAt?.toISOString()}`
+          : "pending";
+        console.log(
+          `${String(migration.version).padStart(4, "0")}_${migration.name}  ${state}`
+        );
+      }
+      break;
+    }
+    default:
+      throw new Error(
+        `Unknown command '${command ?? ""}'. Use one of: up, down [steps], status`
+      );
+  }
+}
+
+main(process.argv[2], process.argv[3])
+  .catch((error) => {
+    console.error("[MIGRATE] Migration failed:", error.message);
+    process.exitCode = 1;
+  })
+  .finally(() => closeDatabase());
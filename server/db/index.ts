@@ -0,0 +1,85 @@
+/**
+ * Database Module
+ * Owns the single PostgreSQL connection pool shared by every route and job
+ */
+
+import { Pool, type PoolClient } from "pg";
+
+let pool: Pool | null = null;
+
+/**
+ * Get the shared PostgreSQL connection pool, creating it on first use
+ */
+export function getDatabase(): Pool {
+  console.log("[DB] Getting database connection...");
+
+  if (pool) {
+    console.log("[DB] Using existing connection pool");
+    return pool;
+  }
+
+  // Use TEST_DATABASE_URL in test environment, otherwise DATABASE_URL
+  const databaseUrl = process.env.NODE_ENV === 'test'
+    ? process.env.TEST_DATABASE_URL
+    : process.env.DATABASE_URL;
+  console.log("[DB] Database URL configured:", databaseUrl ? "YES" : "NO");
+
+  if (!databaseUrl) {
+    const envVar = process.env.NODE_ENV === 'test' ? 'TEST_DATABASE_URL' : 'DATABASE_URL';
+    console.error(`[DB] ${envVar} environment variable is not set`);
+    throw new Error(`${envVar} environment variable is not set`);
+  }
+
+  try {
+    console.log("[DB] Creating PostgreSQL connection pool...");
+    pool = new Pool({
+      connectionString: databaseUrl,
+      ssl: databaseUrl.includes('neon.tech') ? { rejectUnauthorized: false } : false,
+      max: 10,
+      idleTimeoutMillis: 30000,
+      connectionTimeoutMillis: 10000,
+    });
+
+    console.log("[DB] PostgreSQL connection pool created successfully");
+    return pool;
+  } catch (error) {
+    console.error("[DB] Failed to create PostgreSQL connection pool:", error);
+    throw error;
+  }
+}
+
+/**
+ * Run a callback inside a transaction on a dedicated client
+ * Commits when the callback resolves and rolls back when it throws
+ */
+export async function withTransaction<T>(
+  callback: (client: PoolClient) => Promise<T>
+): Promise<T> {
+  const client = await getDatabase().connect();
+
+  try {
+    await client.query("BEGIN");
+    const result = await callback(client);
+    await client.query("COMMIT");
+    return result;
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Close the shared pool (used by CLI scripts and test teardown)
+ */
+export async function closeDatabase(): Promise<void> {
+  if (!pool) {
+    return;
+  }
+
+  const closing = pool;
+  pool = null;
+  await closing.end();
+  console.log("[DB] PostgreSQL connection pool closed");
+}
@@ -0,0 +1,255 @@
+/**
+ * Migration Runner
+ * Applies numbered SQL migrations from server/db/migrations and records them in schema_migrations
+ *
+ * Each migration is a pair of files sharing a zero-padded version prefix:
+ *   0001_initial_schema.up.sql
+ *   0001_initial_schema.down.sql
+ */
+
+import { createHash } from "node:crypto";
+import { readdirSync, readFileSync } from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import type { Pool, PoolClient } from "pg";
+
+export const MIGRATIONS_DIR = path.join(
+  path.dirname(fileURLToPath(import.meta.url)),
+  "migrations"
+);
+
+// Arbitrary key so concurrent runners (CI jobs, parallel deploys) queue up instead of racing
+const MIGRATION_LOCK_KEY = 7243001;
+
+const MIGRATION_FILE_PATTERN = /^(\d+)_([a-z0-9_]+)\.(up|down)\.sql$/;
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+  down: string;
+  checksum: string;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  applied: boolean;
+  appliedAt: Date | null;
+}
+
+interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  applied_at: Date;
+}
+
+function checksum(sql: string): string {
+  return createHash("sha256").update(sql).digest("hex");
+}
+
+/**
+ * Read and validate every migration pair in a directory, ordered by version
+ */
+export function loadMigrations(dir: string = MIGRATIONS_DIR): Migration[] {
+  const byVersion = new Map<number, { name: string; up?: string; down?: string }>();
+
+  for (const file of readdirSync(dir).sort()) {
+    if (!file.endsWith(".sql")) continue;
+
+    const match = MIGRATION_FILE_PATTERN.exec(file);
+    if (!match) {
+      throw new Error(
+        `Invalid migration filename '${file}'. Expected NNNN_name.up.sql or NNNN_name.down.sql`
+      );
+    }
+
+    const [, versionText, name, direction] = match;
+    const version = Number(versionText);
+    const entry = byVersion.get(version) ?? { name };
+
+    if (entry.name !== name) {
+      throw new Error(
+        `Migration version ${version} is used by both '${entry.name}' and '${name}'`
+      );
+    }
+
+    entry[direction as "up" | "down"] = readFileSync(path.join(dir, file), "utf8");
+    byVersion.set(version, entry);
+  }
+
+  return [...byVersion.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([version, entry]) => {
+      if (entry.up === undefined || entry.down === undefined) {
+        throw new Error(
+          `Migration ${version}_${entry.name} must have both an up and a down file`
+        );
+      }
+
+      return {
+        version,
+        name: entry.name,
+        up: entry.up,
+        down: entry.down,
+        checksum: checksum(entry.up),
+      };
+    });
+}
+
+async function ensureMigrationsTable(client: PoolClient): Promise<void> {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      checksum TEXT NOT NULL,
+      applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )
+  `);
+}
+
+async function getAppliedMigrations(client: PoolClient): Promise<AppliedMigration[]> {
+  const result = await client.query<AppliedMigration>(
+    "SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version"
+  );
+  return result.rows;
+}
+
+/**
+ * Hold the migration advisory lock for the duration of the callback
+ */
+async function withMigrationLock<T>(
+  pool: Pool,
+  callback: (client: PoolClient) => Promise<T>
+): Promise<T> {
+  const client = await pool.connect();
+
+  try {
+    await client.query("SELECT pg_advisory_lock($1)", [MIGRATION_LOCK_KEY]);
+    await ensureMigrationsTable(client);
+    return await callback(client);
+  } finally {
+    try {
+      await client.query("SELECT pg_advisory_unlock($1)", [MIGRATION_LOCK_KEY]);
+    } finally {
+      client.release();
+    }
+  }
+}
+
+async function runInTransaction(
+  client: PoolClient,
+  statements: (client: PoolClient) => Promise<void>
+): Promise<void> {
+  await client.query("BEGIN");
+  try {
+    await statements(client);
+    await client.query("COMMIT");
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  }
+}
+
+/**
+ * Apply every pending migration in order, each in its own transaction
+ * @returns The migrations that were applied by this call
+ */
+export async function migrateUp(
+  pool: Pool,
+  migrations: Migration[] = loadMigrations()
+): Promise<Migration[]> {
+  return withMigrationLock(pool, async (client) => {
+    const applied = new Map(
+      (await getAppliedMigrations(client)).map((row) => [row.version, row])
+    );
+    const newlyApplied: Migration[] = [];
+
+    for (const migration of migrations) {
+      const existing = applied.get(migration.version);
+
+      if (existing) {
+        if (existing.checksum !== migration.checksum) {
+          throw new Error(
+            `Checksum mismatch for migration ${migration.version}_${migration.name}. Applied migrations must not be edited`
+          );
+        }
+        continue;
+      }
+
+      console.log(`[MIGRATE] Applying ${migration.version}_${migration.name}...`);
+      await runInTransaction(client, async (tx) => {
+        await tx.query(migration.up);
+        await tx.query(
+          "INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)",
+          [migration.version, migration.name, migration.checksum]
+        );
+      });
+      newlyApplied.push(migration);
+    }
+
+    console.log(`[MIGRATE] ${newlyApplied.length} migration(s) applied`);
+    return newlyApplied;
+  });
+}
+
+/**
+ * Revert the most recently applied migrations, newest first
+ * @param steps - Number of migrations to revert (default: 1)
+ * @returns The migrations that were reverted by this call
+ */
+export async function migrateDown(
+  pool: Pool,
+  steps: number = 1,
+  migrations: Migration[] = loadMigrations()
+): Promise<Migration[]> {
+  const byVersion = new Map(migrations.map((migration) => [migration.version, migration]));
+
+  return withMigrationLock(pool, async (client) => {
+    const toRevert = (await getAppliedMigrations(client)).reverse().slice(0, steps);
+    const reverted: Migration[] = [];
+
+    for (const row of toRevert) {
+      const migration = byVersion.get(row.version);
+      if (!migration) {
+        throw new Error(
+          `Cannot revert migration ${row.version}_${row.name}: its files are missing`
+        );
+      }
+
+      console.log(`[MIGRATE] Reverting ${migration.version}_${migration.name}...`);
+      await runInTransaction(client, async (tx) => {
+        await tx.query(migration.down);
+        await tx.query("DELETE FROM schema_migrations WHERE version = $1", [
+          migration.version,
+        ]);
+      });
+      reverted.push(migration);
+    }
+
+    console.log(`[MIGRATE] ${reverted.length} migration(s) reverted`);
+    return reverted;
+  });
+}
+
+/**
+ * List every known migration with whether and when it was applied
+ */
+export async function getMigrationStatus(
+  pool: Pool,
+  migrations: Migration[] = loadMigrations()
+): Promise<MigrationStatus[]> {
+  return withMigrationLock(pool, async (client) => {
+    const applied = new Map(
+      (await getAppliedMigrations(client)).map((row) => [row.version, row])
+    );
+
+    return migrations.map((migration) => ({
+      version: migration.version,
+      name: migration.name,
+      applied: applied.has(migration.version),
+      appliedAt: applied.get(migration.version)?.applied_at ?? null,
+    }));
+  });
+}
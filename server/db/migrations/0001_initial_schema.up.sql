@@ -0,0 +1,55 @@
+-- Baseline schema for users and contractor requests
+-- Uses IF NOT EXISTS so it can be recorded against databases created before migrations existed
+
+CREATE TABLE IF NOT EXISTS users (
+    id SERIAL PRIMARY KEY,
+    email VARCHAR(255) NOT NULL,
+    phone VARCHAR(50) NOT NULL,
+    reddit_username VARCHAR(100) NOT NULL,
+    twitter_username VARCHAR(100),
+    youtube_username VARCHAR(100),
+    facebook_username VARCHAR(100),
+    reddit_verified BOOLEAN DEFAULT FALSE,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS contractors (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+    email VARCHAR(255) NOT NULL,
+    company_slug VARCHAR(100) NOT NULL,
+    company_name VARCHAR(200) NOT NULL,
+    status VARCHAR(20) DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'rejected')),
+    joined_slack BOOLEAN DEFAULT FALSE,
+    can_start_job BOOLEAN DEFAULT FALSE,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_users_email_phone ON users(email, phone);
+CREATE INDEX IF NOT EXISTS idx_users_email ON users(email);
+CREATE INDEX IF NOT EXISTS idx_contractors_email ON contractors(email);
+CREATE INDEX IF NOT EXISTS idx_contractors_user_id ON contractors(user_id);
+CREATE INDEX IF NOT EXISTS idx_contractors_company_slug ON contractors(company_slug);
+
+-- Update triggers for updated_at timestamps
+CREATE OR REPLACE FUNCTION update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = CURRENT_TIMESTAMP;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS update_users_updated_at ON users;
+CREATE TRIGGER update_users_updated_at
+    BEFORE UPDATE ON users
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_contractors_updated_at ON contractors;
+CREATE TRIGGER update_contractors_updated_at
+    BEFORE UPDATE ON contractors
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,3 @@
+DROP INDEX IF EXISTS idx_users_lower_email;
+DROP INDEX IF EXISTS idx_users_supabase_user_id;
+ALTER TABLE users DROP COLUMN IF EXISTS supabase_user_id;
@@ -0,0 +1,33 @@
+-- Tie each users row to the Supabase auth identity that owns it
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS supabase_user_id UUID;
+
+-- One qualification record per auth identity
+CREATE UNIQUE INDEX IF NOT EXISTS idx_users_supabase_user_id
+    ON users(supabase_user_id)
+    WHERE supabase_user_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_users_lower_email ON users(LOWER(email));
+
+-- Backfill by email when the database also hosts Supabase auth (auth.users).
+-- Elsewhere rows are linked lazily on the user's first authenticated request.
+-- Duplicate emails link only the most recent row, matching the runtime rule.
+DO $$
+BEGIN
+    IF to_regclass('auth.users') IS NOT NULL THEN
+        UPDATE users u
+        SET supabase_user_id = latest.auth_id
+        FROM (
+            SELECT DISTINCT ON (LOWER(pu.email)) pu.id AS user_id, au.id AS auth_id
+            FROM users pu
+            JOIN auth.users au ON LOWER(au.email) = LOWER(pu.email)
+            ORDER BY LOWER(pu.email), pu.created_at DESC, pu.id DESC
+        ) latest
+        WHERE u.id = latest.user_id
+          AND u.supabase_user_id IS NULL
+          AND NOT EXISTS (
+              SELECT 1 FROM users linked WHERE linked.supabase_user_id = latest.auth_id
+          );
+    END IF;
+END
+$$;
@@ -0,0 +1,58 @@
+-- Company catalog shown in the marketplace and on /companies/:slug
+-- Money is stored in integer cents
+
+CREATE TABLE IF NOT EXISTS companies (
+    id SERIAL PRIMARY KEY,
+    slug VARCHAR(100) NOT NULL UNIQUE,
+    name VARCHAR(200) NOT NULL,
+    acronym VARCHAR(10) NOT NULL,
+    description TEXT NOT NULL,
+    website_url VARCHAR(255),
+    category VARCHAR(100) NOT NULL,
+    hourly_rate_cents INTEGER NOT NULL CHECK (hourly_rate_cents >= 0),
+    bonus_cents INTEGER NOT NULL DEFAULT 0 CHECK (bonus_cents >= 0),
+    hires_count INTEGER NOT NULL DEFAULT 0 CHECK (hires_count >= 0),
+    gradient VARCHAR(100) NOT NULL,
+    is_available BOOLEAN NOT NULL DEFAULT FALSE,
+    tasks JSONB NOT NULL DEFAULT '[]',
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_companies_sort_order ON companies(sort_order);
+
+DROP TRIGGER IF EXISTS update_companies_updated_at ON companies;
+CREATE TRIGGER update_companies_updated_at
+    BEFORE UPDATE ON companies
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+INSERT INTO companies (slug, name, acronym, description, website_url, category, hourly_rate_cents, bonus_cents, hires_count, gradient, is_available, tasks, sort_order)
+VALUES
+    ('silicon-valley-consulting', 'Silicon Valley Consulting', 'SVC', 'A marketing consultancy helping technology companies grow their communities and engagement', 'https://SiliconValleyConsulting.io', 'Marketing & Growth', 200, 50000, 14, 'from-purple-600 to-blue-600', TRUE, '[
+        {"title": "Reddit Community Engagement", "description": "Role play as authentic users of SVC''s clients to help their clients grow their subreddit communities organically."},
+        {"title": "Content Creation", "description": "Create authentic posts, comments, and discussions that align with client objectives."},
+        {"title": "Community Building", "description": "Help foster genuine discussions and engagement within target communities."}
+    ]', 10),
+    ('tech-innovations', 'Tech Innovations Corp', 'TIC', 'Leading technology solutions for enterprise clients', NULL, 'Technology', 350, 75000, 28, 'from-green-600 to-teal-600', FALSE, '[]', 20),
+    ('digital-marketing-pro', 'Digital Marketing Pro', 'DMP', 'Full-service digital marketing agency for SaaS companies', NULL, 'Digital Marketing', 400, 60000, 35, 'from-pink-600 to-red-600', FALSE, '[]', 30),
+    ('growth-hackers-inc', 'Growth Hackers Inc', 'GHI', 'Data-driven growth strategies for startups', NULL, 'Growth & Analytics', 275, 80000, 22, 'from-orange-600 to-yellow-600', FALSE, '[]', 40),
+    ('social-media-masters', 'Social Media Masters', 'SMM', 'Social media management and community building', NULL, 'Social Media', 225, 40000, 41, 'from-blue-600 to-indigo-600', FALSE, '[]', 50),
+    ('content-creators-hub', 'Content Creators Hub', 'CCH', 'Video and written content creation services', NULL, 'Content Creation', 300, 50000, 19, 'from-purple-600 to-pink-600', FALSE, '[]', 60),
+    ('ai-automation-labs', 'AI Automation Labs', 'AAL', 'Artificial intelligence solutions for business automation', NULL, 'AI & Automation', 500, 100000, 12, 'from-cyan-600 to-blue-600', FALSE, '[]', 70),
+    ('startup-accelerator', 'Startup Accelerator', 'SA', 'Helping early-stage startups scale and grow', NULL, 'Startup Services', 250, 60000, 33, 'from-red-600 to-orange-600', FALSE, '[]', 80),
+    ('ecommerce-experts', 'E-commerce Experts', 'EE', 'Online store optimization and conversion strategies', NULL, 'E-commerce', 325, 55000, 26, 'from-green-600 to-emerald-600', FALSE, '[]', 90),
+    ('blockchain-builders', 'Blockchain Builders', 'BB', 'Decentralized applications and crypto solutions', NULL, 'Blockchain', 450, 90000, 8, 'from-yellow-600 to-orange-600', FALSE, '[]', 100),
+    ('mobile-app-studio', 'Mobile App Studio', 'MAS', 'iOS and Android app development and marketing', NULL, 'Mobile Development', 375, 65000, 31, 'from-indigo-600 to-purple-600', FALSE, '[]', 110),
+    ('data-analytics-firm', 'Data Analytics Firm', 'DAF', 'Business intelligence and data visualization', NULL, 'Data & Analytics', 425, 70000, 17, 'from-teal-600 to-cyan-600', FALSE, '[]', 120),
+    ('influencer-network', 'Influencer Network', 'IN', 'Connecting brands with social media influencers', NULL, 'Influencer Marketing', 275, 45000, 45, 'from-pink-600 to-purple-600', FALSE, '[]', 130),
+    ('video-production-co', 'Video Production Co', 'VPC', 'Professional video content for marketing campaigns', NULL, 'Video Production', 350, 80000, 23, 'from-red-600 to-pink-600', FALSE, '[]', 140),
+    ('seo-specialists', 'SEO Specialists', 'SS', 'Search engine optimization and organic traffic growth', NULL, 'SEO & SEM', 290, 52000, 38, 'from-green-600 to-blue-600', FALSE, '[]', 150),
+    ('ux-design-collective', 'UX Design Collective', 'UDC', 'User experience design for web and mobile applications', NULL, 'UX/UI Design', 400, 75000, 21, 'from-orange-600 to-red-600', FALSE, '[]', 160),
+    ('cybersecurity-pros', 'Cybersecurity Pros', 'CP', 'Information security and threat protection services', NULL, 'Cybersecurity', 550, 120000, 9, 'from-gray-600 to-gray-800', FALSE, '[]', 170),
+    ('cloud-solutions-ltd', 'Cloud Solutions Ltd', 'CSL', 'Cloud infrastructure and migration services', NULL, 'Cloud Services', 475, 85000, 15, 'from-blue-600 to-cyan-600', FALSE, '[]', 180),
+    ('fintech-innovators', 'FinTech Innovators', 'FI', 'Financial technology solutions and payment systems', NULL, 'Financial Technology', 425, 90000, 11, 'from-emerald-600 to-teal-600', FALSE, '[]', 190),
+    ('gaming-studios-group', 'Gaming Studios Group', 'GSG', 'Mobile and PC game development and marketing', NULL, 'Gaming', 325, 60000, 29, 'from-purple-600 to-indigo-600', FALSE, '[]', 200),
+    ('healthtech-solutions', 'HealthTech Solutions', 'HTS', 'Digital health platforms and telemedicine', NULL, 'Healthcare Technology', 450, 80000, 13, 'from-green-600 to-lime-600', FALSE, '[]', 210)
+ON CONFLICT (slug) DO NOTHING;
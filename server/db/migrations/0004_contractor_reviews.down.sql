@@ -0,0 +1,2 @@
+DROP TABLE IF EXISTS contractor_status_history;
+DROP TABLE IF EXISTS company_admins;
@@ -0,0 +1,33 @@
+-- Company admins review contractor requests for their company.
+-- Every status change is kept in contractor_status_history.
+
+-- Admins are people at the company, not contractors, so they have no users
+-- row. Support adds them by email (see server/admins/cli.ts); the row links to
+-- the admin's Supabase identity on their first request.
+CREATE TABLE IF NOT EXISTS company_admins (
+    id SERIAL PRIMARY KEY,
+    email VARCHAR(255) NOT NULL,
+    supabase_user_id UUID,
+    company_slug VARCHAR(100) NOT NULL REFERENCES companies(slug) ON DELETE CASCADE,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_company_admins_company_email
+    ON company_admins(company_slug, LOWER(email));
+CREATE INDEX IF NOT EXISTS idx_company_admins_supabase_user_id
+    ON company_admins(supabase_user_id);
+
+CREATE TABLE IF NOT EXISTS contractor_status_history (
+    id SERIAL PRIMARY KEY,
+    contractor_id INTEGER NOT NULL REFERENCES contractors(id) ON DELETE CASCADE,
+    from_status VARCHAR(20) NOT NULL,
+    to_status VARCHAR(20) NOT NULL,
+    can_start_job BOOLEAN NOT NULL,
+    reason TEXT,
+    -- Kept when the acting admin is removed so the audit trail survives
+    actor_admin_id INTEGER REFERENCES company_admins(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_contractor_status_history_contractor_id
+    ON contractor_status_history(contractor_id, created_at);
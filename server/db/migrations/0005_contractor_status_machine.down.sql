@@ -0,0 +1,12 @@
+ALTER TABLE contractor_status_events DROP COLUMN IF EXISTS actor_user_id;
+
+ALTER INDEX idx_contractor_status_events_contractor_id
+    RENAME TO idx_contractor_status_history_contractor_id;
+ALTER SEQUENCE contractor_status_events_id_seq RENAME TO contractor_status_history_id_seq;
+ALTER TABLE contractor_status_events RENAME TO contractor_status_history;
+
+-- Fails while any contractor is in one of the newer states; move them first
+ALTER TABLE contractors DROP CONSTRAINT IF EXISTS contractors_status_check;
+ALTER TABLE contractors ADD CONSTRAINT contractors_status_check CHECK (
+    status IN ('pending', 'accepted', 'rejected')
+);
@@ -0,0 +1,16 @@
+-- Contractor requests follow a state machine enforced by server/services/contractor-status.ts.
+-- The status history becomes contractor_status_events, one row per transition.
+
+ALTER TABLE contractors DROP CONSTRAINT IF EXISTS contractors_status_check;
+ALTER TABLE contractors ADD CONSTRAINT contractors_status_check CHECK (
+    status IN ('pending', 'accepted', 'rejected', 'withdrawn', 'active', 'suspended', 'completed')
+);
+
+ALTER TABLE contractor_status_history RENAME TO contractor_status_events;
+ALTER SEQUENCE contractor_status_history_id_seq RENAME TO contractor_status_events_id_seq;
+ALTER INDEX idx_contractor_status_history_contractor_id
+    RENAME TO idx_contractor_status_events_contractor_id;
+
+-- Contractors act on their own requests, e.g. withdrawing them
+ALTER TABLE contractor_status_events
+    ADD COLUMN IF NOT EXISTS actor_user_id INTEGER REFERENCES users(id) ON DELETE SET NULL;
@@ -0,0 +1,21 @@
+-- Transactional outbox: notifications are written in the same transaction as
+-- the change that triggers them and delivered later by the outbox worker.
+
+CREATE TABLE IF NOT EXISTS outbox_messages (
+    id SERIAL PRIMARY KEY,
+    template VARCHAR(50) NOT NULL,
+    recipient VARCHAR(255) NOT NULL,
+    -- Template data, rendered when the message is delivered
+    payload JSONB NOT NULL DEFAULT '{}',
+    status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'sent', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    next_attempt_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    sent_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- The worker only ever scans messages that are still waiting to go out
+CREATE INDEX IF NOT EXISTS idx_outbox_messages_pending
+    ON outbox_messages(next_attempt_at, id) WHERE status = 'pending';
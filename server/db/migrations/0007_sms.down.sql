@@ -0,0 +1,13 @@
+DROP TABLE IF EXISTS sms_deliveries;
+DROP TABLE IF EXISTS sms_opt_outs;
+
+DELETE FROM outbox_messages WHERE channel = 'sms';
+UPDATE outbox_messages SET status = 'failed' WHERE status = 'skipped';
+
+ALTER TABLE outbox_messages DROP CONSTRAINT IF EXISTS outbox_messages_status_check;
+ALTER TABLE outbox_messages ADD CONSTRAINT outbox_messages_status_check
+    CHECK (status IN ('pending', 'sent', 'failed'));
+
+ALTER TABLE outbox_messages
+    DROP COLUMN IF EXISTS user_id,
+    DROP COLUMN IF EXISTS channel;
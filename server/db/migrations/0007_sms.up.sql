@@ -0,0 +1,36 @@
+-- SMS notifications go through the outbox alongside email.
+-- Users who text a STOP keyword are recorded in sms_opt_outs and never texted again
+-- until they text START; every attempt to text a user is kept in sms_deliveries.
+
+ALTER TABLE outbox_messages
+    ADD COLUMN IF NOT EXISTS channel VARCHAR(10) NOT NULL DEFAULT 'email'
+        CHECK (channel IN ('email', 'sms')),
+    -- Set for SMS so the worker can honour the user's opt-out
+    ADD COLUMN IF NOT EXISTS user_id INTEGER REFERENCES users(id) ON DELETE CASCADE;
+
+-- Messages to opted-out users are skipped rather than sent
+ALTER TABLE outbox_messages DROP CONSTRAINT IF EXISTS outbox_messages_status_check;
+ALTER TABLE outbox_messages ADD CONSTRAINT outbox_messages_status_check
+    CHECK (status IN ('pending', 'sent', 'skipped', 'failed'));
+
+CREATE TABLE IF NOT EXISTS sms_opt_outs (
+    user_id INTEGER PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+    keyword VARCHAR(20) NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS sms_deliveries (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    outbox_message_id INTEGER REFERENCES outbox_messages(id) ON DELETE SET NULL,
+    phone VARCHAR(50) NOT NULL,
+    template VARCHAR(50) NOT NULL,
+    body TEXT NOT NULL,
+    status VARCHAR(20) NOT NULL CHECK (status IN ('sent', 'failed', 'opted_out')),
+    provider VARCHAR(20) NOT NULL,
+    provider_message_id VARCHAR(100),
+    error TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_sms_deliveries_user_id ON sms_deliveries(user_id, created_at);
@@ -0,0 +1,5 @@
+-- Snapshot of the Reddit eligibility check made when the user qualified:
+-- the account's age and karma, the policy in force and the outcome.
+-- See server/services/reddit-eligibility.ts.
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS reddit_eligibility JSONB;
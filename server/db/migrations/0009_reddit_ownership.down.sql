@@ -0,0 +1,5 @@
+UPDATE users SET reddit_verified = TRUE
+WHERE id IN (SELECT user_id FROM reddit_verification_resets);
+
+DROP TABLE IF EXISTS reddit_verification_resets;
+DROP TABLE IF EXISTS reddit_verification_codes;
@@ -0,0 +1,38 @@
+-- One-time codes that prove a user owns their Reddit account.
+-- The user puts the code in their profile description or posts it to their profile;
+-- users.reddit_verified only becomes true once the code is found there.
+-- See server/services/reddit-ownership.ts.
+
+CREATE TABLE IF NOT EXISTS reddit_verification_codes (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    reddit_username VARCHAR(255) NOT NULL,
+    code VARCHAR(32) NOT NULL,
+    -- Checks against Reddit made with this code
+    attempts INTEGER NOT NULL DEFAULT 0,
+    expires_at TIMESTAMP NOT NULL,
+    verified_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_reddit_verification_codes_user_id
+    ON reddit_verification_codes(user_id, created_at DESC);
+
+-- Users verified before this only showed that the username exists, so they
+-- verify again with a code. The reset is recorded for the down migration.
+CREATE TABLE IF NOT EXISTS reddit_verification_resets (
+    user_id INTEGER PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+    reset_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+INSERT INTO reddit_verification_resets (user_id)
+SELECT u.id FROM users u
+WHERE u.reddit_verified = TRUE
+  AND NOT EXISTS (
+      SELECT 1 FROM reddit_verification_codes c
+      WHERE c.user_id = u.id AND c.verified_at IS NOT NULL
+  )
+ON CONFLICT (user_id) DO NOTHING;
+
+UPDATE users SET reddit_verified = FALSE
+WHERE id IN (SELECT user_id FROM reddit_verification_resets);
@@ -0,0 +1,4 @@
+ALTER TABLE users
+    DROP COLUMN IF EXISTS twitter_verified,
+    DROP COLUMN IF EXISTS youtube_verified,
+    DROP COLUMN IF EXISTS facebook_verified;
@@ -0,0 +1,7 @@
+-- Per-platform verification status for the optional social handles.
+-- Set from the platform's existence check at qualification; see server/platforms.
+
+ALTER TABLE users
+    ADD COLUMN IF NOT EXISTS twitter_verified BOOLEAN NOT NULL DEFAULT FALSE,
+    ADD COLUMN IF NOT EXISTS youtube_verified BOOLEAN NOT NULL DEFAULT FALSE,
+    ADD COLUMN IF NOT EXISTS facebook_verified BOOLEAN NOT NULL DEFAULT FALSE;
@@ -0,0 +1 @@
+DROP TABLE IF EXISTS reddit_listing_cache;
@@ -0,0 +1,16 @@
+-- Reddit listings cached by the Postgres listing cache store, so serverless
+-- instances share entries and keep them across cold starts.
+-- See server/services/reddit-cache.ts.
+
+CREATE TABLE IF NOT EXISTS reddit_listing_cache (
+    cache_key VARCHAR(255) PRIMARY KEY,
+    value JSONB NOT NULL,
+    -- Served without revalidating until fresh_until, then served stale and
+    -- refreshed in the background until stale_until
+    fresh_until TIMESTAMP NOT NULL,
+    stale_until TIMESTAMP NOT NULL,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_reddit_listing_cache_stale_until
+    ON reddit_listing_cache(stale_until);
@@ -0,0 +1,60 @@
+-- Earnings are a double-entry ledger: every transaction is two or more
+-- ledger_entries that sum to zero per currency. Money is stored in integer cents.
+-- See server/earnings/index.ts.
+
+-- One row per verified account per day that a platform's data was accessed
+CREATE TABLE IF NOT EXISTS data_access_events (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    platform VARCHAR(20) NOT NULL,
+    platform_username VARCHAR(255) NOT NULL,
+    access_date DATE NOT NULL,
+    amount_cents INTEGER NOT NULL CHECK (amount_cents >= 0),
+    currency CHAR(3) NOT NULL CHECK (currency ~ '^[A-Z]{3}$'),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (user_id, platform, access_date)
+);
+
+CREATE TABLE IF NOT EXISTS ledger_entries (
+    id SERIAL PRIMARY KEY,
+    -- Entries posted together share a transaction_id
+    transaction_id UUID NOT NULL,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    platform VARCHAR(20) NOT NULL,
+    -- user_earnings: what we owe the user
+    -- platform_receivable: what the platform owes us for the access
+    account VARCHAR(30) NOT NULL CHECK (account IN ('user_earnings', 'platform_receivable')),
+    -- Positive credits the account, negative debits it
+    amount_cents BIGINT NOT NULL CHECK (amount_cents <> 0),
+    currency CHAR(3) NOT NULL CHECK (currency ~ '^[A-Z]{3}$'),
+    description TEXT NOT NULL,
+    data_access_event_id INTEGER REFERENCES data_access_events(id) ON DELETE CASCADE,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_user_account
+    ON ledger_entries(user_id, account, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_transaction_id ON ledger_entries(transaction_id);
+
+-- Checked at commit, once every entry of the transaction is in
+CREATE OR REPLACE FUNCTION check_ledger_transaction_balanced()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM ledger_entries
+        WHERE transaction_id = NEW.transaction_id
+        GROUP BY currency
+        HAVING SUM(amount_cents) <> 0
+    ) THEN
+        RAISE EXCEPTION 'Ledger transaction % does not balance', NEW.transaction_id;
+    END IF;
+    RETURN NULL;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS ledger_entries_balanced ON ledger_entries;
+CREATE CONSTRAINT TRIGGER ledger_entries_balanced
+    AFTER INSERT ON ledger_entries
+    DEFERRABLE INITIALLY DEFERRED
+    FOR EACH ROW
+    EXECUTE FUNCTION check_ledger_transaction_balanced();
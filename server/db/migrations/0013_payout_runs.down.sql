@@ -0,0 +1,10 @@
+-- Fails while the ledger holds payout entries; reverse those payouts first
+ALTER TABLE ledger_entries DROP CONSTRAINT IF EXISTS ledger_entries_account_check;
+ALTER TABLE ledger_entries ADD CONSTRAINT ledger_entries_account_check CHECK (
+    account IN ('user_earnings', 'platform_receivable')
+);
+
+ALTER TABLE ledger_entries DROP COLUMN IF EXISTS payout_line_item_id;
+
+DROP TABLE IF EXISTS payout_line_items;
+DROP TABLE IF EXISTS payout_runs;
@@ -0,0 +1,46 @@
+-- Quarterly batch payouts for the platforms that don't pay daily.
+-- A run snapshots each user's earnings accrued in the quarter as line items;
+-- executing it debits those earnings in the ledger. See server/payouts/index.ts.
+
+CREATE TABLE IF NOT EXISTS payout_runs (
+    id SERIAL PRIMARY KEY,
+    -- e.g. 2026-Q1; period_end is exclusive
+    period VARCHAR(7) NOT NULL CHECK (period ~ '^\d{4}-Q[1-4]$'),
+    period_start DATE NOT NULL,
+    period_end DATE NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'approved', 'executed', 'failed')),
+    failure_reason TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    approved_at TIMESTAMP,
+    executed_at TIMESTAMP,
+    failed_at TIMESTAMP
+);
+
+-- One live run per period; a failed run can be replaced by a fresh one
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payout_runs_live_period
+    ON payout_runs(period) WHERE status <> 'failed';
+
+CREATE TABLE IF NOT EXISTS payout_line_items (
+    id SERIAL PRIMARY KEY,
+    payout_run_id INTEGER NOT NULL REFERENCES payout_runs(id) ON DELETE CASCADE,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    currency CHAR(3) NOT NULL CHECK (currency ~ '^[A-Z]{3}$'),
+    amount_cents BIGINT NOT NULL CHECK (amount_cents > 0),
+    -- Cents per platform, e.g. {"twitter": 375, "youtube": 600}; sums to amount_cents
+    platform_amounts JSONB NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (payout_run_id, user_id, currency)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payout_line_items_user_id ON payout_line_items(user_id);
+
+-- payouts: what has been paid out to users
+ALTER TABLE ledger_entries DROP CONSTRAINT IF EXISTS ledger_entries_account_check;
+ALTER TABLE ledger_entries ADD CONSTRAINT ledger_entries_account_check CHECK (
+    account IN ('user_earnings', 'platform_receivable', 'payouts')
+);
+
+ALTER TABLE ledger_entries
+    ADD COLUMN IF NOT EXISTS payout_line_item_id INTEGER
+        REFERENCES payout_line_items(id) ON DELETE CASCADE;
@@ -0,0 +1,3 @@
+DROP TABLE IF EXISTS task_submission_attachments;
+DROP TABLE IF EXISTS task_submissions;
+DROP TABLE IF EXISTS tasks;
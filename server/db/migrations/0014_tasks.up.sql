@@ -0,0 +1,42 @@
+-- Daily tasks companies assign to their contractors, and what contractors submit.
+-- Only contractors whose request has can_start_job may submit; see server/services/tasks.ts.
+
+CREATE TABLE IF NOT EXISTS tasks (
+    id SERIAL PRIMARY KEY,
+    company_slug VARCHAR(100) NOT NULL REFERENCES companies(slug) ON DELETE CASCADE,
+    title VARCHAR(200) NOT NULL,
+    description TEXT NOT NULL DEFAULT '',
+    -- The day the task is for; contractors see it from this day on
+    task_date DATE NOT NULL,
+    -- Kept when the assigning admin is deleted
+    created_by INTEGER REFERENCES company_admins(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_tasks_company_slug_task_date ON tasks(company_slug, task_date DESC);
+
+CREATE TABLE IF NOT EXISTS task_submissions (
+    id SERIAL PRIMARY KEY,
+    task_id INTEGER NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+    contractor_id INTEGER NOT NULL REFERENCES contractors(id) ON DELETE CASCADE,
+    body TEXT NOT NULL,
+    links JSONB NOT NULL DEFAULT '[]',
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    -- One submission per contractor per task
+    UNIQUE (task_id, contractor_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_submissions_contractor_id ON task_submissions(contractor_id);
+
+CREATE TABLE IF NOT EXISTS task_submission_attachments (
+    id SERIAL PRIMARY KEY,
+    submission_id INTEGER NOT NULL REFERENCES task_submissions(id) ON DELETE CASCADE,
+    filename VARCHAR(255) NOT NULL,
+    content_type VARCHAR(255) NOT NULL,
+    size_bytes INTEGER NOT NULL CHECK (size_bytes >= 0),
+    data BYTEA NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_submission_attachments_submission_id
+    ON task_submission_attachments(submission_id);
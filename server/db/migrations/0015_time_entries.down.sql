@@ -0,0 +1,11 @@
+-- Fails while the ledger holds approved hours; reverse those entries first
+ALTER TABLE ledger_entries DROP CONSTRAINT IF EXISTS ledger_entries_account_check;
+ALTER TABLE ledger_entries ADD CONSTRAINT ledger_entries_account_check CHECK (
+    account IN ('user_earnings', 'platform_receivable', 'payouts')
+);
+
+ALTER TABLE ledger_entries DROP COLUMN IF EXISTS time_entry_id;
+
+DROP TABLE IF EXISTS time_entries;
+
+ALTER TABLE contractors DROP COLUMN IF EXISTS hourly_rate_cents;
@@ -0,0 +1,52 @@
+-- Hours contractors log against an engagement, from a start/stop timer or
+-- entered by hand. The company approves or disputes each entry; approving
+-- credits the contractor's earnings at the hourly rate snapshotted when the
+-- request was accepted. See server/services/time-entries.ts.
+
+-- USD cents per hour, copied from companies.hourly_rate_cents on acceptance
+ALTER TABLE contractors
+    ADD COLUMN IF NOT EXISTS hourly_rate_cents INTEGER CHECK (hourly_rate_cents >= 0);
+
+UPDATE contractors c
+SET hourly_rate_cents = co.hourly_rate_cents
+FROM companies co
+WHERE co.slug = c.company_slug
+  AND c.hourly_rate_cents IS NULL
+  AND c.status IN ('accepted', 'active', 'suspended', 'completed');
+
+CREATE TABLE IF NOT EXISTS time_entries (
+    id SERIAL PRIMARY KEY,
+    contractor_id INTEGER NOT NULL REFERENCES contractors(id) ON DELETE CASCADE,
+    started_at TIMESTAMP NOT NULL,
+    -- NULL while the timer is running
+    ended_at TIMESTAMP CHECK (ended_at > started_at),
+    description TEXT NOT NULL DEFAULT '',
+    source VARCHAR(10) NOT NULL CHECK (source IN ('timer', 'manual')),
+    status VARCHAR(10) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'approved', 'disputed')),
+    dispute_reason TEXT,
+    -- The engagement's rate when the entry was logged
+    rate_cents INTEGER NOT NULL CHECK (rate_cents >= 0),
+    -- Set on approval
+    amount_cents INTEGER CHECK (amount_cents >= 0),
+    reviewed_by INTEGER REFERENCES company_admins(id) ON DELETE SET NULL,
+    reviewed_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    CHECK (status = 'pending' OR ended_at IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_time_entries_contractor_started
+    ON time_entries(contractor_id, started_at);
+
+-- One running timer per engagement
+CREATE UNIQUE INDEX IF NOT EXISTS idx_time_entries_running
+    ON time_entries(contractor_id) WHERE ended_at IS NULL;
+
+-- company_receivable: what the company owes us for approved hours
+ALTER TABLE ledger_entries DROP CONSTRAINT IF EXISTS ledger_entries_account_check;
+ALTER TABLE ledger_entries ADD CONSTRAINT ledger_entries_account_check CHECK (
+    account IN ('user_earnings', 'platform_receivable', 'payouts', 'company_receivable')
+);
+
+ALTER TABLE ledger_entries
+    ADD COLUMN IF NOT EXISTS time_entry_id INTEGER REFERENCES time_entries(id) ON DELETE CASCADE;
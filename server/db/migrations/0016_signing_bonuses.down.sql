@@ -0,0 +1,7 @@
+ALTER TABLE ledger_entries DROP COLUMN IF EXISTS signing_bonus_id;
+
+DROP TABLE IF EXISTS signing_bonuses;
+
+ALTER TABLE companies
+    DROP COLUMN IF EXISTS bonus_threshold,
+    DROP COLUMN IF EXISTS bonus_rule;
@@ -0,0 +1,27 @@
+-- Signing bonus terms per company, and the bonuses contractors have unlocked.
+-- companies.bonus_cents is paid once per engagement when the contractor
+-- reaches bonus_threshold under bonus_rule. See server/services/signing-bonuses.ts.
+
+-- approved_hours: hours the company approved; submitted_tasks: daily tasks submitted
+ALTER TABLE companies
+    ADD COLUMN IF NOT EXISTS bonus_rule VARCHAR(30) NOT NULL DEFAULT 'approved_hours'
+        CHECK (bonus_rule IN ('approved_hours', 'submitted_tasks')),
+    ADD COLUMN IF NOT EXISTS bonus_threshold INTEGER NOT NULL DEFAULT 40
+        CHECK (bonus_threshold > 0);
+
+UPDATE companies SET bonus_threshold = 20 WHERE slug = 'silicon-valley-consulting';
+
+CREATE TABLE IF NOT EXISTS signing_bonuses (
+    id SERIAL PRIMARY KEY,
+    -- One bonus per engagement
+    contractor_id INTEGER NOT NULL UNIQUE REFERENCES contractors(id) ON DELETE CASCADE,
+    company_slug VARCHAR(100) NOT NULL REFERENCES companies(slug),
+    -- The terms and amount when the bonus unlocked
+    rule VARCHAR(30) NOT NULL,
+    threshold INTEGER NOT NULL,
+    amount_cents INTEGER NOT NULL CHECK (amount_cents > 0),
+    unlocked_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE ledger_entries
+    ADD COLUMN IF NOT EXISTS signing_bonus_id INTEGER REFERENCES signing_bonuses(id) ON DELETE CASCADE;
@@ -0,0 +1,9 @@
+UPDATE companies SET bonus_rule = 'approved_hours', bonus_threshold = 40
+WHERE bonus_rule = 'review_rating';
+
+ALTER TABLE companies DROP CONSTRAINT IF EXISTS companies_bonus_rule_check;
+ALTER TABLE companies ADD CONSTRAINT companies_bonus_rule_check CHECK (
+    bonus_rule IN ('approved_hours', 'submitted_tasks')
+);
+
+DROP TABLE IF EXISTS performance_reviews;
@@ -0,0 +1,22 @@
+-- Company ratings of the contractors who work for them. A rating of 4 or more
+-- unlocks the rest of the marketplace for the contractor. See
+-- server/services/performance-reviews.ts.
+
+CREATE TABLE IF NOT EXISTS performance_reviews (
+    id SERIAL PRIMARY KEY,
+    contractor_id INTEGER NOT NULL REFERENCES contractors(id) ON DELETE CASCADE,
+    company_slug VARCHAR(100) NOT NULL REFERENCES companies(slug),
+    reviewer_id INTEGER REFERENCES company_admins(id) ON DELETE SET NULL,
+    rating SMALLINT NOT NULL CHECK (rating BETWEEN 1 AND 5),
+    comment TEXT NOT NULL DEFAULT '',
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_performance_reviews_contractor
+    ON performance_reviews(contractor_id, created_at);
+
+-- review_rating: a performance review of at least bonus_threshold stars
+ALTER TABLE companies DROP CONSTRAINT IF EXISTS companies_bonus_rule_check;
+ALTER TABLE companies ADD CONSTRAINT companies_bonus_rule_check CHECK (
+    bonus_rule IN ('approved_hours', 'submitted_tasks', 'review_rating')
+);
@@ -0,0 +1,2 @@
+DROP TABLE IF EXISTS company_review_flags;
+DROP TABLE IF EXISTS company_reviews;
@@ -0,0 +1,29 @@
+-- Contractors' reviews of the companies they completed an engagement with,
+-- one per company, and reports of abusive reviews. Hidden reviews are left
+-- out of the company's public reviews and rating. See
+-- server/services/company-reviews.ts.
+
+CREATE TABLE IF NOT EXISTS company_reviews (
+    id SERIAL PRIMARY KEY,
+    company_slug VARCHAR(100) NOT NULL REFERENCES companies(slug),
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    contractor_id INTEGER REFERENCES contractors(id) ON DELETE SET NULL,
+    rating SMALLINT NOT NULL CHECK (rating BETWEEN 1 AND 5),
+    comment TEXT NOT NULL DEFAULT '',
+    hidden_at TIMESTAMP,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (company_slug, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_company_reviews_visible
+    ON company_reviews(company_slug, id DESC)
+    WHERE hidden_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS company_review_flags (
+    id SERIAL PRIMARY KEY,
+    review_id INTEGER NOT NULL REFERENCES company_reviews(id) ON DELETE CASCADE,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    reason TEXT NOT NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (review_id, user_id)
+);
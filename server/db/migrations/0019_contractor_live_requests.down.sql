@@ -0,0 +1 @@
+DROP INDEX IF EXISTS idx_contractors_live_request;
@@ -0,0 +1,7 @@
+-- A user has at most one live request per company. Keep the status list in
+-- step with LIVE_CONTRACTOR_STATUSES in shared/schemas.ts.
+-- Fails if a user already has two live requests for a company; resolve those first.
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_contractors_live_request
+    ON contractors(user_id, company_slug)
+    WHERE status IN ('pending', 'accepted', 'active', 'suspended');
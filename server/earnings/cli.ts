@@ -0,0 +1,26 @@
+/**
+ * Earnings CLI
+ * Run once a day by a scheduler (e.g. a scheduled function)
+ * Usage:
+ *   tsx server/earnings/cli.ts record-data-access [YYYY-MM-DD]
+ */
+
+import "dotenv/config";
+import { closeDatabase } from "../db";
+import { recordDailyDataAccess } from "./index";
+
+async function main(command: string | undefined, accessDate: string | undefined) {
+  if (command !== "record-data-access") {
+    throw new Error(`Unknown command '${command ?? ""}'. Use: record-data-access`);
+  }
+
+  const result = await recordDailyDataAccess(accessDate);
+  console.log("[EARNINGS] Data access recorded:", JSON.stringify(result));
+}
+
+main(process.argv[2], process.argv[3])
+  .catch((error) => {
+    console.error("[EARNINGS] Recording data access failed:", error.message);
+    process.exitCode = 1;
+  })
+  .finally(() => closeDatabase());
@@ -0,0 +1,239 @@
+/**
+ * Earnings Ledger
+ * A double-entry record of what users have earned. Every posting is a set of
+ * ledger_entries that share a transaction_id and sum to zero per currency,
+ * which a deferred constraint trigger checks at commit. The daily job records
+ * one data-access event per verified account and platform, crediting the
+ * user's earnings against what the platform owes us.
+ */
+
+import { randomUUID } from "crypto";
+import type { Pool, PoolClient } from "pg";
+import type {
+  EarningsBalance,
+  EarningsEntry,
+  PlatformEarnings,
+} from "../../shared/schemas";
+import { getDatabase, withTransaction } from "../db";
+import {
+  getDailyDataAccessRates,
+  type DataAccessPlatform,
+  type DataAccessRate,
+} from "./rates";
+
+export type LedgerAccount =
+  | "user_earnings"
+  | "platform_receivable"
+  | "payouts"
+  | "company_receivable";
+
+export interface LedgerLeg {
+  account: LedgerAccount;
+  // Positive credits the account, negative debits it
+  amountCents: number;
+}
+
+export interface LedgerPosting {
+  userId: number;
+  platform: string;
+  currency: string;
+  description: string;
+  legs: LedgerLeg[];
+  dataAccessEventId?: number;
+  payoutLineItemId?: number;
+  timeEntryId?: number;
+  signingBonusId?: number;
+}
+
+export interface DataAccessRunResult {
+  accessDate: string;
+  // New events per platform; accounts already recorded for the day are not counted
+  recorded: Partial<Record<DataAccessPlatform, number>>;
+}
+
+export interface UserEarnings {
+  balances: EarningsBalance[];
+  platforms: PlatformEarnings[];
+  history: EarningsEntry[];
+}
+
+export const PLATFORM_LABELS: Record<DataAccessPlatform, string> = {
+  reddit: "Reddit",
+  twitter: "Twitter",
+  youtube: "YouTube",
+  facebook: "Facebook",
+};
+
+/**
+ * Post one balanced ledger transaction
+ * @param client - Pass the caller's transaction client so the legs commit together
+ * @returns The transaction_id shared by the legs
+ * @throws Error if the legs do not sum to zero
+ */
+export async function postLedgerTransaction(
+  client: Pool | PoolClient,
+  posting: LedgerPosting
+): Promise<string> {
+  const total = posting.legs.reduce((sum, leg) => sum + leg.amountCents, 0);
+  if (total !== 0) {
+    throw new Error(`Ledger transaction does not balance: legs sum to ${total}`);
+  }
+
+  const transactionId = randomUUID();
+  for (const leg of posting.legs) {
+    await client.query(
+      `INSERT INTO ledger_entries
+         (transaction_id, user_id, platform, account, amount_cents, currency, description,
+          data_access_event_id, payout_line_item_id, time_entry_id, signing_bonus_id)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
+      [
+        transactionId,
+        posting.userId,
+        posting.platform,
+        leg.account,
+        leg.amountCents,
+        posting.currency,
+        posting.description,
+        posting.dataAccessEventId ?? null,
+        posting.payoutLineItemId ?? null,
+        posting.timeEntryId ?? null,
+        posting.signingBonusId ?? null,
+      ]
+    );
+  }
+  return transactionId;
+}
+
+/**
+ * Today's date in UTC as YYYY-MM-DD, the day the job records access for
+ */
+export function utcDate(now: Date = new Date()): string {
+  return now.toISOString().slice(0, 10);
+}
+
+async function recordPlatformAccess(
+  rate: DataAccessRate,
+  accessDate: string
+): Promise<number> {
+  const { platform, amountCents, currency } = rate;
+
+  return withTransaction(async (client) => {
+    // platform is one of DATA_ACCESS_PLATFORMS, so the column names are safe to interpolate
+    const events = await client.query<{ id: number; user_id: number; platform_username: string }>(
+      `INSERT INTO data_access_events
+         (user_id, platform, platform_username, access_date, amount_cents, currency)
+       SELECT id, $1, ${platform}_username, $2, $3, $4
+       FROM users
+       WHERE ${platform}_verified = true AND ${platform}_username IS NOT NULL
+       ON CONFLICT (user_id, platform, access_date) DO NOTHING
+       RETURNING id, user_id, platform_username`,
+      [platform, accessDate, amountCents, currency]
+    );
+
+    for (const event of events.rows) {
+      await postLedgerTransaction(client, {
+        userId: event.user_id,
+        platform,
+        currency,
+        description: `${PLATFORM_LABELS[platform]} data access for ${event.platform_username} on ${accessDate}`,
+        dataAccessEventId: event.id,
+        legs: [
+          { account: "user_earnings", amountCents },
+          { account: "platform_receivable", amountCents: -amountCents },
+        ],
+      });
+    }
+    return events.rows.length;
+  });
+}
+
+/**
+ * Record a day of data access for every verified account on each platform
+ * that pays daily
+ *
+ * Safe to run more than once a day: accounts already recorded for
+ * `accessDate` are skipped.
+ * @param accessDate - YYYY-MM-DD, defaults to today in UTC
+ * @param rates - Defaults to the rates configured by the environment
+ */
+export async function recordDailyDataAccess(
+  accessDate: string = utcDate(),
+  rates: DataAccessRate[] = getDailyDataAccessRates()
+): Promise<DataAccessRunResult> {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(accessDate) || Number.isNaN(Date.parse(accessDate))) {
+    throw new Error(`Invalid access date '${accessDate}'. Use YYYY-MM-DD.`);
+  }
+
+  const result: DataAccessRunResult = { accessDate, recorded: {} };
+  for (const rate of rates) {
+    result.recorded[rate.platform] = await recordPlatformAccess(rate, accessDate);
+    console.log(
+      `[EARNINGS] ${rate.platform}: ${result.recorded[rate.platform]} access events for ${accessDate}`
+    );
+  }
+  return result;
+}
+
+/**
+ * The user's earnings balances and most recent ledger entries
+ */
+export async function getUserEarnings(userId: number, limit: number): Promise<UserEarnings> {
+  const db = getDatabase();
+
+  // SUM over BIGINT comes back as a numeric string
+  const balances = await db.query<{ currency: string; amount_cents: string }>(
+    `SELECT currency, SUM(amount_cents) AS amount_cents
+     FROM ledger_entries
+     WHERE user_id = $1 AND account = 'user_earnings'
+     GROUP BY currency
+     ORDER BY currency`,
+    [userId]
+  );
+  const platforms = await db.query<{ platform: string; currency: string; amount_cents: string }>(
+    `SELECT platform, currency, SUM(amount_cents) AS amount_cents
+     FROM ledger_entries
+     WHERE user_id = $1 AND account = 'user_earnings'
+     GROUP BY platform, currency
+     ORDER BY platform, currency`,
+    [userId]
+  );
+  const history = await db.query<{
+    id: number;
+    platform: string;
+    amount_cents: string;
+    currency: string;
+    description: string;
+    access_date: string | null;
+    created_at: Date;
+  }>(
+    `SELECT e.id, e.platform, e.amount_cents, e.currency, e.description,
+            to_char(a.access_date, 'YYYY-MM-DD') AS access_date, e.created_at
+     FROM ledger_entries e
+     LEFT JOIN data_access_events a ON a.id = e.data_access_event_id
+     WHERE e.user_id = $1 AND e.account = 'user_earnings'
+     ORDER BY e.created_at DESC, e.id DESC
+     LIMIT $2`,
+    [userId, limit]
+  );
+
+  return {
+    balances: balances.rows.map((row) => ({
+      currency: row.currency,
+      amountCents: Number(row.amount_cents),
+    })),
+    platforms: platforms.rows.map((row) => ({
+      platform: row.platform,
+      currency: row.currency,
+      amountCents: Number(row.amount_cents),
+    })),
+    history: history.rows.map((row) => ({
+      id: row.id,
+      platform: row.platform,
+      amountCents: Number(row.amount_cents),
+      currency: row.currency,
+      description: row.description,
+      accessDate: row.access_date,
+      createdAt: row.created_at.toISOString(),
+    })),
+  };
+}
@@ -0,0 +1,55 @@
+/**
+ * Data Access Rates
+ * What each platform pays per verified account per day of access. Only Reddit
+ * pays daily out of the box; the other platforms settle in batches, so they
+ * have no daily rate unless one is configured.
+ */
+
+export const DATA_ACCESS_PLATFORMS = ["reddit", "twitter", "youtube", "facebook"] as const;
+
+export type DataAccessPlatform = (typeof DATA_ACCESS_PLATFORMS)[number];
+
+export interface DataAccessRate {
+  platform: DataAccessPlatform;
+  amountCents: number;
+  currency: string;
+}
+
+export const DEFAULT_DAILY_RATE_CENTS: Partial<Record<DataAccessPlatform, number>> = {
+  reddit: 500,
+};
+export const DEFAULT_EARNINGS_CURRENCY = "USD";
+
+function readRateCents(env: NodeJS.ProcessEnv, platform: DataAccessPlatform): number {
+  const name = `${platform.toUpperCase()}_DAILY_RATE_CENTS`;
+  const raw = env[name];
+  if (raw === undefined || raw === "") {
+    return DEFAULT_DAILY_RATE_CENTS[platform] ?? 0;
+  }
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`${name} must be a non-negative integer, got '${raw}'`);
+  }
+  return value;
+}
+
+/**
+ * Get the platforms that pay daily, with the rates configured by the environment
+ *
+ * <PLATFORM>_DAILY_RATE_CENTS sets a platform's rate, where 0 turns daily
+ * payments off. EARNINGS_CURRENCY is the ISO 4217 code all rates are in.
+ * @throws Error if a rate is not a non-negative integer or the currency is not a 3-letter code
+ */
+export function getDailyDataAccessRates(env: NodeJS.ProcessEnv = process.env): DataAccessRate[] {
+  const currency = (env.EARNINGS_CURRENCY || DEFAULT_EARNINGS_CURRENCY).toUpperCase();
+  if (!/^[A-Z]{3}$/.test(currency)) {
+    throw new Error(`EARNINGS_CURRENCY must be a 3-letter currency code, got '${currency}'`);
+  }
+
+  return DATA_ACCESS_PLATFORMS.map((platform) => ({
+    platform,
+    amountCents: readRateCents(env, platform),
+    currency,
+  })).filter((rate) => rate.amountCents > 0);
+}
@@ -5,6 +5,58 @@ import { handleDemo } from "./routes/demo";
 import { handleSocialQualifyForm, handleCheckUserExists } from "./routes/social-qualify-form";
 import { handleContractorRequest } from "./routes/contractor-request";
 import { handleHealth } from "./routes/health";
+import { handleGetCompany, handleListCompanies } from "./routes/companies";
+import { handleListPosts } from "./routes/posts";
+import { handleGetMyEarnings } from "./routes/earnings";
+import {
+  handleCreateCompanyTask,
+  handleDownloadTaskAttachment,
+  handleGetMyDashboard,
+  handleListCompanyTasks,
+  handleListTaskSubmissions,
+  handleSubmitTask,
+} from "./routes/tasks";
+import {
+  handleAddTimeEntry,
+  handleExportCompanyTimesheet,
+  handleExportMyTimesheet,
+  handleListCompanyTimeEntries,
+  handleListMyTimeEntries,
+  handleReviewTimeEntry,
+  handleStartTimer,
+  handleStopTimer,
+} from "./routes/time-entries";
+import { handleGetMySigningBonus } from "./routes/signing-bonuses";
+import {
+  handleCreatePerformanceReview,
+  handleListMyPerformanceReviews,
+  handleListPerformanceReviews,
+} from "./routes/performance-reviews";
+import {
+  handleCreateCompanyReview,
+  handleFlagCompanyReview,
+  handleListCompanyReviews,
+} from "./routes/company-reviews";
+import {
+  handleChangeContractorStatus,
+  handleGetContractorHistory,
+  handleListContractorRequests,
+  handleReviewContractorRequest,
+} from "./routes/contractor-reviews";
+import {
+  handleListMyContractorRequests,
+  handleWithdrawMyContractorRequest,
+} from "./routes/me";
+import { handleInboundSms } from "./routes/sms";
+import {
+  handleGetRedditVerification,
+  handleIssueRedditCode,
+  handleVerifyRedditOwnership,
+} from "./routes/reddit-verification";
+import { optionalAuth, redactHeaders, requireAuth } from "./middleware/auth";
+import { requireLinkedUser } from "./middleware/user";
+import { requireCompanyAdmin } from "./middleware/company-admin";
+import { requireSmsWebhookToken } from "./middleware/sms-webhook";
 
 // Log environment configuration at startup
 console.log("==================== SERVER STARTUP ====================");
@@ -13,6 +65,18 @@ console.log("- NODE_ENV:", process.env.NODE_ENV || "not set");
 console.log("- DATABASE_URL:", process.env.DATABASE_URL ? "configured (Neon PostgreSQL)" : "NOT SET");
 console.log("- REDDIT_CLIENT_ID:", process.env.REDDIT_CLIENT_ID ? "configured" : "NOT SET");
 console.log("- REDDIT_CLIENT_SECRET:", process.env.REDDIT_CLIENT_SECRET ? "configured" : "NOT SET");
+console.log("- REDDIT_MIN_ACCOUNT_AGE_DAYS:", process.env.REDDIT_MIN_ACCOUNT_AGE_DAYS || "default");
+console.log("- REDDIT_MIN_KARMA:", process.env.REDDIT_MIN_KARMA || "default");
+console.log("- REDDIT_DAILY_RATE_CENTS:", process.env.REDDIT_DAILY_RATE_CENTS || "default");
+console.log("- REDDIT_CACHE_STORE:", process.env.REDDIT_CACHE_STORE || "default for NODE_ENV");
+console.log("- TWITTER_BEARER_TOKEN:", process.env.TWITTER_BEARER_TOKEN ? "configured" : "NOT SET");
+console.log("- YOUTUBE_API_KEY:", process.env.YOUTUBE_API_KEY ? "configured" : "NOT SET");
+console.log("- FACEBOOK_ACCESS_TOKEN:", process.env.FACEBOOK_ACCESS_TOKEN ? "configured" : "NOT SET");
+console.log("- SUPABASE_JWT_SECRET:", process.env.SUPABASE_JWT_SECRET ? "configured" : "NOT SET");
+console.log("- MAIL_TRANSPORT:", process.env.MAIL_TRANSPORT || "default for NODE_ENV");
+console.log("- SMTP_URL:", process.env.SMTP_URL ? "configured" : "NOT SET");
+console.log("- SMS_PROVIDER:", process.env.SMS_PROVIDER || "default for NODE_ENV");
+console.log("- SMS_WEBHOOK_TOKEN:", process.env.SMS_WEBHOOK_TOKEN ? "configured" : "NOT SET");
 console.log("========================================================");
 
 export function createServer() {
@@ -22,7 +86,7 @@ export function createServer() {
   app.use((req, res, next) => {
     const timestamp = new Date().toISOString();
     console.log(`[SERVER] ${timestamp} ${req.method} ${req.url}`);
-    console.log(`[SERVER] Headers:`, JSON.stringify(req.headers, null, 2));
+    console.log(`[SERVER] Headers:`, JSON.stringify(redactHeaders(req.headers), null, 2));
 
     // Log response when it's sent
     const originalSend = res.send;
@@ -53,7 +117,96 @@ export function createServer() {
   // FairDataUse API routes
   app.post("/api/check-user-exists", handleCheckUserExists);
   app.post("/api/social-qualify-form", handleSocialQualifyForm);
-  app.post("/api/contractor-request", handleContractorRequest);
+  app.post("/api/contractor-request", requireAuth, requireLinkedUser, handleContractorRequest);
+
+  // Signed-in contractor's own data
+  app.get("/api/me/contractor-requests", requireAuth, requireLinkedUser, handleListMyContractorRequests);
+  app.delete(
+    "/api/me/contractor-requests/:id",
+    requireAuth,
+    requireLinkedUser,
+    handleWithdrawMyContractorRequest
+  );
+  app.get("/api/me/earnings", requireAuth, requireLinkedUser, handleGetMyEarnings);
+  app.get("/api/me/dashboard", requireAuth, requireLinkedUser, handleGetMyDashboard);
+  app.post("/api/me/tasks/:id/submissions", requireAuth, requireLinkedUser, handleSubmitTask);
+  const linkedUser = [requireAuth, requireLinkedUser];
+  app.get("/api/me/engagements/:id/time-entries", ...linkedUser, handleListMyTimeEntries);
+  app.post("/api/me/engagements/:id/time-entries", ...linkedUser, handleAddTimeEntry);
+  app.post("/api/me/engagements/:id/timer/start", ...linkedUser, handleStartTimer);
+  app.post("/api/me/engagements/:id/timer/stop", ...linkedUser, handleStopTimer);
+  app.get("/api/me/engagements/:id/timesheet.csv", ...linkedUser, handleExportMyTimesheet);
+  app.get("/api/me/engagements/:id/signing-bonus", ...linkedUser, handleGetMySigningBonus);
+  app.get("/api/me/performance-reviews", ...linkedUser, handleListMyPerformanceReviews);
+  app.get("/api/me/reddit-verification", requireAuth, requireLinkedUser, handleGetRedditVerification);
+  app.post("/api/me/reddit-verification/code", requireAuth, requireLinkedUser, handleIssueRedditCode);
+  app.post(
+    "/api/me/reddit-verification/verify",
+    requireAuth,
+    requireLinkedUser,
+    handleVerifyRedditOwnership
+  );
+
+  // Replies to our texts (STOP / START), posted by the SMS provider
+  app.post("/api/sms/inbound", requireSmsWebhookToken, handleInboundSms);
+
+  // Company catalog and contractor reviews of companies
+  app.get("/api/companies", optionalAuth, handleListCompanies);
+  app.get("/api/companies/:slug", optionalAuth, handleGetCompany);
+  app.get("/api/companies/:slug/reviews", handleListCompanyReviews);
+  app.post("/api/companies/:slug/reviews", ...linkedUser, handleCreateCompanyReview);
+  app.post("/api/companies/:slug/reviews/:id/flags", ...linkedUser, handleFlagCompanyReview);
+
+  // Reddit feed
+  app.get("/api/posts", handleListPosts);
+
+  // Company admin review queue, ratings, daily tasks and timesheets
+  const companyAdmin = [requireAuth, requireCompanyAdmin];
+  app.get("/api/admin/companies/:slug/contractor-requests", ...companyAdmin, handleListContractorRequests);
+  app.post(
+    "/api/admin/companies/:slug/contractor-requests/:id/review",
+    ...companyAdmin,
+    handleReviewContractorRequest
+  );
+  app.post(
+    "/api/admin/companies/:slug/contractor-requests/:id/status",
+    ...companyAdmin,
+    handleChangeContractorStatus
+  );
+  app.get(
+    "/api/admin/companies/:slug/contractor-requests/:id/history",
+    ...companyAdmin,
+    handleGetContractorHistory
+  );
+  app.get(
+    "/api/admin/companies/:slug/contractor-requests/:id/performance-reviews",
+    ...companyAdmin,
+    handleListPerformanceReviews
+  );
+  app.post(
+    "/api/admin/companies/:slug/contractor-requests/:id/performance-reviews",
+    ...companyAdmin,
+    handleCreatePerformanceReview
+  );
+  app.get("/api/admin/companies/:slug/tasks", ...companyAdmin, handleListCompanyTasks);
+  app.post("/api/admin/companies/:slug/tasks", ...companyAdmin, handleCreateCompanyTask);
+  app.get(
+    "/api/admin/companies/:slug/tasks/:id/submissions",
+    ...companyAdmin,
+    handleListTaskSubmissions
+  );
+  app.get(
+    "/api/admin/companies/:slug/task-attachments/:id",
+    ...companyAdmin,
+    handleDownloadTaskAttachment
+  );
+  app.get("/api/admin/companies/:slug/time-entries", ...companyAdmin, handleListCompanyTimeEntries);
+  app.post(
+    "/api/admin/companies/:slug/time-entries/:id/review",
+    ...companyAdmin,
+    handleReviewTimeEntry
+  );
+  app.get("/api/admin/companies/:slug/timesheet.csv", ...companyAdmin, handleExportCompanyTimesheet);
 
   // Global error handling middleware (must be last)
   app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
@@ -0,0 +1,168 @@
+/**
+ * Supabase Authentication Middleware
+ * Verifies the Supabase access token sent as `Authorization: Bearer <token>`
+ * and attaches the authenticated user to the request
+ */
+
+import { createHmac, timingSafeEqual } from "node:crypto";
+import type { IncomingHttpHeaders } from "node:http";
+import { RequestHandler } from "express";
+
+export interface AuthenticatedUser {
+  id: string; // Supabase auth user id (JWT `sub`)
+  email: string | null;
+  role: string;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      authUser?: AuthenticatedUser;
+    }
+  }
+}
+
+interface SupabaseJwtClaims {
+  sub?: string;
+  email?: string;
+  role?: string;
+  aud?: string | string[];
+  exp?: number;
+}
+
+// Supabase signs user sessions for this audience; anon and service keys use other roles
+const SUPABASE_AUDIENCE = "authenticated";
+
+function decodeSegment<T>(segment: string): T {
+  return JSON.parse(Buffer.from(segment, "base64url").toString("utf8"));
+}
+
+/**
+ * Verify a Supabase access token against SUPABASE_JWT_SECRET
+ * @throws Error describing why the token was rejected
+ */
+export function verifySupabaseToken(
+  token: string,
+  secret: string | undefined = process.env.SUPABASE_JWT_SECRET
+): AuthenticatedUser {
+  if (!secret) {
+    throw new Error("SUPABASE_JWT_SECRET environment variable is not set");
+  }
+
+  const segments = token.split(".");
+  if (segments.length !== 3) {
+    throw new Error("Malformed access token");
+  }
+
+  const [encodedHeader, encodedPayload, signature] = segments;
+
+  let header: { alg?: string };
+  let claims: SupabaseJwtClaims;
+  try {
+    header = decodeSegment(encodedHeader);
+    claims = decodeSegment(encodedPayload);
+  } catch {
+    throw new Error("Malformed access token");
+  }
+
+  if (header.alg !== "HS256") {
+    throw new Error(`Unsupported token algorithm: ${header.alg}`);
+  }
+
+  const expected = createHmac("sha256", secret)
+    .update(`${encodedHeader}.${encodedPayload}`)
+    .digest();
+  const actual = Buffer.from(signature, "base64url");
+
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new Error("Invalid token signature");
+  }
+
+  if (typeof claims.exp !== "number" || claims.exp * 1000 <= Date.now()) {
+    throw new Error("Access token has expired");
+  }
+
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (!audiences.includes(SUPABASE_AUDIENCE)) {
+    throw new Error("Access token has the wrong audience");
+  }
+
+  if (!claims.sub) {
+    throw new Error("Access token has no subject");
+  }
+
+  return {
+    id: claims.sub,
+    email: claims.email ?? null,
+    role: claims.role ?? SUPABASE_AUDIENCE,
+  };
+}
+
+const SECRET_HEADERS = ["authorization", "cookie"];
+
+/**
+ * Request headers as they can be logged, with credentials replaced by "[redacted]"
+ */
+export function redactHeaders(headers: IncomingHttpHeaders): IncomingHttpHeaders {
+  const redacted = { ...headers };
+  for (const name of SECRET_HEADERS) {
+    if (redacted[name] !== undefined) {
+      redacted[name] = "[redacted]";
+    }
+  }
+  return redacted;
+}
+
+/**
+ * Reject requests without a valid Supabase session and expose the user as `req.authUser`
+ */
+export const requireAuth: RequestHandler = (req, res, next) => {
+  const header = req.headers.authorization;
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+
+  if (!match) {
+    console.log("[AUTH] Missing bearer token for", req.method, req.url);
+    res.status(401).json({
+      success: false,
+      message: "Authentication required. Please sign in and try again.",
+    });
+    return;
+  }
+
+  if (!process.env.SUPABASE_JWT_SECRET) {
+    console.error("[AUTH] SUPABASE_JWT_SECRET environment variable is not set");
+    res.status(500).json({
+      success: false,
+      message: "Authentication is not configured on the server",
+    });
+    return;
+  }
+
+  try {
+    req.authUser = verifySupabaseToken(match[1]);
+    console.log("[AUTH] Authenticated user:", req.authUser.id);
+    next();
+  } catch (error: any) {
+    console.log("[AUTH] Rejected access token:", error.message);
+    res.status(401).json({
+      success: false,
+      message: "Your session is invalid or has expired. Please sign in again.",
+    });
+  }
+};
+
+/**
+ * Expose the user as `req.authUser` when a valid session is sent, and carry on anonymously otherwise
+ */
+export const optionalAuth: RequestHandler = (req, res, next) => {
+  const match = req.headers.authorization?.match(/^Bearer\s+(.+)$/i);
+
+  if (match && process.env.SUPABASE_JWT_SECRET) {
+    try {
+      req.authUser = verifySupabaseToken(match[1]);
+    } catch (error: any) {
+      console.log("[AUTH] Ignoring invalid access token:", error.message);
+    }
+  }
+  next();
+};
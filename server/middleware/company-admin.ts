@@ -0,0 +1,41 @@
+/**
+ * Company Admin Middleware
+ * Restricts routes with a `:slug` param to admins of that company.
+ * Must run after requireAuth.
+ */
+
+import { RequestHandler } from "express";
+import { resolveCompanyAdmin, type CompanyAdmin } from "../services/company-admins";
+
+declare global {
+  namespace Express {
+    interface Request {
+      companyAdmin?: CompanyAdmin;
+    }
+  }
+}
+
+/**
+ * Reject users who are not admins of the company named by `req.params.slug`
+ * and expose the admin as `req.companyAdmin`
+ */
+export const requireCompanyAdmin: RequestHandler = async (req, res, next) => {
+  if (!req.authUser) {
+    throw new Error("requireCompanyAdmin must be mounted after requireAuth");
+  }
+
+  const { slug } = req.params;
+  const admin = await resolveCompanyAdmin(req.authUser, slug);
+  console.log(`[ADMIN] ${req.authUser.email ?? req.authUser.id} admin of '${slug}':`, admin ? `YES (${admin.id})` : "NO");
+
+  if (!admin) {
+    res.status(403).json({
+      success: false,
+      message: "You do not have permission to manage this company.",
+    });
+    return;
+  }
+
+  req.companyAdmin = admin;
+  next();
+};
@@ -0,0 +1,41 @@
+/**
+ * SMS Webhook Middleware
+ * The SMS provider calls the inbound webhook with `?token=` set to
+ * SMS_WEBHOOK_TOKEN, so strangers cannot opt other people out of texts.
+ */
+
+import { timingSafeEqual } from "crypto";
+import { RequestHandler } from "express";
+
+/**
+ * Reject webhook calls without the shared token
+ */
+export const requireSmsWebhookToken: RequestHandler = (req, res, next) => {
+  const expected = process.env.SMS_WEBHOOK_TOKEN;
+
+  if (!expected) {
+    console.error("[SMS] SMS_WEBHOOK_TOKEN environment variable is not set");
+    res.status(503).json({
+      success: false,
+      message: "SMS webhook is not configured",
+    });
+    return;
+  }
+
+  const token = Buffer.from(typeof req.query.token === "string" ? req.query.token : "");
+  const expectedToken = Buffer.from(expected);
+  // timingSafeEqual throws unless both are the same number of bytes, which
+  // equal string lengths don't guarantee for non-ASCII tokens
+  const valid = token.length === expectedToken.length && timingSafeEqual(token, expectedToken);
+
+  if (!valid) {
+    console.log("[SMS] Rejected inbound webhook with an invalid token");
+    res.status(401).json({
+      success: false,
+      message: "Invalid webhook token",
+    });
+    return;
+  }
+
+  next();
+};
@@ -0,0 +1,39 @@
+/**
+ * Linked User Middleware
+ * Resolves the qualification record for the authenticated Supabase identity.
+ * Must run after requireAuth.
+ */
+
+import { RequestHandler } from "express";
+import { resolveLinkedUser, type LinkedUser } from "../services/users";
+
+declare global {
+  namespace Express {
+    interface Request {
+      currentUser?: LinkedUser;
+    }
+  }
+}
+
+/**
+ * Reject authenticated users without a qualification record and expose it as `req.currentUser`
+ */
+export const requireLinkedUser: RequestHandler = async (req, res, next) => {
+  if (!req.authUser) {
+    throw new Error("requireLinkedUser must be mounted after requireAuth");
+  }
+
+  const user = await resolveLinkedUser(req.authUser);
+  console.log("[USERS] Linked user found:", user ? `YES (${user.id})` : "NO");
+
+  if (!user) {
+    res.status(404).json({
+      success: false,
+      message: "User not found. Please complete the qualification form first.",
+    });
+    return;
+  }
+
+  req.currentUser = user;
+  next();
+};
@@ -1,6 +1,7 @@
 import path from "path";
 import { createServer } from "./index";
 import * as express from "express";
+import { createOutboxTransports, startOutboxWorker } from "./outbox";
 
 const app = createServer();
 const port = process.env.PORT || 3000;
@@ -28,6 +29,9 @@ app.listen(port, () => {
   console.log(`🔧 API: http://localhost:${port}/api`);
 });
 
+// Deliver queued notification emails and texts in the background
+startOutboxWorker(createOutboxTransports());
+
 // Graceful shutdown
 process.on("SIGTERM", () => {
   console.log("🛑 Received SIGTERM, shutting down gracefully");
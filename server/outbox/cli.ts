@@ -0,0 +1,41 @@
+/**
+ * Outbox CLI
+ * For deployments without a long-running server (e.g. a scheduled function)
+ * Usage:
+ *   tsx server/outbox/cli.ts drain
+ */
+
+import "dotenv/config";
+import { closeDatabase } from "../db";
+import { drainOutbox } from "./index";
+import { createSmsProvider } from "./sms";
+import { createMailTransport } from "./transports";
+
+async function main(command: string | undefined) {
+  if (command !== "drain") {
+    throw new Error(`Unknown command '${command ?? ""}'. Use: drain`);
+  }
+
+  const transports = { mail: createMailTransport(), sms: createSmsProvider() };
+  const total = { sent: 0, skipped: 0, retried: 0, failed: 0 };
+
+  // Keep going until a batch comes back empty
+  while (true) {
+    const result = await drainOutbox(transports);
+    total.sent += result.sent;
+    total.skipped += result.skipped;
+    total.retried += result.retried;
+    total.failed += result.failed;
+
+    if (result.sent + result.skipped + result.retried + result.failed === 0) break;
+  }
+
+  console.log("[OUTBOX] Drain complete:", JSON.stringify(total));
+}
+
+main(process.argv[2])
+  .catch((error) => {
+    console.error("[OUTBOX] Drain failed:", error.message);
+    process.exitCode = 1;
+  })
+  .finally(() => closeDatabase());
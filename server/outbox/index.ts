@@ -0,0 +1,254 @@
+/**
+ * Outbox Module
+ * Notifications are enqueued inside the caller's transaction, so they are only
+ * sent if the change that triggered them commits. The worker drains them
+ * through a MailTransport (email) or SmsProvider (sms), retrying failures
+ * with exponential backoff.
+ */
+
+import type { Pool, PoolClient } from "pg";
+import { getDatabase } from "../db";
+import { deliverSms } from "../services/sms";
+import { createSmsProvider, type SmsProvider } from "./sms";
+import {
+  renderEmail,
+  renderSms,
+  type EmailTemplate,
+  type EmailTemplatePayloads,
+  type SmsTemplate,
+  type SmsTemplatePayloads,
+} from "./templates";
+import { createMailTransport, type MailTransport } from "./transports";
+
+export const MAX_OUTBOX_ATTEMPTS = 5;
+
+// First retry after a minute, doubling up to an hour
+const BASE_RETRY_SECONDS = 60;
+const MAX_RETRY_SECONDS = 60 * 60;
+
+// How long a claimed message is left to its worker before another may send it
+const CLAIM_SECONDS = 5 * 60;
+
+type OutboxRow = {
+  id: number;
+  recipient: string;
+  payload: any;
+  attempts: number;
+  user_id: number | null;
+} & ({ channel: "email"; template: EmailTemplate } | { channel: "sms"; template: SmsTemplate });
+
+// A channel without a transport stays queued until one is configured
+export interface OutboxTransports {
+  mail?: MailTransport;
+  sms?: SmsProvider;
+}
+
+export interface DrainResult {
+  sent: number;
+  // Texts to users who have opted out
+  skipped: number;
+  retried: number;
+  failed: number;
+}
+
+/**
+ * Queue an email for delivery
+ * @param client - Pass the transaction's client so the email commits or rolls back with it
+ */
+export async function enqueueEmail<T extends EmailTemplate>(
+  client: Pool | PoolClient,
+  template: T,
+  recipient: string,
+  payload: EmailTemplatePayloads[T]
+): Promise<void> {
+  await client.query(
+    "INSERT INTO outbox_messages (template, recipient, payload) VALUES ($1, $2, $3)",
+    [template, recipient, JSON.stringify(payload)]
+  );
+  console.log(`[OUTBOX] Queued ${template} for ${recipient}`);
+}
+
+/**
+ * Queue a text to a user; it is skipped at delivery time if they have opted out
+ * @param client - Pass the transaction's client so the text commits or rolls back with it
+ */
+export async function enqueueSms<T extends SmsTemplate>(
+  client: Pool | PoolClient,
+  template: T,
+  user: { id: number; phone: string },
+  payload: SmsTemplatePayloads[T]
+): Promise<void> {
+  await client.query(
+    `INSERT INTO outbox_messages (channel, template, recipient, user_id, payload)
+     VALUES ('sms', $1, $2, $3, $4)`,
+    [template, user.phone, user.id, JSON.stringify(payload)]
+  );
+  console.log(`[OUTBOX] Queued ${template} text for user ${user.id}`);
+}
+
+/**
+ * Seconds to wait before the next attempt after `attempts` failures
+ */
+export function getRetryDelaySeconds(attempts: number): number {
+  return Math.min(BASE_RETRY_SECONDS * 2 ** (attempts - 1), MAX_RETRY_SECONDS);
+}
+
+/**
+ * Build the transports configured by the environment
+ *
+ * A channel whose transport is misconfigured (e.g. production without
+ * SMTP_URL) is logged and left out rather than taking the server down.
+ */
+export function createOutboxTransports(env: NodeJS.ProcessEnv = process.env): OutboxTransports {
+  const transports: OutboxTransports = {};
+
+  try {
+    transports.mail = createMailTransport(env);
+  } catch (error: any) {
+    console.error("[OUTBOX] Email disabled:", error.message);
+  }
+  try {
+    transports.sms = createSmsProvider(env);
+  } catch (error: any) {
+    console.error("[OUTBOX] SMS disabled:", error.message);
+  }
+
+  return transports;
+}
+
+/**
+ * Send one batch of due messages
+ *
+ * Rows are claimed in one short statement (SKIP LOCKED) that pushes their
+ * next_attempt_at out by CLAIM_SECONDS, so several workers can drain the same
+ * table without sending anything twice. Sending happens outside any
+ * transaction and each result is recorded on its own; if a worker dies
+ * mid-batch its unrecorded rows come due again once the claim runs out.
+ */
+export async function drainOutbox(
+  transports: OutboxTransports,
+  options: { batchSize?: number } = {}
+): Promise<DrainResult> {
+  const { batchSize = 20 } = options;
+  const result: DrainResult = { sent: 0, skipped: 0, retried: 0, failed: 0 };
+  const db = getDatabase();
+
+  const channels: string[] = [];
+  if (transports.mail) channels.push("email");
+  if (transports.sms) channels.push("sms");
+  if (channels.length === 0) {
+    return result;
+  }
+
+  const batch = await db.query<OutboxRow>(
+    `UPDATE outbox_messages
+     SET next_attempt_at = CURRENT_TIMESTAMP + make_interval(secs => $2)
+     WHERE id IN (
+       SELECT id FROM outbox_messages
+       WHERE status = 'pending' AND next_attempt_at <= CURRENT_TIMESTAMP AND channel = ANY($3)
+       ORDER BY next_attempt_at, id
+       LIMIT $1
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING id, channel, template, recipient, user_id, payload, attempts`,
+    [batchSize, CLAIM_SECONDS, channels]
+  );
+
+  // RETURNING doesn't keep the subquery's order
+  const messages = batch.rows.sort((a, b) => a.id - b.id);
+
+  for (const message of messages) {
+    const attempts = message.attempts + 1;
+
+    try {
+      let status: "sent" | "skipped" = "sent";
+
+      if (message.channel === "sms") {
+        const delivery = await deliverSms(db, transports.sms!, {
+          userId: message.user_id!,
+          phone: message.recipient,
+          template: message.template,
+          body: renderSms(message.template, message.payload),
+          outboxMessageId: message.id,
+        });
+        status = delivery === "opted_out" ? "skipped" : "sent";
+      } else {
+        const email = renderEmail(message.template, message.payload);
+        await transports.mail!.send({ to: message.recipient, ...email });
+      }
+
+      await db.query(
+        `UPDATE outbox_messages
+         SET status = $2, attempts = $3, last_error = NULL,
+             sent_at = CASE WHEN $4 THEN CURRENT_TIMESTAMP END
+         WHERE id = $1`,
+        [message.id, status, attempts, status === "sent"]
+      );
+      result[status]++;
+    } catch (error: any) {
+      const giveUp = attempts >= MAX_OUTBOX_ATTEMPTS;
+      console.error(
+        `[OUTBOX] Message ${message.id} (${message.template}) failed on attempt ${attempts}:`,
+        error.message
+      );
+
+      await db.query(
+        `UPDATE outbox_messages
+         SET status = $2, attempts = $3, last_error = $4,
+             next_attempt_at = CURRENT_TIMESTAMP + make_interval(secs => $5)
+         WHERE id = $1`,
+        [
+          message.id,
+          giveUp ? "failed" : "pending",
+          attempts,
+          error.message,
+          getRetryDelaySeconds(attempts),
+        ]
+      );
+      if (giveUp) {
+        result.failed++;
+      } else {
+        result.retried++;
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Drain the outbox every `intervalMs` until the returned stop function is called
+ */
+export function startOutboxWorker(
+  transports: OutboxTransports,
+  options: { intervalMs?: number; batchSize?: number } = {}
+): () => void {
+  const { intervalMs = 30_000, batchSize } = options;
+  let draining = false;
+
+  const tick = async () => {
+    // A slow SMTP server must not stack up overlapping drains
+    if (draining) return;
+    draining = true;
+
+    try {
+      const result = await drainOutbox(transports, { batchSize });
+      if (result.sent || result.skipped || result.retried || result.failed) {
+        console.log("[OUTBOX] Drained:", JSON.stringify(result));
+      }
+    } catch (error: any) {
+      console.error("[OUTBOX] Drain failed:", error.message);
+    } finally {
+      draining = false;
+    }
+  };
+
+  console.log(
+    `[OUTBOX] Worker started with ${transports.mail?.name ?? "no"} mail and ${transports.sms?.name ?? "no"} SMS every ${intervalMs}ms`
+  );
+  const timer = setInterval(tick, intervalMs);
+  timer.unref();
+  tick();
+
+  return () => clearInterval(timer);
+}
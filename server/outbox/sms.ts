@@ -0,0 +1,133 @@
+/**
+ * SMS Providers
+ * Twilio in production; a stub that logs to the console (and optionally a
+ * file) for local development and tests. Chosen with SMS_PROVIDER.
+ */
+
+import { appendFile, mkdir } from "fs/promises";
+import path from "path";
+
+export interface SmsMessage {
+  to: string;
+  body: string;
+}
+
+export interface SmsProvider {
+  readonly name: string;
+  /**
+   * @returns The provider's id for the sent message
+   */
+  send(message: SmsMessage): Promise<{ id: string }>;
+}
+
+export interface StubSmsProvider extends SmsProvider {
+  readonly messages: SmsMessage[];
+}
+
+/**
+ * Convert a phone number as users typed it into E.164, assuming US numbers
+ * when no country code is given
+ * @throws Error if the number has too few digits to be real
+ */
+export function normalizePhone(phone: string): string {
+  const digits = phone.replace(/\D/g, "");
+
+  if (phone.trim().startsWith("+") && digits.length >= 8) {
+    return `+${digits}`;
+  }
+  if (digits.length === 10) {
+    return `+1${digits}`;
+  }
+  if (digits.length === 11 && digits.startsWith("1")) {
+    return `+${digits}`;
+  }
+  throw new Error(`Cannot send SMS to invalid phone number '${phone}'`);
+}
+
+/**
+ * Log each text instead of sending it, appending it to `file` as JSON lines when given
+ */
+export function createStubSmsProvider(file?: string): StubSmsProvider {
+  const messages: SmsMessage[] = [];
+
+  return {
+    name: "stub",
+    messages,
+    async send(message) {
+      messages.push(message);
+      const id = `stub-${messages.length}`;
+      console.log(`[SMS] (stub) To ${message.to}: ${message.body}`);
+
+      if (file) {
+        await mkdir(path.dirname(file), { recursive: true });
+        await appendFile(
+          file,
+          JSON.stringify({ id, ...message, sentAt: new Date().toISOString() }) + "\n"
+        );
+      }
+      return { id };
+    },
+  };
+}
+
+/**
+ * Send texts through Twilio's Messages API
+ */
+export function createTwilioSmsProvider(options: {
+  accountSid: string;
+  authToken: string;
+  from: string;
+}): SmsProvider {
+  const { accountSid, authToken, from } = options;
+  const url = `https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`;
+  const authorization = `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString("base64")}`;
+
+  return {
+    name: "twilio",
+    async send(message) {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: {
+          Authorization: authorization,
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body: new URLSearchParams({ To: message.to, From: from, Body: message.body }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(`Twilio error ${response.status}: ${data.message ?? "unknown error"}`);
+      }
+      return { id: data.sid };
+    },
+  };
+}
+
+/**
+ * Build the provider configured by the environment
+ *
+ * SMS_PROVIDER picks twilio or stub. Without it, production uses Twilio and
+ * everything else uses the stub, which also writes to SMS_FILE when set.
+ * @throws Error if Twilio is chosen without its credentials
+ */
+export function createSmsProvider(env: NodeJS.ProcessEnv = process.env): SmsProvider {
+  const kind = env.SMS_PROVIDER || (env.NODE_ENV === "production" ? "twilio" : "stub");
+
+  switch (kind) {
+    case "twilio":
+      if (!env.TWILIO_ACCOUNT_SID || !env.TWILIO_AUTH_TOKEN || !env.TWILIO_FROM_NUMBER) {
+        throw new Error(
+          "TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_FROM_NUMBER environment variables must be set"
+        );
+      }
+      return createTwilioSmsProvider({
+        accountSid: env.TWILIO_ACCOUNT_SID,
+        authToken: env.TWILIO_AUTH_TOKEN,
+        from: env.TWILIO_FROM_NUMBER,
+      });
+    case "stub":
+      return createStubSmsProvider(env.SMS_FILE);
+    default:
+      throw new Error(`Unknown SMS_PROVIDER '${kind}'. Use one of: twilio, stub`);
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * Notification Templates
+ * Each outbox template renders its payload into an email (subject, plain-text
+ * and HTML bodies) or an SMS body, depending on the message's channel
+ */
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/**
+ * Payload stored in outbox_messages.payload for each template
+ */
+export interface EmailTemplatePayloads {
+  // Confirmation sent to the contractor who asked to join
+  contractor_request_received: { companyName: string; companySlug: string };
+  // Notice sent to each admin of the company that was asked
+  company_contractor_request: {
+    companyName: string;
+    companySlug: string;
+    contractorEmail: string;
+    redditUsername: string;
+  };
+  contractor_request_accepted: { companyName: string; companySlug: string };
+  contractor_request_rejected: { companyName: string; companySlug: string; reason: string | null };
+}
+
+export type EmailTemplate = keyof EmailTemplatePayloads;
+
+function siteUrl(path: string): string {
+  const base = process.env.VITE_SITE_URL || "http://localhost:8080";
+  return `${base.replace(/\/$/, "")}${path}`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Build both bodies from the same paragraphs so the text and HTML versions never drift
+ */
+function email(subject: string, paragraphs: string[], link: { label: string; url: string }): RenderedEmail {
+  const text = [...paragraphs, `${link.label}: ${link.url}`, "— The FairDataUse team"].join("\n\n");
+  const html = [
+    ...paragraphs.map((paragraph) => `<p>${escapeHtml(paragraph)}</p>`),
+    `<p><a href="${escapeHtml(link.url)}">${escapeHtml(link.label)}</a></p>`,
+    "<p>— The FairDataUse team</p>",
+  ].join("\n");
+
+  return { subject, text, html };
+}
+
+const TEMPLATES: {
+  [T in EmailTemplate]: (payload: EmailTemplatePayloads[T]) => RenderedEmail;
+} = {
+  contractor_request_received: ({ companyName, companySlug }) =>
+    email(
+      `We've sent your request to ${companyName}`,
+      [
+        `Thanks for asking to join ${companyName}. We've passed your request on to their team.`,
+        "You'll be sent an email and text invite within 72 hours. We'll email you as soon as they decide.",
+      ],
+      { label: "View your request", url: siteUrl(`/companies/${companySlug}`) }
+    ),
+
+  company_contractor_request: ({ companyName, companySlug, contractorEmail, redditUsername }) =>
+    email(
+      `New contractor request for ${companyName}`,
+      [
+        `${contractorEmail} (u/${redditUsername}) has asked to join ${companyName} as a contractor.`,
+        "Please accept or reject the request within 72 hours.",
+      ],
+      { label: "Review contractor requests", url: siteUrl(`/companies/${companySlug}/admin`) }
+    ),
+
+  contractor_request_accepted: ({ companyName, companySlug }) =>
+    email(
+      `${companyName} accepted your request`,
+      [
+        `Good news: ${companyName} accepted your request to join as a contractor.`,
+        "You can start your first job right away.",
+      ],
+      { label: "Start your job", url: siteUrl(`/companies/${companySlug}`) }
+    ),
+
+  contractor_request_rejected: ({ companyName, reason }) =>
+    email(
+      `Update on your request to ${companyName}`,
+      [
+        `${companyName} has decided not to take on your request at this time.`,
+        ...(reason ? [`Their reason: ${reason}`] : []),
+        "There are plenty of other companies looking for contractors.",
+      ],
+      { label: "Browse companies", url: siteUrl("/marketplace") }
+    ),
+};
+
+export function isEmailTemplate(template: string): template is EmailTemplate {
+  return Object.prototype.hasOwnProperty.call(TEMPLATES, template);
+}
+
+/**
+ * Render an outbox template
+ * @throws Error if the template does not exist
+ */
+export function renderEmail<T extends EmailTemplate>(
+  template: T,
+  payload: EmailTemplatePayloads[T]
+): RenderedEmail {
+  if (!isEmailTemplate(template)) {
+    throw new Error(`Unknown email template: ${template}`);
+  }
+  return TEMPLATES[template](payload);
+}
+
+/**
+ * Payload stored in outbox_messages.payload for each SMS template
+ */
+export interface SmsTemplatePayloads {
+  // The "text invite" promised when a contractor asks to join
+  contractor_request_accepted: { companyName: string; companySlug: string };
+}
+
+export type SmsTemplate = keyof SmsTemplatePayloads;
+
+// Carriers expect every text we send to say how to opt out
+const SMS_FOOTER = "Reply STOP to opt out.";
+
+const SMS_TEMPLATES: {
+  [T in SmsTemplate]: (payload: SmsTemplatePayloads[T]) => string;
+} = {
+  contractor_request_accepted: ({ companyName, companySlug }) =>
+    `FairDataUse: ${companyName} accepted your request! Watch your email for a Slack invite, ` +
+    `then start your first job at ${siteUrl(`/companies/${companySlug}`)}`,
+};
+
+/**
+ * Render an SMS template, ending with the opt-out footer
+ * @throws Error if the template does not exist
+ */
+export function renderSms<T extends SmsTemplate>(template: T, payload: SmsTemplatePayloads[T]): string {
+  if (!Object.prototype.hasOwnProperty.call(SMS_TEMPLATES, template)) {
+    throw new Error(`Unknown SMS template: ${template}`);
+  }
+  return `${SMS_TEMPLATES[template](payload)} ${SMS_FOOTER}`;
+}
@@ -0,0 +1,90 @@
+/**
+ * Payouts CLI
+ * Run by the finance team once a quarter
+ * Usage:
+ *   tsx server/payouts/cli.ts create [YYYY-Qn]    (defaults to the last full quarter)
+ *   tsx server/payouts/cli.ts show <run id>
+ *   tsx server/payouts/cli.ts approve <run id>
+ *   tsx server/payouts/cli.ts export <run id> <file.csv>
+ *   tsx server/payouts/cli.ts execute <run id>
+ *   tsx server/payouts/cli.ts fail <run id> <reason>
+ */
+
+import "dotenv/config";
+import { writeFile } from "fs/promises";
+import { closeDatabase } from "../db";
+import {
+  approvePayoutRun,
+  createPayoutRun,
+  executePayoutRun,
+  exportPayoutRunCsv,
+  failPayoutRun,
+  getPayoutRun,
+  previousPayoutPeriod,
+  type PayoutRun,
+} from "./index";
+
+const COMMANDS = "create, show, approve, export, execute, fail";
+
+function parseRunId(value: string | undefined): number {
+  const runId = Number(value);
+  if (!Number.isInteger(runId) || runId < 1) {
+    throw new Error(`Expected a payout run id, got '${value ?? ""}'`);
+  }
+  return runId;
+}
+
+function printRun(run: PayoutRun) {
+  const totals = run.totals.map((t) => `${(t.amountCents / 100).toFixed(2)} ${t.currency}`);
+  console.log(
+    `[PAYOUTS] Run ${run.id} for ${run.period} (${run.periodStart} to ${run.periodEnd}):`,
+    run.status,
+    `- ${run.lineItemCount} line items`,
+    totals.length ? `- ${totals.join(", ")}` : ""
+  );
+  if (run.failureReason) {
+    console.log(`[PAYOUTS] Failure reason: ${run.failureReason}`);
+  }
+}
+
+async function main([command, ...args]: string[]) {
+  switch (command) {
+    case "create": {
+      const { run, created } = await createPayoutRun(args[0] ?? previousPayoutPeriod());
+      if (!created) {
+        console.log("[PAYOUTS] A run already exists for this period; nothing was created.");
+      }
+      return printRun(run);
+    }
+    case "show":
+      return printRun(await getPayoutRun(parseRunId(args[0])));
+    case "approve":
+      return printRun(await approvePayoutRun(parseRunId(args[0])));
+    case "export": {
+      if (!args[1]) {
+        throw new Error("Usage: export <run id> <file.csv>");
+      }
+      await writeFile(args[1], await exportPayoutRunCsv(parseRunId(args[0])));
+      console.log(`[PAYOUTS] Wrote ${args[1]}`);
+      return;
+    }
+    case "execute":
+      return printRun(await executePayoutRun(parseRunId(args[0])));
+    case "fail": {
+      const reason = args.slice(1).join(" ").trim();
+      if (!reason) {
+        throw new Error("Usage: fail <run id> <reason>");
+      }
+      return printRun(await failPayoutRun(parseRunId(args[0]), reason));
+    }
+    default:
+      throw new Error(`Unknown command '${command ?? ""}'. Use one of: ${COMMANDS}`);
+  }
+}
+
+main(process.argv.slice(2))
+  .catch((error) => {
+    console.error("[PAYOUTS] Failed:", error.message);
+    process.exitCode = 1;
+  })
+  .finally(() => closeDatabase());
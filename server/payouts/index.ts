@@ -0,0 +1,424 @@
+/**
+ * Payout Runs
+ * Twitter, YouTube and Facebook pay out quarterly in batches. A run snapshots
+ * what each user earned on those platforms in the quarter as line items, is
+ * approved, exported as CSV for the payments provider and then marked
+ * executed, which debits the paid earnings in the ledger; or it is failed and
+ * a fresh run can be created for the period.
+ */
+
+import type { Pool, PoolClient } from "pg";
+import { getDatabase, withTransaction } from "../db";
+import { PLATFORM_LABELS, postLedgerTransaction } from "../earnings";
+import type { DataAccessPlatform } from "../earnings/rates";
+
+export const BATCH_PAYOUT_PLATFORMS: DataAccessPlatform[] = ["twitter", "youtube", "facebook"];
+
+export type PayoutRunStatus = "pending" | "approved" | "executed" | "failed";
+
+const PAYOUT_TRANSITIONS: Record<PayoutRunStatus, PayoutRunStatus[]> = {
+  pending: ["approved", "failed"],
+  approved: ["executed", "failed"],
+  executed: [],
+  failed: [],
+};
+
+export class PayoutRunNotFoundError extends Error {
+  constructor(public readonly runId: number) {
+    super(`Payout run ${runId} not found`);
+    this.name = "PayoutRunNotFoundError";
+  }
+}
+
+export class PayoutRunStatusError extends Error {
+  constructor(
+    public readonly runId: number,
+    public readonly status: PayoutRunStatus,
+    action: string
+  ) {
+    super(`Payout run ${runId} is ${status} and cannot be ${action}.`);
+    this.name = "PayoutRunStatusError";
+  }
+}
+
+export interface PayoutPeriod {
+  period: string;
+  // YYYY-MM-DD; end is exclusive
+  start: string;
+  end: string;
+}
+
+export interface PayoutRun {
+  id: number;
+  period: string;
+  periodStart: string;
+  periodEnd: string;
+  status: PayoutRunStatus;
+  failureReason: string | null;
+  lineItemCount: number;
+  totals: Array<{ currency: string; amountCents: number }>;
+  createdAt: Date;
+  approvedAt: Date | null;
+  executedAt: Date | null;
+  failedAt: Date | null;
+}
+
+export interface PayoutLineItem {
+  id: number;
+  userId: number;
+  email: string;
+  currency: string;
+  amountCents: number;
+  platformAmounts: Partial<Record<DataAccessPlatform, number>>;
+}
+
+/**
+ * Parse a quarter such as 2026-Q1 into its date range
+ * @throws Error if the period is not YYYY-Qn
+ */
+export function parsePayoutPeriod(period: string): PayoutPeriod {
+  const match = period.match(/^(\d{4})-Q([1-4])$/);
+  if (!match) {
+    throw new Error(`Invalid payout period '${period}'. Use YYYY-Qn, e.g. 2026-Q1.`);
+  }
+
+  const year = Number(match[1]);
+  const quarter = Number(match[2]);
+  const date = (y: number, month: number) => `${y}-${String(month).padStart(2, "0")}-01`;
+  return {
+    period,
+    start: date(year, quarter * 3 - 2),
+    end: quarter === 4 ? date(year + 1, 1) : date(year, quarter * 3 + 1),
+  };
+}
+
+/**
+ * The last full quarter before `now`, in UTC
+ */
+export function previousPayoutPeriod(now: Date = new Date()): string {
+  const quarter = Math.floor(now.getUTCMonth() / 3) + 1;
+  const year = now.getUTCFullYear();
+  return quarter === 1 ? `${year - 1}-Q4` : `${year}-Q${quarter - 1}`;
+}
+
+async function loadPayoutRun(
+  client: Pool | PoolClient,
+  runId: number
+): Promise<PayoutRun | null> {
+  const result = await client.query<{
+    id: number;
+    period: string;
+    period_start: string;
+    period_end: string;
+    status: PayoutRunStatus;
+    failure_reason: string | null;
+    created_at: Date;
+    approved_at: Date | null;
+    executed_at: Date | null;
+    failed_at: Date | null;
+  }>(
+    `SELECT id, period, to_char(period_start, 'YYYY-MM-DD') AS period_start,
+            to_char(period_end, 'YYYY-MM-DD') AS period_end, status, failure_reason,
+            created_at, approved_at, executed_at, failed_at
+     FROM payout_runs WHERE id = $1`,
+    [runId]
+  );
+  const row = result.rows[0];
+  if (!row) {
+    return null;
+  }
+
+  // SUM over BIGINT comes back as a numeric string
+  const totals = await client.query<{
+    currency: string;
+    amount_cents: string;
+    line_items: number;
+  }>(
+    `SELECT currency, SUM(amount_cents) AS amount_cents, COUNT(*)::int AS line_items
+     FROM payout_line_items WHERE payout_run_id = $1
+     GROUP BY currency ORDER BY currency`,
+    [runId]
+  );
+
+  return {
+    id: row.id,
+    period: row.period,
+    periodStart: row.period_start,
+    periodEnd: row.period_end,
+    status: row.status,
+    failureReason: row.failure_reason,
+    lineItemCount: totals.rows.reduce((sum, total) => sum + total.line_items, 0),
+    totals: totals.rows.map((total) => ({
+      currency: total.currency,
+      amountCents: Number(total.amount_cents),
+    })),
+    createdAt: row.created_at,
+    approvedAt: row.approved_at,
+    executedAt: row.executed_at,
+    failedAt: row.failed_at,
+  };
+}
+
+/**
+ * Get a payout run with its totals
+ * @throws PayoutRunNotFoundError
+ */
+export async function getPayoutRun(runId: number): Promise<PayoutRun> {
+  const run = await loadPayoutRun(getDatabase(), runId);
+  if (!run) {
+    throw new PayoutRunNotFoundError(runId);
+  }
+  return run;
+}
+
+/**
+ * Create the payout run for a quarter, or return the one already live for it
+ *
+ * Each user gets one line item per currency with what they earned on the
+ * batch platforms from data access in the quarter. Only a failed run is
+ * replaced, so calling this again for a period never pays anyone twice.
+ * @returns The run, and whether this call created it
+ * @throws Error if the period is not YYYY-Qn
+ */
+export async function createPayoutRun(
+  period: string,
+  platforms: DataAccessPlatform[] = BATCH_PAYOUT_PLATFORMS
+): Promise<{ run: PayoutRun; created: boolean }> {
+  const { start, end } = parsePayoutPeriod(period);
+
+  return withTransaction(async (client) => {
+    // A concurrent insert for the period waits here, then finds the live run
+    const inserted = await client.query<{ id: number }>(
+      `INSERT INTO payout_runs (period, period_start, period_end)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (period) WHERE status <> 'failed' DO NOTHING
+       RETURNING id`,
+      [period, start, end]
+    );
+
+    if (inserted.rows.length === 0) {
+      const existing = await client.query<{ id: number }>(
+        "SELECT id FROM payout_runs WHERE period = $1 AND status <> 'failed'",
+        [period]
+      );
+      console.log(`[PAYOUTS] Run for ${period} already exists: ${existing.rows[0].id}`);
+      return { run: (await loadPayoutRun(client, existing.rows[0].id))!, created: false };
+    }
+
+    const runId = inserted.rows[0].id;
+    const accrued = await client.query<{
+      user_id: number;
+      platform: DataAccessPlatform;
+      currency: string;
+      amount_cents: string;
+    }>(
+      `SELECT e.user_id, e.platform, e.currency, SUM(e.amount_cents) AS amount_cents
+       FROM ledger_entries e
+       JOIN data_access_events a ON a.id = e.data_access_event_id
+       WHERE e.account = 'user_earnings'
+         AND e.platform = ANY($1)
+         AND a.access_date >= $2 AND a.access_date < $3
+       GROUP BY e.user_id, e.platform, e.currency
+       ORDER BY e.user_id, e.currency, e.platform`,
+      [platforms, start, end]
+    );
+
+    // One line item per user and currency, split by platform
+    const lineItems = new Map<
+      string,
+      { userId: number; currency: string; platformAmounts: Record<string, number> }
+    >();
+    for (const row of accrued.rows) {
+      const key = `${row.user_id}:${row.currency}`;
+      const item = lineItems.get(key) ?? {
+        userId: row.user_id,
+        currency: row.currency,
+        platformAmounts: {},
+      };
+      item.platformAmounts[row.platform] = Number(row.amount_cents);
+      lineItems.set(key, item);
+    }
+
+    for (const item of lineItems.values()) {
+      const amountCents = Object.values(item.platformAmounts).reduce((sum, cents) => sum + cents, 0);
+      await client.query(
+        `INSERT INTO payout_line_items (payout_run_id, user_id, currency, amount_cents, platform_amounts)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [runId, item.userId, item.currency, amountCents, JSON.stringify(item.platformAmounts)]
+      );
+    }
+
+    console.log(`[PAYOUTS] Created run ${runId} for ${period} with ${lineItems.size} line items`);
+    return { run: (await loadPayoutRun(client, runId))!, created: true };
+  });
+}
+
+/**
+ * Lock a run and check it may move to `to`
+ * @throws PayoutRunNotFoundError or PayoutRunStatusError
+ */
+async function lockPayoutRunFor(
+  client: PoolClient,
+  runId: number,
+  to: PayoutRunStatus
+): Promise<{ period: string }> {
+  const result = await client.query<{ period: string; status: PayoutRunStatus }>(
+    "SELECT period, status FROM payout_runs WHERE id = $1 FOR UPDATE",
+    [runId]
+  );
+  const run = result.rows[0];
+  if (!run) {
+    throw new PayoutRunNotFoundError(runId);
+  }
+  if (!PAYOUT_TRANSITIONS[run.status].includes(to)) {
+    throw new PayoutRunStatusError(runId, run.status, to);
+  }
+  return run;
+}
+
+/**
+ * A run's line items with each user's email, in creation order
+ */
+export async function getPayoutLineItems(runId: number): Promise<PayoutLineItem[]> {
+  const result = await getDatabase().query<{
+    id: number;
+    user_id: number;
+    email: string;
+    currency: string;
+    amount_cents: string;
+    platform_amounts: Record<string, number>;
+  }>(
+    `SELECT li.id, li.user_id, u.email, li.currency, li.amount_cents, li.platform_amounts
+     FROM payout_line_items li
+     JOIN users u ON u.id = li.user_id
+     WHERE li.payout_run_id = $1
+     ORDER BY li.id`,
+    [runId]
+  );
+  return result.rows.map((row) => ({
+    id: row.id,
+    userId: row.user_id,
+    email: row.email,
+    currency: row.currency,
+    amountCents: Number(row.amount_cents),
+    platformAmounts: row.platform_amounts,
+  }));
+}
+
+/**
+ * Approve a pending run so it can be exported and paid
+ * @throws PayoutRunNotFoundError or PayoutRunStatusError
+ */
+export async function approvePayoutRun(runId: number): Promise<PayoutRun> {
+  return withTransaction(async (client) => {
+    await lockPayoutRunFor(client, runId, "approved");
+    await client.query(
+      "UPDATE payout_runs SET status = 'approved', approved_at = CURRENT_TIMESTAMP WHERE id = $1",
+      [runId]
+    );
+    return (await loadPayoutRun(client, runId))!;
+  });
+}
+
+/**
+ * Record that the payments provider paid an approved run
+ *
+ * Each line item's earnings are debited into the payouts account, one ledger
+ * transaction per platform, in the same transaction as the status change.
+ * @throws PayoutRunNotFoundError or PayoutRunStatusError
+ */
+export async function executePayoutRun(runId: number): Promise<PayoutRun> {
+  return withTransaction(async (client) => {
+    const { period } = await lockPayoutRunFor(client, runId, "executed");
+
+    const items = await client.query<{
+      id: number;
+      user_id: number;
+      currency: string;
+      platform_amounts: Record<DataAccessPlatform, number>;
+    }>(
+      `SELECT id, user_id, currency, platform_amounts FROM payout_line_items
+       WHERE payout_run_id = $1 ORDER BY id`,
+      [runId]
+    );
+    for (const item of items.rows) {
+      for (const [platform, amountCents] of Object.entries(item.platform_amounts)) {
+        await postLedgerTransaction(client, {
+          userId: item.user_id,
+          platform,
+          currency: item.currency,
+          description: `${PLATFORM_LABELS[platform as DataAccessPlatform]} payout for ${period}`,
+          payoutLineItemId: item.id,
+          legs: [
+            { account: "user_earnings", amountCents: -amountCents },
+            { account: "payouts", amountCents },
+          ],
+        });
+      }
+    }
+
+    await client.query(
+      "UPDATE payout_runs SET status = 'executed', executed_at = CURRENT_TIMESTAMP WHERE id = $1",
+      [runId]
+    );
+    console.log(`[PAYOUTS] Executed run ${runId}: ${items.rows.length} line items paid`);
+    return (await loadPayoutRun(client, runId))!;
+  });
+}
+
+/**
+ * Mark a run that was not, or could not be, paid as failed
+ *
+ * Nothing was debited, so createPayoutRun can then build a fresh run for the period.
+ * @throws PayoutRunNotFoundError or PayoutRunStatusError
+ */
+export async function failPayoutRun(runId: number, reason: string): Promise<PayoutRun> {
+  return withTransaction(async (client) => {
+    await lockPayoutRunFor(client, runId, "failed");
+    await client.query(
+      `UPDATE payout_runs SET status = 'failed', failure_reason = $2, failed_at = CURRENT_TIMESTAMP
+       WHERE id = $1`,
+      [runId, reason]
+    );
+    return (await loadPayoutRun(client, runId))!;
+  });
+}
+
+/**
+ * One CSV field, quoted only when it holds a quote, comma or line break
+ */
+export function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Amounts are in the currency's major unit; every currency we pay in has 2 decimals
+function formatAmount(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+/**
+ * The run's line items as CSV for the payments provider, one payment per row
+ *
+ * `reference` is unique per line item, so the provider can reject a re-upload.
+ * @throws PayoutRunNotFoundError, or PayoutRunStatusError unless the run is approved or executed
+ */
+export async function exportPayoutRunCsv(runId: number): Promise<string> {
+  const run = await getPayoutRun(runId);
+  if (run.status !== "approved" && run.status !== "executed") {
+    throw new PayoutRunStatusError(runId, run.status, "exported");
+  }
+
+  const rows = (await getPayoutLineItems(runId)).map((item) =>
+    [
+      `FDU-${run.period}-${item.id}`,
+      item.userId,
+      item.email,
+      formatAmount(item.amountCents),
+      item.currency,
+    ]
+      .map(csvField)
+      .join(",")
+  );
+  return ["reference,user_id,email,amount,currency", ...rows].join("\r\n") + "\r\n";
+}
@@ -0,0 +1,75 @@
+/**
+ * Facebook verifier
+ * Looks the username up with the Graph API using an app access token
+ * (FACEBOOK_ACCESS_TOKEN, usually "{app-id}|{app-secret}")
+ */
+
+import {
+  getPlatformResponse,
+  missingCredentials,
+  readJson,
+  upstreamError,
+} from "./http";
+import type { PlatformVerifier } from "./types";
+
+const DEFAULT_API_URL = "https://graph.facebook.com/v19.0";
+// Graph API error codes, see https://developers.facebook.com/docs/graph-api/guides/error-handling
+// The Graph API answers these for missing usernames and for personal profiles
+// an app isn't allowed to see alike, so they don't mean the handle is wrong
+const UNVERIFIABLE_CODES = [100, 803];
+const INVALID_TOKEN_CODE = 190;
+
+interface FacebookProfileResponse {
+  id?: string;
+  name?: string;
+  error?: { code?: number; message?: string };
+}
+
+export interface FacebookVerifierOptions {
+  accessToken?: string;
+  apiUrl?: string;
+}
+
+/**
+ * Options left out are read from FACEBOOK_ACCESS_TOKEN and FACEBOOK_API_URL on every check
+ */
+export function createFacebookVerifier(options: FacebookVerifierOptions = {}): PlatformVerifier {
+  return {
+    platform: "facebook",
+    label: "Facebook",
+    required: false,
+
+    async verify(username) {
+      const accessToken = options.accessToken ?? process.env.FACEBOOK_ACCESS_TOKEN;
+      if (!accessToken) {
+        return missingCredentials("Facebook", "FACEBOOK_ACCESS_TOKEN");
+      }
+      const apiUrl = options.apiUrl ?? (process.env.FACEBOOK_API_URL || DEFAULT_API_URL);
+
+      const query = new URLSearchParams({ fields: "id,name", access_token: accessToken });
+      const request = await getPlatformResponse(
+        "Facebook",
+        `${apiUrl}/${encodeURIComponent(username)}?${query}`
+      );
+      if ("failure" in request) {
+        return request.failure;
+      }
+      const { response } = request;
+      const body = await readJson<FacebookProfileResponse>(response);
+
+      if (response.ok && body?.id) {
+        return { status: "verified", account: { id: body.id, username } };
+      }
+
+      const code = body?.error?.code;
+      if (code !== undefined && UNVERIFIABLE_CODES.includes(code)) {
+        return { status: "unverifiable", message: `Facebook can't look up '${username}': ${body?.error?.message}` };
+      }
+      if (code === INVALID_TOKEN_CODE) {
+        return { status: "misconfigured", message: `Facebook rejected the access token: ${body?.error?.message}` };
+      }
+      // Throttling (codes 4, 17, 32, 613) and everything else is on Facebook's side
+      return upstreamError("Facebook", response);
+    },
+  };
+}
@@ -0,0 +1,56 @@
+/**
+ * HTTP helpers shared by the platform adapters
+ */
+
+import type { PlatformVerificationResult } from "./types";
+
+export const PLATFORM_TIMEOUT_MS = 10_000;
+
+type FailedResult = Extract<
+  PlatformVerificationResult,
+  { status: "upstream_error" | "misconfigured" }
+>;
+
+/**
+ * GET a platform API URL, turning network failures and timeouts into an upstream_error
+ */
+export async function getPlatformResponse(
+  label: string,
+  url: string,
+  headers: Record<string, string> = {}
+): Promise<{ response: Response } | { failure: FailedResult }> {
+  try {
+    const response = await fetch(url, {
+      headers: { "User-Agent": "FairDataUse/1.0.0", ...headers },
+      signal: AbortSignal.timeout(PLATFORM_TIMEOUT_MS),
+    });
+    return { response };
+  } catch (error: any) {
+    console.error(`[PLATFORM] ${label} request failed:`, error);
+    return { failure: { status: "upstream_error", message: `${label} request failed: ${error.message}` } };
+  }
+}
+
+/**
+ * Read a JSON body, tolerating empty or non-JSON error pages
+ */
+export async function readJson<T>(response: Response): Promise<T | null> {
+  const text = await response.text();
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    return null;
+  }
+}
+
+export function missingCredentials(label: string, variable: string): FailedResult {
+  return { status: "misconfigured", message: `${label} API credentials not configured (${variable})` };
+}
+
+export function upstreamError(label: string, response: Response, retryAfterMs?: number): FailedResult {
+  return {
+    status: "upstream_error",
+    message: `${label} API error: ${response.status}`,
+    ...(retryAfterMs !== undefined && { retryAfterMs }),
+  };
+}
@@ -0,0 +1,67 @@
+/**
+ * Social Platform Registry
+ * The verifiers run during qualification. A new platform needs an adapter,
+ * a `${platform}Username` form field and `${platform}_username` /
+ * `${platform}_verified` columns on users, but no change to the route.
+ */
+
+import { createFacebookVerifier } from "./facebook";
+import { createRedditVerifier } from "./reddit";
+import { createTwitterVerifier } from "./twitter";
+import type { PlatformVerificationResult, PlatformVerifier } from "./types";
+import { createYouTubeVerifier } from "./youtube";
+
+export type { PlatformAccount, PlatformVerificationResult, PlatformVerifier } from "./types";
+
+export interface PlatformCheck {
+  verifier: PlatformVerifier<unknown>;
+  username: string;
+  result: PlatformVerificationResult<unknown>;
+}
+
+const verifiers = new Map<string, PlatformVerifier<unknown>>();
+
+/**
+ * Add a verifier, replacing any already registered for the same platform
+ */
+export function registerPlatformVerifier(verifier: PlatformVerifier<unknown>): void {
+  verifiers.set(verifier.platform, verifier);
+}
+
+export function getPlatformVerifiers(): PlatformVerifier<unknown>[] {
+  return [...verifiers.values()];
+}
+
+/**
+ * Restore the built-in verifiers, dropping any registered since
+ */
+export function resetPlatformVerifiers(): void {
+  verifiers.clear();
+  registerPlatformVerifier(createRedditVerifier());
+  registerPlatformVerifier(createTwitterVerifier());
+  registerPlatformVerifier(createYouTubeVerifier());
+  registerPlatformVerifier(createFacebookVerifier());
+}
+
+resetPlatformVerifiers();
+
+/**
+ * Check every handle the applicant gave, in parallel
+ *
+ * Platforms without a handle are skipped; verifiers never throw.
+ */
+export async function verifySocialAccounts(
+  usernames: Record<string, string | undefined>
+): Promise<PlatformCheck[]> {
+  const checks = getPlatformVerifiers()
+    .map((verifier) => ({ verifier, username: usernames[`${verifier.platform}Username`]?.trim() }))
+    .filter((check): check is { verifier: PlatformVerifier<unknown>; username: string } => !!check.username);
+
+  return Promise.all(
+    checks.map(async ({ verifier, username }) => {
+      const result = await verifier.verify(username);
+      console.log(`[PLATFORM] ${verifier.label} '${username}': ${result.status}`);
+      return { verifier, username, result };
+    })
+  );
+}
@@ -0,0 +1,21 @@
+/**
+ * Reddit verifier
+ * Existence and account metadata come from /user/{name}/about through the
+ * shared Reddit client; ownership is proven separately with a profile code.
+ */
+
+import { verifyRedditUser, type RedditAccount, type RedditClient } from "../services/reddit";
+import type { PlatformVerifier } from "./types";
+
+/**
+ * @param client - Defaults to the shared client from the environment
+ */
+export function createRedditVerifier(client?: RedditClient): PlatformVerifier<RedditAccount> {
+  return {
+    platform: "reddit",
+    label: "Reddit",
+    required: true,
+    ownershipProofRequired: true,
+    verify: (username) => verifyRedditUser(username, client),
+  };
+}
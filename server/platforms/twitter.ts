@@ -0,0 +1,93 @@
+/**
+ * Twitter verifier
+ * Looks the handle up with the X API v2 users-by-username endpoint using an
+ * app-only bearer token (TWITTER_BEARER_TOKEN)
+ */
+
+import {
+  getPlatformResponse,
+  missingCredentials,
+  readJson,
+  upstreamError,
+} from "./http";
+import type { PlatformVerifier } from "./types";
+
+const DEFAULT_API_URL = "https://api.twitter.com";
+
+interface TwitterUserResponse {
+  data?: { id: string; username: string };
+  errors?: Array<{ title?: string; detail?: string; type?: string }>;
+}
+
+export interface TwitterVerifierOptions {
+  bearerToken?: string;
+  apiUrl?: string;
+}
+
+/**
+ * Options left out are read from TWITTER_BEARER_TOKEN and TWITTER_API_URL on every check
+ */
+export function createTwitterVerifier(options: TwitterVerifierOptions = {}): PlatformVerifier {
+  return {
+    platform: "twitter",
+    label: "Twitter",
+    required: false,
+
+    async verify(username) {
+      const bearerToken = options.bearerToken ?? process.env.TWITTER_BEARER_TOKEN;
+      if (!bearerToken) {
+        return missingCredentials("Twitter", "TWITTER_BEARER_TOKEN");
+      }
+      const apiUrl = options.apiUrl ?? (process.env.TWITTER_API_URL || DEFAULT_API_URL);
+
+      // Handles are often typed with the @
+      const handle = username.replace(/^@/, "");
+      const request = await getPlatformResponse(
+        "Twitter",
+        `${apiUrl}/2/users/by/username/${encodeURIComponent(handle)}`,
+        { Authorization: `Bearer ${bearerToken}` }
+      );
+      if ("failure" in request) {
+        return request.failure;
+      }
+      const { response } = request;
+
+      if (response.status === 401 || response.status === 403) {
+        await response.text();
+        return { status: "misconfigured", message: `Twitter rejected the bearer token: ${response.status}` };
+      }
+      if (response.status === 429) {
+        await response.text();
+        const reset = Number(response.headers.get("x-rate-limit-reset"));
+        return upstreamError(
+          "Twitter",
+          response,
+          Number.isFinite(reset) && reset > 0 ? Math.max(reset * 1000 - Date.now(), 0) : undefined
+        );
+      }
+      // Twitter answers 400 for handles that can't exist, e.g. too long
+      if (response.status === 400) {
+        await response.text();
+        return { status: "not_found" };
+      }
+      if (!response.ok) {
+        await response.text();
+        return upstreamError("Twitter", response);
+      }
+
+      // Missing and suspended users are a 200 with an errors array
+      const body = await readJson<TwitterUserResponse>(response);
+      if (body?.data) {
+        return { status: "verified", account: { id: body.data.id, username: body.data.username } };
+      }
+      const error = body?.errors?.[0];
+      if (error?.detail?.toLowerCase().includes("suspended")) {
+        return { status: "suspended" };
+      }
+      if (error?.title === "Not Found Error") {
+        return { status: "not_found" };
+      }
+      return { status: "upstream_error", message: `Twitter API error: ${error?.detail ?? "unexpected response"}` };
+    },
+  };
+}
@@ -0,0 +1,39 @@
+/**
+ * Social Platform Verifiers
+ * Shared shape of the per-platform account checks run during qualification
+ */
+
+/**
+ * Outcome of checking one handle on one platform
+ *
+ * Only `not_found` and `suspended` are the applicant's problem; the other
+ * failures are ours or the platform's and must not be reported as a bad handle.
+ * `unverifiable` is for handles the platform won't look up for us, such as
+ * Facebook profiles that aren't visible to apps.
+ */
+export type PlatformVerificationResult<TAccount = PlatformAccount> =
+  | { status: "verified"; account: TAccount }
+  | { status: "not_found" }
+  | { status: "suspended" }
+  | { status: "unverifiable"; message: string }
+  | { status: "upstream_error"; message: string; retryAfterMs?: number }
+  | { status: "misconfigured"; message: string };
+
+export interface PlatformAccount {
+  id: string;
+  username: string;
+}
+
+export interface PlatformVerifier<TAccount = PlatformAccount> {
+  // Also names the form field (`${platform}Username`) and the users columns
+  // (`${platform}_username`, `${platform}_verified`)
+  platform: string;
+  // Shown to applicants, e.g. "YouTube"
+  label: string;
+  // Qualification fails without a verified handle for a required platform
+  required: boolean;
+  // `${platform}_verified` is left to a separate ownership check instead of
+  // being set from this existence check
+  ownershipProofRequired?: boolean;
+  verify(username: string): Promise<PlatformVerificationResult<TAccount>>;
+}
@@ -0,0 +1,71 @@
+/**
+ * YouTube verifier
+ * Looks the channel handle up with the YouTube Data API v3 channels endpoint
+ * using an API key (YOUTUBE_API_KEY)
+ */
+
+import {
+  getPlatformResponse,
+  missingCredentials,
+  readJson,
+  upstreamError,
+} from "./http";
+import type { PlatformVerifier } from "./types";
+
+const DEFAULT_API_URL = "https://www.googleapis.com";
+// Google reports an exhausted quota as 403; that is an outage, not a bad key
+const QUOTA_REASONS = ["quotaExceeded", "rateLimitExceeded", "userRateLimitExceeded"];
+
+interface YouTubeChannelsResponse {
+  items?: Array<{ id: string; snippet?: { customUrl?: string } }>;
+  error?: { errors?: Array<{ reason?: string }> };
+}
+
+export interface YouTubeVerifierOptions {
+  apiKey?: string;
+  apiUrl?: string;
+}
+
+/**
+ * Options left out are read from YOUTUBE_API_KEY and YOUTUBE_API_URL on every check
+ */
+export function createYouTubeVerifier(options: YouTubeVerifierOptions = {}): PlatformVerifier {
+  return {
+    platform: "youtube",
+    label: "YouTube",
+    required: false,
+
+    async verify(username) {
+      const apiKey = options.apiKey ?? process.env.YOUTUBE_API_KEY;
+      if (!apiKey) {
+        return missingCredentials("YouTube", "YOUTUBE_API_KEY");
+      }
+      const apiUrl = options.apiUrl ?? (process.env.YOUTUBE_API_URL || DEFAULT_API_URL);
+
+      const handle = username.startsWith("@") ? username : `@${username}`;
+      const query = new URLSearchParams({ part: "id,snippet", forHandle: handle, key: apiKey });
+      const request = await getPlatformResponse("YouTube", `${apiUrl}/youtube/v3/channels?${query}`);
+      if ("failure" in request) {
+        return request.failure;
+      }
+      const { response } = request;
+      const body = await readJson<YouTubeChannelsResponse>(response);
+
+      if (response.ok) {
+        const channel = body?.items?.[0];
+        return channel
+          ? { status: "verified", account: { id: channel.id, username: channel.snippet?.customUrl ?? handle } }
+          : { status: "not_found" };
+      }
+
+      const reason = body?.error?.errors?.[0]?.reason;
+      if (reason && QUOTA_REASONS.includes(reason)) {
+        return upstreamError("YouTube", response);
+      }
+      if (response.status === 400 || response.status === 401 || response.status === 403) {
+        return { status: "misconfigured", message: `YouTube rejected the API key: ${reason ?? response.status}` };
+      }
+      return upstreamError("YouTube", response);
+    },
+  };
+}
@@ -0,0 +1,58 @@
+/**
+ * Company Reviews CLI
+ * Run by support to moderate reported company reviews
+ * Usage:
+ *   tsx server/reviews/cli.ts flagged
+ *   tsx server/reviews/cli.ts hide <review id>
+ *   tsx server/reviews/cli.ts restore <review id>
+ */
+
+import "dotenv/config";
+import { closeDatabase } from "../db";
+import { listFlaggedCompanyReviews, setCompanyReviewHidden } from "../services/company-reviews";
+
+const COMMANDS = "flagged, hide, restore";
+
+function parseReviewId(value: string | undefined): number {
+  const reviewId = Number(value);
+  if (!Number.isInteger(reviewId) || reviewId < 1) {
+    throw new Error(`Expected a review id, got '${value ?? ""}'`);
+  }
+  return reviewId;
+}
+
+async function main([command, ...args]: string[]) {
+  switch (command) {
+    case "flagged": {
+      const reviews = await listFlaggedCompanyReviews();
+      if (reviews.length === 0) {
+        console.log("[REVIEWS] No reported reviews.");
+      }
+      for (const review of reviews) {
+        console.log(
+          `[REVIEWS] Review ${review.id} of ${review.companySlug}:`,
+          review.hidden ? "hidden" : "visible",
+          `- ${review.rating} stars - ${review.flagCount} reports`
+        );
+        console.log(`[REVIEWS]   "${review.comment}"`);
+        for (const reason of review.reasons) {
+          console.log(`[REVIEWS]   Reported: ${reason}`);
+        }
+      }
+      return;
+    }
+    case "hide":
+      return setCompanyReviewHidden(parseReviewId(args[0]), true);
+    case "restore":
+      return setCompanyReviewHidden(parseReviewId(args[0]), false);
+    default:
+      throw new Error(`Unknown command '${command ?? ""}'. Use one of: ${COMMANDS}`);
+  }
+}
+
+main(process.argv.slice(2))
+  .catch((error) => {
+    console.error("[REVIEWS] Failed:", error.message);
+    process.exitCode = 1;
+  })
+  .finally(() => closeDatabase());
@@ -0,0 +1,91 @@
+import { Request, RequestHandler } from "express";
+import {
+  CompanyListQuerySchema,
+  type CompaniesResponse,
+  type CompanyResponse,
+} from "../../shared/schemas";
+import {
+  getCompanyBySlug,
+  InvalidCursorError,
+  listCompanies,
+  listCompanyCategories,
+} from "../services/companies";
+import { hasMultiCompanyAccess, withMarketplaceAccess } from "../services/performance-reviews";
+import { resolveLinkedUser } from "../services/users";
+
+// Whether the signed-in viewer, if any, has unlocked every company
+async function viewerHasMultiCompanyAccess(req: Request): Promise<boolean> {
+  const user = req.authUser ? await resolveLinkedUser(req.authUser) : null;
+  return user ? hasMultiCompanyAccess(user.id) : false;
+}
+
+export const handleListCompanies: RequestHandler = async (req, res) => {
+  console.log("[API] ==================== LIST COMPANIES ====================");
+  console.log("[API] Query:", JSON.stringify(req.query));
+
+  try {
+    const query = CompanyListQuerySchema.parse(req.query);
+    const [{ companies, nextCursor }, categories, unlocked] = await Promise.all([
+      listCompanies(query),
+      listCompanyCategories(),
+      viewerHasMultiCompanyAccess(req),
+    ]);
+    console.log("[API] Companies found:", companies.length, "- more:", nextCursor ? "YES" : "NO");
+
+    res.json({
+      success: true,
+      companies: companies.map((company) => withMarketplaceAccess(company, unlocked)),
+      categories,
+      nextCursor,
+    } as CompaniesResponse);
+  } catch (error: any) {
+    if (error.issues) {
+      const errorMessage = error.issues.map((issue: any) => issue.message).join(", ");
+      console.log("[API] Sending 400 response for invalid query:", errorMessage);
+      return res.status(400).json({
+        success: false,
+        message: errorMessage,
+      } as CompaniesResponse);
+    }
+
+    if (error instanceof InvalidCursorError) {
+      console.log("[API] Sending 400 response for invalid cursor");
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      } as CompaniesResponse);
+    }
+
+    console.error("[API] Error listing companies:", error);
+    res.status(500).json({
+      success: false,
+      message: `Internal server error: ${error.message}`,
+    } as CompaniesResponse);
+  }
+};
+
+export const handleGetCompany: RequestHandler = async (req, res) => {
+  const { slug } = req.params;
+  console.log(`[API] ==================== GET COMPANY '${slug}' ====================`);
+
+  try {
+    const company = await getCompanyBySlug(slug);
+    console.log("[API] Company found:", company ? "YES" : "NO");
+
+    if (!company) {
+      return res.status(404).json({
+        success: false,
+        message: `Company '${slug}' not found`,
+      } as CompanyResponse);
+    }
+
+    const unlocked = await viewerHasMultiCompanyAccess(req);
+    res.json({ success: true, company: withMarketplaceAccess(company, unlocked) } as CompanyResponse);
+  } catch (error: any) {
+    console.error("[API] Error getting company:", error);
+    res.status(500).json({
+      success: false,
+      message: `Internal server error: ${error.message}`,
+    } as CompanyResponse);
+  }
+};
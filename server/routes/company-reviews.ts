@@ -0,0 +1,165 @@
+import { RequestHandler } from "express";
+import {
+  CompanyReviewFlagSchema,
+  CompanyReviewSchema,
+  CompanyReviewsQuerySchema,
+  type CompanyReviewFlagResponse,
+  type CompanyReviewResponse,
+  type CompanyReviewsResponse,
+} from "../../shared/schemas";
+import { InvalidCursorError } from "../services/companies";
+import {
+  CompanyAlreadyReviewedError,
+  CompanyReviewNotAllowedError,
+  createCompanyReview,
+  flagCompanyReview,
+  listCompanyReviews,
+} from "../services/company-reviews";
+
+function parseId(raw: string): number | null {
+  const id = Number(raw);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+export const handleListCompanyReviews: RequestHandler = async (req, res) => {
+  const { slug } = req.params;
+  console.log(`[API] ==================== LIST COMPANY REVIEWS '${slug}' ====================`);
+  console.log("[API] Query:", JSON.stringify(req.query));
+
+  try {
+    const query = CompanyReviewsQuerySchema.parse(req.query);
+    const page = await listCompanyReviews(slug, query);
+
+    if (!page) {
+      return res.status(404).json({
+        success: false,
+        message: "Company not found",
+      } as CompanyReviewsResponse);
+    }
+
+    console.log("[API] Reviews found:", page.reviews.length, "- more:", page.nextCursor ? "YES" : "NO");
+    res.json({ success: true, ...page } as CompanyReviewsResponse);
+  } catch (error: any) {
+    if (error.issues) {
+      const errorMessage = error.issues.map((issue: any) => issue.message).join(", ");
+      console.log("[API] Sending 400 response for invalid query:", errorMessage);
+      return res.status(400).json({
+        success: false,
+        message: errorMessage,
+      } as CompanyReviewsResponse);
+    }
+
+    if (error instanceof InvalidCursorError) {
+      console.log("[API] Sending 400 response for invalid cursor");
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      } as CompanyReviewsResponse);
+    }
+
+    console.error("[API] Error listing company reviews:", error);
+    res.status(500).json({
+      success: false,
+      message: `Internal server error: ${error.message}`,
+    } as CompanyReviewsResponse);
+  }
+};
+
+export const handleCreateCompanyReview: RequestHandler = async (req, res) => {
+  const { slug } = req.params;
+  const user = req.currentUser!;
+  console.log(`[API] ==================== REVIEW COMPANY '${slug}' (user ${user.id}) ====================`);
+  console.log("[API] Request body:", JSON.stringify(req.body, null, 2));
+
+  try {
+    const input = CompanyReviewSchema.parse(req.body);
+    const review = await createCompanyReview({ userId: user.id, companySlug: slug, input });
+
+    if (!review) {
+      return res.status(404).json({
+        success: false,
+        message: "Company not found",
+      } as CompanyReviewResponse);
+    }
+
+    res.status(201).json({
+      success: true,
+      message: "Thanks for your review",
+      review,
+    } as CompanyReviewResponse);
+  } catch (error: any) {
+    if (error.issues) {
+      const errorMessage = error.issues.map((issue: any) => issue.message).join(", ");
+      console.log("[API] Sending 400 response for validation errors:", errorMessage);
+      return res.status(400).json({
+        success: false,
+        message: errorMessage,
+      } as CompanyReviewResponse);
+    }
+
+    if (error instanceof CompanyReviewNotAllowedError) {
+      console.log("[API] Sending 403 response:", error.message);
+      return res.status(403).json({
+        success: false,
+        message: error.message,
+      } as CompanyReviewResponse);
+    }
+
+    if (error instanceof CompanyAlreadyReviewedError) {
+      console.log("[API] Sending 409 response:", error.message);
+      return res.status(409).json({
+        success: false,
+        message: error.message,
+      } as CompanyReviewResponse);
+    }
+
+    console.error("[API] Error saving company review:", error);
+    res.status(500).json({
+      success: false,
+      message: `Internal server error: ${error.message}`,
+    } as CompanyReviewResponse);
+  }
+};
+
+export const handleFlagCompanyReview: RequestHandler = async (req, res) => {
+  const { slug } = req.params;
+  const user = req.currentUser!;
+  console.log(`[API] ==================== REPORT COMPANY REVIEW '${slug}' (user ${user.id}) ====================`);
+  console.log("[API] Request body:", JSON.stringify(req.body, null, 2));
+
+  const reviewId = parseId(req.params.id);
+
+  try {
+    const { reason } = CompanyReviewFlagSchema.parse(req.body ?? {});
+    const flagged = reviewId
+      ? await flagCompanyReview({ userId: user.id, companySlug: slug, reviewId, reason })
+      : null;
+
+    if (!flagged) {
+      return res.status(404).json({
+        success: false,
+        message: "Review not found",
+      } as CompanyReviewFlagResponse);
+    }
+
+    res.json({
+      success: true,
+      message: "Thanks for letting us know. We'll take a look.",
+    } as CompanyReviewFlagResponse);
+  } catch (error: any) {
+    if (error.issues) {
+      const errorMessage = error.issues.map((issue: any) => issue.message).join(", ");
+      console.log("[API] Sending 400 response for validation errors:", errorMessage);
+      return res.status(400).json({
+        success: false,
+        message: errorMessage,
+      } as CompanyReviewFlagResponse);
+    }
+
+    console.error("[API] Error reporting company review:", error);
+    res.status(500).json({
+      success: false,
+      message: `Internal server error: ${error.message}`,
+    } as CompanyReviewFlagResponse);
+  }
+};
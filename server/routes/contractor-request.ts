@@ -1,56 +1,23 @@
 import { RequestHandler } from "express";
-import { Pool } from "pg";
 import {
   ContractorRequestSchema,
   ContractorSchema,
+  LIVE_CONTRACTOR_STATUSES,
   type ContractorRequestResponse,
 } from "../../shared/schemas";
-
-let pool: Pool | null = null;
-
-// PostgreSQL connection
-function getDatabase(): Pool {
-  console.log("[DB] Getting database connection...");
-
-  if (pool) {
-    console.log("[DB] Using existing connection pool");
-    return pool;
-  }
-
-  // Use TEST_DATABASE_URL in test environment, otherwise DATABASE_URL
-  const databaseUrl = process.env.NODE_ENV === 'test' 
-    ? process.env.TEST_DATABASE_URL 
-    : process.env.DATABASE_URL;
-  console.log("[DB] Database URL configured:", databaseUrl ? "YES" : "NO");
-
-  if (!databaseUrl) {
-    const envVar = process.env.NODE_ENV === 'test' ? 'TEST_DATABASE_URL' : 'DATABASE_URL';
-    console.error(`[DB] ${envVar} environment variable is not set`);
-    throw new Error(`${envVar} environment variable is not set`);
-  }
-
-  try {
-    console.log("[DB] Creating PostgreSQL connection pool...");
-    pool = new Pool({
-      connectionString: databaseUrl,
-      ssl: databaseUrl.includes('neon.tech') ? { rejectUnauthorized: false } : false,
-      max: 10,
-      idleTimeoutMillis: 30000,
-      connectionTimeoutMillis: 10000,
-    });
-
-    console.log("[DB] PostgreSQL connection pool created successfully");
-    return pool;
-  } catch (error) {
-    console.error("[DB] Failed to create PostgreSQL connection pool:", error);
-    throw error;
-  }
-}
+import { getDatabase } from "../db";
+import { redactHeaders } from "../middleware/auth";
+import { getCompanyBySlug } from "../services/companies";
+import {
+  ContractorRequestExistsError,
+  createContractorRequest,
+} from "../services/contractor-requests";
+import { assertCompanyOpen, CompanyLockedError } from "../services/performance-reviews";
 
 export const handleContractorRequest: RequestHandler = async (req, res) => {
   console.log("[API] ==================== CONTRACTOR REQUEST ====================");
   console.log("[API] Request method:", req.method);
-  console.log("[API] Request headers:", JSON.stringify(req.headers, null, 2));
+  console.log("[API] Request headers:", JSON.stringify(redactHeaders(req.headers), null, 2));
   console.log("[API] Request body:", JSON.stringify(req.body, null, 2));
 
   const client = getDatabase();
@@ -61,73 +28,48 @@ export const handleContractorRequest: RequestHandler = async (req, res) => {
     const validatedData = ContractorRequestSchema.parse(req.body);
     console.log("[API] Request body validation successful:", JSON.stringify(validatedData, null, 2));
 
-    // Find the user by email
-    console.log(`[API] Looking for user with email: ${validatedData.email}`);
-    const userQuery = `SELECT id, email FROM users WHERE email = $1`;
-    const userResult = await client.query(userQuery, [validatedData.email]);
-    console.log("[API] User found:", userResult.rows.length > 0 ? "YES" : "NO");
+    // Identity comes from the linked users row resolved by requireLinkedUser
+    const user = req.currentUser!;
+    console.log("[API] User details:", JSON.stringify({ id: user.id, email: user.email }, null, 2));
+
+    // The company must be in the catalog; its name comes from there, never from the body
+    const company = await getCompanyBySlug(validatedData.companySlug);
+    console.log("[API] Company found:", company ? "YES" : "NO");
 
-    if (userResult.rows.length === 0) {
-      console.log("[API] User not found, returning 404 error");
+    if (!company) {
       return res.status(404).json({
         success: false,
-        message:
-          "User not found. Please complete the qualification form first.",
+        message: `Company '${validatedData.companySlug}' not found`,
       } as ContractorRequestResponse);
     }
 
-    const user = userResult.rows[0];
-    console.log("[API] User details:", JSON.stringify({ id: user.id, email: user.email }, null, 2));
-
-    // Check if contractor request already exists for this user and company
+    // Check if a live contractor request already exists for this user and company;
+    // rejected, withdrawn and completed requests don't stop a new one
     console.log(`[API] Checking for existing contractor request for user ${user.id} and company ${validatedData.companySlug}`);
     const existingContractorQuery = `
       SELECT id FROM contractors
-      WHERE user_id = $1 AND company_slug = $2
+      WHERE user_id = $1 AND company_slug = $2 AND status = ANY($3)
     `;
-    const existingContractorResult = await client.query(existingContractorQuery, [user.id, validatedData.companySlug]);
+    const existingContractorResult = await client.query(existingContractorQuery, [
+      user.id,
+      validatedData.companySlug,
+      LIVE_CONTRACTOR_STATUSES,
+    ]);
     console.log("[API] Existing contractor request found:", existingContractorResult.rows.length > 0 ? "YES" : "NO");
 
     if (existingContractorResult.rows.length > 0) {
-      console.log("[API] Contractor request already exists, returning 400 error");
-      return res.status(400).json({
-        success: false,
-        message:
-          "You have already requested to join this company. Please check your email for updates.",
-      } as ContractorRequestResponse);
+      throw new ContractorRequestExistsError(validatedData.companySlug);
     }
 
-    // Save contractor request to database using SQL INSERT
-    console.log("[API] Saving contractor request to database...");
-    const insertContractorQuery = `
-      INSERT INTO contractors (user_id, email, company_slug, company_name, status, joined_slack, can_start_job)
-      VALUES ($1, $2, $3, $4, $5, $6, $7)
-      RETURNING id, created_at, updated_at
-    `;
-    const insertValues = [
-      user.id,
-      validatedData.email,
-      validatedData.companySlug,
-      validatedData.companyName,
-      "pending",
-      true, // Set to true since they clicked join
-      false  // Will be set to true when company approves
-    ];
-
-    const result = await client.query(insertContractorQuery, insertValues);
-    console.log("[API] Database insert result:", JSON.stringify(result.rows[0], null, 2));
-
-    if (result.rows.length === 0) {
-      console.error("[API] Database insert failed - no rows returned");
-      throw new Error("Failed to save contractor request to database");
-    }
-    console.log("[API] Contractor request saved successfully with ID:", result.rows[0].id);
+    await assertCompanyOpen(user.id, validatedData.companySlug);
 
-    // TODO: In a real app, you would also:
-    // 1. Send an email to the company notifying them of the new contractor request
-    // 2. Send a confirmation email to the user
-    // 3. Add the request to a queue for processing
-    console.log("[API] TODO: Email notifications would be sent here");
+    // Save the request and queue the company and contractor emails in one transaction
+    console.log("[API] Saving contractor request to database...");
+    const contractorRequest = await createContractorRequest(user, {
+      slug: company.slug,
+      name: company.name,
+    });
+    console.log("[API] Contractor request saved successfully with ID:", contractorRequest.id);
 
     console.log("[API] Preparing success response...");
     const response: ContractorRequestResponse = {
@@ -157,6 +99,22 @@ export const handleContractorRequest: RequestHandler = async (req, res) => {
       } as ContractorRequestResponse);
     }
 
+    if (error instanceof ContractorRequestExistsError) {
+      console.log("[API] Contractor request already exists, returning 400 error");
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      } as ContractorRequestResponse);
+    }
+
+    if (error instanceof CompanyLockedError) {
+      console.log("[API] Sending 403 response:", error.message);
+      return res.status(403).json({
+        success: false,
+        message: error.message,
+      } as ContractorRequestResponse);
+    }
+
     console.log("[API] Sending 500 response for internal server error");
     res.status(500).json({
       success: false,
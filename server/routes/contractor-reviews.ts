@@ -0,0 +1,184 @@
+import { RequestHandler, Response } from "express";
+import {
+  ContractorReviewSchema,
+  ContractorStatusChangeSchema,
+  ContractorStatusSchema,
+  type ContractorHistoryResponse,
+  type ContractorRequestsResponse,
+  type ContractorReviewResponse,
+} from "../../shared/schemas";
+import {
+  changeContractorStatus,
+  getContractorHistory,
+  listContractorRequests,
+  reviewContractorRequest,
+} from "../services/contractor-reviews";
+import { InvalidContractorTransitionError } from "../services/contractor-status";
+
+function parseContractorId(raw: string): number | null {
+  const id = Number(raw);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+function sendStatusChangeError(res: Response, error: any) {
+  if (error.issues) {
+    const errorMessage = error.issues.map((issue: any) => issue.message).join(", ");
+    console.log("[API] Sending 400 response for validation errors:", errorMessage);
+    return res.status(400).json({
+      success: false,
+      message: errorMessage,
+    } as ContractorReviewResponse);
+  }
+
+  if (error instanceof InvalidContractorTransitionError) {
+    console.log("[API] Sending 409 response:", error.message);
+    return res.status(409).json({
+      success: false,
+      message: error.message,
+    } as ContractorReviewResponse);
+  }
+
+  console.error("[API] Error changing contractor status:", error);
+  res.status(500).json({
+    success: false,
+    message: `Internal server error: ${error.message}`,
+  } as ContractorReviewResponse);
+}
+
+export const handleListContractorRequests: RequestHandler = async (req, res) => {
+  const { slug } = req.params;
+  console.log(`[API] ==================== LIST CONTRACTOR REQUESTS '${slug}' ====================`);
+
+  // Defaults to the pending queue; ?status=all returns every request
+  const rawStatus = typeof req.query.status === "string" ? req.query.status : "pending";
+  const status = rawStatus === "all" ? undefined : ContractorStatusSchema.safeParse(rawStatus);
+
+  if (status && !status.success) {
+    return res.status(400).json({
+      success: false,
+      message: `Unknown status '${rawStatus}'`,
+    } as ContractorRequestsResponse);
+  }
+
+  try {
+    const requests = await listContractorRequests(slug, status?.data);
+    console.log("[API] Contractor requests found:", requests.length);
+
+    res.json({ success: true, requests } as ContractorRequestsResponse);
+  } catch (error: any) {
+    console.error("[API] Error listing contractor requests:", error);
+    res.status(500).json({
+      success: false,
+      message: `Internal server error: ${error.message}`,
+    } as ContractorRequestsResponse);
+  }
+};
+
+export const handleReviewContractorRequest: RequestHandler = async (req, res) => {
+  const { slug } = req.params;
+  console.log(`[API] ==================== REVIEW CONTRACTOR REQUEST '${slug}' ====================`);
+  console.log("[API] Request body:", JSON.stringify(req.body, null, 2));
+
+  const contractorId = parseContractorId(req.params.id);
+  if (!contractorId) {
+    return res.status(404).json({
+      success: false,
+      message: "Contractor request not found",
+    } as ContractorReviewResponse);
+  }
+
+  try {
+    const review = ContractorReviewSchema.parse(req.body);
+
+    const request = await reviewContractorRequest({
+      companySlug: slug,
+      contractorId,
+      actorAdminId: req.companyAdmin!.id,
+      review,
+    });
+    console.log("[API] Contractor request found:", request ? "YES" : "NO");
+
+    if (!request) {
+      return res.status(404).json({
+        success: false,
+        message: "Contractor request not found",
+      } as ContractorReviewResponse);
+    }
+
+    res.json({
+      success: true,
+      message: request.status === "accepted" ? "Contractor accepted" : "Contractor rejected",
+      request,
+    } as ContractorReviewResponse);
+  } catch (error: any) {
+    sendStatusChangeError(res, error);
+  }
+};
+
+export const handleChangeContractorStatus: RequestHandler = async (req, res) => {
+  const { slug } = req.params;
+  console.log(`[API] ==================== CHANGE CONTRACTOR STATUS '${slug}' ====================`);
+  console.log("[API] Request body:", JSON.stringify(req.body, null, 2));
+
+  const contractorId = parseContractorId(req.params.id);
+  if (!contractorId) {
+    return res.status(404).json({
+      success: false,
+      message: "Contractor request not found",
+    } as ContractorReviewResponse);
+  }
+
+  try {
+    const change = ContractorStatusChangeSchema.parse(req.body);
+
+    const request = await changeContractorStatus({
+      companySlug: slug,
+      contractorId,
+      actorAdminId: req.companyAdmin!.id,
+      to: change.status,
+      reason: change.reason,
+    });
+    console.log("[API] Contractor request found:", request ? "YES" : "NO");
+
+    if (!request) {
+      return res.status(404).json({
+        success: false,
+        message: "Contractor request not found",
+      } as ContractorReviewResponse);
+    }
+
+    res.json({
+      success: true,
+      message: `Contractor moved to ${request.status}`,
+      request,
+    } as ContractorReviewResponse);
+  } catch (error: any) {
+    sendStatusChangeError(res, error);
+  }
+};
+
+export const handleGetContractorHistory: RequestHandler = async (req, res) => {
+  const { slug } = req.params;
+  console.log(`[API] ==================== CONTRACTOR HISTORY '${slug}' ====================`);
+
+  const contractorId = parseContractorId(req.params.id);
+
+  try {
+    const history = contractorId ? await getContractorHistory(slug, contractorId) : null;
+
+    if (!history) {
+      return res.status(404).json({
+        success: false,
+        message: "Contractor request not found",
+      } as ContractorHistoryResponse);
+    }
+
+    res.json({ success: true, history } as ContractorHistoryResponse);
+  } catch (error: any) {
+    console.error("[API] Error getting contractor history:", error);
+    res.status(500).json({
+      success: false,
+      message: `Internal server error: ${error.message}`,
+    } as ContractorHistoryResponse);
+  }
+};
@@ -0,0 +1,36 @@
+import { RequestHandler } from "express";
+import { EarningsQuerySchema, type EarningsResponse } from "../../shared/schemas";
+import { getUserEarnings } from "../earnings";
+
+export const handleGetMyEarnings: RequestHandler = async (req, res) => {
+  const user = req.currentUser!;
+  console.log(`[API] ==================== MY EARNINGS (user ${user.id}) ====================`);
+
+  try {
+    const { limit } = EarningsQuerySchema.parse(req.query);
+    const earnings = await getUserEarnings(user.id, limit);
+    console.log(
+      "[API] Balances:",
+      earnings.balances.map((b) => `${b.amountCents} ${b.currency}`).join(", ") || "none",
+      "- history entries:",
+      earnings.history.length
+    );
+
+    res.json({ success: true, ...earnings } as EarningsResponse);
+  } catch (error: any) {
+    if (error.issues) {
+      const errorMessage = error.issues.map((issue: any) => issue.message).join(", ");
+      console.log("[API] Sending 400 response for invalid query:", errorMessage);
+      return res.status(400).json({
+        success: false,
+        message: errorMessage,
+      } as EarningsResponse);
+    }
+
+    console.error("[API] Error loading earnings:", error);
+    res.status(500).json({
+      success: false,
+      message: `Internal server error: ${error.message}`,
+    } as EarningsResponse);
+  }
+};
@@ -1,10 +1,12 @@
 import { RequestHandler } from "express";
+import { getRedditListingCache } from "../services/reddit-cache";
 
 export const handleHealth: RequestHandler = (_req, res) => {
   res.status(200).json({
     status: "healthy",
     timestamp: new Date().toISOString(),
     uptime: process.uptime(),
+    redditCache: getRedditListingCache().stats(),
   });
 };
 
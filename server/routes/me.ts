@@ -0,0 +1,74 @@
+import { RequestHandler } from "express";
+import type {
+  MyContractorRequestsResponse,
+  WithdrawContractorRequestResponse,
+} from "../../shared/schemas";
+import {
+  listUserContractorRequests,
+  withdrawContractorRequest,
+} from "../services/contractor-requests";
+import { InvalidContractorTransitionError } from "../services/contractor-status";
+
+export const handleListMyContractorRequests: RequestHandler = async (req, res) => {
+  const user = req.currentUser!;
+  console.log(`[API] ==================== MY CONTRACTOR REQUESTS (user ${user.id}) ====================`);
+
+  try {
+    const requests = await listUserContractorRequests(user.id);
+    console.log("[API] Contractor requests found:", requests.length);
+
+    res.json({ success: true, requests } as MyContractorRequestsResponse);
+  } catch (error: any) {
+    console.error("[API] Error listing contractor requests:", error);
+    res.status(500).json({
+      success: false,
+      message: `Internal server error: ${error.message}`,
+    } as MyContractorRequestsResponse);
+  }
+};
+
+export const handleWithdrawMyContractorRequest: RequestHandler = async (req, res) => {
+  const user = req.currentUser!;
+  console.log(`[API] ==================== WITHDRAW CONTRACTOR REQUEST (user ${user.id}) ====================`);
+
+  const contractorId = Number(req.params.id);
+  if (!Number.isInteger(contractorId) || contractorId < 1) {
+    return res.status(404).json({
+      success: false,
+      message: "Contractor request not found",
+    } as WithdrawContractorRequestResponse);
+  }
+
+  try {
+    // Only the owner's requests are in scope, so another user's id is a plain 404
+    const request = await withdrawContractorRequest(user.id, contractorId);
+    console.log("[API] Contractor request found:", request ? "YES" : "NO");
+
+    if (!request) {
+      return res.status(404).json({
+        success: false,
+        message: "Contractor request not found",
+      } as WithdrawContractorRequestResponse);
+    }
+
+    res.json({
+      success: true,
+      message: "Your request has been withdrawn.",
+      request,
+    } as WithdrawContractorRequestResponse);
+  } catch (error: any) {
+    if (error instanceof InvalidContractorTransitionError) {
+      console.log("[API] Sending 409 response:", error.message);
+      return res.status(409).json({
+        success: false,
+        message: `Only pending requests can be withdrawn. This request is ${error.from}.`,
+      } as WithdrawContractorRequestResponse);
+    }
+
+    console.error("[API] Error withdrawing contractor request:", error);
+    res.status(500).json({
+      success: false,
+      message: `Internal server error: ${error.message}`,
+    } as WithdrawContractorRequestResponse);
+  }
+};
@@ -0,0 +1,126 @@
+import { RequestHandler } from "express";
+import {
+  PerformanceReviewSchema,
+  type MyPerformanceReviewsResponse,
+  type PerformanceReviewResponse,
+  type PerformanceReviewsResponse,
+} from "../../shared/schemas";
+import {
+  PerformanceReviewNotAllowedError,
+  createPerformanceReview,
+  hasMultiCompanyAccess,
+  listContractorPerformanceReviews,
+  listUserPerformanceReviews,
+} from "../services/performance-reviews";
+
+function parseId(raw: string): number | null {
+  const id = Number(raw);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+export const handleCreatePerformanceReview: RequestHandler = async (req, res) => {
+  const { slug } = req.params;
+  console.log(`[API] ==================== RATE CONTRACTOR '${slug}' ====================`);
+  console.log("[API] Request body:", JSON.stringify(req.body, null, 2));
+
+  const contractorId = parseId(req.params.id);
+  if (!contractorId) {
+    return res.status(404).json({
+      success: false,
+      message: "Contractor request not found",
+    } as PerformanceReviewResponse);
+  }
+
+  try {
+    const input = PerformanceReviewSchema.parse(req.body);
+
+    const review = await createPerformanceReview({
+      companySlug: slug,
+      contractorId,
+      reviewerId: req.companyAdmin!.id,
+      input,
+    });
+
+    if (!review) {
+      return res.status(404).json({
+        success: false,
+        message: "Contractor request not found",
+      } as PerformanceReviewResponse);
+    }
+
+    res.status(201).json({
+      success: true,
+      message: "Review saved",
+      review,
+    } as PerformanceReviewResponse);
+  } catch (error: any) {
+    if (error.issues) {
+      const errorMessage = error.issues.map((issue: any) => issue.message).join(", ");
+      console.log("[API] Sending 400 response for validation errors:", errorMessage);
+      return res.status(400).json({
+        success: false,
+        message: errorMessage,
+      } as PerformanceReviewResponse);
+    }
+
+    if (error instanceof PerformanceReviewNotAllowedError) {
+      console.log("[API] Sending 409 response:", error.message);
+      return res.status(409).json({
+        success: false,
+        message: error.message,
+      } as PerformanceReviewResponse);
+    }
+
+    console.error("[API] Error saving performance review:", error);
+    res.status(500).json({
+      success: false,
+      message: `Internal server error: ${error.message}`,
+    } as PerformanceReviewResponse);
+  }
+};
+
+export const handleListPerformanceReviews: RequestHandler = async (req, res) => {
+  const { slug } = req.params;
+  console.log(`[API] ==================== LIST CONTRACTOR RATINGS '${slug}' ====================`);
+
+  const contractorId = parseId(req.params.id);
+
+  try {
+    const reviews = contractorId ? await listContractorPerformanceReviews(slug, contractorId) : null;
+
+    if (!reviews) {
+      return res.status(404).json({
+        success: false,
+        message: "Contractor request not found",
+      } as PerformanceReviewsResponse);
+    }
+
+    res.json({ success: true, reviews } as PerformanceReviewsResponse);
+  } catch (error: any) {
+    console.error("[API] Error listing performance reviews:", error);
+    res.status(500).json({
+      success: false,
+      message: `Internal server error: ${error.message}`,
+    } as PerformanceReviewsResponse);
+  }
+};
+
+export const handleListMyPerformanceReviews: RequestHandler = async (req, res) => {
+  const user = req.currentUser!;
+  console.log(`[API] ==================== MY RATINGS (user ${user.id}) ====================`);
+
+  try {
+    const [reviews, multiCompanyUnlocked] = await Promise.all([
+      listUserPerformanceReviews(user.id),
+      hasMultiCompanyAccess(user.id),
+    ]);
+
+    res.json({ success: true, reviews, multiCompanyUnlocked } as MyPerformanceReviewsResponse);
+  } catch (error: any) {
+    console.error("[API] Error listing my performance reviews:", error);
+    res.status(500).json({
+      success: false,
+      message: `Internal server error: ${error.message}`,
+    } as MyPerformanceReviewsResponse);
+  }
+};
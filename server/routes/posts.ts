@@ -0,0 +1,54 @@
+import { RequestHandler } from "express";
+import { PostsQuerySchema, type PostsResponse } from "../../shared/schemas";
+import { listPosts } from "../services/posts";
+import { RedditConfigError, RedditRateLimitError } from "../services/reddit";
+
+export const handleListPosts: RequestHandler = async (req, res) => {
+  console.log("[API] ==================== LIST POSTS ====================");
+  console.log("[API] Query:", JSON.stringify(req.query));
+
+  try {
+    const query = PostsQuerySchema.parse(req.query);
+    const { posts, after } = await listPosts(query);
+    console.log(
+      `[API] ${query.sort} posts from r/${query.subreddit}:`,
+      posts.length,
+      "- more:",
+      after ? "YES" : "NO"
+    );
+
+    res.json({ success: true, posts, after } as PostsResponse);
+  } catch (error: any) {
+    if (error.issues) {
+      const errorMessage = error.issues.map((issue: any) => issue.message).join(", ");
+      console.log("[API] Sending 400 response for invalid query:", errorMessage);
+      return res.status(400).json({
+        success: false,
+        message: errorMessage,
+      } as PostsResponse);
+    }
+
+    if (error instanceof RedditRateLimitError) {
+      console.log("[API] Sending 503 response, Reddit is rate limiting us");
+      res.set("Retry-After", String(Math.ceil(error.retryAfterMs / 1000)));
+      return res.status(503).json({
+        success: false,
+        message: "Reddit is busy right now. Please try again in a few minutes.",
+      } as PostsResponse);
+    }
+
+    if (error instanceof RedditConfigError) {
+      console.error("[API] Reddit is not configured:", error.message);
+      return res.status(500).json({
+        success: false,
+        message: "Posts are temporarily unavailable. Please try again later.",
+      } as PostsResponse);
+    }
+
+    console.error("[API] Error listing posts:", error);
+    res.status(502).json({
+      success: false,
+      message: "We couldn't load posts from Reddit. Please try again in a few minutes.",
+    } as PostsResponse);
+  }
+};
@@ -0,0 +1,145 @@
+import { RequestHandler } from "express";
+import type {
+  RedditOwnershipResponse,
+  RedditVerificationCodeResponse,
+  RedditVerificationStatusResponse,
+} from "../../shared/schemas";
+import {
+  getRedditVerificationState,
+  issueRedditVerificationCode,
+  MAX_REDDIT_CODE_CHECKS,
+  RedditAlreadyVerifiedError,
+  RedditCodeRateLimitError,
+  REDDIT_CODE_TTL_MINUTES,
+  verifyRedditOwnership,
+  type RedditOwnershipResult,
+} from "../services/reddit-ownership";
+
+export const handleGetRedditVerification: RequestHandler = async (req, res) => {
+  const user = req.currentUser!;
+  console.log(`[API] ==================== REDDIT VERIFICATION STATUS (user ${user.id}) ====================`);
+
+  try {
+    const state = await getRedditVerificationState(user);
+    console.log(`[API] Verified: ${state.verified ? "YES" : "NO"}, active code: ${state.activeCode ? "YES" : "NO"}`);
+
+    res.json({
+      success: true,
+      verified: state.verified,
+      redditUsername: state.redditUsername,
+      code: state.activeCode?.code,
+      expiresAt: state.activeCode?.expiresAt.toISOString(),
+    } as RedditVerificationStatusResponse);
+  } catch (error: any) {
+    console.error("[API] Error loading Reddit verification status:", error);
+    res.status(500).json({
+      success: false,
+      message: `Internal server error: ${error.message}`,
+    } as RedditVerificationStatusResponse);
+  }
+};
+
+export const handleIssueRedditCode: RequestHandler = async (req, res) => {
+  const user = req.currentUser!;
+  console.log(`[API] ==================== ISSUE REDDIT CODE (user ${user.id}) ====================`);
+
+  try {
+    const issued = await issueRedditVerificationCode(user);
+    console.log(`[API] Code issued for u/${issued.redditUsername}, expires ${issued.expiresAt.toISOString()}`);
+
+    res.json({
+      success: true,
+      message: `Add ${issued.code} to your Reddit profile description, or post it to your profile, then check your verification within ${REDDIT_CODE_TTL_MINUTES} minutes.`,
+      code: issued.code,
+      redditUsername: issued.redditUsername,
+      expiresAt: issued.expiresAt.toISOString(),
+    } as RedditVerificationCodeResponse);
+  } catch (error: any) {
+    if (error instanceof RedditAlreadyVerifiedError) {
+      console.log("[API] Sending 409 response:", error.message);
+      return res.status(409).json({
+        success: false,
+        message: error.message,
+      } as RedditVerificationCodeResponse);
+    }
+    if (error instanceof RedditCodeRateLimitError) {
+      console.log("[API] Sending 429 response:", error.message);
+      res.set("Retry-After", String(error.retryAfterSeconds));
+      return res.status(429).json({
+        success: false,
+        message: `${error.message} Please try again later.`,
+      } as RedditVerificationCodeResponse);
+    }
+
+    console.error("[API] Error issuing Reddit verification code:", error);
+    res.status(500).json({
+      success: false,
+      message: `Internal server error: ${error.message}`,
+    } as RedditVerificationCodeResponse);
+  }
+};
+
+/**
+ * HTTP status and user-facing message for each ownership check outcome
+ */
+function describeOwnershipResult(result: RedditOwnershipResult): {
+  httpStatus: number;
+  message: string;
+} {
+  switch (result.status) {
+    case "verified":
+      return { httpStatus: 200, message: "Your Reddit account is verified." };
+    case "code_not_found":
+      return {
+        httpStatus: 422,
+        message: `We couldn't find your code on your Reddit profile yet. You have ${result.attemptsRemaining} checks left for this code.`,
+      };
+    case "no_active_code":
+      return {
+        httpStatus: 404,
+        message: "You have no active verification code. Please request a new one.",
+      };
+    case "too_many_attempts":
+      return {
+        httpStatus: 429,
+        message: `This code has been checked ${MAX_REDDIT_CODE_CHECKS} times. Please request a new one.`,
+      };
+    case "upstream_error":
+      return {
+        httpStatus: 503,
+        message: "We couldn't reach Reddit to check your profile. Please try again in a few minutes.",
+      };
+    case "misconfigured":
+      return {
+        httpStatus: 500,
+        message: "Reddit verification is temporarily unavailable. Please try again later.",
+      };
+  }
+}
+
+export const handleVerifyRedditOwnership: RequestHandler = async (req, res) => {
+  const user = req.currentUser!;
+  console.log(`[API] ==================== VERIFY REDDIT OWNERSHIP (user ${user.id}) ====================`);
+
+  try {
+    const result = await verifyRedditOwnership(user);
+    const { httpStatus, message } = describeOwnershipResult(result);
+    console.log(`[API] Ownership check: ${result.status}, sending ${httpStatus} response`);
+
+    if (result.status === "upstream_error" && result.retryAfterMs) {
+      res.set("Retry-After", String(Math.ceil(result.retryAfterMs / 1000)));
+    }
+    res.status(httpStatus).json({
+      success: result.status === "verified",
+      message,
+      status: result.status,
+      attemptsRemaining: result.status === "code_not_found" ? result.attemptsRemaining : undefined,
+    } as RedditOwnershipResponse);
+  } catch (error: any) {
+    console.error("[API] Error verifying Reddit ownership:", error);
+    res.status(500).json({
+      success: false,
+      message: `Internal server error: ${error.message}`,
+    } as RedditOwnershipResponse);
+  }
+};
@@ -0,0 +1,32 @@
+import { RequestHandler } from "express";
+import type { SigningBonusResponse } from "../../shared/schemas";
+import { getSigningBonusProgress } from "../services/signing-bonuses";
+
+export const handleGetMySigningBonus: RequestHandler = async (req, res) => {
+  const user = req.currentUser!;
+  console.log(`[API] ==================== MY SIGNING BONUS (user ${user.id}) ====================`);
+
+  const contractorId = Number(req.params.id);
+
+  try {
+    const bonus =
+      Number.isInteger(contractorId) && contractorId > 0
+        ? await getSigningBonusProgress(user.id, contractorId)
+        : null;
+
+    if (!bonus) {
+      return res.status(404).json({
+        success: false,
+        message: "Engagement not found",
+      } as SigningBonusResponse);
+    }
+
+    res.json({ success: true, bonus } as SigningBonusResponse);
+  } catch (error: any) {
+    console.error("[API] Error loading signing bonus:", error);
+    res.status(500).json({
+      success: false,
+      message: `Internal server error: ${error.message}`,
+    } as SigningBonusResponse);
+  }
+};
@@ -0,0 +1,43 @@
+import { RequestHandler } from "express";
+import { InboundSmsSchema, type InboundSmsResponse } from "../../shared/schemas";
+import { applyInboundSms } from "../services/sms";
+
+const ACTION_MESSAGES = {
+  opted_out: "You have been unsubscribed from FairDataUse texts.",
+  opted_in: "You have been resubscribed to FairDataUse texts.",
+  ignored: "Message received",
+} as const;
+
+export const handleInboundSms: RequestHandler = async (req, res) => {
+  console.log("[API] ==================== INBOUND SMS ====================");
+
+  try {
+    const { From, Body } = InboundSmsSchema.parse(req.body);
+    console.log(`[API] Text from ${From}:`, Body);
+
+    const { action, userCount } = await applyInboundSms(From, Body);
+    console.log(`[API] Inbound SMS action: ${action} (${userCount} user(s))`);
+
+    res.json({
+      success: true,
+      message: ACTION_MESSAGES[action],
+      action,
+    } as InboundSmsResponse);
+  } catch (error: any) {
+    if (error.issues) {
+      // Zod validation errors
+      const errorMessage = error.issues.map((issue: any) => issue.message).join(", ");
+      console.log("[API] Sending 400 response for validation errors:", errorMessage);
+      return res.status(400).json({
+        success: false,
+        message: errorMessage,
+      } as InboundSmsResponse);
+    }
+
+    console.error("[API] Error handling inbound SMS:", error);
+    res.status(500).json({
+      success: false,
+      message: `Internal server error: ${error.message}`,
+    } as InboundSmsResponse);
+  }
+};
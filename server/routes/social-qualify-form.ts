@@ -1,132 +1,51 @@
 import { RequestHandler } from "express";
-import { Pool } from "pg";
 import {
   SocialQualifyFormSchema,
   UserSchema,
   type SocialQualifyResponse,
 } from "../../shared/schemas";
-
-let pool: Pool | null = null;
-
-// PostgreSQL connection
-function getDatabase(): Pool {
-  console.log("[DB] Getting database connection...");
-
-  if (pool) {
-    console.log("[DB] Using existing connection pool");
-    return pool;
-  }
-
-  // Use TEST_DATABASE_URL in test environment, otherwise DATABASE_URL
-  const databaseUrl = process.env.NODE_ENV === 'test' 
-    ? process.env.TEST_DATABASE_URL 
-    : process.env.DATABASE_URL;
-  console.log("[DB] Database URL configured:", databaseUrl ? "YES" : "NO");
-
-  if (!databaseUrl) {
-    const envVar = process.env.NODE_ENV === 'test' ? 'TEST_DATABASE_URL' : 'DATABASE_URL';
-    console.error(`[DB] ${envVar} environment variable is not set`);
-    throw new Error(`${envVar} environment variable is not set`);
-  }
-
-  try {
-    console.log("[DB] Creating PostgreSQL connection pool...");
-    pool = new Pool({
-      connectionString: databaseUrl,
-      ssl: databaseUrl.includes('neon.tech') ? { rejectUnauthorized: false } : false,
-      max: 10,
-      idleTimeoutMillis: 30000,
-      connectionTimeoutMillis: 10000,
-    });
-
-    console.log("[DB] PostgreSQL connection pool created successfully");
-    return pool;
-  } catch (error) {
-    console.error("[DB] Failed to create PostgreSQL connection pool:", error);
-    throw error;
-  }
-}
-
-// Reddit API integration
-async function verifyRedditAccount(username: string): Promise<boolean> {
-  console.log(`[REDDIT] Verifying Reddit account: ${username}`);
-
-  try {
-    const clientId = process.env.REDDIT_CLIENT_ID;
-    const clientSecret = process.env.REDDIT_CLIENT_SECRET;
-
-    console.log("[REDDIT] Client ID configured:", clientId ? "YES" : "NO");
-    console.log(
-      "[REDDIT] Client Secret configured:",
-      clientSecret ? "YES" : "NO",
-    );
-
-    if (!clientId || !clientSecret) {
-      console.error("[REDDIT] ❌ REDDIT API CREDENTIALS NOT CONFIGURED ❌");
-      console.error(
-        "[REDDIT] Missing:",
-        !clientId ? "REDDIT_CLIENT_ID" : "",
-        !clientSecret ? "REDDIT_CLIENT_SECRET" : "",
-      );
-      console.error(
-        "[REDDIT] Reddit verification will fail for all users until credentials are set",
-      );
-      console.error("[REDDIT] See REDDIT_API_SETUP.md for instructions");
-      return false;
-    }
-
-    // Get Reddit OAuth token
-    console.log("[REDDIT] Requesting OAuth token from Reddit...");
-    const authResponse = await fetch(
-      "https://www.reddit.com/api/v1/access_token",
-      {
-        method: "POST",
-        headers: {
-          Authorization: `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString("base64")}`,
-          "Content-Type": "application/x-www-form-urlencoded",
-          "User-Agent": "FairDataUse/1.0.0",
-        },
-        body: "grant_type=client_credentials",
-      },
-    );
-
-    console.log("[REDDIT] OAuth response status:", authResponse.status);
-    if (!authResponse.ok) {
-      const errorText = await authResponse.text();
-      console.error("[REDDIT] Failed to get Reddit OAuth token:", errorText);
-      return false;
-    }
-
-    const authData = await authResponse.json();
-    const accessToken = authData.access_token;
-    console.log("[REDDIT] OAuth token received:", accessToken ? "YES" : "NO");
-
-    // Check if user exists
-    console.log(`[REDDIT] Checking if user '${username}' exists...`);
-    const userResponse = await fetch(
-      `https://oauth.reddit.com/user/${username}/about`,
-      {
-        headers: {
-          Authorization: `Bearer ${accessToken}`,
-          "User-Agent": "FairDataUse/1.0.0",
-        },
-      },
-    );
-
-    console.log(
-      `[REDDIT] User verification response status: ${userResponse.status}`,
-    );
-    const verified = userResponse.ok;
-    console.log(
-      `[REDDIT] User '${username}' verification result: ${verified ? "VERIFIED" : "NOT FOUND"}`,
-    );
-    return verified;
-  } catch (error) {
-    console.error(
-      `[REDDIT] Error verifying Reddit account '${username}':`,
-      error,
-    );
-    return false;
+import { getDatabase } from "../db";
+import { redactHeaders } from "../middleware/auth";
+import { getMatchedCompany } from "../services/companies";
+import {
+  getPlatformVerifiers,
+  verifySocialAccounts,
+  type PlatformCheck,
+} from "../platforms";
+import type { RedditVerificationResult } from "../services/reddit";
+import {
+  evaluateRedditEligibility,
+  getRedditEligibilityPolicy,
+} from "../services/reddit-eligibility";
+
+/**
+ * HTTP status and user-facing message for a platform check that blocks qualification
+ */
+function describePlatformFailure({ verifier, username, result }: PlatformCheck): {
+  httpStatus: number;
+  message: string;
+} {
+  switch (result.status) {
+    case "upstream_error":
+      return {
+        httpStatus: 503,
+        message: `We couldn't reach ${verifier.label} to verify your account. Please try again in a few minutes.`,
+      };
+    case "misconfigured":
+      return {
+        httpStatus: 500,
+        message: `${verifier.label} verification is temporarily unavailable. Please try again later.`,
+      };
+    case "unverifiable":
+      return {
+        httpStatus: 400,
+        message: `We couldn't verify the ${verifier.label} account '${username}'. Please check the username and try again.`,
+      };
+    default:
+      return {
+        httpStatus: 400,
+        message: `${verifier.label} user '${username}' does not exist. Please check the username and try again.`,
+      };
   }
 }
 
@@ -214,7 +133,7 @@ export const handleSocialQualifyForm: RequestHandler = async (req, res) => {
     "[API] ==================== SOCIAL QUALIFY FORM REQUEST ====================",
   );
   console.log("[API] Request method:", req.method);
-  console.log("[API] Request headers:", JSON.stringify(req.headers, null, 2));
+  console.log("[API] Request headers:", JSON.stringify(redactHeaders(req.headers), null, 2));
   console.log("[API] Request body:", JSON.stringify(req.body, null, 2));
 
   const client = getDatabase();
@@ -287,40 +206,106 @@ export const handleSocialQualifyForm: RequestHandler = async (req, res) => {
       } as SocialQualifyResponse);
     }
 
-    // Verify Reddit account
-    console.log("[API] Starting Reddit account verification...");
-    const redditVerified = await verifyRedditAccount(
-      validatedData.redditUsername,
+    // Verify every social account the applicant gave
+    console.log("[API] Starting social account verification...");
+    const platformChecks = await verifySocialAccounts(validatedData);
+    console.log(
+      "[API] Social account verification completed:",
+      platformChecks
+        .map((check) => `${check.verifier.platform}=${check.result.status}`)
+        .join(", "),
+    );
+
+    // A handle that doesn't exist is a typo to fix, on any platform. Outages and
+    // handles the platform won't look up only block required platforms;
+    // optional handles are saved unverified.
+    const blockingCheck = platformChecks.find(
+      ({ verifier, result }) =>
+        result.status === "not_found" ||
+        (verifier.required &&
+          (result.status === "upstream_error" ||
+            result.status === "misconfigured" ||
+            result.status === "unverifiable")),
+    );
+    if (blockingCheck) {
+      const failure = describePlatformFailure(blockingCheck);
+      console.log(
+        `[API] ${blockingCheck.verifier.label} verification failed, returning ${failure.httpStatus} error`,
+      );
+      if (
+        blockingCheck.result.status === "upstream_error" &&
+        blockingCheck.result.retryAfterMs
+      ) {
+        res.set(
+          "Retry-After",
+          String(Math.ceil(blockingCheck.result.retryAfterMs / 1000)),
+        );
+      }
+      return res.status(failure.httpStatus).json({
+        success: false,
+        message: failure.message,
+      } as SocialQualifyResponse);
+    }
+
+    // Only a verified or suspended Reddit account gets past the check above
+    const redditVerification = platformChecks.find(
+      (check) => check.verifier.platform === "reddit",
+    )!.result as Extract<
+      RedditVerificationResult,
+      { status: "verified" | "suspended" }
+    >;
+
+    // Suspended accounts are found but never eligible, so they are judged here too
+    const eligibility = evaluateRedditEligibility(
+      redditVerification,
+      getRedditEligibilityPolicy(),
     );
     console.log(
-      `[API] Reddit verification completed. Verified: ${redditVerified}`,
+      "[API] Reddit eligibility:",
+      JSON.stringify(eligibility, null, 2),
     );
 
-    // Return error if Reddit account doesn't exist
-    if (!redditVerified) {
-      console.log("[API] Reddit account not found, returning 400 error");
-      return res.status(400).json({
+    if (!eligibility.eligible) {
+      console.log("[API] Reddit account is not eligible, returning 403 error");
+      return res.status(403).json({
         success: false,
-        message: `Reddit user '${validatedData.redditUsername}' does not exist. Please check the username and try again.`,
+        message: `Reddit user '${validatedData.redditUsername}' does not qualify. ${eligibility.reasons
+          .map((reason) => reason.message)
+          .join(" ")}`,
+        eligibility,
       } as SocialQualifyResponse);
     }
 
+    // Match before saving so a failed match never leaves an orphaned user
+    console.log("[API] Matching user with a company...");
+    const matchedCompany = await getMatchedCompany();
+    console.log("[API] Matched company:", matchedCompany?.slug ?? "NONE");
+
+    if (!matchedCompany) {
+      throw new Error("No companies are currently accepting contractors");
+    }
+
     // Save to database using SQL INSERT
     console.log("[API] Saving user to database...");
+    const columns: Record<string, unknown> = {
+      email: validatedData.email,
+      phone: validatedData.phone,
+      reddit_eligibility: JSON.stringify(eligibility),
+    };
+    for (const verifier of getPlatformVerifiers()) {
+      const check = platformChecks.find((c) => c.verifier === verifier);
+      columns[`${verifier.platform}_username`] = check?.username ?? null;
+      // Platforms that need an ownership proof are verified later, e.g. Reddit's profile code
+      columns[`${verifier.platform}_verified`] =
+        !verifier.ownershipProofRequired && check?.result.status === "verified";
+    }
+    const columnNames = Object.keys(columns);
     const insertUserQuery = `
-      INSERT INTO users (email, phone, reddit_username, twitter_username, youtube_username, facebook_username, reddit_verified)
-      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      INSERT INTO users (${columnNames.join(", ")})
+      VALUES (${columnNames.map((_, i) => `$${i + 1}`).join(", ")})
       RETURNING id, created_at, updated_at
     `;
-    const insertValues = [
-      validatedData.email,
-      validatedData.phone,
-      validatedData.redditUsername,
-      validatedData.twitterUsername || null,
-      validatedData.youtubeUsername || null,
-      validatedData.facebookUsername || null,
-      redditVerified,
-    ];
+    const insertValues = Object.values(columns);
 
     const result = await client.query(insertUserQuery, insertValues);
     console.log(
@@ -340,12 +325,7 @@ export const handleSocialQualifyForm: RequestHandler = async (req, res) => {
       success: true,
       message: "Application processed successfully",
       data: {
-        matchedCompany: {
-          name: "Silicon Valley Consulting",
-          slug: "silicon-valley-consulting",
-          payRate: "$2.00 per hour",
-          bonus: "$500",
-        },
+        matchedCompany,
       },
     };
     console.log("[API] Sending response:", JSON.stringify(response, null, 2));
@@ -0,0 +1,219 @@
+import { RequestHandler, Response } from "express";
+import {
+  DailyTaskSchema,
+  TaskSubmissionSchema,
+  type CompanyDailyTasksResponse,
+  type CreateDailyTaskResponse,
+  type DashboardResponse,
+  type TaskSubmissionResponse,
+  type TaskSubmissionsResponse,
+} from "../../shared/schemas";
+import {
+  TaskAlreadySubmittedError,
+  TaskNotFoundError,
+  TaskSubmissionNotAllowedError,
+  createDailyTask,
+  getContractorDashboard,
+  getTaskAttachment,
+  listCompanyDailyTasks,
+  listTaskSubmissions,
+  submitTask,
+} from "../services/tasks";
+
+function parseId(raw: string): number | null {
+  const id = Number(raw);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+function sendValidationError(res: Response, error: any) {
+  const errorMessage = error.issues.map((issue: any) => issue.message).join(", ");
+  console.log("[API] Sending 400 response for validation errors:", errorMessage);
+  return res.status(400).json({ success: false, message: errorMessage });
+}
+
+export const handleGetMyDashboard: RequestHandler = async (req, res) => {
+  const user = req.currentUser!;
+  console.log(`[API] ==================== MY DASHBOARD (user ${user.id}) ====================`);
+
+  try {
+    const engagements = await getContractorDashboard(user.id);
+    console.log("[API] Engagements found:", engagements.length);
+
+    res.json({ success: true, engagements } as DashboardResponse);
+  } catch (error: any) {
+    console.error("[API] Error loading dashboard:", error);
+    res.status(500).json({
+      success: false,
+      message: `Internal server error: ${error.message}`,
+    } as DashboardResponse);
+  }
+};
+
+export const handleSubmitTask: RequestHandler = async (req, res) => {
+  const user = req.currentUser!;
+  console.log(`[API] ==================== SUBMIT TASK (user ${user.id}) ====================`);
+
+  const taskId = parseId(req.params.id);
+  if (!taskId) {
+    return res.status(404).json({
+      success: false,
+      message: "Task not found",
+    } as TaskSubmissionResponse);
+  }
+
+  try {
+    const submission = TaskSubmissionSchema.parse(req.body);
+    // Attachments are base64, so only log their names
+    console.log(
+      "[API] Links:",
+      submission.links.length,
+      "Attachments:",
+      submission.attachments.map((file) => file.filename)
+    );
+
+    const saved = await submitTask({ userId: user.id, taskId, submission });
+
+    res.status(201).json({
+      success: true,
+      message: "Your work has been submitted.",
+      submission: saved,
+    } as TaskSubmissionResponse);
+  } catch (error: any) {
+    if (error.issues) {
+      return sendValidationError(res, error);
+    }
+
+    if (error instanceof TaskNotFoundError) {
+      return res.status(404).json({
+        success: false,
+        message: "Task not found",
+      } as TaskSubmissionResponse);
+    }
+
+    if (error instanceof TaskSubmissionNotAllowedError) {
+      console.log("[API] Sending 403 response:", error.message);
+      return res.status(403).json({
+        success: false,
+        message: error.message,
+      } as TaskSubmissionResponse);
+    }
+
+    if (error instanceof TaskAlreadySubmittedError) {
+      console.log("[API] Sending 409 response:", error.message);
+      return res.status(409).json({
+        success: false,
+        message: error.message,
+      } as TaskSubmissionResponse);
+    }
+
+    console.error("[API] Error submitting task:", error);
+    res.status(500).json({
+      success: false,
+      message: `Internal server error: ${error.message}`,
+    } as TaskSubmissionResponse);
+  }
+};
+
+export const handleListCompanyTasks: RequestHandler = async (req, res) => {
+  const { slug } = req.params;
+  console.log(`[API] ==================== LIST COMPANY TASKS '${slug}' ====================`);
+
+  try {
+    const tasks = await listCompanyDailyTasks(slug);
+    console.log("[API] Tasks found:", tasks.length);
+
+    res.json({ success: true, tasks } as CompanyDailyTasksResponse);
+  } catch (error: any) {
+    console.error("[API] Error listing tasks:", error);
+    res.status(500).json({
+      success: false,
+      message: `Internal server error: ${error.message}`,
+    } as CompanyDailyTasksResponse);
+  }
+};
+
+export const handleCreateCompanyTask: RequestHandler = async (req, res) => {
+  const { slug } = req.params;
+  console.log(`[API] ==================== CREATE COMPANY TASK '${slug}' ====================`);
+  console.log("[API] Request body:", JSON.stringify(req.body, null, 2));
+
+  try {
+    const input = DailyTaskSchema.parse(req.body);
+
+    const task = await createDailyTask({
+      companySlug: slug,
+      createdBy: req.companyAdmin!.id,
+      input,
+    });
+    console.log("[API] Task created:", task.id);
+
+    res.status(201).json({
+      success: true,
+      message: "Task assigned",
+      task,
+    } as CreateDailyTaskResponse);
+  } catch (error: any) {
+    if (error.issues) {
+      return sendValidationError(res, error);
+    }
+
+    console.error("[API] Error creating task:", error);
+    res.status(500).json({
+      success: false,
+      message: `Internal server error: ${error.message}`,
+    } as CreateDailyTaskResponse);
+  }
+};
+
+export const handleListTaskSubmissions: RequestHandler = async (req, res) => {
+  const { slug } = req.params;
+  console.log(`[API] ==================== LIST TASK SUBMISSIONS '${slug}' ====================`);
+
+  const taskId = parseId(req.params.id);
+
+  try {
+    const submissions = taskId ? await listTaskSubmissions(slug, taskId) : null;
+
+    if (!submissions) {
+      return res.status(404).json({
+        success: false,
+        message: "Task not found",
+      } as TaskSubmissionsResponse);
+    }
+
+    res.json({ success: true, submissions } as TaskSubmissionsResponse);
+  } catch (error: any) {
+    console.error("[API] Error listing task submissions:", error);
+    res.status(500).json({
+      success: false,
+      message: `Internal server error: ${error.message}`,
+    } as TaskSubmissionsResponse);
+  }
+};
+
+export const handleDownloadTaskAttachment: RequestHandler = async (req, res) => {
+  const { slug } = req.params;
+  console.log(`[API] ==================== DOWNLOAD TASK ATTACHMENT '${slug}' ====================`);
+
+  const attachmentId = parseId(req.params.id);
+
+  try {
+    const attachment = attachmentId ? await getTaskAttachment(slug, attachmentId) : null;
+
+    if (!attachment) {
+      return res.status(404).json({ success: false, message: "Attachment not found" });
+    }
+
+    // Always a download, so an uploaded HTML file can't run on our origin
+    res.attachment(attachment.filename);
+    res.type(attachment.contentType);
+    res.setHeader("X-Content-Type-Options", "nosniff");
+    res.send(attachment.data);
+  } catch (error: any) {
+    console.error("[API] Error downloading task attachment:", error);
+    res.status(500).json({
+      success: false,
+      message: `Internal server error: ${error.message}`,
+    });
+  }
+};
@@ -0,0 +1,249 @@
+import { RequestHandler, Response } from "express";
+import {
+  ManualTimeEntrySchema,
+  StartTimerSchema,
+  TimeEntryReviewSchema,
+  TimesheetQuerySchema,
+  type CompanyTimeEntriesResponse,
+  type TimeEntriesResponse,
+  type TimeEntryResponse,
+} from "../../shared/schemas";
+import {
+  EngagementNotFoundError,
+  InvalidTimeEntryError,
+  MissingHourlyRateError,
+  TimeEntryConflictError,
+  TimeTrackingNotAllowedError,
+  addManualTimeEntry,
+  getCompanyTimesheet,
+  getEngagementTimesheet,
+  reviewTimeEntry,
+  startTimer,
+  stopTimer,
+  timesheetCsv,
+  toContractorTimeEntry,
+} from "../services/time-entries";
+
+function parseId(raw: string): number | null {
+  const id = Number(raw);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+function sendTimeEntryError(res: Response, error: any) {
+  if (error.issues) {
+    const errorMessage = error.issues.map((issue: any) => issue.message).join(", ");
+    console.log("[API] Sending 400 response for validation errors:", errorMessage);
+    return res.status(400).json({ success: false, message: errorMessage } as TimeEntryResponse);
+  }
+
+  if (error instanceof InvalidTimeEntryError) {
+    return res.status(400).json({ success: false, message: error.message } as TimeEntryResponse);
+  }
+
+  if (error instanceof EngagementNotFoundError) {
+    return res.status(404).json({
+      success: false,
+      message: "Engagement not found",
+    } as TimeEntryResponse);
+  }
+
+  if (error instanceof TimeTrackingNotAllowedError) {
+    console.log("[API] Sending 403 response:", error.message);
+    return res.status(403).json({ success: false, message: error.message } as TimeEntryResponse);
+  }
+
+  if (error instanceof MissingHourlyRateError) {
+    console.log("[API] Sending 409 response:", error.message);
+    return res.status(409).json({ success: false, message: error.message } as TimeEntryResponse);
+  }
+
+  if (error instanceof TimeEntryConflictError) {
+    console.log("[API] Sending 409 response:", error.message);
+    return res.status(409).json({ success: false, message: error.message } as TimeEntryResponse);
+  }
+
+  console.error("[API] Error saving time entry:", error);
+  res.status(500).json({
+    success: false,
+    message: `Internal server error: ${error.message}`,
+  } as TimeEntryResponse);
+}
+
+function engagementNotFound(res: Response) {
+  return res.status(404).json({ success: false, message: "Engagement not found" });
+}
+
+export const handleListMyTimeEntries: RequestHandler = async (req, res) => {
+  const user = req.currentUser!;
+  console.log(`[API] ==================== MY TIME ENTRIES (user ${user.id}) ====================`);
+
+  const contractorId = parseId(req.params.id);
+  if (!contractorId) {
+    return engagementNotFound(res);
+  }
+
+  try {
+    const query = TimesheetQuerySchema.parse(req.query);
+    const timesheet = await getEngagementTimesheet(user.id, contractorId, query.week);
+
+    if (!timesheet) {
+      return engagementNotFound(res);
+    }
+
+    res.json({
+      success: true,
+      week: timesheet.week,
+      entries: timesheet.entries.map(toContractorTimeEntry),
+      totals: timesheet.totals,
+    } as TimeEntriesResponse);
+  } catch (error: any) {
+    sendTimeEntryError(res, error);
+  }
+};
+
+export const handleStartTimer: RequestHandler = async (req, res) => {
+  const user = req.currentUser!;
+  console.log(`[API] ==================== START TIMER (user ${user.id}) ====================`);
+
+  const contractorId = parseId(req.params.id);
+  if (!contractorId) {
+    return engagementNotFound(res);
+  }
+
+  try {
+    const { description } = StartTimerSchema.parse(req.body ?? {});
+    const entry = await startTimer({ userId: user.id, contractorId, description });
+
+    res.status(201).json({ success: true, message: "Timer started", entry } as TimeEntryResponse);
+  } catch (error: any) {
+    sendTimeEntryError(res, error);
+  }
+};
+
+export const handleStopTimer: RequestHandler = async (req, res) => {
+  const user = req.currentUser!;
+  console.log(`[API] ==================== STOP TIMER (user ${user.id}) ====================`);
+
+  const contractorId = parseId(req.params.id);
+  if (!contractorId) {
+    return engagementNotFound(res);
+  }
+
+  try {
+    const entry = await stopTimer({ userId: user.id, contractorId });
+
+    res.json({ success: true, message: "Timer stopped", entry } as TimeEntryResponse);
+  } catch (error: any) {
+    sendTimeEntryError(res, error);
+  }
+};
+
+export const handleAddTimeEntry: RequestHandler = async (req, res) => {
+  const user = req.currentUser!;
+  console.log(`[API] ==================== ADD TIME ENTRY (user ${user.id}) ====================`);
+  console.log("[API] Request body:", JSON.stringify(req.body, null, 2));
+
+  const contractorId = parseId(req.params.id);
+  if (!contractorId) {
+    return engagementNotFound(res);
+  }
+
+  try {
+    const input = ManualTimeEntrySchema.parse(req.body);
+    const entry = await addManualTimeEntry({ userId: user.id, contractorId, entry: input });
+
+    res.status(201).json({ success: true, message: "Hours logged", entry } as TimeEntryResponse);
+  } catch (error: any) {
+    sendTimeEntryError(res, error);
+  }
+};
+
+export const handleExportMyTimesheet: RequestHandler = async (req, res) => {
+  const user = req.currentUser!;
+  console.log(`[API] ==================== EXPORT MY TIMESHEET (user ${user.id}) ====================`);
+
+  const contractorId = parseId(req.params.id);
+  if (!contractorId) {
+    return engagementNotFound(res);
+  }
+
+  try {
+    const query = TimesheetQuerySchema.parse(req.query);
+    const timesheet = await getEngagementTimesheet(user.id, contractorId, query.week);
+
+    if (!timesheet) {
+      return engagementNotFound(res);
+    }
+
+    res.attachment(`timesheet-${timesheet.week}.csv`);
+    res.type("text/csv");
+    res.send(timesheetCsv(timesheet));
+  } catch (error: any) {
+    sendTimeEntryError(res, error);
+  }
+};
+
+export const handleListCompanyTimeEntries: RequestHandler = async (req, res) => {
+  const { slug } = req.params;
+  console.log(`[API] ==================== LIST COMPANY TIME ENTRIES '${slug}' ====================`);
+
+  try {
+    const query = TimesheetQuerySchema.parse(req.query);
+    const timesheet = await getCompanyTimesheet(slug, query.week, query.status);
+    console.log("[API] Time entries found:", timesheet.entries.length);
+
+    res.json({ success: true, ...timesheet } as CompanyTimeEntriesResponse);
+  } catch (error: any) {
+    sendTimeEntryError(res, error);
+  }
+};
+
+export const handleReviewTimeEntry: RequestHandler = async (req, res) => {
+  const { slug } = req.params;
+  console.log(`[API] ==================== REVIEW TIME ENTRY '${slug}' ====================`);
+  console.log("[API] Request body:", JSON.stringify(req.body, null, 2));
+
+  const entryId = parseId(req.params.id);
+  if (!entryId) {
+    return res.status(404).json({ success: false, message: "Time entry not found" });
+  }
+
+  try {
+    const review = TimeEntryReviewSchema.parse(req.body);
+
+    const entry = await reviewTimeEntry({
+      companySlug: slug,
+      entryId,
+      actorAdminId: req.companyAdmin!.id,
+      review,
+    });
+
+    if (!entry) {
+      return res.status(404).json({ success: false, message: "Time entry not found" });
+    }
+
+    res.json({
+      success: true,
+      message: entry.status === "approved" ? "Hours approved" : "Hours disputed",
+      entry,
+    } as TimeEntryResponse);
+  } catch (error: any) {
+    sendTimeEntryError(res, error);
+  }
+};
+
+export const handleExportCompanyTimesheet: RequestHandler = async (req, res) => {
+  const { slug } = req.params;
+  console.log(`[API] ==================== EXPORT COMPANY TIMESHEET '${slug}' ====================`);
+
+  try {
+    const query = TimesheetQuerySchema.parse(req.query);
+    const timesheet = await getCompanyTimesheet(slug, query.week, query.status);
+
+    res.attachment(`timesheet-${slug}-${timesheet.week}.csv`);
+    res.type("text/csv");
+    res.send(timesheetCsv(timesheet));
+  } catch (error: any) {
+    sendTimeEntryError(res, error);
+  }
+};
@@ -0,0 +1,252 @@
+/**
+ * Company Catalog Service
+ * Reads companies from the database and maps rows to the shared Company shape
+ */
+
+import type {
+  BonusRule,
+  Company,
+  CompanyListQuery,
+  CompanySort,
+  CompanyTask,
+  SocialQualifyResponse,
+} from "../../shared/schemas";
+import { getDatabase } from "../db";
+
+interface CompanyRow {
+  slug: string;
+  name: string;
+  acronym: string;
+  description: string;
+  website_url: string | null;
+  category: string;
+  hourly_rate_cents: number;
+  bonus_cents: number;
+  bonus_rule: BonusRule;
+  bonus_threshold: number;
+  hires_count: number;
+  rating: number | null;
+  review_count: number;
+  gradient: string;
+  is_available: boolean;
+  tasks: CompanyTask[];
+}
+
+type MatchedCompany = NonNullable<SocialQualifyResponse["data"]>["matchedCompany"];
+
+// The rating and review count only cover reviews that aren't hidden by moderation
+const COMPANY_COLUMNS = `
+  slug, name, acronym, description, website_url, category,
+  hourly_rate_cents, bonus_cents, bonus_rule, bonus_threshold, hires_count, gradient,
+  is_available, tasks,
+  (SELECT ROUND(AVG(r.rating), 1)::float8 FROM company_reviews r
+   WHERE r.company_slug = companies.slug AND r.hidden_at IS NULL) AS rating,
+  (SELECT COUNT(*)::int FROM company_reviews r
+   WHERE r.company_slug = companies.slug AND r.hidden_at IS NULL) AS review_count
+`;
+
+export function toCompany(row: CompanyRow): Company {
+  return {
+    slug: row.slug,
+    name: row.name,
+    acronym: row.acronym,
+    description: row.description,
+    websiteUrl: row.website_url,
+    category: row.category,
+    hourlyRate: row.hourly_rate_cents / 100,
+    bonus: row.bonus_cents / 100,
+    bonusRule: row.bonus_rule,
+    bonusThreshold: row.bonus_threshold,
+    hiresCount: row.hires_count,
+    rating: row.rating,
+    reviewCount: row.review_count,
+    gradient: row.gradient,
+    isAvailable: row.is_available,
+    tasks: row.tasks,
+  };
+}
+
+/**
+ * Format a USD amount the way the qualification response has always shown it
+ * e.g. 2 -> "$2.00", 500 -> "$500"
+ */
+function formatUsd(amount: number): string {
+  return Number.isInteger(amount) ? `$${amount}` : `$${amount.toFixed(2)}`;
+}
+
+interface SortSpec {
+  column: string;
+  direction: "ASC" | "DESC";
+  // The column's type, which a cursor's value must have
+  type: "integer" | "string";
+}
+
+// Every sort is tie-broken on slug so the keyset cursor is stable
+const SORTS: Record<CompanySort, SortSpec> = {
+  featured: { column: "sort_order", direction: "ASC", type: "integer" },
+  rate_desc: { column: "hourly_rate_cents", direction: "DESC", type: "integer" },
+  rate_asc: { column: "hourly_rate_cents", direction: "ASC", type: "integer" },
+  bonus_desc: { column: "bonus_cents", direction: "DESC", type: "integer" },
+  hires_desc: { column: "hires_count", direction: "DESC", type: "integer" },
+  name_asc: { column: "name", direction: "ASC", type: "string" },
+};
+
+// Postgres INTEGER range, so a forged value can't overflow the comparison
+const MAX_INTEGER = 2147483647;
+
+interface CompanyCursor {
+  sort: CompanySort;
+  value: string | number;
+  slug: string;
+}
+
+export class InvalidCursorError extends Error {
+  constructor() {
+    super("Invalid cursor. Please start again from the first page.");
+    this.name = "InvalidCursorError";
+  }
+}
+
+export interface CompanyPage {
+  companies: Company[];
+  nextCursor: string | null;
+}
+
+function encodeCursor(cursor: CompanyCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeCursor(raw: string, sort: CompanySort): CompanyCursor {
+  try {
+    const cursor = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+    const value = cursor?.value;
+    const validValue =
+      SORTS[sort].type === "integer"
+        ? Number.isInteger(value) && Math.abs(value) <= MAX_INTEGER
+        : typeof value === "string";
+    if (cursor?.sort === sort && typeof cursor.slug === "string" && validValue) {
+      return cursor;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new InvalidCursorError();
+}
+
+function escapeLike(text: string): string {
+  return text.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+/**
+ * List companies in marketplace display order, optionally searched, filtered,
+ * sorted and paginated with an opaque keyset cursor
+ */
+export async function listCompanies(
+  query: Partial<CompanyListQuery> = {},
+): Promise<CompanyPage> {
+  const sort = query.sort ?? "featured";
+  const limit = query.limit ?? 50;
+  const { column, direction } = SORTS[sort];
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+
+  if (query.q) {
+    params.push(`%${escapeLike(query.q)}%`);
+    const p = `$${params.length}`;
+    conditions.push(
+      `(name ILIKE ${p} OR acronym ILIKE ${p} OR description ILIKE ${p} OR category ILIKE ${p})`,
+    );
+  }
+
+  if (query.category) {
+    params.push(query.category);
+    conditions.push(`category = $${params.length}`);
+  }
+
+  if (query.minRate !== undefined) {
+    params.push(Math.round(query.minRate * 100));
+    conditions.push(`hourly_rate_cents >= $${params.length}`);
+  }
+
+  if (query.maxRate !== undefined) {
+    params.push(Math.round(query.maxRate * 100));
+    conditions.push(`hourly_rate_cents <= $${params.length}`);
+  }
+
+  if (query.cursor) {
+    const cursor = decodeCursor(query.cursor, sort);
+    params.push(cursor.value, cursor.slug);
+    const v = `$${params.length - 1}`;
+    const s = `$${params.length}`;
+    const beyond = direction === "ASC" ? ">" : "<";
+    conditions.push(`(${column} ${beyond} ${v} OR (${column} = ${v} AND slug > ${s}))`);
+  }
+
+  // Fetch one extra row to know whether another page exists
+  params.push(limit + 1);
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+  const result = await getDatabase().query<CompanyRow & Record<string, unknown>>(
+    `SELECT ${COMPANY_COLUMNS}, sort_order FROM companies
+     ${where}
+     ORDER BY ${column} ${direction}, slug ASC
+     LIMIT $${params.length}`,
+    params,
+  );
+
+  const rows = result.rows.slice(0, limit);
+  const last = rows[rows.length - 1];
+  const nextCursor =
+    result.rows.length > limit && last
+      ? encodeCursor({ sort, value: last[column] as string | number, slug: last.slug })
+      : null;
+
+  return { companies: rows.map(toCompany), nextCursor };
+}
+
+/**
+ * List the distinct categories in the catalog, for the marketplace filter
+ */
+export async function listCompanyCategories(): Promise<string[]> {
+  const result = await getDatabase().query<{ category: string }>(
+    "SELECT DISTINCT category FROM companies ORDER BY category",
+  );
+  return result.rows.map((row) => row.category);
+}
+
+/**
+ * Get a single company by slug
+ * @returns The company, or null if no company has that slug
+ */
+export async function getCompanyBySlug(slug: string): Promise<Company | null> {
+  const result = await getDatabase().query<CompanyRow>(
+    `SELECT ${COMPANY_COLUMNS} FROM companies WHERE slug = $1`,
+    [slug]
+  );
+  return result.rows.length > 0 ? toCompany(result.rows[0]) : null;
+}
+
+/**
+ * Pick the company a newly qualified applicant is matched with:
+ * the first available company in marketplace order
+ * @returns The matched company summary, or null if no company is taking contractors
+ */
+export async function getMatchedCompany(): Promise<MatchedCompany | null> {
+  const result = await getDatabase().query<CompanyRow>(
+    `SELECT ${COMPANY_COLUMNS} FROM companies
+     WHERE is_available = TRUE
+     ORDER BY sort_order, name
+     LIMIT 1`
+  );
+
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  const company = toCompany(result.rows[0]);
+  return {
+    name: company.name,
+    slug: company.slug,
+    payRate: `$${company.hourlyRate.toFixed(2)} per hour`,
+    bonus: formatUsd(company.bonus),
+  };
+}
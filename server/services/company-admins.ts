@@ -0,0 +1,139 @@
+/**
+ * Company Admin Service
+ * Company admins are people at the company who review its contractors. They
+ * are added by email and identified by their Supabase sign-in, so they don't
+ * need a contractor qualification record of their own.
+ */
+
+import { getDatabase } from "../db";
+import type { AuthenticatedUser } from "../middleware/auth";
+
+export interface CompanyAdmin {
+  id: number;
+  email: string;
+  companySlug: string;
+  // Null until the admin first signs in
+  supabaseUserId: string | null;
+}
+
+interface CompanyAdminRow {
+  id: number;
+  email: string;
+  company_slug: string;
+  supabase_user_id: string | null;
+}
+
+export class UnknownCompanyError extends Error {
+  constructor(public readonly companySlug: string) {
+    super(`Company '${companySlug}' not found`);
+    this.name = "UnknownCompanyError";
+  }
+}
+
+const ADMIN_COLUMNS = "id, email, company_slug, supabase_user_id";
+
+function toAdmin(row: CompanyAdminRow): CompanyAdmin {
+  return {
+    id: row.id,
+    email: row.email,
+    companySlug: row.company_slug,
+    supabaseUserId: row.supabase_user_id,
+  };
+}
+
+/**
+ * Find the signed-in user's admin row for a company, linking it on first use
+ *
+ * Rows added by email are linked to the first Supabase identity that signs in
+ * with that email. Every later request resolves through supabase_user_id only.
+ * @returns The admin, or null if the user is not an admin of the company
+ */
+export async function resolveCompanyAdmin(
+  authUser: AuthenticatedUser,
+  companySlug: string
+): Promise<CompanyAdmin | null> {
+  const db = getDatabase();
+  const linked = await db.query<CompanyAdminRow>(
+    `SELECT ${ADMIN_COLUMNS} FROM company_admins WHERE supabase_user_id = $1 AND company_slug = $2`,
+    [authUser.id, companySlug]
+  );
+  if (linked.rows[0]) {
+    return toAdmin(linked.rows[0]);
+  }
+
+  if (!authUser.email) {
+    return null;
+  }
+
+  const claimed = await db.query<CompanyAdminRow>(
+    `UPDATE company_admins SET supabase_user_id = $1
+     WHERE company_slug = $2 AND LOWER(email) = LOWER($3) AND supabase_user_id IS NULL
+     RETURNING ${ADMIN_COLUMNS}`,
+    [authUser.id, companySlug, authUser.email]
+  );
+  if (claimed.rows[0]) {
+    console.log(`[ADMIN] Linked admin ${claimed.rows[0].id} to Supabase identity ${authUser.id}`);
+    return toAdmin(claimed.rows[0]);
+  }
+  return null;
+}
+
+/**
+ * Make someone an admin of a company by email
+ * @returns The admin, and whether this call added them
+ * @throws UnknownCompanyError if the company is not in the catalog
+ */
+export async function addCompanyAdmin(
+  email: string,
+  companySlug: string
+): Promise<{ admin: CompanyAdmin; created: boolean }> {
+  const db = getDatabase();
+  const company = await db.query("SELECT 1 FROM companies WHERE slug = $1", [companySlug]);
+  if (company.rows.length === 0) {
+    throw new UnknownCompanyError(companySlug);
+  }
+
+  const inserted = await db.query<CompanyAdminRow>(
+    `INSERT INTO company_admins (email, company_slug)
+     VALUES ($1, $2)
+     ON CONFLICT (company_slug, LOWER(email)) DO NOTHING
+     RETURNING ${ADMIN_COLUMNS}`,
+    [email.trim(), companySlug]
+  );
+  if (inserted.rows[0]) {
+    return { admin: toAdmin(inserted.rows[0]), created: true };
+  }
+
+  const existing = await db.query<CompanyAdminRow>(
+    `SELECT ${ADMIN_COLUMNS} FROM company_admins WHERE company_slug = $1 AND LOWER(email) = LOWER($2)`,
+    [companySlug, email.trim()]
+  );
+  return { admin: toAdmin(existing.rows[0]), created: false };
+}
+
+/**
+ * Stop someone being an admin of a company
+ *
+ * What they did stays on record without them.
+ * @returns Whether they were an admin
+ */
+export async function removeCompanyAdmin(email: string, companySlug: string): Promise<boolean> {
+  const result = await getDatabase().query(
+    "DELETE FROM company_admins WHERE company_slug = $1 AND LOWER(email) = LOWER($2)",
+    [companySlug, email.trim()]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * List the admins of one company, or of every company, by company then email
+ */
+export async function listCompanyAdmins(companySlug?: string): Promise<CompanyAdmin[]> {
+  const result = await getDatabase().query<CompanyAdminRow>(
+    `SELECT ${ADMIN_COLUMNS} FROM company_admins
+     WHERE $1::varchar IS NULL OR company_slug = $1
+     ORDER BY company_slug, LOWER(email)`,
+    [companySlug ?? null]
+  );
+  return result.rows.map(toAdmin);
+}
@@ -0,0 +1,272 @@
+/**
+ * Company Review Service
+ * Contractors who completed an engagement with a company review it once, 1 to
+ * 5 stars with a comment. Reviews are public and make up the company's rating.
+ * Signed-in users with a qualification record can report an abusive review;
+ * enough reports from outside the company hide it until support restores it.
+ */
+
+import type {
+  CompanyReview,
+  CompanyReviewInput,
+  CompanyReviewsQuery,
+} from "../../shared/schemas";
+import { getDatabase, withTransaction } from "../db";
+import { InvalidCursorError } from "./companies";
+
+// Reports from this many different users outside the company hide a review pending moderation
+export const COMPANY_REVIEW_FLAGS_TO_HIDE = 3;
+
+export class CompanyReviewNotAllowedError extends Error {
+  constructor(public readonly companyName: string) {
+    super(`Only contractors who completed an engagement with ${companyName} can review it.`);
+    this.name = "CompanyReviewNotAllowedError";
+  }
+}
+
+export class CompanyAlreadyReviewedError extends Error {
+  constructor(public readonly companySlug: string) {
+    super("You have already reviewed this company.");
+    this.name = "CompanyAlreadyReviewedError";
+  }
+}
+
+export class CompanyReviewNotFoundError extends Error {
+  constructor(public readonly reviewId: number) {
+    super(`Company review ${reviewId} not found`);
+    this.name = "CompanyReviewNotFoundError";
+  }
+}
+
+interface CompanyReviewRow {
+  id: number;
+  company_slug: string;
+  rating: number;
+  comment: string;
+  created_at: Date;
+}
+
+// A review as support sees it when moderating
+export interface FlaggedCompanyReview extends CompanyReview {
+  hidden: boolean;
+  flagCount: number;
+  reasons: string[];
+}
+
+const REVIEW_COLUMNS = "r.id, r.company_slug, r.rating, r.comment, r.created_at";
+
+function toReview(row: CompanyReviewRow): CompanyReview {
+  return {
+    id: row.id,
+    companySlug: row.company_slug,
+    rating: row.rating,
+    comment: row.comment,
+    createdAt: row.created_at.toISOString(),
+  };
+}
+
+function encodeCursor(id: number): string {
+  return Buffer.from(JSON.stringify({ id })).toString("base64url");
+}
+
+function decodeCursor(raw: string): number {
+  try {
+    const cursor = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+    if (Number.isInteger(cursor?.id)) {
+      return cursor.id;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new InvalidCursorError();
+}
+
+/**
+ * Review a company the user completed an engagement with
+ * @returns The review, or null if there is no such company
+ * @throws CompanyReviewNotAllowedError unless one of the user's requests for the company is completed
+ * @throws CompanyAlreadyReviewedError if the user has already reviewed the company
+ */
+export async function createCompanyReview(params: {
+  userId: number;
+  companySlug: string;
+  input: CompanyReviewInput;
+}): Promise<CompanyReview | null> {
+  const { userId, companySlug, input } = params;
+
+  return withTransaction(async (client) => {
+    const company = await client.query<{ name: string }>("SELECT name FROM companies WHERE slug = $1", [
+      companySlug,
+    ]);
+    if (company.rows.length === 0) {
+      return null;
+    }
+
+    const contractor = await client.query<{ id: number }>(
+      `SELECT id FROM contractors
+       WHERE user_id = $1 AND company_slug = $2 AND status = 'completed'
+       ORDER BY id DESC
+       LIMIT 1
+       FOR SHARE`,
+      [userId, companySlug]
+    );
+    if (contractor.rows.length === 0) {
+      throw new CompanyReviewNotAllowedError(company.rows[0].name);
+    }
+
+    const inserted = await client.query<CompanyReviewRow>(
+      `INSERT INTO company_reviews (company_slug, user_id, contractor_id, rating, comment)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (company_slug, user_id) DO NOTHING
+       RETURNING id, company_slug, rating, comment, created_at`,
+      [companySlug, userId, contractor.rows[0].id, input.rating, input.comment]
+    );
+    if (inserted.rows.length === 0) {
+      throw new CompanyAlreadyReviewedError(companySlug);
+    }
+
+    console.log(`[REVIEWS] User ${userId} rated ${companySlug} ${input.rating} stars`);
+    return toReview(inserted.rows[0]);
+  });
+}
+
+/**
+ * List a company's visible reviews, newest first, a page at a time
+ * @returns The page, or null if there is no such company
+ * @throws InvalidCursorError if the cursor is not one this returned
+ */
+export async function listCompanyReviews(
+  companySlug: string,
+  query: Partial<CompanyReviewsQuery> = {}
+): Promise<{ reviews: CompanyReview[]; nextCursor: string | null } | null> {
+  const limit = query.limit ?? 10;
+  const before = query.cursor ? decodeCursor(query.cursor) : null;
+  const db = getDatabase();
+
+  const company = await db.query("SELECT 1 FROM companies WHERE slug = $1", [companySlug]);
+  if (company.rows.length === 0) {
+    return null;
+  }
+
+  // Fetch one extra row to know whether another page exists
+  const result = await db.query<CompanyReviewRow>(
+    `SELECT ${REVIEW_COLUMNS}
+     FROM company_reviews r
+     WHERE r.company_slug = $1 AND r.hidden_at IS NULL AND ($2::int IS NULL OR r.id < $2)
+     ORDER BY r.id DESC
+     LIMIT $3`,
+    [companySlug, before, limit + 1]
+  );
+
+  const rows = result.rows.slice(0, limit);
+  const nextCursor =
+    result.rows.length > limit ? encodeCursor(rows[rows.length - 1].id) : null;
+  return { reviews: rows.map(toReview), nextCursor };
+}
+
+/**
+ * Report a company's review as abusive
+ *
+ * Each user's report counts once. Reports from the company's admins and from
+ * users with a request to the company are kept for support but don't count, so
+ * the company can't hide its own bad reviews. The report that brings a review
+ * to COMPANY_REVIEW_FLAGS_TO_HIDE hides it.
+ * @returns Whether the review is now hidden, or null if the company has no such visible review
+ */
+export async function flagCompanyReview(params: {
+  userId: number;
+  companySlug: string;
+  reviewId: number;
+  reason: string;
+}): Promise<{ hidden: boolean } | null> {
+  const { userId, companySlug, reviewId, reason } = params;
+
+  return withTransaction(async (client) => {
+    const review = await client.query(
+      `SELECT 1 FROM company_reviews
+       WHERE id = $1 AND company_slug = $2 AND hidden_at IS NULL
+       FOR UPDATE`,
+      [reviewId, companySlug]
+    );
+    if (review.rows.length === 0) {
+      return null;
+    }
+
+    await client.query(
+      `INSERT INTO company_review_flags (review_id, user_id, reason)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (review_id, user_id) DO NOTHING`,
+      [reviewId, userId, reason]
+    );
+
+    const hidden = await client.query(
+      `UPDATE company_reviews SET hidden_at = CURRENT_TIMESTAMP
+       WHERE id = $1
+         AND (
+           SELECT COUNT(*)
+           FROM company_review_flags f
+           JOIN users u ON u.id = f.user_id
+           WHERE f.review_id = $1
+             AND NOT EXISTS (
+               SELECT 1 FROM company_admins a
+               WHERE a.company_slug = $3
+                 AND (LOWER(a.email) = LOWER(u.email) OR a.supabase_user_id = u.supabase_user_id)
+             )
+             AND NOT EXISTS (SELECT 1 FROM contractors c WHERE c.company_slug = $3 AND c.user_id = u.id)
+         ) >= $2
+       RETURNING id`,
+      [reviewId, COMPANY_REVIEW_FLAGS_TO_HIDE, companySlug]
+    );
+    if (hidden.rows.length > 0) {
+      console.log(`[REVIEWS] Review ${reviewId} of ${companySlug} hidden after reports`);
+    }
+    return { hidden: hidden.rows.length > 0 };
+  });
+}
+
+/**
+ * List every reported review, hidden or not, most reported first
+ */
+export async function listFlaggedCompanyReviews(): Promise<FlaggedCompanyReview[]> {
+  const result = await getDatabase().query<
+    CompanyReviewRow & { hidden: boolean; flag_count: number; reasons: string[] }
+  >(
+    `SELECT ${REVIEW_COLUMNS}, r.hidden_at IS NOT NULL AS hidden,
+            COUNT(f.id)::int AS flag_count, array_agg(f.reason ORDER BY f.id) AS reasons
+     FROM company_reviews r
+     JOIN company_review_flags f ON f.review_id = r.id
+     GROUP BY r.id
+     ORDER BY flag_count DESC, r.id DESC`
+  );
+  return result.rows.map((row) => ({
+    ...toReview(row),
+    hidden: row.hidden,
+    flagCount: row.flag_count,
+    reasons: row.reasons,
+  }));
+}
+
+/**
+ * Hide a review from the company's page and rating, or show it again
+ *
+ * Restoring a review clears its reports, so it takes fresh ones to hide it again.
+ * @throws CompanyReviewNotFoundError
+ */
+export async function setCompanyReviewHidden(reviewId: number, hidden: boolean): Promise<void> {
+  await withTransaction(async (client) => {
+    const result = await client.query(
+      `UPDATE company_reviews
+       SET hidden_at = CASE WHEN $2 THEN COALESCE(hidden_at, CURRENT_TIMESTAMP) END
+       WHERE id = $1
+       RETURNING id`,
+      [reviewId, hidden]
+    );
+    if (result.rows.length === 0) {
+      throw new CompanyReviewNotFoundError(reviewId);
+    }
+    if (!hidden) {
+      await client.query("DELETE FROM company_review_flags WHERE review_id = $1", [reviewId]);
+    }
+  });
+  console.log(`[REVIEWS] Review ${reviewId} ${hidden ? "hidden" : "restored"}`);
+}
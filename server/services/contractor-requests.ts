@@ -0,0 +1,138 @@
+/**
+ * Contractor Request Service
+ * A contractor's view of their own requests to join companies
+ */
+
+import type { ContractorStatus, MyContractorRequest } from "../../shared/schemas";
+import { getDatabase, withTransaction } from "../db";
+import { enqueueEmail } from "../outbox";
+import { transitionContractorStatus } from "./contractor-status";
+import type { LinkedUser } from "./users";
+
+// PostgreSQL error code raised by idx_contractors_live_request
+const UNIQUE_VIOLATION = "23505";
+
+export class ContractorRequestExistsError extends Error {
+  constructor(public readonly companySlug: string) {
+    super("You have already requested to join this company. Please check your email for updates.");
+    this.name = "ContractorRequestExistsError";
+  }
+}
+
+interface MyContractorRequestRow {
+  id: number;
+  company_slug: string;
+  company_name: string;
+  status: ContractorStatus;
+  can_start_job: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const MY_REQUEST_COLUMNS =
+  "id, company_slug, company_name, status, can_start_job, created_at, updated_at";
+
+function toMyRequest(row: MyContractorRequestRow): MyContractorRequest {
+  return {
+    id: row.id,
+    companySlug: row.company_slug,
+    companyName: row.company_name,
+    status: row.status,
+    canStartJob: row.can_start_job,
+    createdAt: row.created_at.toISOString(),
+    updatedAt: row.updated_at.toISOString(),
+  };
+}
+
+/**
+ * List a user's contractor requests, newest first
+ */
+export async function listUserContractorRequests(userId: number): Promise<MyContractorRequest[]> {
+  const result = await getDatabase().query<MyContractorRequestRow>(
+    `SELECT ${MY_REQUEST_COLUMNS} FROM contractors
+     WHERE user_id = $1
+     ORDER BY created_at DESC, id DESC`,
+    [userId]
+  );
+  return result.rows.map(toMyRequest);
+}
+
+/**
+ * Record a request to join a company and queue its notification emails
+ *
+ * The contractor gets a confirmation and every admin of the company gets a
+ * notice. The emails are only sent if the request itself is saved.
+ * @throws ContractorRequestExistsError if the user already has a live request for the company
+ */
+export async function createContractorRequest(
+  user: LinkedUser,
+  company: { slug: string; name: string }
+): Promise<MyContractorRequest> {
+  return withTransaction(async (client) => {
+    let result;
+    try {
+      result = await client.query<MyContractorRequestRow>(
+        `INSERT INTO contractors (user_id, email, company_slug, company_name, status, joined_slack, can_start_job)
+         VALUES ($1, $2, $3, $4, 'pending', true, false)
+         RETURNING ${MY_REQUEST_COLUMNS}`,
+        [user.id, user.email, company.slug, company.name]
+      );
+    } catch (error: any) {
+      // A concurrent request for the same company was saved first
+      if (error.code === UNIQUE_VIOLATION) {
+        throw new ContractorRequestExistsError(company.slug);
+      }
+      throw error;
+    }
+
+    await enqueueEmail(client, "contractor_request_received", user.email, {
+      companyName: company.name,
+      companySlug: company.slug,
+    });
+
+    const admins = await client.query<{ email: string }>(
+      "SELECT email FROM company_admins WHERE company_slug = $1 ORDER BY id",
+      [company.slug]
+    );
+    for (const admin of admins.rows) {
+      await enqueueEmail(client, "company_contractor_request", admin.email, {
+        companyName: company.name,
+        companySlug: company.slug,
+        contractorEmail: user.email,
+        redditUsername: user.reddit_username,
+      });
+    }
+
+    return toMyRequest(result.rows[0]);
+  });
+}
+
+/**
+ * Withdraw one of a user's own contractor requests
+ * @returns The withdrawn request, or null if the user has no such request
+ * @throws InvalidContractorTransitionError unless the request is still pending
+ */
+export async function withdrawContractorRequest(
+  userId: number,
+  contractorId: number
+): Promise<MyContractorRequest | null> {
+  return withTransaction(async (client) => {
+    const transition = await transitionContractorStatus(client, {
+      contractorId,
+      scope: { userId },
+      to: "withdrawn",
+      actor: "contractor",
+      actorId: userId,
+    });
+
+    if (!transition) {
+      return null;
+    }
+
+    const result = await client.query<MyContractorRequestRow>(
+      `SELECT ${MY_REQUEST_COLUMNS} FROM contractors WHERE id = $1`,
+      [contractorId]
+    );
+    return toMyRequest(result.rows[0]);
+  });
+}
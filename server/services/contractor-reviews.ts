@@ -0,0 +1,178 @@
+/**
+ * Contractor Review Service
+ * Lets company admins work through contractor requests for their company.
+ * Status changes go through transitionContractorStatus.
+ */
+
+import type {
+  ContractorRequestSummary,
+  ContractorReview,
+  ContractorStatus,
+  ContractorStatusEvent,
+} from "../../shared/schemas";
+import type { PoolClient } from "pg";
+import { getDatabase, withTransaction } from "../db";
+import { transitionContractorStatus } from "./contractor-status";
+
+interface ContractorRequestRow {
+  id: number;
+  user_id: number;
+  email: string;
+  reddit_username: string;
+  company_slug: string;
+  status: ContractorStatus;
+  can_start_job: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface EventRow {
+  id: number;
+  from_status: ContractorStatus;
+  to_status: ContractorStatus;
+  can_start_job: boolean;
+  reason: string | null;
+  actor_email: string | null;
+  created_at: Date;
+}
+
+const REQUEST_COLUMNS = `
+  c.id, c.user_id, c.email, u.reddit_username, c.company_slug,
+  c.status, c.can_start_job, c.created_at, c.updated_at
+`;
+
+function toSummary(row: ContractorRequestRow): ContractorRequestSummary {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    email: row.email,
+    redditUsername: row.reddit_username,
+    companySlug: row.company_slug,
+    status: row.status,
+    canStartJob: row.can_start_job,
+    createdAt: row.created_at.toISOString(),
+    updatedAt: row.updated_at.toISOString(),
+  };
+}
+
+/**
+ * List contractor requests for a company, oldest first so the queue is worked in order
+ * @param status - Only return requests in this status; omit for every request
+ */
+export async function listContractorRequests(
+  companySlug: string,
+  status?: ContractorStatus
+): Promise<ContractorRequestSummary[]> {
+  const result = await getDatabase().query<ContractorRequestRow>(
+    `SELECT ${REQUEST_COLUMNS}
+     FROM contractors c
+     JOIN users u ON u.id = c.user_id
+     WHERE c.company_slug = $1 AND ($2::varchar IS NULL OR c.status = $2)
+     ORDER BY c.created_at, c.id`,
+    [companySlug, status ?? null]
+  );
+  return result.rows.map(toSummary);
+}
+
+async function getContractorRequest(
+  client: PoolClient,
+  contractorId: number
+): Promise<ContractorRequestSummary> {
+  const result = await client.query<ContractorRequestRow>(
+    `SELECT ${REQUEST_COLUMNS}
+     FROM contractors c
+     JOIN users u ON u.id = c.user_id
+     WHERE c.id = $1`,
+    [contractorId]
+  );
+  return toSummary(result.rows[0]);
+}
+
+/**
+ * Move one of a company's contractor requests to a new status on behalf of an admin
+ * @returns The updated request, or null if the company has no such request
+ * @throws InvalidContractorTransitionError if the state machine forbids the move
+ */
+export async function changeContractorStatus(params: {
+  companySlug: string;
+  contractorId: number;
+  actorAdminId: number;
+  to: ContractorStatus;
+  reason?: string;
+}): Promise<ContractorRequestSummary | null> {
+  const { companySlug, contractorId, actorAdminId, to, reason } = params;
+
+  return withTransaction(async (client) => {
+    const transition = await transitionContractorStatus(client, {
+      contractorId,
+      scope: { companySlug },
+      to,
+      actor: "company",
+      actorId: actorAdminId,
+      reason,
+    });
+
+    return transition ? getContractorRequest(client, contractorId) : null;
+  });
+}
+
+/**
+ * Accept or reject a pending contractor request
+ *
+ * Accepting lets the contractor start work (can_start_job); rejecting keeps it off.
+ * @returns The updated request, or null if the company has no such request
+ * @throws InvalidContractorTransitionError if the request was already reviewed
+ */
+export async function reviewContractorRequest(params: {
+  companySlug: string;
+  contractorId: number;
+  actorAdminId: number;
+  review: ContractorReview;
+}): Promise<ContractorRequestSummary | null> {
+  const { review, ...rest } = params;
+  return changeContractorStatus({
+    ...rest,
+    to: review.decision === "accept" ? "accepted" : "rejected",
+    reason: review.reason,
+  });
+}
+
+/**
+ * Get the status history of a company's contractor request, oldest first
+ * @returns The history, or null if the company has no such request
+ */
+export async function getContractorHistory(
+  companySlug: string,
+  contractorId: number
+): Promise<ContractorStatusEvent[] | null> {
+  const db = getDatabase();
+  const exists = await db.query(
+    "SELECT 1 FROM contractors WHERE id = $1 AND company_slug = $2",
+    [contractorId, companySlug]
+  );
+
+  if (exists.rows.length === 0) {
+    return null;
+  }
+
+  const result = await db.query<EventRow>(
+    `SELECT h.id, h.from_status, h.to_status, h.can_start_job, h.reason,
+            COALESCE(admin.email, actor.email) AS actor_email, h.created_at
+     FROM contractor_status_events h
+     LEFT JOIN company_admins admin ON admin.id = h.actor_admin_id
+     LEFT JOIN users actor ON actor.id = h.actor_user_id
+     WHERE h.contractor_id = $1
+     ORDER BY h.created_at, h.id`,
+    [contractorId]
+  );
+
+  return result.rows.map((row) => ({
+    id: row.id,
+    fromStatus: row.from_status,
+    toStatus: row.to_status,
+    canStartJob: row.can_start_job,
+    reason: row.reason,
+    actorEmail: row.actor_email,
+    createdAt: row.created_at.toISOString(),
+  }));
+}
@@ -0,0 +1,157 @@
+/**
+ * Contractor Status Service
+ * The only code path that changes contractors.status. Every change is checked
+ * against CONTRACTOR_TRANSITIONS and recorded in contractor_status_events.
+ */
+
+import type { PoolClient } from "pg";
+import {
+  canStartJobInStatus,
+  getAllowedTransitions,
+  type ContractorActor,
+  type ContractorStatus,
+} from "../../shared/schemas";
+import { enqueueEmail, enqueueSms } from "../outbox";
+
+export class InvalidContractorTransitionError extends Error {
+  constructor(
+    public readonly from: ContractorStatus,
+    public readonly to: ContractorStatus,
+    public readonly actor: ContractorActor
+  ) {
+    super(
+      from === to
+        ? `This request is already ${from}.`
+        : `A ${actor} cannot move a contractor request from ${from} to ${to}.`
+    );
+    this.name = "InvalidContractorTransitionError";
+  }
+}
+
+/**
+ * Throw unless `actor` may move a contractor request from `from` to `to`
+ */
+export function assertContractorTransition(
+  from: ContractorStatus,
+  to: ContractorStatus,
+  actor: ContractorActor
+): void {
+  const allowed = getAllowedTransitions(from, actor).some((transition) => transition.to === to);
+  if (!allowed) {
+    throw new InvalidContractorTransitionError(from, to, actor);
+  }
+}
+
+export interface ContractorTransitionResult {
+  from: ContractorStatus;
+  to: ContractorStatus;
+  canStartJob: boolean;
+}
+
+/**
+ * Move a contractor request to a new status inside the caller's transaction
+ *
+ * The row is locked first so concurrent transitions are serialised. `scope`
+ * limits which requests the caller may touch (its company or its own requests).
+ * Accepting or rejecting also queues an email to the contractor, and
+ * accepting texts them their invite.
+ * @returns The transition made, or null if no request matches the scope
+ * @throws InvalidContractorTransitionError if the state machine forbids the move
+ */
+export async function transitionContractorStatus(
+  client: PoolClient,
+  params: {
+    contractorId: number;
+    scope: { companySlug: string } | { userId: number };
+    to: ContractorStatus;
+    actor: ContractorActor;
+    // The company admin's id when actor is "company", the user's id when "contractor"
+    actorId: number | null;
+    reason?: string | null;
+  }
+): Promise<ContractorTransitionResult | null> {
+  const { contractorId, scope, to, actor, actorId, reason } = params;
+  const [scopeColumn, scopeValue] =
+    "companySlug" in scope ? ["company_slug", scope.companySlug] : ["user_id", scope.userId];
+
+  const current = await client.query<{
+    status: ContractorStatus;
+    email: string;
+    company_slug: string;
+    company_name: string;
+    user_id: number | null;
+    phone: string | null;
+  }>(
+    `SELECT c.status, c.email, c.company_slug, c.company_name, c.user_id, u.phone
+     FROM contractors c
+     LEFT JOIN users u ON u.id = c.user_id
+     WHERE c.id = $1 AND c.${scopeColumn} = $2
+     FOR UPDATE OF c`,
+    [contractorId, scopeValue]
+  );
+
+  if (current.rows.length === 0) {
+    return null;
+  }
+
+  const contractor = current.rows[0];
+  const from = contractor.status;
+  assertContractorTransition(from, to, actor);
+
+  const canStartJob = canStartJobInStatus(to);
+  await client.query("UPDATE contractors SET status = $1, can_start_job = $2 WHERE id = $3", [
+    to,
+    canStartJob,
+    contractorId,
+  ]);
+
+  // Hours are paid at the rate the company offered when it accepted the contractor
+  if (to === "accepted") {
+    await client.query(
+      `UPDATE contractors c SET hourly_rate_cents = co.hourly_rate_cents
+       FROM companies co
+       WHERE co.slug = c.company_slug AND c.id = $1`,
+      [contractorId]
+    );
+  }
+
+  await client.query(
+    `INSERT INTO contractor_status_events
+       (contractor_id, from_status, to_status, can_start_job, reason, actor_user_id, actor_admin_id)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+    [
+      contractorId,
+      from,
+      to,
+      canStartJob,
+      reason || null,
+      actor === "contractor" ? actorId : null,
+      actor === "company" ? actorId : null,
+    ]
+  );
+
+  // Let the contractor know how the company decided
+  const company = { companyName: contractor.company_name, companySlug: contractor.company_slug };
+  if (to === "accepted") {
+    await enqueueEmail(client, "contractor_request_accepted", contractor.email, company);
+    if (contractor.user_id !== null && contractor.phone) {
+      await enqueueSms(
+        client,
+        "contractor_request_accepted",
+        { id: contractor.user_id, phone: contractor.phone },
+        company
+      );
+    }
+  } else if (to === "rejected") {
+    await enqueueEmail(client, "contractor_request_rejected", contractor.email, {
+      ...company,
+      reason: reason || null,
+    });
+  }
+
+  console.log(
+    `[CONTRACTORS] Contractor ${contractorId} ${from} -> ${to} by ${actor} ${actorId ?? "system"}`
+  );
+
+  return { from, to, canStartJob };
+}
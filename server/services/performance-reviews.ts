@@ -0,0 +1,186 @@
+/**
+ * Performance Review Service
+ * Company admins rate the contractors who work for them, 1 to 5 stars with a
+ * comment. Companies not open to everyone unlock for a contractor once any
+ * company rates them MULTI_COMPANY_MIN_RATING stars or more.
+ */
+
+import {
+  MULTI_COMPANY_MIN_RATING,
+  type Company,
+  type ContractorStatus,
+  type PerformanceReview,
+  type PerformanceReviewInput,
+} from "../../shared/schemas";
+import { getDatabase, withTransaction } from "../db";
+import { evaluateSigningBonus } from "./signing-bonuses";
+
+// Requests whose contractor has started work the company can rate; accepted ones haven't yet
+const REVIEWABLE_STATUSES: readonly ContractorStatus[] = ["active", "suspended", "completed"];
+
+export class PerformanceReviewNotAllowedError extends Error {
+  constructor(public readonly status: ContractorStatus) {
+    super(`Only contractors who have worked with you can be rated. This request is ${status}.`);
+    this.name = "PerformanceReviewNotAllowedError";
+  }
+}
+
+export class CompanyLockedError extends Error {
+  constructor(public readonly companySlug: string) {
+    super(
+      `Get a ${MULTI_COMPANY_MIN_RATING}+ star review from a company you've worked with before applying to other companies.`
+    );
+    this.name = "CompanyLockedError";
+  }
+}
+
+interface PerformanceReviewRow {
+  id: number;
+  contractor_id: number;
+  company_slug: string;
+  company_name: string;
+  rating: number;
+  comment: string;
+  created_at: Date;
+}
+
+const REVIEW_COLUMNS = `r.id, r.contractor_id, r.company_slug, c.company_name, r.rating, r.comment, r.created_at`;
+
+function toReview(row: PerformanceReviewRow): PerformanceReview {
+  return {
+    id: row.id,
+    contractorId: row.contractor_id,
+    companySlug: row.company_slug,
+    companyName: row.company_name,
+    rating: row.rating,
+    comment: row.comment,
+    createdAt: row.created_at.toISOString(),
+  };
+}
+
+/**
+ * Rate one of a company's contractors
+ *
+ * A company may rate the same contractor more than once, e.g. after each
+ * assignment; every review counts toward unlocking the marketplace. A rating
+ * may unlock the engagement's signing bonus.
+ * @returns The review, or null if the company has no such request
+ * @throws PerformanceReviewNotAllowedError if the contractor never worked with the company
+ */
+export async function createPerformanceReview(params: {
+  companySlug: string;
+  contractorId: number;
+  reviewerId: number;
+  input: PerformanceReviewInput;
+}): Promise<PerformanceReview | null> {
+  const { companySlug, contractorId, reviewerId, input } = params;
+
+  return withTransaction(async (client) => {
+    const contractor = await client.query<{ status: ContractorStatus }>(
+      "SELECT status FROM contractors WHERE id = $1 AND company_slug = $2 FOR SHARE",
+      [contractorId, companySlug]
+    );
+    const row = contractor.rows[0];
+    if (!row) {
+      return null;
+    }
+    if (!REVIEWABLE_STATUSES.includes(row.status)) {
+      throw new PerformanceReviewNotAllowedError(row.status);
+    }
+
+    const inserted = await client.query<PerformanceReviewRow>(
+      `WITH r AS (
+         INSERT INTO performance_reviews (contractor_id, company_slug, reviewer_id, rating, comment)
+         VALUES ($1, $2, $3, $4, $5)
+         RETURNING *
+       )
+       SELECT ${REVIEW_COLUMNS} FROM r JOIN contractors c ON c.id = r.contractor_id`,
+      [contractorId, companySlug, reviewerId, input.rating, input.comment]
+    );
+    await evaluateSigningBonus(client, contractorId);
+
+    console.log(`[REVIEWS] ${companySlug} rated contractor ${contractorId} ${input.rating} stars`);
+    return toReview(inserted.rows[0]);
+  });
+}
+
+/**
+ * List a company's reviews of one of its contractors, newest first
+ * @returns The reviews, or null if the company has no such request
+ */
+export async function listContractorPerformanceReviews(
+  companySlug: string,
+  contractorId: number
+): Promise<PerformanceReview[] | null> {
+  const db = getDatabase();
+  const contractor = await db.query("SELECT 1 FROM contractors WHERE id = $1 AND company_slug = $2", [
+    contractorId,
+    companySlug,
+  ]);
+  if (contractor.rows.length === 0) {
+    return null;
+  }
+
+  const result = await db.query<PerformanceReviewRow>(
+    `SELECT ${REVIEW_COLUMNS}
+     FROM performance_reviews r
+     JOIN contractors c ON c.id = r.contractor_id
+     WHERE r.contractor_id = $1
+     ORDER BY r.created_at DESC, r.id DESC`,
+    [contractorId]
+  );
+  return result.rows.map(toReview);
+}
+
+/**
+ * List every review of the user from the companies they work with, newest first
+ */
+export async function listUserPerformanceReviews(userId: number): Promise<PerformanceReview[]> {
+  const result = await getDatabase().query<PerformanceReviewRow>(
+    `SELECT ${REVIEW_COLUMNS}
+     FROM performance_reviews r
+     JOIN contractors c ON c.id = r.contractor_id
+     WHERE c.user_id = $1
+     ORDER BY r.created_at DESC, r.id DESC`,
+    [userId]
+  );
+  return result.rows.map(toReview);
+}
+
+/**
+ * Whether any company has rated the user highly enough to open the whole marketplace
+ */
+export async function hasMultiCompanyAccess(userId: number): Promise<boolean> {
+  const result = await getDatabase().query(
+    `SELECT 1
+     FROM performance_reviews r
+     JOIN contractors c ON c.id = r.contractor_id
+     WHERE c.user_id = $1 AND r.rating >= $2
+     LIMIT 1`,
+    [userId, MULTI_COMPANY_MIN_RATING]
+  );
+  return result.rows.length > 0;
+}
+
+/**
+ * A company as a viewer sees it: every company is available once they are unlocked
+ */
+export function withMarketplaceAccess(company: Company, unlocked: boolean): Company {
+  return unlocked && !company.isAvailable ? { ...company, isAvailable: true } : company;
+}
+
+/**
+ * Refuse a request to join a company the user hasn't unlocked
+ *
+ * Slugs that aren't in the catalog are left to the caller.
+ * @throws CompanyLockedError
+ */
+export async function assertCompanyOpen(userId: number, companySlug: string): Promise<void> {
+  const company = await getDatabase().query<{ is_available: boolean }>(
+    "SELECT is_available FROM companies WHERE slug = $1",
+    [companySlug]
+  );
+  if (company.rows[0]?.is_available === false && !(await hasMultiCompanyAccess(userId))) {
+    throw new CompanyLockedError(companySlug);
+  }
+}
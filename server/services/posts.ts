@@ -0,0 +1,53 @@
+/**
+ * Posts Service
+ * Maps Reddit listings to the Post shape the feed renders. Listings come
+ * through the Reddit listing cache so page views don't each hit Reddit.
+ */
+
+import type { Post, PostsQuery } from "../../shared/schemas";
+import { getCachedListing, type RedditPost } from "./reddit";
+
+export interface PostsPage {
+  posts: Post[];
+  after: string | null;
+}
+
+function toPost(post: RedditPost): Post {
+  return {
+    id: post.id,
+    title: post.title,
+    content: post.selftext || post.url,
+    author: post.author,
+    createdAt: new Date(post.created_utc * 1000).toISOString(),
+    subreddit: post.subreddit,
+    score: post.score,
+    url: post.url,
+    permalink: `https://www.reddit.com${post.permalink}`,
+    numComments: post.num_comments,
+    // Placeholders like "self" and "nsfw" have no image to show
+    thumbnail: /^https?:\/\//.test(post.thumbnail) ? post.thumbnail : null,
+    over18: post.over_18,
+  };
+}
+
+/**
+ * List a page of a subreddit's posts
+ *
+ * NSFW posts are dropped after paging unless the query asks for them, so a
+ * page can be short, or empty, without being the end of the listing.
+ * @throws RedditRateLimitError or RedditConfigError as thrown by getCachedListing
+ */
+export async function listPosts(query: PostsQuery): Promise<PostsPage> {
+  const listing = await getCachedListing(query.subreddit, {
+    sort: query.sort,
+    t: query.t,
+    limit: query.limit,
+    after: query.after,
+  });
+  // A short page from Reddit is the end of the listing
+  const last = listing[listing.length - 1];
+  return {
+    posts: listing.filter((post) => query.over_18 || !post.over_18).map(toPost),
+    after: last && listing.length === query.limit ? `t3_${last.id}` : null,
+  };
+}
@@ -0,0 +1,260 @@
+/**
+ * Reddit Listing Cache
+ * Keeps Reddit listings so feeds don't call Reddit on every page view.
+ * Entries are fresh for a TTL, then served stale while one background request
+ * refreshes them; concurrent misses for the same listing share one request.
+ * Stored in memory, or in Postgres so entries survive serverless cold starts.
+ * Chosen with REDDIT_CACHE_STORE.
+ */
+
+import { getDatabase } from "../db";
+
+export interface ListingCacheEntry {
+  value: unknown;
+  freshUntil: Date;
+  staleUntil: Date;
+}
+
+export interface ListingCacheStore {
+  readonly name: string;
+  // Entries past staleUntil may be returned; the cache ignores them
+  get(key: string): Promise<ListingCacheEntry | null>;
+  set(key: string, entry: ListingCacheEntry): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface ListingCacheStats {
+  store: string;
+  // Served fresh from the store
+  hits: number;
+  // Served stale while a background refresh ran
+  staleHits: number;
+  // Waited for Reddit, including callers that joined a request in flight
+  misses: number;
+  // Reddit requests that failed, in the foreground or the background
+  errors: number;
+}
+
+export interface ListingCache {
+  /**
+   * Get the listing stored under `key`, calling `fetchListing` when it is
+   * missing or stale
+   * @throws whatever `fetchListing` throws when there is nothing to serve
+   */
+  get<T>(key: string, fetchListing: () => Promise<T>): Promise<T>;
+  stats(): ListingCacheStats;
+  clear(): Promise<void>;
+}
+
+export interface ListingCacheOptions {
+  store: ListingCacheStore;
+  ttlMs: number;
+  // How long past the TTL an entry may be served while it is refreshed
+  staleMs: number;
+}
+
+export const DEFAULT_REDDIT_CACHE_TTL_SECONDS = 60;
+export const DEFAULT_REDDIT_CACHE_STALE_SECONDS = 300;
+const MEMORY_STORE_MAX_ENTRIES = 500;
+
+/**
+ * Cache key for one page of a listing
+ */
+export function listingCacheKey(listing: {
+  subreddit: string;
+  sort: string;
+  t?: string;
+  limit: number;
+  after?: string;
+}): string {
+  const sort = listing.t ? `${listing.sort}/${listing.t}` : listing.sort;
+  return [listing.subreddit.toLowerCase(), sort, listing.limit, listing.after ?? ""].join(":");
+}
+
+/**
+ * Keep entries in this process, evicting the oldest beyond `maxEntries`
+ */
+export function createMemoryListingStore(
+  maxEntries: number = MEMORY_STORE_MAX_ENTRIES
+): ListingCacheStore {
+  const entries = new Map<string, ListingCacheEntry>();
+
+  return {
+    name: "memory",
+    async get(key) {
+      return entries.get(key) ?? null;
+    },
+    async set(key, entry) {
+      entries.delete(key);
+      entries.set(key, entry);
+      // Maps keep insertion order, so the first key is the oldest entry
+      if (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!);
+      }
+    },
+    async clear() {
+      entries.clear();
+    },
+  };
+}
+
+/**
+ * Keep entries in the reddit_listing_cache table
+ */
+export function createPostgresListingStore(): ListingCacheStore {
+  return {
+    name: "postgres",
+    async get(key) {
+      const result = await getDatabase().query<{
+        value: unknown;
+        fresh_until: Date;
+        stale_until: Date;
+      }>(
+        "SELECT value, fresh_until, stale_until FROM reddit_listing_cache WHERE cache_key = $1",
+        [key]
+      );
+      const row = result.rows[0];
+      return row ? { value: row.value, freshUntil: row.fresh_until, staleUntil: row.stale_until } : null;
+    },
+    async set(key, entry) {
+      const db = getDatabase();
+      await db.query(
+        `INSERT INTO reddit_listing_cache (cache_key, value, fresh_until, stale_until)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (cache_key) DO UPDATE
+         SET value = EXCLUDED.value,
+             fresh_until = EXCLUDED.fresh_until,
+             stale_until = EXCLUDED.stale_until,
+             updated_at = CURRENT_TIMESTAMP`,
+        [key, JSON.stringify(entry.value), entry.freshUntil, entry.staleUntil]
+      );
+      // Writes only happen once a listing goes stale, so pruning here stays cheap
+      await db.query("DELETE FROM reddit_listing_cache WHERE stale_until < $1", [new Date()]);
+    },
+    async clear() {
+      await getDatabase().query("DELETE FROM reddit_listing_cache");
+    },
+  };
+}
+
+export function createListingCache(options: ListingCacheOptions): ListingCache {
+  const { store, ttlMs, staleMs } = options;
+  const counts = { hits: 0, staleHits: 0, misses: 0, errors: 0 };
+  const inFlight = new Map<string, Promise<unknown>>();
+
+  // One Reddit request per key at a time; later callers join it
+  function refresh<T>(key: string, fetchListing: () => Promise<T>): Promise<T> {
+    let request = inFlight.get(key) as Promise<T> | undefined;
+    if (!request) {
+      request = (async () => {
+        let value: T;
+        try {
+          value = await fetchListing();
+        } catch (error) {
+          counts.errors++;
+          throw error;
+        }
+
+        const now = Date.now();
+        try {
+          await store.set(key, {
+            value,
+            freshUntil: new Date(now + ttlMs),
+            staleUntil: new Date(now + ttlMs + staleMs),
+          });
+        } catch (error) {
+          // The listing is still good; the next request just fetches it again
+          console.error(`[CACHE] Failed to store ${key} in the ${store.name} store:`, error);
+        }
+        return value;
+      })().finally(() => {
+        inFlight.delete(key);
+      });
+      inFlight.set(key, request);
+    }
+    return request;
+  }
+
+  return {
+    async get<T>(key: string, fetchListing: () => Promise<T>): Promise<T> {
+      let entry: ListingCacheEntry | null = null;
+      try {
+        entry = await store.get(key);
+      } catch (error) {
+        // A broken store degrades to calling Reddit rather than failing the feed
+        console.error(`[CACHE] Failed to read ${key} from the ${store.name} store:`, error);
+      }
+
+      const now = Date.now();
+      if (entry && entry.freshUntil.getTime() > now) {
+        counts.hits++;
+        return entry.value as T;
+      }
+      if (entry && entry.staleUntil.getTime() > now) {
+        counts.staleHits++;
+        refresh(key, fetchListing).catch((error) => {
+          console.error(`[CACHE] Background refresh of ${key} failed:`, error);
+        });
+        return entry.value as T;
+      }
+
+      counts.misses++;
+      return refresh(key, fetchListing);
+    },
+
+    stats() {
+      return { store: store.name, ...counts };
+    },
+
+    async clear() {
+      await store.clear();
+    },
+  };
+}
+
+function readSeconds(value: string | undefined, fallback: number): number {
+  const seconds = Number(value);
+  return value && Number.isFinite(seconds) && seconds >= 0 ? seconds : fallback;
+}
+
+/**
+ * Build the cache configured by the environment
+ *
+ * REDDIT_CACHE_STORE picks memory or postgres. Without it, production uses
+ * Postgres and everything else memory. REDDIT_CACHE_TTL_SECONDS and
+ * REDDIT_CACHE_STALE_SECONDS override the default lifetimes.
+ */
+export function createRedditListingCache(env: NodeJS.ProcessEnv = process.env): ListingCache {
+  const kind = env.REDDIT_CACHE_STORE || (env.NODE_ENV === "production" ? "postgres" : "memory");
+  const options = {
+    ttlMs: readSeconds(env.REDDIT_CACHE_TTL_SECONDS, DEFAULT_REDDIT_CACHE_TTL_SECONDS) * 1000,
+    staleMs: readSeconds(env.REDDIT_CACHE_STALE_SECONDS, DEFAULT_REDDIT_CACHE_STALE_SECONDS) * 1000,
+  };
+
+  switch (kind) {
+    case "memory":
+      return createListingCache({ store: createMemoryListingStore(), ...options });
+    case "postgres":
+      return createListingCache({ store: createPostgresListingStore(), ...options });
+    default:
+      throw new Error(`Unknown REDDIT_CACHE_STORE '${kind}'. Use one of: memory, postgres`);
+  }
+}
+
+let sharedCache: ListingCache | null = null;
+
+/**
+ * Get the cache every Reddit listing request shares, built on first use
+ */
+export function getRedditListingCache(): ListingCache {
+  sharedCache ??= createRedditListingCache();
+  return sharedCache;
+}
+
+/**
+ * Drop the shared cache and its counters; the next use rebuilds it from the environment
+ */
+export async function resetRedditListingCache(): Promise<void> {
+  await sharedCache?.clear();
+  sharedCache = null;
+}
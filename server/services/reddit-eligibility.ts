@@ -0,0 +1,101 @@
+/**
+ * Reddit Eligibility Service
+ * Decides whether a verified Reddit account may qualify. The thresholds are
+ * read from REDDIT_MIN_ACCOUNT_AGE_DAYS and REDDIT_MIN_KARMA.
+ */
+
+import type {
+  RedditEligibility,
+  RedditEligibilityPolicy,
+} from "../../shared/schemas";
+import type { RedditVerificationResult } from "./reddit";
+
+export const DEFAULT_REDDIT_ELIGIBILITY_POLICY: RedditEligibilityPolicy = {
+  minAccountAgeDays: 30,
+  minKarma: 100,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function readThreshold(env: NodeJS.ProcessEnv, name: string, fallback: number): number {
+  const raw = env[name];
+  if (raw === undefined || raw === "") {
+    return fallback;
+  }
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`${name} must be a non-negative integer, got '${raw}'`);
+  }
+  return value;
+}
+
+/**
+ * Get the eligibility policy configured by the environment
+ * @throws Error if a threshold is not a non-negative integer
+ */
+export function getRedditEligibilityPolicy(
+  env: NodeJS.ProcessEnv = process.env
+): RedditEligibilityPolicy {
+  return {
+    minAccountAgeDays: readThreshold(
+      env,
+      "REDDIT_MIN_ACCOUNT_AGE_DAYS",
+      DEFAULT_REDDIT_ELIGIBILITY_POLICY.minAccountAgeDays
+    ),
+    minKarma: readThreshold(env, "REDDIT_MIN_KARMA", DEFAULT_REDDIT_ELIGIBILITY_POLICY.minKarma),
+  };
+}
+
+/**
+ * Check a found Reddit account against the policy
+ *
+ * Every failed rule is listed so the applicant sees all of them at once.
+ */
+export function evaluateRedditEligibility(
+  verification: Extract<RedditVerificationResult, { status: "verified" | "suspended" }>,
+  policy: RedditEligibilityPolicy,
+  now: Date = new Date()
+): RedditEligibility {
+  const checkedAt = now.toISOString();
+
+  if (verification.status === "suspended") {
+    return {
+      eligible: false,
+      reasons: [{ code: "suspended", message: "Your Reddit account is suspended." }],
+      accountCreatedAt: null,
+      accountAgeDays: null,
+      karma: null,
+      policy,
+      checkedAt,
+    };
+  }
+
+  const { account } = verification;
+  const accountAgeDays = Math.floor((now.getTime() - account.createdAt.getTime()) / DAY_MS);
+  const karma = account.linkKarma + account.commentKarma;
+  const reasons: RedditEligibility["reasons"] = [];
+
+  if (accountAgeDays < policy.minAccountAgeDays) {
+    reasons.push({
+      code: "account_too_new",
+      message: `Your Reddit account must be at least ${policy.minAccountAgeDays} days old (it is ${accountAgeDays}).`,
+    });
+  }
+  if (karma < policy.minKarma) {
+    reasons.push({
+      code: "insufficient_karma",
+      message: `Your Reddit account needs at least ${policy.minKarma} karma (it has ${karma}).`,
+    });
+  }
+
+  return {
+    eligible: reasons.length === 0,
+    reasons,
+    accountCreatedAt: account.createdAt.toISOString(),
+    accountAgeDays,
+    karma,
+    policy,
+    checkedAt,
+  };
+}
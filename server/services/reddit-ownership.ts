@@ -0,0 +1,248 @@
+/**
+ * Reddit Ownership Service
+ * Proves a user controls their Reddit account. The server issues a one-time
+ * code, the user puts it in their profile description or posts it to their
+ * profile, and the check looks for it through the Reddit API.
+ */
+
+import { randomBytes } from "crypto";
+import { getDatabase, withTransaction } from "../db";
+import {
+  describeRedditError,
+  getRedditClient,
+  type RedditClient,
+  type RedditVerificationResult,
+} from "./reddit";
+import type { LinkedUser } from "./users";
+
+export const REDDIT_CODE_TTL_MINUTES = 30;
+export const MAX_REDDIT_CODES_PER_HOUR = 5;
+// Checks against Reddit allowed per code
+export const MAX_REDDIT_CODE_CHECKS = 10;
+// Recent posts on the profile searched for the code
+const SUBMISSIONS_TO_SEARCH = 25;
+
+// 32 characters, so every random byte maps to one without bias; no 0/O or 1/I
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+export class RedditAlreadyVerifiedError extends Error {
+  constructor() {
+    super("Your Reddit account is already verified.");
+    this.name = "RedditAlreadyVerifiedError";
+  }
+}
+
+export class RedditCodeRateLimitError extends Error {
+  constructor(public readonly retryAfterSeconds: number) {
+    super(
+      `You can request at most ${MAX_REDDIT_CODES_PER_HOUR} verification codes per hour.`
+    );
+    this.name = "RedditCodeRateLimitError";
+  }
+}
+
+export interface RedditVerificationCode {
+  code: string;
+  redditUsername: string;
+  expiresAt: Date;
+}
+
+export interface RedditVerificationState {
+  verified: boolean;
+  redditUsername: string;
+  // The code the user can still check, if they have one
+  activeCode: RedditVerificationCode | null;
+}
+
+export type RedditOwnershipResult =
+  | { status: "verified" }
+  | { status: "code_not_found"; attemptsRemaining: number }
+  | { status: "no_active_code" }
+  | { status: "too_many_attempts" }
+  | Extract<RedditVerificationResult, { status: "upstream_error" | "misconfigured" }>;
+
+export function generateRedditVerificationCode(): string {
+  const chars = Array.from(randomBytes(8), (byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length]);
+  return `FDU-${chars.join("")}`;
+}
+
+/**
+ * Issue a fresh code for the user's Reddit account
+ *
+ * Any earlier unused code stops working, so only the newest one is valid.
+ * @throws RedditAlreadyVerifiedError if ownership is already proven
+ * @throws RedditCodeRateLimitError after MAX_REDDIT_CODES_PER_HOUR codes in the last hour
+ */
+export async function issueRedditVerificationCode(
+  user: LinkedUser
+): Promise<RedditVerificationCode> {
+  return withTransaction(async (client) => {
+    // Lock the user so concurrent requests count each other's codes
+    const userResult = await client.query<{ reddit_verified: boolean }>(
+      "SELECT reddit_verified FROM users WHERE id = $1 FOR UPDATE",
+      [user.id]
+    );
+    if (userResult.rows[0]?.reddit_verified) {
+      throw new RedditAlreadyVerifiedError();
+    }
+
+    const recent = await client.query<{ issued: number; retry_after_seconds: number | null }>(
+      `SELECT COUNT(*)::int AS issued,
+              CEIL(EXTRACT(EPOCH FROM MIN(created_at) + INTERVAL '1 hour' - CURRENT_TIMESTAMP))::int
+                AS retry_after_seconds
+       FROM reddit_verification_codes
+       WHERE user_id = $1 AND created_at > CURRENT_TIMESTAMP - INTERVAL '1 hour'`,
+      [user.id]
+    );
+    const { issued, retry_after_seconds } = recent.rows[0];
+    if (issued >= MAX_REDDIT_CODES_PER_HOUR) {
+      throw new RedditCodeRateLimitError(Math.max(retry_after_seconds ?? 0, 1));
+    }
+
+    await client.query(
+      `UPDATE reddit_verification_codes SET expires_at = CURRENT_TIMESTAMP
+       WHERE user_id = $1 AND verified_at IS NULL AND expires_at > CURRENT_TIMESTAMP`,
+      [user.id]
+    );
+
+    const result = await client.query<{ code: string; reddit_username: string; expires_at: Date }>(
+      `INSERT INTO reddit_verification_codes (user_id, reddit_username, code, expires_at)
+       VALUES ($1, $2, $3, CURRENT_TIMESTAMP + make_interval(mins => $4))
+       RETURNING code, reddit_username, expires_at`,
+      [user.id, user.reddit_username, generateRedditVerificationCode(), REDDIT_CODE_TTL_MINUTES]
+    );
+    const row = result.rows[0];
+    return { code: row.code, redditUsername: row.reddit_username, expiresAt: row.expires_at };
+  });
+}
+
+/**
+ * Whether the user has proved they own their Reddit account, and the code they
+ * are proving it with if one is still open
+ */
+export async function getRedditVerificationState(user: LinkedUser): Promise<RedditVerificationState> {
+  const db = getDatabase();
+  const verified = await db.query<{ reddit_verified: boolean }>(
+    "SELECT reddit_verified FROM users WHERE id = $1",
+    [user.id]
+  );
+  if (verified.rows[0]?.reddit_verified) {
+    return { verified: true, redditUsername: user.reddit_username, activeCode: null };
+  }
+
+  const code = await db.query<{ code: string; reddit_username: string; expires_at: Date }>(
+    `SELECT code, reddit_username, expires_at FROM reddit_verification_codes
+     WHERE user_id = $1 AND verified_at IS NULL AND expires_at > CURRENT_TIMESTAMP
+       AND attempts < $2
+     ORDER BY created_at DESC, id DESC
+     LIMIT 1`,
+    [user.id, MAX_REDDIT_CODE_CHECKS]
+  );
+  const row = code.rows[0];
+  return {
+    verified: false,
+    redditUsername: user.reddit_username,
+    activeCode: row
+      ? { code: row.code, redditUsername: row.reddit_username, expiresAt: row.expires_at }
+      : null,
+  };
+}
+
+async function profileContainsCode(
+  reddit: RedditClient,
+  username: string,
+  code: string
+): Promise<boolean> {
+  const contains = (text: string | undefined) =>
+    !!text && text.toUpperCase().includes(code.toUpperCase());
+
+  const about = await reddit.getUser(username);
+  if (!about) {
+    return false;
+  }
+  if (contains(about.subreddit?.public_description)) {
+    return true;
+  }
+
+  const submissions = await reddit.getSubmissions(username, SUBMISSIONS_TO_SEARCH);
+  return submissions.some((post) => contains(post.title) || contains(post.selftext));
+}
+
+/**
+ * Look for the user's current code on their Reddit profile
+ *
+ * Every check counts against the code's MAX_REDDIT_CODE_CHECKS, including
+ * ones Reddit fails to answer. reddit_verified is set once the code is found.
+ * @param reddit - Defaults to the shared client from the environment
+ */
+export async function verifyRedditOwnership(
+  user: LinkedUser,
+  reddit?: RedditClient
+): Promise<RedditOwnershipResult> {
+  const verified = await getDatabase().query<{ reddit_verified: boolean }>(
+    "SELECT reddit_verified FROM users WHERE id = $1",
+    [user.id]
+  );
+  if (verified.rows[0]?.reddit_verified) {
+    return { status: "verified" };
+  }
+
+  // Claim a check before calling Reddit so concurrent requests can't exceed the limit
+  const claim = await withTransaction(async (client) => {
+    const result = await client.query<{
+      id: number;
+      code: string;
+      reddit_username: string;
+      attempts: number;
+    }>(
+      `SELECT id, code, reddit_username, attempts FROM reddit_verification_codes
+       WHERE user_id = $1 AND verified_at IS NULL AND expires_at > CURRENT_TIMESTAMP
+       ORDER BY created_at DESC, id DESC
+       LIMIT 1
+       FOR UPDATE`,
+      [user.id]
+    );
+    const code = result.rows[0];
+    if (!code || code.attempts >= MAX_REDDIT_CODE_CHECKS) {
+      return code ? "exhausted" : null;
+    }
+
+    await client.query(
+      "UPDATE reddit_verification_codes SET attempts = attempts + 1 WHERE id = $1",
+      [code.id]
+    );
+    return { ...code, attempts: code.attempts + 1 };
+  });
+
+  if (!claim) {
+    return { status: "no_active_code" };
+  }
+  if (claim === "exhausted") {
+    return { status: "too_many_attempts" };
+  }
+
+  let found: boolean;
+  try {
+    found = await profileContainsCode(reddit ?? getRedditClient(), claim.reddit_username, claim.code);
+  } catch (error) {
+    console.error(`[REDDIT] Error checking profile of ${claim.reddit_username}:`, error);
+    return describeRedditError(error);
+  }
+  console.log(`[REDDIT] Code for '${claim.reddit_username}' found on profile: ${found ? "YES" : "NO"}`);
+
+  if (!found) {
+    return { status: "code_not_found", attemptsRemaining: MAX_REDDIT_CODE_CHECKS - claim.attempts };
+  }
+
+  await withTransaction(async (client) => {
+    await client.query(
+      "UPDATE reddit_verification_codes SET verified_at = CURRENT_TIMESTAMP WHERE id = $1",
+      [claim.id]
+    );
+    await client.query(
+      "UPDATE users SET reddit_verified = true WHERE id = $1",
+      [user.id]
+    );
+  });
+  return { status: "verified" };
+}
@@ -1,19 +1,43 @@
 /**
  * Reddit API Service
- * Handles Reddit API interactions including OAuth and data fetching
+ * One client for Reddit's OAuth API. The client-credentials token is cached
+ * until shortly before it expires, and 429/5xx responses are retried with
+ * exponential backoff guided by Reddit's x-ratelimit-* headers.
  */
 
-interface RedditPost {
+import { getRedditListingCache, listingCacheKey } from "./reddit-cache";
+
+export interface RedditPost {
   id: string;
   title: string;
+  // Body of a text post; empty for link posts
+  selftext: string;
   author: string;
   score: number;
   subreddit: string;
   url: string;
+  // Path of the comments page, e.g. /r/pics/comments/abc123/title/
+  permalink: string;
+  num_comments: number;
+  // Image URL, or a placeholder such as "self", "default" or "nsfw"
+  thumbnail: string;
+  over_18: boolean;
   created_utc: number;
 }
 
-interface RedditTopResponse {
+export type RedditSort = "hot" | "new" | "top" | "rising";
+export type RedditTimeWindow = "hour" | "day" | "week" | "month" | "year" | "all";
+
+export interface RedditListingOptions {
+  sort: RedditSort;
+  // Only sent for the top sort
+  t?: RedditTimeWindow;
+  limit: number;
+  // Fullname of the last post already seen (`t3_<id>`), for the next page
+  after?: string;
+}
+
+interface RedditListingResponse {
   data: {
     children: Array<{
       data: RedditPost;
@@ -22,99 +46,439 @@ interface RedditTopResponse {
 }
 
 /**
- * Get OAuth access token from Reddit
+ * The `data` of /user/{name}/about; suspended accounts only carry `name`
  */
-async function getRedditAccessToken(): Promise<string> {
-  const clientId = process.env.REDDIT_CLIENT_ID;
-  const clientSecret = process.env.REDDIT_CLIENT_SECRET;
+export interface RedditUserAbout {
+  name: string;
+  created_utc?: number;
+  link_karma?: number;
+  comment_karma?: number;
+  is_suspended?: boolean;
+  // The user's profile; public_description is the bio shown on it
+  subreddit?: {
+    public_description?: string;
+  };
+}
 
-  if (!clientId || !clientSecret) {
-    throw new Error("Reddit API credentials not configured");
+export interface RedditSubmission {
+  id: string;
+  title: string;
+  selftext: string;
+  created_utc: number;
+}
+
+export interface RedditAccount {
+  username: string;
+  createdAt: Date;
+  linkKarma: number;
+  commentKarma: number;
+}
+
+/**
+ * Outcome of checking a Reddit username
+ *
+ * Only `not_found` and `suspended` are the applicant's problem; the other
+ * failures are ours or Reddit's and must not be reported as a bad username.
+ */
+export type RedditVerificationResult =
+  | { status: "verified"; account: RedditAccount }
+  | { status: "not_found" }
+  | { status: "suspended" }
+  | { status: "upstream_error"; message: string; retryAfterMs?: number }
+  | { status: "misconfigured"; message: string };
+
+export class RedditApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = "RedditApiError";
   }
+}
 
-  const response = await fetch("https://www.reddit.com/api/v1/access_token", {
-    method: "POST",
-    headers: {
-      Authorization: `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString("base64")}`,
-      "Content-Type": "application/x-www-form-urlencoded",
-      "User-Agent": "FairDataUse/1.0.0",
-    },
-    body: "grant_type=client_credentials",
-  });
+export class RedditRateLimitError extends RedditApiError {
+  constructor(public readonly retryAfterMs: number) {
+    super("Reddit API rate limit exceeded", 429);
+    this.name = "RedditRateLimitError";
+  }
+}
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Failed to get Reddit OAuth token: ${errorText}`);
+/**
+ * Our credentials are missing or Reddit refused them
+ */
+export class RedditConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RedditConfigError";
   }
+}
+
+export interface RedditClientOptions {
+  clientId: string;
+  clientSecret: string;
+  authUrl?: string;
+  apiUrl?: string;
+  userAgent?: string;
+  // Retries after the first attempt for 429 and 5xx responses
+  maxRetries?: number;
+  // First backoff delay, doubled on every retry
+  baseDelayMs?: number;
+  // Longest we will hold a request waiting for Reddit; beyond it we fail fast
+  maxDelayMs?: number;
+  // Refresh the token this long before Reddit says it expires
+  tokenRefreshMarginMs?: number;
+  timeoutMs?: number;
+}
 
-  const data = await response.json();
-  return data.access_token;
+export interface RedditClient {
+  getAccessToken(): Promise<string>;
+  getListing(subreddit: string, options: RedditListingOptions): Promise<RedditPost[]>;
+  getTop(subreddit: string, limit: number, after?: string): Promise<RedditPost[]>;
+  getUser(username: string): Promise<RedditUserAbout | null>;
+  getSubmissions(username: string, limit: number): Promise<RedditSubmission[]>;
 }
 
+const DEFAULT_AUTH_URL = "https://www.reddit.com";
+const DEFAULT_API_URL = "https://oauth.reddit.com";
+const USER_AGENT = "FairDataUse/1.0.0";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
 /**
- * Get top posts from a Reddit subreddit
- * @param subreddit - The subreddit name (without r/)
- * @param limit - Number of posts to fetch (default: 10)
- * @returns Array of Reddit posts
+ * Create a Reddit client with its own token cache and rate-limit state
  */
-export async function getTop(
-  subreddit: string = "all",
-  limit: number = 10
-): Promise<RedditPost[]> {
-  try {
-    const accessToken = await getRedditAccessToken();
+export function createRedditClient(options: RedditClientOptions): RedditClient {
+  const {
+    clientId,
+    clientSecret,
+    authUrl = DEFAULT_AUTH_URL,
+    apiUrl = DEFAULT_API_URL,
+    userAgent = USER_AGENT,
+    maxRetries = 3,
+    baseDelayMs = 500,
+    maxDelayMs = 10_000,
+    tokenRefreshMarginMs = 60_000,
+    timeoutMs = 10_000,
+  } = options;
+
+  let token: { value: string; expiresAt: number } | null = null;
+  let tokenRequest: Promise<string> | null = null;
+  // Set when Reddit reports the rate-limit window is used up
+  let rateLimitedUntil = 0;
+
+  const send = (url: string, init: RequestInit = {}) =>
+    fetch(url, {
+      ...init,
+      headers: { "User-Agent": userAgent, ...init.headers },
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+
+  function recordRateLimit(response: Response) {
+    const remaining = response.headers.get("x-ratelimit-remaining");
+    const reset = Number(response.headers.get("x-ratelimit-reset"));
+
+    if (!Number.isFinite(reset) || !response.headers.has("x-ratelimit-reset")) return;
+    if (response.status === 429 || (remaining !== null && Number(remaining) < 1)) {
+      rateLimitedUntil = Date.now() + reset * 1000;
+    }
+  }
+
+  async function withRetries(makeRequest: () => Promise<Response>): Promise<Response> {
+    for (let attempt = 0; ; attempt++) {
+      // Don't spend a request Reddit has already told us it will refuse
+      const untilReset = rateLimitedUntil - Date.now();
+      if (untilReset > maxDelayMs) {
+        throw new RedditRateLimitError(untilReset);
+      }
+      if (untilReset > 0) {
+        console.log(`[REDDIT] Rate limit window used up, waiting ${untilReset}ms`);
+        await sleep(untilReset);
+      }
+
+      const response = await makeRequest();
+      recordRateLimit(response);
 
-    const response = await fetch(
-      `https://oauth.reddit.com/r/${subreddit}/top.json?limit=${limit}`,
-      {
+      if (response.status !== 429 && response.status < 500) {
+        return response;
+      }
+      if (attempt >= maxRetries) {
+        if (response.status === 429) {
+          throw new RedditRateLimitError(Math.max(rateLimitedUntil - Date.now(), 0));
+        }
+        return response;
+      }
+
+      const delay = Math.max(
+        Math.min(baseDelayMs * 2 ** attempt, maxDelayMs),
+        rateLimitedUntil - Date.now()
+      );
+      if (delay > maxDelayMs) {
+        throw new RedditRateLimitError(delay);
+      }
+
+      console.log(
+        `[REDDIT] ${response.status} from Reddit, retry ${attempt + 1}/${maxRetries} in ${delay}ms`
+      );
+      await response.text();
+      await sleep(delay);
+    }
+  }
+
+  async function fetchToken(): Promise<string> {
+    console.log("[REDDIT] Requesting OAuth token from Reddit...");
+    const response = await withRetries(() =>
+      send(`${authUrl}/api/v1/access_token`, {
+        method: "POST",
         headers: {
-          Authorization: `Bearer ${accessToken}`,
-          "User-Agent": "FairDataUse/1.0.0",
+          Authorization: `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString("base64")}`,
+          "Content-Type": "application/x-www-form-urlencoded",
         },
-      }
+        body: "grant_type=client_credentials",
+      })
     );
 
-    if (response.status === 429) {
-      throw new Error("Reddit API rate limit exceeded");
+    if (!response.ok) {
+      const errorText = await response.text();
+      const message = `Failed to get Reddit OAuth token: ${response.status} - ${errorText}`;
+      // 401/403 here means Reddit does not accept our client id and secret
+      if (response.status === 401 || response.status === 403) {
+        throw new RedditConfigError(message);
+      }
+      throw new RedditApiError(message, response.status);
     }
 
+    const data = await response.json();
+    token = {
+      value: data.access_token,
+      expiresAt: Date.now() + data.expires_in * 1000 - tokenRefreshMarginMs,
+    };
+    console.log(`[REDDIT] OAuth token cached for ${data.expires_in}s`);
+    return token.value;
+  }
+
+  function getAccessToken(): Promise<string> {
+    if (token && Date.now() < token.expiresAt) {
+      return Promise.resolve(token.value);
+    }
+    // Concurrent callers share one token request
+    tokenRequest ??= fetchToken().finally(() => {
+      tokenRequest = null;
+    });
+    return tokenRequest;
+  }
+
+  async function apiGet(path: string): Promise<Response> {
+    const request = () =>
+      withRetries(async () =>
+        send(`${apiUrl}${path}`, { headers: { Authorization: `Bearer ${await getAccessToken()}` } })
+      );
+
+    const response = await request();
+    if (response.status !== 401) {
+      return response;
+    }
+
+    // Reddit revoked the token early; fetch a fresh one and try once more
+    await response.text();
+    token = null;
+    return request();
+  }
+
+  async function getListing(
+    subreddit: string,
+    { sort, t, limit, after }: RedditListingOptions
+  ): Promise<RedditPost[]> {
+    const query = new URLSearchParams({ limit: String(limit) });
+    if (t && sort === "top") {
+      query.set("t", t);
+    }
+    if (after) {
+      query.set("after", after);
+    }
+    const response = await apiGet(`/r/${encodeURIComponent(subreddit)}/${sort}.json?${query}`);
+
     if (!response.ok) {
       const errorText = await response.text();
-      throw new Error(`Reddit API error: ${response.status} - ${errorText}`);
+      throw new RedditApiError(`Reddit API error: ${response.status} - ${errorText}`, response.status);
     }
 
-    const data: RedditTopResponse = await response.json();
-
+    const data: RedditListingResponse = await response.json();
     return data.data.children.map((child) => child.data);
+  }
+
+  return {
+    getAccessToken,
+    getListing,
+
+    getTop(subreddit, limit, after) {
+      return getListing(subreddit, { sort: "top", limit, after });
+    },
+
+    async getUser(username) {
+      const response = await apiGet(`/user/${encodeURIComponent(username)}/about`);
+
+      if (response.status === 404) {
+        await response.text();
+        return null;
+      }
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new RedditApiError(`Reddit API error: ${response.status} - ${errorText}`, response.status);
+      }
+
+      const body: { data: RedditUserAbout } = await response.json();
+      return body.data;
+    },
+
+    async getSubmissions(username, limit) {
+      const response = await apiGet(
+        `/user/${encodeURIComponent(username)}/submitted?limit=${limit}&sort=new`
+      );
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new RedditApiError(`Reddit API error: ${response.status} - ${errorText}`, response.status);
+      }
+
+      const body: { data: { children: Array<{ data: RedditSubmission }> } } = await response.json();
+      return body.data.children.map((child) => child.data);
+    },
+  };
+}
+
+let sharedClient: { key: string; client: RedditClient } | null = null;
+
+/**
+ * Get the client configured by the REDDIT_* environment variables
+ *
+ * Every caller shares it, so a burst of qualifications uses one cached token
+ * and one view of Reddit's rate limit.
+ * @throws RedditConfigError if REDDIT_CLIENT_ID or REDDIT_CLIENT_SECRET is missing
+ */
+export function getRedditClient(): RedditClient {
+  const clientId = process.env.REDDIT_CLIENT_ID;
+  const clientSecret = process.env.REDDIT_CLIENT_SECRET;
+
+  if (!clientId || !clientSecret) {
+    throw new RedditConfigError("Reddit API credentials not configured");
+  }
+
+  const options: RedditClientOptions = {
+    clientId,
+    clientSecret,
+    authUrl: process.env.REDDIT_AUTH_URL || DEFAULT_AUTH_URL,
+    apiUrl: process.env.REDDIT_API_URL || DEFAULT_API_URL,
+  };
+
+  // Rebuild when the configuration changes so stale credentials are never reused
+  const key = JSON.stringify(options);
+  if (sharedClient?.key !== key) {
+    sharedClient = { key, client: createRedditClient(options) };
+  }
+  return sharedClient.client;
+}
+
+/**
+ * Get a page of a subreddit's posts in the given sort
+ * @param subreddit - The subreddit name (without r/)
+ * @returns Array of Reddit posts, NSFW ones included
+ */
+export async function getListing(
+  subreddit: string,
+  options: RedditListingOptions
+): Promise<RedditPost[]> {
+  try {
+    return await getRedditClient().getListing(subreddit, options);
   } catch (error: any) {
-    if (error.message.includes("rate limit")) {
+    // Callers report these differently from a failed fetch
+    if (error instanceof RedditRateLimitError || error instanceof RedditConfigError) {
       throw error;
     }
-    throw new Error(`Failed to fetch Reddit top posts: ${error.message}`);
+    throw new Error(`Failed to fetch Reddit ${options.sort} posts: ${error.message}`);
   }
 }
 
 /**
- * Verify if a Reddit username exists
+ * Get top posts from a Reddit subreddit
+ * @param subreddit - The subreddit name (without r/)
+ * @param limit - Number of posts to fetch (default: 10)
+ * @param after - Fullname of the last post already seen (`t3_<id>`), for the next page
+ * @returns Array of Reddit posts
+ */
+export async function getTop(
+  subreddit: string = "all",
+  limit: number = 10,
+  after?: string
+): Promise<RedditPost[]> {
+  return getListing(subreddit, { sort: "top", limit, after });
+}
+
+/**
+ * Get a listing through the shared listing cache
+ *
+ * Same arguments and errors as getListing, but repeat requests within the
+ * cache lifetime don't reach Reddit.
  */
-export async function verifyRedditUser(username: string): Promise<boolean> {
+export async function getCachedListing(
+  subreddit: string,
+  options: RedditListingOptions
+): Promise<RedditPost[]> {
+  const key = listingCacheKey({ subreddit, ...options });
+  return getRedditListingCache().get(key, () => getListing(subreddit, options));
+}
+
+/**
+ * Classify a failed Reddit call as our configuration's fault or Reddit's
+ */
+export function describeRedditError(
+  error: any
+): Extract<RedditVerificationResult, { status: "upstream_error" | "misconfigured" }> {
+  if (error instanceof RedditConfigError) {
+    return { status: "misconfigured", message: error.message };
+  }
+  if (error instanceof RedditRateLimitError) {
+    return { status: "upstream_error", message: error.message, retryAfterMs: error.retryAfterMs };
+  }
+  return { status: "upstream_error", message: error.message };
+}
+
+/**
+ * Verify a Reddit username and return the account's metadata
+ *
+ * Never throws; every failure is reported as one of the result statuses.
+ * @param client - Defaults to the shared client from the environment
+ */
+export async function verifyRedditUser(
+  username: string,
+  client?: RedditClient
+): Promise<RedditVerificationResult> {
+  console.log(`[REDDIT] Verifying Reddit account: ${username}`);
+
+  let result: RedditVerificationResult;
   try {
-    const accessToken = await getRedditAccessToken();
+    const user = await (client ?? getRedditClient()).getUser(username);
 
-    const response = await fetch(
-      `https://oauth.reddit.com/user/${username}/about`,
-      {
-        headers: {
-          Authorization: `Bearer ${accessToken}`,
-          "User-Agent": "FairDataUse/1.0.0",
+    if (!user) {
+      result = { status: "not_found" };
+    } else if (user.is_suspended) {
+      result = { status: "suspended" };
+    } else {
+      result = {
+        status: "verified",
+        account: {
+          username: user.name,
+          createdAt: new Date((user.created_utc ?? 0) * 1000),
+          linkKarma: user.link_karma ?? 0,
+          commentKarma: user.comment_karma ?? 0,
         },
-      }
-    );
-
-    return response.ok;
+      };
+    }
   } catch (error) {
-    console.error(`Error verifying Reddit user ${username}:`, error);
-    return false;
+    console.error(`[REDDIT] Error verifying Reddit user ${username}:`, error);
+    result = describeRedditError(error);
   }
-}
 
+  console.log(`[REDDIT] User '${username}' verification result: ${result.status}`);
+  return result;
+}
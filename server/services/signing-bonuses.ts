@@ -0,0 +1,180 @@
+/**
+ * Signing Bonus Service
+ * Each company pays its advertised bonus once per engagement, when the
+ * contractor reaches the company's bonus terms: a number of approved hours or
+ * of submitted daily tasks, or a performance review of enough stars. Progress
+ * is evaluated whenever hours are approved, a task is submitted or the
+ * contractor is rated, and an unlocked bonus is credited to the contractor's
+ * earnings against what the company owes us.
+ */
+
+import type { Pool, PoolClient } from "pg";
+import type { BonusRule, SigningBonusProgress } from "../../shared/schemas";
+import { getDatabase } from "../db";
+import { postLedgerTransaction } from "../earnings";
+
+export const SIGNING_BONUS_CURRENCY = "USD";
+// Ledger platform for bonus credits, alongside the data-access platforms
+export const SIGNING_BONUS_LEDGER_PLATFORM = "bonus";
+
+interface BonusRow {
+  contractor_id: number;
+  user_id: number | null;
+  company_slug: string;
+  company_name: string;
+  bonus_rule: BonusRule;
+  bonus_threshold: number;
+  bonus_cents: number;
+  // Set once the bonus unlocked, with the terms it unlocked under
+  signing_bonus_id: number | null;
+  unlocked_rule: BonusRule | null;
+  unlocked_threshold: number | null;
+  unlocked_amount_cents: number | null;
+  unlocked_at: Date | null;
+}
+
+async function getBonusRow(
+  client: Pool | PoolClient,
+  contractorId: number,
+  userId?: number
+): Promise<BonusRow | undefined> {
+  const result = await client.query<BonusRow>(
+    `SELECT c.id AS contractor_id, c.user_id, c.company_slug, co.name AS company_name,
+            co.bonus_rule, co.bonus_threshold, co.bonus_cents,
+            b.id AS signing_bonus_id, b.rule AS unlocked_rule, b.threshold AS unlocked_threshold,
+            b.amount_cents AS unlocked_amount_cents, b.unlocked_at
+     FROM contractors c
+     JOIN companies co ON co.slug = c.company_slug
+     LEFT JOIN signing_bonuses b ON b.contractor_id = c.id
+     WHERE c.id = $1 AND ($2::int IS NULL OR c.user_id = $2)`,
+    [contractorId, userId ?? null]
+  );
+  return result.rows[0];
+}
+
+/**
+ * How far the engagement is toward a rule: approved hours, floored to two
+ * decimals so the bonus never looks reached before it is, tasks submitted, or
+ * the best rating so far
+ */
+async function getProgress(
+  client: Pool | PoolClient,
+  contractorId: number,
+  rule: BonusRule
+): Promise<number> {
+  if (rule === "approved_hours") {
+    const result = await client.query<{ seconds: number }>(
+      `SELECT COALESCE(SUM(EXTRACT(EPOCH FROM ended_at - started_at)), 0)::int AS seconds
+       FROM time_entries
+       WHERE contractor_id = $1 AND status = 'approved'`,
+      [contractorId]
+    );
+    return Math.floor(result.rows[0].seconds / 36) / 100;
+  }
+
+  if (rule === "review_rating") {
+    const result = await client.query<{ rating: number }>(
+      "SELECT COALESCE(MAX(rating), 0)::int AS rating FROM performance_reviews WHERE contractor_id = $1",
+      [contractorId]
+    );
+    return result.rows[0].rating;
+  }
+
+  const result = await client.query<{ count: number }>(
+    "SELECT COUNT(*)::int AS count FROM task_submissions WHERE contractor_id = $1",
+    [contractorId]
+  );
+  return result.rows[0].count;
+}
+
+function toProgress(row: BonusRow, progress: number): SigningBonusProgress {
+  return {
+    contractorId: row.contractor_id,
+    companySlug: row.company_slug,
+    rule: row.unlocked_rule ?? row.bonus_rule,
+    threshold: row.unlocked_threshold ?? row.bonus_threshold,
+    progress,
+    amountCents: row.unlocked_amount_cents ?? row.bonus_cents,
+    unlockedAt: row.unlocked_at?.toISOString() ?? null,
+  };
+}
+
+/**
+ * The user's progress toward one of their engagements' signing bonus
+ * @returns The progress, or null if the user has no such engagement
+ */
+export async function getSigningBonusProgress(
+  userId: number,
+  contractorId: number
+): Promise<SigningBonusProgress | null> {
+  const db = getDatabase();
+  const row = await getBonusRow(db, contractorId, userId);
+  if (!row) {
+    return null;
+  }
+  return toProgress(row, await getProgress(db, contractorId, row.unlocked_rule ?? row.bonus_rule));
+}
+
+/**
+ * Unlock the engagement's signing bonus if the contractor has reached the company's terms
+ *
+ * Call with the transaction that approved the hours or saved the submission,
+ * so the progress includes them and the credit commits with them. Concurrent
+ * calls race to insert the engagement's one signing_bonuses row; only the
+ * winner credits the ledger.
+ * @returns The bonus if it unlocked just now, otherwise null
+ */
+export async function evaluateSigningBonus(
+  client: PoolClient,
+  contractorId: number,
+  now: Date = new Date()
+): Promise<SigningBonusProgress | null> {
+  const row = await getBonusRow(client, contractorId);
+  if (!row || row.signing_bonus_id !== null || row.bonus_cents === 0 || row.user_id === null) {
+    return null;
+  }
+
+  const progress = await getProgress(client, contractorId, row.bonus_rule);
+  if (progress < row.bonus_threshold) {
+    return null;
+  }
+
+  const inserted = await client.query<{ id: number; unlocked_at: Date }>(
+    `INSERT INTO signing_bonuses (contractor_id, company_slug, rule, threshold, amount_cents, unlocked_at)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     ON CONFLICT (contractor_id) DO NOTHING
+     RETURNING id, unlocked_at`,
+    [contractorId, row.company_slug, row.bonus_rule, row.bonus_threshold, row.bonus_cents, now]
+  );
+  const bonus = inserted.rows[0];
+  if (!bonus) {
+    return null;
+  }
+
+  await postLedgerTransaction(client, {
+    userId: row.user_id,
+    platform: SIGNING_BONUS_LEDGER_PLATFORM,
+    currency: SIGNING_BONUS_CURRENCY,
+    description: `Signing bonus from ${row.company_name}`,
+    signingBonusId: bonus.id,
+    legs: [
+      { account: "user_earnings", amountCents: row.bonus_cents },
+      { account: "company_receivable", amountCents: -row.bonus_cents },
+    ],
+  });
+
+  console.log(
+    `[BONUS] Contractor ${contractorId} unlocked ${row.bonus_cents} cents from ${row.company_slug}`
+  );
+  return toProgress(
+    {
+      ...row,
+      signing_bonus_id: bonus.id,
+      unlocked_rule: row.bonus_rule,
+      unlocked_threshold: row.bonus_threshold,
+      unlocked_amount_cents: row.bonus_cents,
+      unlocked_at: bonus.unlocked_at,
+    },
+    progress
+  );
+}
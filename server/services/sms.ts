@@ -0,0 +1,122 @@
+/**
+ * SMS Service
+ * Opt-out keywords and per-user delivery records for text notifications
+ */
+
+import type { Pool, PoolClient } from "pg";
+import type { InboundSmsAction } from "../../shared/schemas";
+import { getDatabase } from "../db";
+import { normalizePhone, type SmsProvider } from "../outbox/sms";
+
+// The standard carrier keywords; matched against the whole message
+export const SMS_OPT_OUT_KEYWORDS = ["STOP", "STOPALL", "UNSUBSCRIBE", "CANCEL", "END", "QUIT"];
+export const SMS_OPT_IN_KEYWORDS = ["START", "UNSTOP", "YES"];
+
+export type SmsDeliveryStatus = "sent" | "failed" | "opted_out";
+
+/**
+ * Digits a stored phone number may have for a sender, with and without the US country code
+ */
+function phoneDigitVariants(phone: string): string[] {
+  const digits = phone.replace(/\D/g, "");
+  return digits.length === 11 && digits.startsWith("1") ? [digits, digits.slice(1)] : [digits];
+}
+
+// Phones are stored as users typed them, so compare digits only
+const PHONE_MATCHES = "regexp_replace(phone, '[^0-9]', '', 'g') = ANY($1)";
+
+/**
+ * Apply a text someone sent us
+ *
+ * A STOP-style keyword opts every user with the sender's number out of texts;
+ * a START-style keyword opts them back in. Anything else is ignored.
+ * @returns What was done and how many users it changed
+ */
+export async function applyInboundSms(
+  from: string,
+  body: string
+): Promise<{ action: InboundSmsAction; userCount: number }> {
+  const keyword = body.trim().toUpperCase();
+  const variants = phoneDigitVariants(from);
+  const db = getDatabase();
+
+  if (SMS_OPT_OUT_KEYWORDS.includes(keyword)) {
+    const result = await db.query(
+      `INSERT INTO sms_opt_outs (user_id, keyword)
+       SELECT id, $2 FROM users WHERE ${PHONE_MATCHES}
+       ON CONFLICT (user_id) DO UPDATE SET keyword = EXCLUDED.keyword, created_at = CURRENT_TIMESTAMP`,
+      [variants, keyword]
+    );
+    console.log(`[SMS] ${keyword} from ${from}: opted out ${result.rowCount} user(s)`);
+    return { action: "opted_out", userCount: result.rowCount ?? 0 };
+  }
+
+  if (SMS_OPT_IN_KEYWORDS.includes(keyword)) {
+    const result = await db.query(
+      `DELETE FROM sms_opt_outs WHERE user_id IN (SELECT id FROM users WHERE ${PHONE_MATCHES})`,
+      [variants]
+    );
+    console.log(`[SMS] ${keyword} from ${from}: opted in ${result.rowCount} user(s)`);
+    return { action: "opted_in", userCount: result.rowCount ?? 0 };
+  }
+
+  return { action: "ignored", userCount: 0 };
+}
+
+/**
+ * Check whether a user has opted out of texts
+ */
+export async function isSmsOptedOut(client: Pool | PoolClient, userId: number): Promise<boolean> {
+  const result = await client.query("SELECT 1 FROM sms_opt_outs WHERE user_id = $1", [userId]);
+  return result.rows.length > 0;
+}
+
+/**
+ * Text a user unless they have opted out, recording the attempt in sms_deliveries
+ * @returns "sent", or "opted_out" if nothing was sent
+ * @throws Error from the provider, after recording the failed attempt
+ */
+export async function deliverSms(
+  client: Pool | PoolClient,
+  provider: SmsProvider,
+  message: {
+    userId: number;
+    phone: string;
+    template: string;
+    body: string;
+    outboxMessageId?: number;
+  }
+): Promise<Exclude<SmsDeliveryStatus, "failed">> {
+  const record = (status: SmsDeliveryStatus, providerMessageId: string | null, error: string | null) =>
+    client.query(
+      `INSERT INTO sms_deliveries
+         (user_id, outbox_message_id, phone, template, body, status, provider, provider_message_id, error)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+      [
+        message.userId,
+        message.outboxMessageId ?? null,
+        message.phone,
+        message.template,
+        message.body,
+        status,
+        provider.name,
+        providerMessageId,
+        error,
+      ]
+    );
+
+  if (await isSmsOptedOut(client, message.userId)) {
+    console.log(`[SMS] User ${message.userId} has opted out, not sending ${message.template}`);
+    await record("opted_out", null, null);
+    return "opted_out";
+  }
+
+  try {
+    const { id } = await provider.send({ to: normalizePhone(message.phone), body: message.body });
+    await record("sent", id, null);
+    return "sent";
+  } catch (error: any) {
+    await record("failed", null, error.message);
+    throw error;
+  }
+}
@@ -0,0 +1,374 @@
+/**
+ * Daily Task Service
+ * Companies assign daily tasks to their contractors; contractors submit their
+ * work on each one with links and file attachments. Only contractors whose
+ * request has can_start_job may submit.
+ */
+
+import type { Pool, PoolClient } from "pg";
+import type {
+  CompanyDailyTask,
+  ContractorStatus,
+  ContractorTaskSubmission,
+  DailyTask,
+  DailyTaskInput,
+  DashboardTask,
+  Engagement,
+  TaskAttachmentSummary,
+  TaskSubmissionInput,
+  TaskSubmissionSummary,
+} from "../../shared/schemas";
+import { getDatabase, withTransaction } from "../db";
+import { utcDate } from "../earnings";
+import { evaluateSigningBonus } from "./signing-bonuses";
+
+// Requests that make a contractor part of the company's team, shown on the dashboard
+const ENGAGEMENT_STATUSES: readonly ContractorStatus[] = ["accepted", "active", "suspended"];
+
+// How many days of tasks the dashboard shows, today included
+export const DASHBOARD_TASK_DAYS = 14;
+
+export class TaskNotFoundError extends Error {
+  constructor(public readonly taskId: number) {
+    super(`Task ${taskId} not found`);
+    this.name = "TaskNotFoundError";
+  }
+}
+
+export class TaskSubmissionNotAllowedError extends Error {
+  constructor(public readonly status: ContractorStatus) {
+    super(`You can't submit tasks while your request is ${status}.`);
+    this.name = "TaskSubmissionNotAllowedError";
+  }
+}
+
+export class TaskAlreadySubmittedError extends Error {
+  constructor(public readonly taskId: number) {
+    super("You have already submitted this task.");
+    this.name = "TaskAlreadySubmittedError";
+  }
+}
+
+interface TaskRow {
+  id: number;
+  company_slug: string;
+  title: string;
+  description: string;
+  task_date: string;
+  created_at: Date;
+}
+
+interface SubmissionRow {
+  id: number;
+  task_id: number;
+  body: string;
+  links: string[];
+  created_at: Date;
+}
+
+const TASK_COLUMNS =
+  "t.id, t.company_slug, t.title, t.description, to_char(t.task_date, 'YYYY-MM-DD') AS task_date, t.created_at";
+
+function toTask(row: TaskRow): DailyTask {
+  return {
+    id: row.id,
+    companySlug: row.company_slug,
+    title: row.title,
+    description: row.description,
+    taskDate: row.task_date,
+    createdAt: row.created_at.toISOString(),
+  };
+}
+
+function toSubmission(
+  row: SubmissionRow,
+  attachments: TaskAttachmentSummary[]
+): TaskSubmissionSummary {
+  return {
+    id: row.id,
+    taskId: row.task_id,
+    body: row.body,
+    links: row.links,
+    attachments,
+    createdAt: row.created_at.toISOString(),
+  };
+}
+
+// Attachment metadata for each submission, without the file contents
+async function getAttachmentsBySubmission(
+  client: Pool | PoolClient,
+  submissionIds: number[]
+): Promise<Map<number, TaskAttachmentSummary[]>> {
+  const bySubmission = new Map<number, TaskAttachmentSummary[]>();
+  if (submissionIds.length === 0) {
+    return bySubmission;
+  }
+
+  const result = await client.query<{
+    id: number;
+    submission_id: number;
+    filename: string;
+    content_type: string;
+    size_bytes: number;
+  }>(
+    `SELECT id, submission_id, filename, content_type, size_bytes
+     FROM task_submission_attachments
+     WHERE submission_id = ANY($1)
+     ORDER BY id`,
+    [submissionIds]
+  );
+  for (const row of result.rows) {
+    const attachments = bySubmission.get(row.submission_id) ?? [];
+    attachments.push({
+      id: row.id,
+      filename: row.filename,
+      contentType: row.content_type,
+      sizeBytes: row.size_bytes,
+    });
+    bySubmission.set(row.submission_id, attachments);
+  }
+  return bySubmission;
+}
+
+/**
+ * Assign a task to every contractor of a company
+ * @param input.taskDate - YYYY-MM-DD, defaults to today in UTC
+ */
+export async function createDailyTask(params: {
+  companySlug: string;
+  createdBy: number;
+  input: DailyTaskInput;
+}): Promise<DailyTask> {
+  const { companySlug, createdBy, input } = params;
+  const result = await getDatabase().query<TaskRow>(
+    `WITH t AS (
+       INSERT INTO tasks (company_slug, title, description, task_date, created_by)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING *
+     )
+     SELECT ${TASK_COLUMNS} FROM t`,
+    [companySlug, input.title, input.description, input.taskDate ?? utcDate(), createdBy]
+  );
+  return toTask(result.rows[0]);
+}
+
+/**
+ * List a company's tasks, newest first, with how many contractors submitted each
+ */
+export async function listCompanyDailyTasks(companySlug: string): Promise<CompanyDailyTask[]> {
+  const result = await getDatabase().query<TaskRow & { submission_count: number }>(
+    `SELECT ${TASK_COLUMNS}, COUNT(s.id)::int AS submission_count
+     FROM tasks t
+     LEFT JOIN task_submissions s ON s.task_id = t.id
+     WHERE t.company_slug = $1
+     GROUP BY t.id
+     ORDER BY t.task_date DESC, t.id DESC`,
+    [companySlug]
+  );
+  return result.rows.map((row) => ({ ...toTask(row), submissionCount: row.submission_count }));
+}
+
+/**
+ * List the submissions for one of a company's tasks, oldest first
+ * @returns The submissions, or null if the company has no such task
+ */
+export async function listTaskSubmissions(
+  companySlug: string,
+  taskId: number
+): Promise<ContractorTaskSubmission[] | null> {
+  const db = getDatabase();
+  const task = await db.query("SELECT 1 FROM tasks WHERE id = $1 AND company_slug = $2", [
+    taskId,
+    companySlug,
+  ]);
+  if (task.rows.length === 0) {
+    return null;
+  }
+
+  const result = await db.query<SubmissionRow & { contractor_id: number; email: string }>(
+    `SELECT s.id, s.task_id, s.body, s.links, s.created_at, s.contractor_id, c.email
+     FROM task_submissions s
+     JOIN contractors c ON c.id = s.contractor_id
+     WHERE s.task_id = $1
+     ORDER BY s.created_at, s.id`,
+    [taskId]
+  );
+  const attachments = await getAttachmentsBySubmission(
+    db,
+    result.rows.map((row) => row.id)
+  );
+  return result.rows.map((row) => ({
+    ...toSubmission(row, attachments.get(row.id) ?? []),
+    contractorId: row.contractor_id,
+    email: row.email,
+  }));
+}
+
+/**
+ * Get an attachment's file, if it belongs to a submission for one of the company's tasks
+ */
+export async function getTaskAttachment(
+  companySlug: string,
+  attachmentId: number
+): Promise<{ filename: string; contentType: string; data: Buffer } | null> {
+  const result = await getDatabase().query<{
+    filename: string;
+    content_type: string;
+    data: Buffer;
+  }>(
+    `SELECT a.filename, a.content_type, a.data
+     FROM task_submission_attachments a
+     JOIN task_submissions s ON s.id = a.submission_id
+     JOIN tasks t ON t.id = s.task_id
+     WHERE a.id = $1 AND t.company_slug = $2`,
+    [attachmentId, companySlug]
+  );
+  const row = result.rows[0];
+  return row ? { filename: row.filename, contentType: row.content_type, data: row.data } : null;
+}
+
+/**
+ * The signed-in contractor's dashboard: each company they work with and its
+ * recent tasks, with what they submitted for each
+ */
+export async function getContractorDashboard(
+  userId: number,
+  today: string = utcDate()
+): Promise<Engagement[]> {
+  const db = getDatabase();
+
+  const contractors = await db.query<{
+    id: number;
+    company_slug: string;
+    company_name: string;
+    status: ContractorStatus;
+    can_start_job: boolean;
+    hourly_rate_cents: number | null;
+  }>(
+    `SELECT id, company_slug, company_name, status, can_start_job, hourly_rate_cents
+     FROM contractors
+     WHERE user_id = $1 AND status = ANY($2)
+     ORDER BY created_at DESC, id DESC`,
+    [userId, ENGAGEMENT_STATUSES]
+  );
+  if (contractors.rows.length === 0) {
+    return [];
+  }
+
+  const tasks = await db.query<TaskRow>(
+    `SELECT ${TASK_COLUMNS}
+     FROM tasks t
+     WHERE t.company_slug = ANY($1)
+       AND t.task_date <= $2 AND t.task_date > $2::date - $3::int
+     ORDER BY t.task_date DESC, t.id DESC`,
+    [contractors.rows.map((row) => row.company_slug), today, DASHBOARD_TASK_DAYS]
+  );
+  const submissions = await db.query<SubmissionRow & { contractor_id: number }>(
+    `SELECT id, task_id, body, links, created_at, contractor_id
+     FROM task_submissions
+     WHERE contractor_id = ANY($1) AND task_id = ANY($2)`,
+    [contractors.rows.map((row) => row.id), tasks.rows.map((row) => row.id)]
+  );
+  const attachments = await getAttachmentsBySubmission(
+    db,
+    submissions.rows.map((row) => row.id)
+  );
+
+  return contractors.rows.map((contractor) => ({
+    contractorId: contractor.id,
+    companySlug: contractor.company_slug,
+    companyName: contractor.company_name,
+    status: contractor.status,
+    canStartJob: contractor.can_start_job,
+    hourlyRateCents: contractor.hourly_rate_cents,
+    tasks: tasks.rows
+      .filter((task) => task.company_slug === contractor.company_slug)
+      .map((task): DashboardTask => {
+        const submission = submissions.rows.find(
+          (row) => row.task_id === task.id && row.contractor_id === contractor.id
+        );
+        return {
+          ...toTask(task),
+          submission: submission ? toSubmission(submission, attachments.get(submission.id) ?? []) : null,
+        };
+      }),
+  }));
+}
+
+/**
+ * Submit a contractor's work on a task
+ *
+ * The contractor's request for the task's company is locked while the
+ * submission is saved, so a suspension can't race it. A submission may
+ * unlock the engagement's signing bonus.
+ * @throws TaskNotFoundError if the task is not one of the user's companies' tasks for today or earlier
+ * @throws TaskSubmissionNotAllowedError unless the request has can_start_job
+ * @throws TaskAlreadySubmittedError if the contractor already submitted this task
+ */
+export async function submitTask(params: {
+  userId: number;
+  taskId: number;
+  submission: TaskSubmissionInput;
+  today?: string;
+}): Promise<TaskSubmissionSummary> {
+  const { userId, taskId, submission, today = utcDate() } = params;
+
+  return withTransaction(async (client) => {
+    // Prefer the request that may start work if the user has more than one
+    const contractor = await client.query<{
+      id: number;
+      status: ContractorStatus;
+      can_start_job: boolean;
+    }>(
+      `SELECT c.id, c.status, c.can_start_job
+       FROM tasks t
+       JOIN contractors c ON c.company_slug = t.company_slug
+       WHERE t.id = $1 AND t.task_date <= $2 AND c.user_id = $3 AND c.status = ANY($4)
+       ORDER BY c.can_start_job DESC, c.id DESC
+       LIMIT 1
+       FOR SHARE OF c`,
+      [taskId, today, userId, ENGAGEMENT_STATUSES]
+    );
+    const row = contractor.rows[0];
+    if (!row) {
+      throw new TaskNotFoundError(taskId);
+    }
+    if (!row.can_start_job) {
+      throw new TaskSubmissionNotAllowedError(row.status);
+    }
+
+    const inserted = await client.query<SubmissionRow>(
+      `INSERT INTO task_submissions (task_id, contractor_id, body, links)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (task_id, contractor_id) DO NOTHING
+       RETURNING id, task_id, body, links, created_at`,
+      [taskId, row.id, submission.body, JSON.stringify(submission.links)]
+    );
+    if (inserted.rows.length === 0) {
+      throw new TaskAlreadySubmittedError(taskId);
+    }
+
+    const submissionId = inserted.rows[0].id;
+    const attachments: TaskAttachmentSummary[] = [];
+    for (const file of submission.attachments) {
+      const data = Buffer.from(file.data, "base64");
+      const contentType = file.contentType || "application/octet-stream";
+      const result = await client.query<{ id: number }>(
+        `INSERT INTO task_submission_attachments (submission_id, filename, content_type, size_bytes, data)
+         VALUES ($1, $2, $3, $4, $5)
+         RETURNING id`,
+        [submissionId, file.filename, contentType, data.length, data]
+      );
+      attachments.push({
+        id: result.rows[0].id,
+        filename: file.filename,
+        contentType,
+        sizeBytes: data.length,
+      });
+    }
+
+    await evaluateSigningBonus(client, row.id);
+
+    return toSubmission(inserted.rows[0], attachments);
+  });
+}
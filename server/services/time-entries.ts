@@ -0,0 +1,503 @@
+/**
+ * Time Entry Service
+ * Contractors log hours against an engagement with a start/stop timer or by
+ * hand. The company approves or disputes each entry; approving credits the
+ * contractor's earnings at the rate snapshotted when the request was accepted.
+ * Timesheets run Monday to Sunday in UTC.
+ */
+
+import type { PoolClient } from "pg";
+import {
+  TIME_ENTRY_MAX_HOURS,
+  type CompanyTimeEntry,
+  type ContractorStatus,
+  type ManualTimeEntry,
+  type TimeEntry,
+  type TimeEntryReview,
+  type TimeEntryStatus,
+  type TimesheetTotals,
+} from "../../shared/schemas";
+import { getDatabase, withTransaction } from "../db";
+import { postLedgerTransaction, utcDate } from "../earnings";
+import { csvField } from "../payouts";
+import { evaluateSigningBonus } from "./signing-bonuses";
+
+// Company rates are in USD (see companies.hourly_rate_cents)
+export const HOURLY_CURRENCY = "USD";
+// ledger_entries.platform for approved hours
+export const HOURLY_LEDGER_PLATFORM = "hourly";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class EngagementNotFoundError extends Error {
+  constructor(public readonly contractorId: number) {
+    super(`Engagement ${contractorId} not found`);
+    this.name = "EngagementNotFoundError";
+  }
+}
+
+export class TimeTrackingNotAllowedError extends Error {
+  constructor(public readonly status: ContractorStatus) {
+    super(`You can't log hours while your request is ${status}.`);
+    this.name = "TimeTrackingNotAllowedError";
+  }
+}
+
+// The entry is valid on its own but clashes with what is already recorded
+export class TimeEntryConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TimeEntryConflictError";
+  }
+}
+
+// Hours are paid at the rate snapshotted on acceptance, so without one there is nothing to pay them at
+export class MissingHourlyRateError extends Error {
+  constructor(public readonly contractorId: number) {
+    super("This engagement has no agreed hourly rate yet, so hours can't be logged. Please contact the company.");
+    this.name = "MissingHourlyRateError";
+  }
+}
+
+export class InvalidTimeEntryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidTimeEntryError";
+  }
+}
+
+export interface Timesheet {
+  week: string;
+  entries: CompanyTimeEntry[];
+  totals: TimesheetTotals;
+}
+
+interface TimeEntryRow {
+  id: number;
+  contractor_id: number;
+  email: string;
+  started_at: Date;
+  ended_at: Date | null;
+  description: string;
+  source: "timer" | "manual";
+  status: TimeEntryStatus;
+  dispute_reason: string | null;
+  rate_cents: number;
+  amount_cents: number | null;
+  reviewed_at: Date | null;
+}
+
+const ENTRY_COLUMNS = `
+  te.id, te.contractor_id, c.email, te.started_at, te.ended_at, te.description, te.source,
+  te.status, te.dispute_reason, te.rate_cents, te.amount_cents, te.reviewed_at
+`;
+
+function durationSeconds(row: { started_at: Date; ended_at: Date | null }): number | null {
+  return row.ended_at
+    ? Math.round((row.ended_at.getTime() - row.started_at.getTime()) / 1000)
+    : null;
+}
+
+/**
+ * What `seconds` of work earn at `rateCents` an hour, to the nearest cent
+ */
+export function hourlyAmountCents(seconds: number, rateCents: number): number {
+  return Math.round((seconds * rateCents) / 3600);
+}
+
+function toCompanyTimeEntry(row: TimeEntryRow): CompanyTimeEntry {
+  const seconds = durationSeconds(row);
+  return {
+    id: row.id,
+    contractorId: row.contractor_id,
+    email: row.email,
+    startedAt: row.started_at.toISOString(),
+    endedAt: row.ended_at?.toISOString() ?? null,
+    durationSeconds: seconds,
+    description: row.description,
+    source: row.source,
+    status: row.status,
+    disputeReason: row.dispute_reason,
+    rateCents: row.rate_cents,
+    amountCents: row.amount_cents ?? (seconds === null ? null : hourlyAmountCents(seconds, row.rate_cents)),
+    reviewedAt: row.reviewed_at?.toISOString() ?? null,
+  };
+}
+
+/**
+ * An entry as the contractor sees it, without their email
+ */
+export function toContractorTimeEntry(entry: CompanyTimeEntry): TimeEntry {
+  const { email: _email, ...rest } = entry;
+  return rest;
+}
+
+function toTimeEntry(row: TimeEntryRow): TimeEntry {
+  return toContractorTimeEntry(toCompanyTimeEntry(row));
+}
+
+/**
+ * The Monday-to-Sunday week a timesheet covers
+ * @param week - The Monday as YYYY-MM-DD; defaults to the week containing `now`
+ */
+export function timesheetWeek(
+  week?: string,
+  now: Date = new Date()
+): { week: string; start: Date; end: Date } {
+  let start: Date;
+  if (week) {
+    start = new Date(`${week}T00:00:00Z`);
+  } else {
+    const today = new Date(`${utcDate(now)}T00:00:00Z`);
+    // getUTCDay is 0 on Sunday; step back to Monday
+    start = new Date(today.getTime() - ((today.getUTCDay() + 6) % 7) * DAY_MS);
+  }
+  return { week: utcDate(start), start, end: new Date(start.getTime() + 7 * DAY_MS) };
+}
+
+async function getEntry(client: PoolClient, entryId: number): Promise<TimeEntryRow> {
+  const result = await client.query<TimeEntryRow>(
+    `SELECT ${ENTRY_COLUMNS}
+     FROM time_entries te
+     JOIN contractors c ON c.id = te.contractor_id
+     WHERE te.id = $1`,
+    [entryId]
+  );
+  return result.rows[0];
+}
+
+/**
+ * Lock one of the user's engagements so their entries are written one at a time
+ * @param requireCanStartJob - Refuse requests that can't start work; stopping a timer doesn't need it
+ * @throws EngagementNotFoundError or TimeTrackingNotAllowedError
+ */
+async function lockEngagement(
+  client: PoolClient,
+  userId: number,
+  contractorId: number,
+  requireCanStartJob = true
+): Promise<{ hourly_rate_cents: number | null }> {
+  const result = await client.query<{
+    status: ContractorStatus;
+    can_start_job: boolean;
+    hourly_rate_cents: number | null;
+  }>(
+    `SELECT status, can_start_job, hourly_rate_cents
+     FROM contractors
+     WHERE id = $1 AND user_id = $2
+     FOR UPDATE`,
+    [contractorId, userId]
+  );
+  const engagement = result.rows[0];
+  if (!engagement) {
+    throw new EngagementNotFoundError(contractorId);
+  }
+  if (requireCanStartJob && !engagement.can_start_job) {
+    throw new TimeTrackingNotAllowedError(engagement.status);
+  }
+  return engagement;
+}
+
+/**
+ * The hourly rate snapshotted when the engagement was accepted
+ *
+ * Only requests that never went through acceptance lack one; support has to set it by hand.
+ * @throws MissingHourlyRateError
+ */
+function agreedRateCents(contractorId: number, engagement: { hourly_rate_cents: number | null }): number {
+  if (engagement.hourly_rate_cents === null) {
+    console.warn(`[TIME] Engagement ${contractorId} can start work but has no hourly rate snapshot`);
+    throw new MissingHourlyRateError(contractorId);
+  }
+  return engagement.hourly_rate_cents;
+}
+
+/**
+ * Refuse hours that overlap the engagement's other entries
+ *
+ * A running timer counts as running until `now`; a null `endedAt` is a timer about to start.
+ * @throws TimeEntryConflictError
+ */
+async function assertNoOverlap(
+  client: PoolClient,
+  contractorId: number,
+  startedAt: Date,
+  endedAt: Date | null,
+  now: Date
+): Promise<void> {
+  const overlapping = await client.query(
+    `SELECT 1 FROM time_entries
+     WHERE contractor_id = $1 AND ($3::timestamp IS NULL OR started_at < $3)
+       AND COALESCE(ended_at, $4) > $2`,
+    [contractorId, startedAt, endedAt, now]
+  );
+  if (overlapping.rows.length > 0) {
+    throw new TimeEntryConflictError("These hours overlap time you already logged.");
+  }
+}
+
+/**
+ * Start a timer on one of the user's engagements
+ * @throws EngagementNotFoundError, TimeTrackingNotAllowedError, MissingHourlyRateError,
+ *   or TimeEntryConflictError if a timer is already running or hours are logged past `now`
+ */
+export async function startTimer(params: {
+  userId: number;
+  contractorId: number;
+  description: string;
+  now?: Date;
+}): Promise<TimeEntry> {
+  const { userId, contractorId, description, now = new Date() } = params;
+
+  return withTransaction(async (client) => {
+    const rateCents = agreedRateCents(contractorId, await lockEngagement(client, userId, contractorId));
+
+    const running = await client.query(
+      "SELECT 1 FROM time_entries WHERE contractor_id = $1 AND ended_at IS NULL",
+      [contractorId]
+    );
+    if (running.rows.length > 0) {
+      throw new TimeEntryConflictError("A timer is already running. Stop it first.");
+    }
+    await assertNoOverlap(client, contractorId, now, null, now);
+
+    const inserted = await client.query<{ id: number }>(
+      `INSERT INTO time_entries (contractor_id, started_at, description, source, rate_cents)
+       VALUES ($1, $2, $3, 'timer', $4)
+       RETURNING id`,
+      [contractorId, now, description, rateCents]
+    );
+    return toTimeEntry(await getEntry(client, inserted.rows[0].id));
+  });
+}
+
+/**
+ * Stop the running timer on one of the user's engagements
+ *
+ * Allowed after the request stops being able to start work, so no timer is left running.
+ * A timer left running for more than TIME_ENTRY_MAX_HOURS is stopped at that length.
+ * @throws EngagementNotFoundError, or TimeEntryConflictError if no timer is running
+ */
+export async function stopTimer(params: {
+  userId: number;
+  contractorId: number;
+  now?: Date;
+}): Promise<TimeEntry> {
+  const { userId, contractorId, now = new Date() } = params;
+
+  return withTransaction(async (client) => {
+    await lockEngagement(client, userId, contractorId, false);
+
+    const stopped = await client.query<{ id: number }>(
+      `UPDATE time_entries SET ended_at = LEAST($2, started_at + make_interval(hours => $3))
+       WHERE contractor_id = $1 AND ended_at IS NULL AND started_at < $2
+       RETURNING id`,
+      [contractorId, now, TIME_ENTRY_MAX_HOURS]
+    );
+    if (stopped.rows.length === 0) {
+      throw new TimeEntryConflictError("No timer is running.");
+    }
+    return toTimeEntry(await getEntry(client, stopped.rows[0].id));
+  });
+}
+
+/**
+ * Log hours by hand on one of the user's engagements
+ * @throws EngagementNotFoundError, TimeTrackingNotAllowedError, MissingHourlyRateError,
+ *   InvalidTimeEntryError if the entry ends in the future,
+ *   or TimeEntryConflictError if it overlaps hours already logged
+ */
+export async function addManualTimeEntry(params: {
+  userId: number;
+  contractorId: number;
+  entry: ManualTimeEntry;
+  now?: Date;
+}): Promise<TimeEntry> {
+  const { userId, contractorId, entry, now = new Date() } = params;
+  const startedAt = new Date(entry.startedAt);
+  const endedAt = new Date(entry.endedAt);
+  if (endedAt > now) {
+    throw new InvalidTimeEntryError("Entries can't end in the future. Use the timer instead.");
+  }
+
+  return withTransaction(async (client) => {
+    const rateCents = agreedRateCents(contractorId, await lockEngagement(client, userId, contractorId));
+
+    await assertNoOverlap(client, contractorId, startedAt, endedAt, now);
+
+    const inserted = await client.query<{ id: number }>(
+      `INSERT INTO time_entries (contractor_id, started_at, ended_at, description, source, rate_cents)
+       VALUES ($1, $2, $3, $4, 'manual', $5)
+       RETURNING id`,
+      [contractorId, startedAt, endedAt, entry.description, rateCents]
+    );
+    return toTimeEntry(await getEntry(client, inserted.rows[0].id));
+  });
+}
+
+async function queryTimesheet(
+  filter: { contractorId: number } | { companySlug: string },
+  week: ReturnType<typeof timesheetWeek>,
+  status?: TimeEntryStatus
+): Promise<Timesheet> {
+  const [column, value] =
+    "contractorId" in filter ? ["c.id", filter.contractorId] : ["c.company_slug", filter.companySlug];
+
+  const result = await getDatabase().query<TimeEntryRow>(
+    `SELECT ${ENTRY_COLUMNS}
+     FROM time_entries te
+     JOIN contractors c ON c.id = te.contractor_id
+     WHERE ${column} = $1 AND te.started_at >= $2 AND te.started_at < $3
+       AND ($4::varchar IS NULL OR te.status = $4)
+     ORDER BY te.started_at, te.id`,
+    [value, week.start, week.end, status ?? null]
+  );
+
+  const entries = result.rows.map(toCompanyTimeEntry);
+  const totals: TimesheetTotals = { seconds: 0, approvedSeconds: 0, approvedAmountCents: 0 };
+  for (const entry of entries) {
+    totals.seconds += entry.durationSeconds ?? 0;
+    if (entry.status === "approved") {
+      totals.approvedSeconds += entry.durationSeconds ?? 0;
+      totals.approvedAmountCents += entry.amountCents ?? 0;
+    }
+  }
+  return { week: week.week, entries, totals };
+}
+
+/**
+ * The user's hours on one of their engagements for a week
+ * @returns The timesheet, or null if the user has no such engagement
+ */
+export async function getEngagementTimesheet(
+  userId: number,
+  contractorId: number,
+  week?: string
+): Promise<Timesheet | null> {
+  const owned = await getDatabase().query(
+    "SELECT 1 FROM contractors WHERE id = $1 AND user_id = $2",
+    [contractorId, userId]
+  );
+  if (owned.rows.length === 0) {
+    return null;
+  }
+  return queryTimesheet({ contractorId }, timesheetWeek(week));
+}
+
+/**
+ * Every contractor's hours for a company for a week, optionally in one status
+ */
+export async function getCompanyTimesheet(
+  companySlug: string,
+  week?: string,
+  status?: TimeEntryStatus
+): Promise<Timesheet> {
+  return queryTimesheet({ companySlug }, timesheetWeek(week), status);
+}
+
+/**
+ * A timesheet as CSV, one row per entry; hours and amounts have two decimals
+ */
+export function timesheetCsv(timesheet: Timesheet): string {
+  const rows = timesheet.entries.map((entry) =>
+    [
+      entry.startedAt.slice(0, 10),
+      entry.email,
+      entry.startedAt,
+      entry.endedAt ?? "",
+      entry.durationSeconds === null ? "" : (entry.durationSeconds / 3600).toFixed(2),
+      entry.status,
+      (entry.rateCents / 100).toFixed(2),
+      entry.amountCents === null ? "" : (entry.amountCents / 100).toFixed(2),
+      HOURLY_CURRENCY,
+      entry.description,
+    ]
+      .map(csvField)
+      .join(",")
+  );
+  const header = "date,email,started_at,ended_at,hours,status,rate,amount,currency,description";
+  return [header, ...rows].join("\r\n") + "\r\n";
+}
+
+/**
+ * Approve or dispute one of a company's time entries
+ *
+ * Pending entries can be approved or disputed, and disputed ones approved
+ * later. Approving credits the contractor's earnings in the same transaction,
+ * along with their signing bonus if the hours reach the company's terms.
+ * @returns The reviewed entry, or null if the company has no such entry
+ * @throws TimeEntryConflictError if the timer is still running or the entry was already decided
+ */
+export async function reviewTimeEntry(params: {
+  companySlug: string;
+  entryId: number;
+  actorAdminId: number;
+  review: TimeEntryReview;
+  now?: Date;
+}): Promise<CompanyTimeEntry | null> {
+  const { companySlug, entryId, actorAdminId, review, now = new Date() } = params;
+
+  return withTransaction(async (client) => {
+    const result = await client.query<
+      TimeEntryRow & { user_id: number | null; company_name: string }
+    >(
+      `SELECT ${ENTRY_COLUMNS}, c.user_id, c.company_name
+       FROM time_entries te
+       JOIN contractors c ON c.id = te.contractor_id
+       WHERE te.id = $1 AND c.company_slug = $2
+       FOR UPDATE OF te`,
+      [entryId, companySlug]
+    );
+    const entry = result.rows[0];
+    if (!entry) {
+      return null;
+    }
+
+    const seconds = durationSeconds(entry);
+    if (seconds === null) {
+      throw new TimeEntryConflictError("This entry's timer is still running.");
+    }
+    const to: TimeEntryStatus = review.decision === "approve" ? "approved" : "disputed";
+    if (entry.status === "approved" || entry.status === to) {
+      throw new TimeEntryConflictError(`This entry is already ${entry.status}.`);
+    }
+
+    if (to === "disputed") {
+      await client.query(
+        `UPDATE time_entries
+         SET status = 'disputed', dispute_reason = $2, reviewed_by = $3, reviewed_at = $4
+         WHERE id = $1`,
+        [entryId, review.reason, actorAdminId, now]
+      );
+      return toCompanyTimeEntry(await getEntry(client, entryId));
+    }
+
+    const amountCents = hourlyAmountCents(seconds, entry.rate_cents);
+    await client.query(
+      `UPDATE time_entries
+       SET status = 'approved', dispute_reason = NULL, amount_cents = $2, reviewed_by = $3, reviewed_at = $4
+       WHERE id = $1`,
+      [entryId, amountCents, actorAdminId, now]
+    );
+
+    // The ledger has no zero-amount entries, and requests without a user have nobody to pay
+    if (amountCents > 0 && entry.user_id !== null) {
+      await postLedgerTransaction(client, {
+        userId: entry.user_id,
+        platform: HOURLY_LEDGER_PLATFORM,
+        currency: HOURLY_CURRENCY,
+        description: `${(seconds / 3600).toFixed(2)} h for ${entry.company_name} on ${utcDate(entry.started_at)}`,
+        timeEntryId: entryId,
+        legs: [
+          { account: "user_earnings", amountCents },
+          { account: "company_receivable", amountCents: -amountCents },
+        ],
+      });
+    }
+
+    await evaluateSigningBonus(client, entry.contractor_id, now);
+
+    console.log(`[TIME] Entry ${entryId} approved by admin ${actorAdminId}: ${amountCents} cents`);
+    return toCompanyTimeEntry(await getEntry(client, entryId));
+  });
+}
@@ -0,0 +1,87 @@
+/**
+ * User Identity Service
+ * Resolves the users row that belongs to an authenticated Supabase identity
+ */
+
+import { getDatabase, withTransaction } from "../db";
+import type { AuthenticatedUser } from "../middleware/auth";
+
+export interface LinkedUser {
+  id: number;
+  email: string;
+  phone: string;
+  reddit_username: string;
+  supabase_user_id: string;
+}
+
+const LINKED_USER_COLUMNS = "id, email, phone, reddit_username, supabase_user_id";
+
+// PostgreSQL error code raised by idx_users_supabase_user_id
+const UNIQUE_VIOLATION = "23505";
+
+/**
+ * Find the users row linked to a Supabase identity, linking it on first use
+ *
+ * The first authenticated request links the most recent unlinked qualification
+ * record with the same email. Every later request resolves through
+ * supabase_user_id only, so duplicate emails can never match the wrong row.
+ * @returns The linked user, or null if the identity has no qualification record
+ */
+export async function resolveLinkedUser(
+  authUser: AuthenticatedUser
+): Promise<LinkedUser | null> {
+  const linked = await findUserBySupabaseId(authUser.id);
+  if (linked) {
+    return linked;
+  }
+
+  if (!authUser.email) {
+    return null;
+  }
+
+  try {
+    return await linkUserByEmail(authUser);
+  } catch (error: any) {
+    // A concurrent request linked this identity first
+    if (error.code === UNIQUE_VIOLATION) {
+      return findUserBySupabaseId(authUser.id);
+    }
+    throw error;
+  }
+}
+
+async function findUserBySupabaseId(supabaseUserId: string): Promise<LinkedUser | null> {
+  const result = await getDatabase().query<LinkedUser>(
+    `SELECT ${LINKED_USER_COLUMNS} FROM users WHERE supabase_user_id = $1`,
+    [supabaseUserId]
+  );
+  return result.rows[0] ?? null;
+}
+
+async function linkUserByEmail(authUser: AuthenticatedUser): Promise<LinkedUser | null> {
+  return withTransaction(async (client) => {
+    const candidate = await client.query<{ id: number }>(
+      `SELECT id FROM users
+       WHERE LOWER(email) = LOWER($1) AND supabase_user_id IS NULL
+       ORDER BY created_at DESC, id DESC
+       LIMIT 1
+       FOR UPDATE`,
+      [authUser.email]
+    );
+
+    if (candidate.rows.length === 0) {
+      return null;
+    }
+
+    console.log(
+      `[USERS] Linking user ${candidate.rows[0].id} to Supabase identity ${authUser.id}`
+    );
+    const result = await client.query<LinkedUser>(
+      `UPDATE users SET supabase_user_id = $1
+       WHERE id = $2
+       RETURNING ${LINKED_USER_COLUMNS}`,
+      [authUser.id, candidate.rows[0].id]
+    );
+    return result.rows[0];
+  });
+}
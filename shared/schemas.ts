@@ -10,10 +10,85 @@ export const UserSchema = z.object({
   youtube_username: z.string().optional(),
   facebook_username: z.string().optional(),
   reddit_verified: z.boolean().default(false),
+  twitter_verified: z.boolean().default(false),
+  youtube_verified: z.boolean().default(false),
+  facebook_verified: z.boolean().default(false),
+  supabase_user_id: z.string().uuid().optional(), // Linked Supabase auth identity
   created_at: z.date().optional(), // Will be set by database
   updated_at: z.date().optional(), // Will be set by database
 });
 
+// Contractor request lifecycle. Only the transitions below are allowed;
+// the server rejects anything else with InvalidContractorTransitionError.
+export const CONTRACTOR_STATUSES = [
+  "pending",
+  "accepted",
+  "rejected",
+  "withdrawn",
+  "active",
+  "suspended",
+  "completed",
+] as const;
+
+export const ContractorStatusSchema = z.enum(CONTRACTOR_STATUSES);
+
+export type ContractorStatus = z.infer<typeof ContractorStatusSchema>;
+
+// Who may make a transition: the company's admins or the contractor themselves
+export type ContractorActor = "company" | "contractor";
+
+export interface ContractorTransition {
+  from: ContractorStatus;
+  to: ContractorStatus;
+  actor: ContractorActor;
+  label: string; // Button text for the action
+}
+
+export const CONTRACTOR_TRANSITIONS: readonly ContractorTransition[] = [
+  { from: "pending", to: "accepted", actor: "company", label: "Accept" },
+  { from: "pending", to: "rejected", actor: "company", label: "Reject" },
+  { from: "pending", to: "withdrawn", actor: "contractor", label: "Withdraw" },
+  { from: "accepted", to: "active", actor: "company", label: "Start work" },
+  { from: "active", to: "suspended", actor: "company", label: "Suspend" },
+  { from: "active", to: "completed", actor: "company", label: "Mark completed" },
+  { from: "suspended", to: "active", actor: "company", label: "Reinstate" },
+  { from: "suspended", to: "completed", actor: "company", label: "Mark completed" },
+];
+
+// A request in one of these states is still open, so the contractor can't
+// request the same company again until it is rejected, withdrawn or completed
+export const LIVE_CONTRACTOR_STATUSES: readonly ContractorStatus[] = [
+  "pending",
+  "accepted",
+  "active",
+  "suspended",
+];
+
+// Moving into these states must say why
+export const CONTRACTOR_STATUSES_REQUIRING_REASON: readonly ContractorStatus[] = [
+  "rejected",
+  "suspended",
+];
+
+/**
+ * List the transitions available from a status, optionally only those one actor may make
+ */
+export function getAllowedTransitions(
+  from: ContractorStatus,
+  actor?: ContractorActor,
+): ContractorTransition[] {
+  return CONTRACTOR_TRANSITIONS.filter(
+    (transition) => transition.from === from && (!actor || transition.actor === actor),
+  );
+}
+
+/**
+ * Contractors may start work while accepted or active
+ */
+export function canStartJobInStatus(status: ContractorStatus): boolean {
+  return status === "accepted" || status === "active";
+}
+
 // Contractor request schema for PostgreSQL
 export const ContractorSchema = z.object({
   id: z.number().optional(), // Auto-increment primary key
@@ -21,7 +96,7 @@ export const ContractorSchema = z.object({
   email: z.string().email(),
   company_slug: z.string(),
   company_name: z.string(),
-  status: z.enum(["pending", "accepted", "rejected"]).default("pending"),
+  status: ContractorStatusSchema.default("pending"),
   joined_slack: z.boolean().default(false),
   can_start_job: z.boolean().default(false),
   created_at: z.date().optional(), // Will be set by database
@@ -38,10 +113,253 @@ export const SocialQualifyFormSchema = z.object({
   facebookUsername: z.string().optional(),
 });
 
+// The requesting user is taken from the Supabase access token, not the body
 export const ContractorRequestSchema = z.object({
-  email: z.string().email(),
   companySlug: z.string().min(1, "Company slug is required"),
-  companyName: z.string().min(1, "Company name is required"),
+  // Display only; the server uses the catalog's name for the company
+  companyName: z.string().optional(),
+});
+
+// Company admin decision on a pending contractor request
+export const ContractorReviewSchema = z
+  .object({
+    decision: z.enum(["accept", "reject"], {
+      errorMap: () => ({ message: "Decision must be 'accept' or 'reject'" }),
+    }),
+    reason: z.string().trim().max(1000, "Reason must be 1000 characters or fewer").optional(),
+  })
+  .refine((review) => review.decision === "accept" || !!review.reason, {
+    message: "A reason is required when rejecting a request",
+    path: ["reason"],
+  });
+
+// Company admin move of a contractor request to any allowed status
+export const ContractorStatusChangeSchema = z
+  .object({
+    status: ContractorStatusSchema,
+    reason: z.string().trim().max(1000, "Reason must be 1000 characters or fewer").optional(),
+  })
+  .refine(
+    (change) => !CONTRACTOR_STATUSES_REQUIRING_REASON.includes(change.status) || !!change.reason,
+    { message: "A reason is required for this status change", path: ["reason"] },
+  );
+
+// Marketplace listing query (rates are USD per hour, matching Company.hourlyRate)
+export const COMPANY_SORTS = [
+  "featured",
+  "rate_desc",
+  "rate_asc",
+  "bonus_desc",
+  "hires_desc",
+  "name_asc",
+] as const;
+
+export const CompanyListQuerySchema = z
+  .object({
+    q: z.string().trim().max(100, "Search must be 100 characters or fewer").optional(),
+    category: z.string().trim().optional(),
+    minRate: z.coerce.number().min(0, "Minimum rate cannot be negative").optional(),
+    maxRate: z.coerce.number().min(0, "Maximum rate cannot be negative").optional(),
+    sort: z.enum(COMPANY_SORTS).default("featured"),
+    cursor: z.string().optional(),
+    limit: z.coerce.number().int().min(1).max(100).default(50),
+  })
+  .refine(
+    (query) =>
+      query.minRate === undefined ||
+      query.maxRate === undefined ||
+      query.minRate <= query.maxRate,
+    { message: "Minimum rate cannot be greater than maximum rate", path: ["minRate"] },
+  );
+
+// Reddit listing sorts, and the windows Reddit accepts as `t` for the top sort
+export const POST_SORTS = ["hot", "new", "top", "rising"] as const;
+export const POST_TIME_WINDOWS = ["hour", "day", "week", "month", "year", "all"] as const;
+
+// GET /api/posts; `after` is the Reddit fullname returned with the previous page
+export const PostsQuerySchema = z.object({
+  subreddit: z
+    .string()
+    .trim()
+    .regex(/^[A-Za-z0-9_]{2,21}$/, "Subreddit must be 2-21 letters, numbers or underscores")
+    .default("all"),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+  after: z
+    .string()
+    .regex(/^t3_[a-z0-9]+$/, "Invalid cursor. Please start again from the first page.")
+    .optional(),
+  sort: z.enum(POST_SORTS).default("top"),
+  // Only used by the top sort; Reddit picks its own default without it
+  t: z.enum(POST_TIME_WINDOWS).optional(),
+  // NSFW posts are left out unless over_18=true
+  over_18: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((value) => value === "true"),
+});
+
+// GET /api/me/earnings; how many of the most recent ledger entries to return
+export const EarningsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+// Company admin assigning a daily task to the company's contractors
+export const DailyTaskSchema = z.object({
+  title: z
+    .string()
+    .trim()
+    .min(1, "Title is required")
+    .max(200, "Title must be 200 characters or fewer"),
+  description: z.string().trim().max(5000, "Description must be 5000 characters or fewer").default(""),
+  // Defaults to today (UTC) on the server
+  taskDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Task date must be YYYY-MM-DD")
+    .refine((date) => !Number.isNaN(Date.parse(date)), "Task date must be a real date")
+    .optional(),
+});
+
+// Attachments are sent base64-encoded in the JSON body, which the server caps at 10 MB
+export const TASK_ATTACHMENT_MAX_FILES = 5;
+export const TASK_ATTACHMENT_MAX_BYTES = 5 * 1024 * 1024; // Decoded, across all files
+
+/**
+ * Decoded size of a base64 string
+ */
+export function base64ByteLength(data: string): number {
+  const padding = data.endsWith("==") ? 2 : data.endsWith("=") ? 1 : 0;
+  return Math.floor((data.length * 3) / 4) - padding;
+}
+
+export const TaskAttachmentSchema = z.object({
+  filename: z
+    .string()
+    .trim()
+    .min(1, "Attachment filename is required")
+    .max(255, "Attachment filename must be 255 characters or fewer"),
+  contentType: z.string().trim().max(255).optional(),
+  data: z.string().regex(/^[A-Za-z0-9+/]*={0,2}$/, "Attachment data must be base64"),
+});
+
+// Contractor's work on a task: what they did, links to it and any files
+export const TaskSubmissionSchema = z.object({
+  body: z
+    .string()
+    .trim()
+    .min(1, "Describe the work you did")
+    .max(10000, "Description must be 10000 characters or fewer"),
+  links: z
+    .array(z.string().trim().url("Links must be full URLs, e.g. https://example.com"))
+    .max(20, "Add at most 20 links")
+    .default([]),
+  attachments: z
+    .array(TaskAttachmentSchema)
+    .max(TASK_ATTACHMENT_MAX_FILES, `Attach at most ${TASK_ATTACHMENT_MAX_FILES} files`)
+    .default([])
+    .refine(
+      (files) =>
+        files.reduce((sum, file) => sum + base64ByteLength(file.data), 0) <= TASK_ATTACHMENT_MAX_BYTES,
+      `Attachments must be ${TASK_ATTACHMENT_MAX_BYTES / 1024 / 1024} MB or less in total`,
+    ),
+});
+
+// Hours logged against an engagement. Running timers are pending with no end.
+export const TIME_ENTRY_STATUSES = ["pending", "approved", "disputed"] as const;
+export const TIME_ENTRY_MAX_HOURS = 24;
+
+const isoDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD")
+  .refine((date) => !Number.isNaN(Date.parse(date)), "Dates must be real dates");
+
+export const StartTimerSchema = z.object({
+  description: z.string().trim().max(1000, "Description must be 1000 characters or fewer").default(""),
+});
+
+export const ManualTimeEntrySchema = z
+  .object({
+    startedAt: z.string().datetime({ offset: true, message: "Start must be an ISO 8601 date and time" }),
+    endedAt: z.string().datetime({ offset: true, message: "End must be an ISO 8601 date and time" }),
+    description: z.string().trim().max(1000, "Description must be 1000 characters or fewer").default(""),
+  })
+  .refine((entry) => Date.parse(entry.endedAt) > Date.parse(entry.startedAt), {
+    message: "End must be after the start",
+    path: ["endedAt"],
+  })
+  .refine(
+    (entry) =>
+      Date.parse(entry.endedAt) - Date.parse(entry.startedAt) <= TIME_ENTRY_MAX_HOURS * 60 * 60 * 1000,
+    { message: `An entry can be at most ${TIME_ENTRY_MAX_HOURS} hours`, path: ["endedAt"] },
+  );
+
+// Company admin decision on a logged entry
+export const TimeEntryReviewSchema = z
+  .object({
+    decision: z.enum(["approve", "dispute"], {
+      errorMap: () => ({ message: "Decision must be 'approve' or 'dispute'" }),
+    }),
+    reason: z.string().trim().max(1000, "Reason must be 1000 characters or fewer").optional(),
+  })
+  .refine((review) => review.decision === "approve" || !!review.reason, {
+    message: "A reason is required when disputing an entry",
+    path: ["reason"],
+  });
+
+// Timesheets run Monday to Sunday in UTC; `week` is the Monday, defaulting to this week
+export const TimesheetQuerySchema = z.object({
+  week: isoDate
+    .refine((date) => new Date(`${date}T00:00:00Z`).getUTCDay() === 1, "Week must start on a Monday")
+    .optional(),
+  status: z.enum(TIME_ENTRY_STATUSES).optional(),
+});
+
+// What a contractor must reach for a company's signing bonus to unlock
+export const BONUS_RULES = ["approved_hours", "submitted_tasks", "review_rating"] as const;
+
+// A company's rating of a contractor who works for it
+export const PERFORMANCE_REVIEW_MIN_RATING = 1;
+export const PERFORMANCE_REVIEW_MAX_RATING = 5;
+// A rating this high from any company opens the whole marketplace to the contractor
+export const MULTI_COMPANY_MIN_RATING = 4;
+
+export const PerformanceReviewSchema = z.object({
+  rating: z
+    .number({ invalid_type_error: "Rating must be a number" })
+    .int("Rating must be a whole number of stars")
+    .min(PERFORMANCE_REVIEW_MIN_RATING, "Rating must be between 1 and 5 stars")
+    .max(PERFORMANCE_REVIEW_MAX_RATING, "Rating must be between 1 and 5 stars"),
+  comment: z.string().trim().max(2000, "Comment must be 2000 characters or fewer").default(""),
+});
+
+// A contractor's review of a company they completed an engagement with, on the same scale
+export const CompanyReviewSchema = z.object({
+  rating: z
+    .number({ invalid_type_error: "Rating must be a number" })
+    .int("Rating must be a whole number of stars")
+    .min(PERFORMANCE_REVIEW_MIN_RATING, "Rating must be between 1 and 5 stars")
+    .max(PERFORMANCE_REVIEW_MAX_RATING, "Rating must be between 1 and 5 stars"),
+  comment: z.string().trim().max(2000, "Comment must be 2000 characters or fewer").default(""),
+});
+
+// GET /api/companies/:slug/reviews; `cursor` is the nextCursor of the previous page
+export const CompanyReviewsQuerySchema = z.object({
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(10),
+});
+
+// Reporting a company review as abusive
+export const CompanyReviewFlagSchema = z.object({
+  reason: z
+    .string({ required_error: "Please say what is wrong with this review" })
+    .trim()
+    .min(1, "Please say what is wrong with this review")
+    .max(500, "Reason must be 500 characters or fewer"),
+});
+
+// Inbound text webhook, using the SMS provider's (Twilio's) field names
+export const InboundSmsSchema = z.object({
+  From: z.string().min(1, "Sender number is required"),
+  Body: z.string().default(""),
 });
 
 // TypeScript types
@@ -49,12 +367,57 @@ export type User = z.infer<typeof UserSchema>;
 export type Contractor = z.infer<typeof ContractorSchema>;
 export type SocialQualifyForm = z.infer<typeof SocialQualifyFormSchema>;
 export type ContractorRequest = z.infer<typeof ContractorRequestSchema>;
+export type ContractorReview = z.infer<typeof ContractorReviewSchema>;
+export type ContractorStatusChange = z.infer<typeof ContractorStatusChangeSchema>;
+export type CompanySort = (typeof COMPANY_SORTS)[number];
+export type CompanyListQuery = z.infer<typeof CompanyListQuerySchema>;
+export type InboundSms = z.infer<typeof InboundSmsSchema>;
+export type PostSort = (typeof POST_SORTS)[number];
+export type PostTimeWindow = (typeof POST_TIME_WINDOWS)[number];
+export type PostsQuery = z.infer<typeof PostsQuerySchema>;
+export type EarningsQuery = z.infer<typeof EarningsQuerySchema>;
+export type DailyTaskInput = z.infer<typeof DailyTaskSchema>;
+export type TaskAttachmentInput = z.infer<typeof TaskAttachmentSchema>;
+export type TaskSubmissionInput = z.infer<typeof TaskSubmissionSchema>;
+export type TimeEntryStatus = (typeof TIME_ENTRY_STATUSES)[number];
+export type StartTimer = z.infer<typeof StartTimerSchema>;
+export type ManualTimeEntry = z.infer<typeof ManualTimeEntrySchema>;
+export type TimeEntryReview = z.infer<typeof TimeEntryReviewSchema>;
+export type TimesheetQuery = z.infer<typeof TimesheetQuerySchema>;
+export type BonusRule = (typeof BONUS_RULES)[number];
+export type PerformanceReviewInput = z.infer<typeof PerformanceReviewSchema>;
+export type CompanyReviewInput = z.infer<typeof CompanyReviewSchema>;
+export type CompanyReviewsQuery = z.infer<typeof CompanyReviewsQuerySchema>;
+export type CompanyReviewFlag = z.infer<typeof CompanyReviewFlagSchema>;
+
+// Why a Reddit account did not meet the qualification policy
+export type RedditIneligibilityCode =
+  | "suspended"
+  | "account_too_new"
+  | "insufficient_karma";
+
+export interface RedditEligibilityPolicy {
+  minAccountAgeDays: number;
+  minKarma: number;
+}
+
+// Stored on users.reddit_eligibility when the user qualifies
+export interface RedditEligibility {
+  eligible: boolean;
+  reasons: Array<{ code: RedditIneligibilityCode; message: string }>;
+  accountCreatedAt: string | null;
+  accountAgeDays: number | null;
+  karma: number | null;
+  policy: RedditEligibilityPolicy;
+  checkedAt: string;
+}
 
 // API Response types
 export interface SocialQualifyResponse {
   success: boolean;
   message: string;
   redirect?: string;
+  eligibility?: RedditEligibility;
   data?: {
     matchedCompany: {
       name: string;
@@ -70,6 +433,405 @@ export interface ContractorRequestResponse {
   message: string;
 }
 
+// Company catalog (amounts are USD for display; the database stores cents)
+export interface CompanyTask {
+  title: string;
+  description: string;
+}
+
+export interface Company {
+  slug: string;
+  name: string;
+  acronym: string;
+  description: string;
+  websiteUrl: string | null;
+  category: string;
+  hourlyRate: number;
+  bonus: number;
+  bonusRule: BonusRule;
+  bonusThreshold: number; // Hours, tasks or stars, depending on the rule
+  hiresCount: number;
+  rating: number | null; // Average of the visible contractor reviews, to one decimal; null until reviewed
+  reviewCount: number;
+  gradient: string;
+  isAvailable: boolean; // Open to the viewer: open to everyone, or unlocked by a 4+ star review
+  tasks: CompanyTask[];
+}
+
+export interface CompaniesResponse {
+  success: boolean;
+  companies?: Company[];
+  categories?: string[]; // Every category in the catalog, ignoring filters
+  nextCursor?: string | null; // Pass back as ?cursor= for the next page
+  message?: string;
+}
+
+export interface CompanyResponse {
+  success: boolean;
+  company?: Company;
+  message?: string;
+}
+
+// Company admin review queue
+export interface ContractorRequestSummary {
+  id: number;
+  userId: number;
+  email: string;
+  redditUsername: string;
+  companySlug: string;
+  status: ContractorStatus;
+  canStartJob: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ContractorStatusEvent {
+  id: number;
+  fromStatus: ContractorStatus;
+  toStatus: ContractorStatus;
+  canStartJob: boolean;
+  reason: string | null;
+  actorEmail: string | null;
+  createdAt: string;
+}
+
+export interface ContractorRequestsResponse {
+  success: boolean;
+  requests?: ContractorRequestSummary[];
+  message?: string;
+}
+
+export interface ContractorReviewResponse {
+  success: boolean;
+  message: string;
+  request?: ContractorRequestSummary;
+}
+
+export interface ContractorHistoryResponse {
+  success: boolean;
+  history?: ContractorStatusEvent[];
+  message?: string;
+}
+
+// The signed-in contractor's own requests
+export interface MyContractorRequest {
+  id: number;
+  companySlug: string;
+  companyName: string;
+  status: ContractorStatus;
+  canStartJob: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MyContractorRequestsResponse {
+  success: boolean;
+  requests?: MyContractorRequest[];
+  message?: string;
+}
+
+export interface WithdrawContractorRequestResponse {
+  success: boolean;
+  message: string;
+  request?: MyContractorRequest;
+}
+
+export type InboundSmsAction = "opted_out" | "opted_in" | "ignored";
+
+export interface InboundSmsResponse {
+  success: boolean;
+  message: string;
+  action?: InboundSmsAction;
+}
+
+export interface RedditVerificationCodeResponse {
+  success: boolean;
+  message: string;
+  code?: string;
+  redditUsername?: string;
+  expiresAt?: string;
+}
+
+export interface RedditVerificationStatusResponse {
+  success: boolean;
+  message?: string;
+  verified?: boolean;
+  redditUsername?: string;
+  // The open code and when it expires, while the account is unverified
+  code?: string;
+  expiresAt?: string;
+}
+
+export type RedditOwnershipStatus =
+  | "verified"
+  | "code_not_found"
+  | "no_active_code"
+  | "too_many_attempts"
+  | "upstream_error"
+  | "misconfigured";
+
+export interface RedditOwnershipResponse {
+  success: boolean;
+  message: string;
+  status?: RedditOwnershipStatus;
+  attemptsRemaining?: number;
+}
+
+export interface Post {
+  id: string;
+  title: string;
+  content: string;
+  author: string;
+  createdAt: string;
+  subreddit: string;
+  score: number;
+  url: string;
+  permalink: string; // Absolute URL of the Reddit comments page
+  numComments: number;
+  thumbnail: string | null; // Only set when Reddit has an image for the post
+  over18: boolean;
+}
+
+export interface PostsResponse {
+  success: boolean;
+  posts?: Post[];
+  after?: string | null; // Pass back as ?after= for the next page
+  message?: string;
+}
+
+// The signed-in user's earnings; amounts are integer cents in `currency` (ISO 4217)
+export interface EarningsBalance {
+  currency: string;
+  amountCents: number;
+}
+
+export interface PlatformEarnings extends EarningsBalance {
+  platform: string;
+}
+
+export interface EarningsEntry {
+  id: number;
+  platform: string;
+  amountCents: number;
+  currency: string;
+  description: string;
+  accessDate: string | null; // YYYY-MM-DD for data-access earnings
+  createdAt: string;
+}
+
+export interface EarningsResponse {
+  success: boolean;
+  balances?: EarningsBalance[];
+  platforms?: PlatformEarnings[];
+  history?: EarningsEntry[]; // Newest first
+  message?: string;
+}
+
+// Daily tasks and submissions
+export interface DailyTask {
+  id: number;
+  companySlug: string;
+  title: string;
+  description: string;
+  taskDate: string; // YYYY-MM-DD
+  createdAt: string;
+}
+
+export interface TaskAttachmentSummary {
+  id: number;
+  filename: string;
+  contentType: string;
+  sizeBytes: number;
+}
+
+export interface TaskSubmissionSummary {
+  id: number;
+  taskId: number;
+  body: string;
+  links: string[];
+  attachments: TaskAttachmentSummary[];
+  createdAt: string;
+}
+
+// A company's task as its admins see it
+export interface CompanyDailyTask extends DailyTask {
+  submissionCount: number;
+}
+
+// A submission as the company's admins see it
+export interface ContractorTaskSubmission extends TaskSubmissionSummary {
+  contractorId: number;
+  email: string;
+}
+
+export interface DashboardTask extends DailyTask {
+  submission: TaskSubmissionSummary | null; // The signed-in contractor's own
+}
+
+// One company the signed-in contractor works with
+export interface Engagement {
+  contractorId: number;
+  companySlug: string;
+  companyName: string;
+  status: ContractorStatus;
+  canStartJob: boolean;
+  hourlyRateCents: number | null; // USD, snapshotted when the request was accepted
+  tasks: DashboardTask[]; // Newest first
+}
+
+export interface DashboardResponse {
+  success: boolean;
+  engagements?: Engagement[];
+  message?: string;
+}
+
+export interface TaskSubmissionResponse {
+  success: boolean;
+  message: string;
+  submission?: TaskSubmissionSummary;
+}
+
+export interface CompanyDailyTasksResponse {
+  success: boolean;
+  tasks?: CompanyDailyTask[];
+  message?: string;
+}
+
+export interface CreateDailyTaskResponse {
+  success: boolean;
+  message: string;
+  task?: DailyTask;
+}
+
+export interface TaskSubmissionsResponse {
+  success: boolean;
+  submissions?: ContractorTaskSubmission[];
+  message?: string;
+}
+
+// Logged hours; amounts are USD cents
+export interface TimeEntry {
+  id: number;
+  contractorId: number;
+  startedAt: string;
+  endedAt: string | null; // null while the timer runs
+  durationSeconds: number | null;
+  description: string;
+  source: "timer" | "manual";
+  status: TimeEntryStatus;
+  disputeReason: string | null;
+  rateCents: number;
+  amountCents: number | null; // What the entry earns once approved; null while running
+  reviewedAt: string | null;
+}
+
+// An entry as the company's admins see it
+export interface CompanyTimeEntry extends TimeEntry {
+  email: string;
+}
+
+export interface TimesheetTotals {
+  seconds: number;
+  approvedSeconds: number;
+  approvedAmountCents: number;
+}
+
+export interface TimeEntriesResponse {
+  success: boolean;
+  week?: string; // The Monday the entries are for
+  entries?: TimeEntry[]; // Oldest first
+  totals?: TimesheetTotals;
+  message?: string;
+}
+
+export interface CompanyTimeEntriesResponse {
+  success: boolean;
+  week?: string;
+  entries?: CompanyTimeEntry[];
+  totals?: TimesheetTotals;
+  message?: string;
+}
+
+export interface TimeEntryResponse {
+  success: boolean;
+  message: string;
+  entry?: TimeEntry;
+}
+
+// The signed-in contractor's progress toward one engagement's signing bonus
+export interface SigningBonusProgress {
+  contractorId: number;
+  companySlug: string;
+  rule: BonusRule;
+  threshold: number;
+  progress: number; // Approved hours to two decimals, tasks submitted, or best rating
+  amountCents: number; // USD
+  unlockedAt: string | null;
+}
+
+export interface SigningBonusResponse {
+  success: boolean;
+  bonus?: SigningBonusProgress;
+  message?: string;
+}
+
+export interface PerformanceReview {
+  id: number;
+  contractorId: number;
+  companySlug: string;
+  companyName: string;
+  rating: number; // 1 to 5 stars
+  comment: string;
+  createdAt: string;
+}
+
+export interface PerformanceReviewResponse {
+  success: boolean;
+  message: string;
+  review?: PerformanceReview;
+}
+
+export interface PerformanceReviewsResponse {
+  success: boolean;
+  reviews?: PerformanceReview[]; // Newest first
+  message?: string;
+}
+
+// The signed-in contractor's reviews and whether they unlock the marketplace
+export interface MyPerformanceReviewsResponse {
+  success: boolean;
+  reviews?: PerformanceReview[]; // Newest first
+  multiCompanyUnlocked?: boolean;
+  message?: string;
+}
+
+// A contractor's public review of a company; reviewers are not named
+export interface CompanyReview {
+  id: number;
+  companySlug: string;
+  rating: number; // 1 to 5 stars
+  comment: string;
+  createdAt: string;
+}
+
+export interface CompanyReviewResponse {
+  success: boolean;
+  message: string;
+  review?: CompanyReview;
+}
+
+export interface CompanyReviewsResponse {
+  success: boolean;
+  reviews?: CompanyReview[]; // Newest first, hidden reviews left out
+  nextCursor?: string | null; // Pass back as ?cursor= for the next page
+  message?: string;
+}
+
+export interface CompanyReviewFlagResponse {
+  success: boolean;
+  message: string;
+}
+
 export interface CheckUserExistsResponse {
   success: boolean;
   userExists: boolean;
@@ -1,7 +1,8 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import request from 'supertest';
 import { createServer } from '../server/index';
 import { getTestDatabase } from './setup-backend';
+import { authHeader } from './utils/auth';
 
 describe('POST /api/contractor-request', () => {
   const app = createServer();
@@ -18,11 +19,12 @@ describe('POST /api/contractor-request', () => {
   };
 
   const validContractorRequest = {
-    email: 'contractor-test@example.com',
     companySlug: 'silicon-valley-consulting',
     companyName: 'Silicon Valley Consulting'
   };
 
+  const testUserAuth = authHeader({ email: testUser.email });
+
   beforeEach(async () => {
     // Clean up any existing test data
     await db.query('DELETE FROM contractors WHERE email LIKE $1', ['%test%']);
@@ -47,6 +49,7 @@ describe('POST /api/contractor-request', () => {
     it('should successfully create a contractor request for existing user', async () => {
       const response = await request(app)
         .post('/api/contractor-request')
+        .set('Authorization', testUserAuth)
         .send(validContractorRequest)
         .expect(200);
 
@@ -58,12 +61,12 @@ describe('POST /api/contractor-request', () => {
       // Verify contractor request was saved to database
       const contractorResult = await db.query(
         'SELECT * FROM contractors WHERE email = $1 AND company_slug = $2',
-        [validContractorRequest.email, validContractorRequest.companySlug]
+        [testUser.email, validContractorRequest.companySlug]
       );
       
       expect(contractorResult.rows).toHaveLength(1);
       expect(contractorResult.rows[0]).toMatchObject({
-        email: validContractorRequest.email,
+        email: testUser.email,
         company_slug: validContractorRequest.companySlug,
         company_name: validContractorRequest.companyName,
         status: 'pending',
@@ -75,6 +78,7 @@ describe('POST /api/contractor-request', () => {
     it('should create contractor request with proper user relationship', async () => {
       const response = await request(app)
         .post('/api/contractor-request')
+        .set('Authorization', testUserAuth)
         .send(validContractorRequest)
         .expect(200);
 
@@ -84,7 +88,7 @@ describe('POST /api/contractor-request', () => {
       const userResult = await db.query('SELECT id FROM users WHERE email = $1', [testUser.email]);
       const contractorResult = await db.query(
         'SELECT user_id FROM contractors WHERE email = $1',
-        [validContractorRequest.email]
+        [testUser.email]
       );
 
       expect(contractorResult.rows[0].user_id).toBe(userResult.rows[0].id);
@@ -94,18 +98,26 @@ describe('POST /api/contractor-request', () => {
       // First request
       await request(app)
         .post('/api/contractor-request')
+        .set('Authorization', testUserAuth)
         .send(validContractorRequest)
         .expect(200);
 
+      // A 4+ star review from the first company unlocks the rest of the catalog
+      await db.query(
+        `INSERT INTO performance_reviews (contractor_id, company_slug, rating)
+         SELECT id, company_slug, 5 FROM contractors WHERE email = $1`,
+        [testUser.email]
+      );
+
       // Second request for different company
       const secondRequest = {
-        ...validContractorRequest,
-        companySlug: 'another-company',
-        companyName: 'Another Company'
+        companySlug: 'tech-innovations',
+        companyName: 'Tech Innovations Corp'
       };
 
       const response = await request(app)
         .post('/api/contractor-request')
+        .set('Authorization', testUserAuth)
         .send(secondRequest)
         .expect(200);
 
@@ -114,41 +126,40 @@ describe('POST /api/contractor-request', () => {
       // Verify both contractor requests exist
       const contractorResult = await db.query(
         'SELECT company_slug FROM contractors WHERE email = $1 ORDER BY company_slug',
-        [validContractorRequest.email]
+        [testUser.email]
       );
       
       expect(contractorResult.rows).toHaveLength(2);
-      expect(contractorResult.rows[0].company_slug).toBe('another-company');
-      expect(contractorResult.rows[1].company_slug).toBe('silicon-valley-consulting');
+      expect(contractorResult.rows[0].company_slug).toBe('silicon-valley-consulting');
+      expect(contractorResult.rows[1].company_slug).toBe('tech-innovations');
     });
   });
 
   describe('Validation errors', () => {
-    it('should reject request with invalid email format', async () => {
-      const invalidRequest = {
-        ...validContractorRequest,
-        email: 'invalid-email'
-      };
-
+    it('should ignore an email in the body and use the token identity', async () => {
       const response = await request(app)
         .post('/api/contractor-request')
-        .send(invalidRequest)
-        .expect(400);
+        .set('Authorization', testUserAuth)
+        .send({ ...validContractorRequest, email: 'someone-else@example.com' })
+        .expect(200);
 
-      expect(response.body).toMatchObject({
-        success: false,
-        message: expect.stringContaining('email')
-      });
+      expect(response.body.success).toBe(true);
+
+      const contractorResult = await db.query(
+        'SELECT email FROM contractors WHERE company_slug = $1 AND email LIKE $2',
+        [validContractorRequest.companySlug, '%@example.com']
+      );
+      expect(contractorResult.rows).toEqual([{ email: testUser.email }]);
     });
 
     it('should reject request with missing required fields', async () => {
       const incompleteRequest = {
-        email: validContractorRequest.email
         // Missing companySlug and companyName
       };
 
       const response = await request(app)
         .post('/api/contractor-request')
+        .set('Authorization', testUserAuth)
         .send(incompleteRequest)
         .expect(400);
 
@@ -164,38 +175,34 @@ describe('POST /api/contractor-request', () => {
 
       const response = await request(app)
         .post('/api/contractor-request')
+        .set('Authorization', testUserAuth)
         .send(invalidRequest)
         .expect(400);
 
       expect(response.body.success).toBe(false);
     });
 
-    it('should reject request with empty company name', async () => {
-      const invalidRequest = {
-        ...validContractorRequest,
-        companyName: ''
-      };
-
-      const response = await request(app)
+    it('should store the catalog name rather than the company name sent', async () => {
+      await request(app)
         .post('/api/contractor-request')
-        .send(invalidRequest)
-        .expect(400);
+        .set('Authorization', testUserAuth)
+        .send({ ...validContractorRequest, companyName: 'Someone Else Inc' })
+        .expect(200);
 
-      expect(response.body.success).toBe(false);
+      const contractorResult = await db.query(
+        'SELECT company_name FROM contractors WHERE email = $1',
+        [testUser.email]
+      );
+      expect(contractorResult.rows).toEqual([{ company_name: 'Silicon Valley Consulting' }]);
     });
   });
 
   describe('User not found scenarios', () => {
     it('should reject request for non-existent user', async () => {
-      const nonExistentUserRequest = {
-        email: 'nonexistent@example.com',
-        companySlug: 'silicon-valley-consulting',
-        companyName: 'Silicon Valley Consulting'
-      };
-
       const response = await request(app)
         .post('/api/contractor-request')
-        .send(nonExistentUserRequest)
+        .set('Authorization', authHeader({ email: 'nonexistent@example.com' }))
+        .send(validContractorRequest)
         .expect(404);
 
       expect(response.body).toMatchObject({
@@ -206,7 +213,7 @@ describe('POST /api/contractor-request', () => {
       // Verify no contractor record was created
       const contractorResult = await db.query(
         'SELECT * FROM contractors WHERE email = $1',
-        [nonExistentUserRequest.email]
+        ['nonexistent@example.com']
       );
       expect(contractorResult.rows).toHaveLength(0);
     });
@@ -217,12 +224,14 @@ describe('POST /api/contractor-request', () => {
       // First request should succeed
       await request(app)
         .post('/api/contractor-request')
+        .set('Authorization', testUserAuth)
         .send(validContractorRequest)
         .expect(200);
 
       // Second request for same user and company should fail
       const response = await request(app)
         .post('/api/contractor-request')
+        .set('Authorization', testUserAuth)
         .send(validContractorRequest)
         .expect(400);
 
@@ -234,7 +243,25 @@ describe('POST /api/contractor-request', () => {
       // Verify only one contractor record exists
       const contractorResult = await db.query(
         'SELECT * FROM contractors WHERE email = $1 AND company_slug = $2',
-        [validContractorRequest.email, validContractorRequest.companySlug]
+        [testUser.email, validContractorRequest.companySlug]
+      );
+      expect(contractorResult.rows).toHaveLength(1);
+    });
+
+    it('should save only one of two simultaneous requests for the same company', async () => {
+      const responses = await Promise.all(
+        [1, 2].map(() =>
+          request(app)
+            .post('/api/contractor-request')
+            .set('Authorization', testUserAuth)
+            .send(validContractorRequest)
+        )
+      );
+
+      expect(responses.map((r) => r.status).sort()).toEqual([200, 400]);
+      const contractorResult = await db.query(
+        'SELECT 1 FROM contractors WHERE email = $1 AND company_slug = $2',
+        [testUser.email, validContractorRequest.companySlug]
       );
       expect(contractorResult.rows).toHaveLength(1);
     });
@@ -244,6 +271,7 @@ describe('POST /api/contractor-request', () => {
     it('should set correct default values for contractor fields', async () => {
       const response = await request(app)
         .post('/api/contractor-request')
+        .set('Authorization', testUserAuth)
         .send(validContractorRequest)
         .expect(200);
 
@@ -251,7 +279,7 @@ describe('POST /api/contractor-request', () => {
 
       const contractorResult = await db.query(
         'SELECT status, joined_slack, can_start_job, created_at, updated_at FROM contractors WHERE email = $1',
-        [validContractorRequest.email]
+        [testUser.email]
       );
 
       const contractor = contractorResult.rows[0];
@@ -267,6 +295,7 @@ describe('POST /api/contractor-request', () => {
       
       await request(app)
         .post('/api/contractor-request')
+        .set('Authorization', testUserAuth)
         .send(validContractorRequest)
         .expect(200);
 
@@ -274,7 +303,7 @@ describe('POST /api/contractor-request', () => {
 
       const contractorResult = await db.query(
         'SELECT created_at, updated_at FROM contractors WHERE email = $1',
-        [validContractorRequest.email]
+        [testUser.email]
       );
 
       const contractor = contractorResult.rows[0];
@@ -292,6 +321,7 @@ describe('POST /api/contractor-request', () => {
     it('should accept application/json content type', async () => {
       const response = await request(app)
         .post('/api/contractor-request')
+        .set('Authorization', testUserAuth)
         .set('Content-Type', 'application/json')
         .send(JSON.stringify(validContractorRequest))
         .expect(200);
@@ -302,6 +332,7 @@ describe('POST /api/contractor-request', () => {
     it('should handle malformed JSON gracefully', async () => {
       const response = await request(app)
         .post('/api/contractor-request')
+        .set('Authorization', testUserAuth)
         .set('Content-Type', 'application/json')
         .send('{"invalid": json}');
 
@@ -315,6 +346,7 @@ describe('POST /api/contractor-request', () => {
     it('should return consistent response structure', async () => {
       const response = await request(app)
         .post('/api/contractor-request')
+        .set('Authorization', testUserAuth)
         .send(validContractorRequest)
         .expect(200);
 
@@ -327,9 +359,64 @@ describe('POST /api/contractor-request', () => {
     it('should return JSON content type', async () => {
       await request(app)
         .post('/api/contractor-request')
+        .set('Authorization', testUserAuth)
         .send(validContractorRequest)
         .expect('Content-Type', /json/)
         .expect(200);
     });
   });
+
+  describe('Authentication', () => {
+    it('should reject requests without an access token', async () => {
+      const response = await request(app)
+        .post('/api/contractor-request')
+        .send(validContractorRequest)
+        .expect(401);
+
+      expect(response.body).toMatchObject({
+        success: false,
+        message: 'Authentication required. Please sign in and try again.'
+      });
+    });
+
+    it('should reject tokens signed with a different key', async () => {
+      const forged = authHeader({ email: testUser.email }).replace(/\.[^.]+$/, '.forged');
+
+      await request(app)
+        .post('/api/contractor-request')
+        .set('Authorization', forged)
+        .send(validContractorRequest)
+        .expect(401);
+    });
+
+    it('should reject expired tokens', async () => {
+      await request(app)
+        .post('/api/contractor-request')
+        .set('Authorization', authHeader({ email: testUser.email, exp: Math.floor(Date.now() / 1000) - 60 }))
+        .send(validContractorRequest)
+        .expect(401);
+
+      const contractorResult = await db.query('SELECT 1 FROM contractors WHERE email = $1', [testUser.email]);
+      expect(contractorResult.rows).toHaveLength(0);
+    });
+
+    it('should not log the access token or cookies', async () => {
+      const consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+      const token = testUserAuth.replace(/^Bearer /, '');
+
+      await request(app)
+        .post('/api/contractor-request')
+        .set('Authorization', testUserAuth)
+        .set('Cookie', 'sb-access-token=secret-cookie')
+        .send(validContractorRequest)
+        .expect(200);
+
+      const logged = consoleSpy.mock.calls.flat().map(String).join('\n');
+      consoleSpy.mockRestore();
+
+      expect(logged).toContain('[redacted]');
+      expect(logged).not.toContain(token);
+      expect(logged).not.toContain('secret-cookie');
+    });
+  });
 });
@@ -0,0 +1,189 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import CompanyAdmin from '@/pages/CompanyAdmin';
+import { renderWithProviders, createMockSession, createMockUser } from '../../../utils/test-helpers';
+import { server } from '../../../setup-frontend';
+import { http, HttpResponse } from 'msw';
+
+const mockUseAuth = vi.fn();
+vi.mock('@/hooks/useAuth', () => ({
+  useAuth: () => mockUseAuth(),
+  AuthProvider: ({ children }: { children: React.ReactNode }) => children,
+}));
+
+vi.mock('react-router-dom', async () => {
+  const actual = await vi.importActual('react-router-dom');
+  return {
+    ...actual,
+    useParams: () => ({ slug: 'silicon-valley-consulting' }),
+  };
+});
+
+const pendingRequest = {
+  id: 7,
+  userId: 3,
+  email: 'applicant@example.com',
+  redditUsername: 'applicant',
+  companySlug: 'silicon-valley-consulting',
+  status: 'pending',
+  canStartJob: false,
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+};
+
+const basePath = '/api/admin/companies/silicon-valley-consulting/contractor-requests';
+
+describe('CompanyAdmin Page', () => {
+  let reviews: any[];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    reviews = [];
+    mockUseAuth.mockReturnValue({
+      user: createMockUser(),
+      session: createMockSession(),
+      loading: false,
+    });
+
+    server.use(
+      http.get(basePath, () => {
+        return HttpResponse.json({ success: true, requests: [pendingRequest] });
+      }),
+      http.post(`${basePath}/:id/status`, async ({ request }) => {
+        const body = (await request.json()) as any;
+        reviews.push(body);
+        return HttpResponse.json({
+          success: true,
+          message: `Contractor moved to ${body.status}`,
+          request: { ...pendingRequest, status: body.status, canStartJob: body.status === 'accepted' },
+        });
+      })
+    );
+  });
+
+  it('should list pending contractor requests', async () => {
+    renderWithProviders(<CompanyAdmin />);
+
+    expect(await screen.findByText('applicant@example.com')).toBeInTheDocument();
+    expect(screen.getByText(/u\/applicant/)).toBeInTheDocument();
+  });
+
+  it('should accept a request and remove it from the queue', async () => {
+    const user = userEvent.setup();
+    renderWithProviders(<CompanyAdmin />);
+
+    await user.click(await screen.findByRole('button', { name: /accept/i }));
+
+    expect(await screen.findByText(/moved to accepted: applicant@example.com/i)).toBeInTheDocument();
+    expect(reviews).toEqual([{ status: 'accepted' }]);
+    expect(screen.getByText(/no pending contractor requests/i)).toBeInTheDocument();
+  });
+
+  it('should require a reason before rejecting', async () => {
+    const user = userEvent.setup();
+    renderWithProviders(<CompanyAdmin />);
+
+    await user.click(await screen.findByRole('button', { name: /^reject$/i }));
+    const confirm = screen.getByRole('button', { name: /confirm reject/i });
+    expect(confirm).toBeDisabled();
+
+    await user.type(screen.getByLabelText(/reason for reject/i), 'Account too new');
+    await user.click(confirm);
+
+    await waitFor(() => {
+      expect(reviews).toEqual([{ status: 'rejected', reason: 'Account too new' }]);
+    });
+  });
+
+  it('should offer only the actions allowed from each status', async () => {
+    const user = userEvent.setup();
+    server.use(
+      http.get(basePath, () => {
+        return HttpResponse.json({
+          success: true,
+          requests: [
+            { ...pendingRequest, id: 8, email: 'working@example.com', status: 'active', canStartJob: true },
+            { ...pendingRequest, id: 9, email: 'done@example.com', status: 'completed' },
+          ],
+        });
+      })
+    );
+
+    renderWithProviders(<CompanyAdmin />);
+    await user.click(screen.getByRole('button', { name: /all requests/i }));
+
+    expect(await screen.findByText('working@example.com')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /^suspend$/i })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /mark completed/i })).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: /^accept$/i })).not.toBeInTheDocument();
+    // Completed is terminal, so it offers nothing
+    expect(screen.getAllByRole('button', { name: /suspend|completed|reinstate/i })).toHaveLength(2);
+  });
+
+  it('should rate a contractor who works for the company', async () => {
+    const user = userEvent.setup();
+    let rated: any;
+    server.use(
+      http.get(basePath, () => {
+        return HttpResponse.json({
+          success: true,
+          requests: [{ ...pendingRequest, email: 'working@example.com', status: 'active', canStartJob: true }],
+        });
+      }),
+      http.post(`${basePath}/:id/performance-reviews`, async ({ request, params }) => {
+        rated = { id: params.id, ...((await request.json()) as any) };
+        return HttpResponse.json({ success: true, message: 'Review saved' }, { status: 201 });
+      })
+    );
+
+    renderWithProviders(<CompanyAdmin />);
+
+    const save = await screen.findByRole('button', { name: /save rating/i });
+    expect(save).toBeDisabled();
+    await user.click(screen.getByRole('button', { name: 'Rate working@example.com 4 stars' }));
+    await user.type(screen.getByLabelText('Comment on working@example.com'), 'Reliable and quick');
+    await user.click(save);
+
+    expect(await screen.findByText('Rated working@example.com 4 stars')).toBeInTheDocument();
+    expect(rated).toEqual({ id: '7', rating: 4, comment: 'Reliable and quick' });
+  });
+
+  it('should not offer ratings for pending requests', async () => {
+    renderWithProviders(<CompanyAdmin />);
+
+    expect(await screen.findByText('applicant@example.com')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: /save rating/i })).not.toBeInTheDocument();
+  });
+
+  it('should not offer ratings before an accepted contractor starts work', async () => {
+    server.use(
+      http.get(basePath, () => {
+        return HttpResponse.json({
+          success: true,
+          requests: [{ ...pendingRequest, email: 'starting@example.com', status: 'accepted', canStartJob: true }],
+        });
+      })
+    );
+
+    renderWithProviders(<CompanyAdmin />);
+
+    expect(await screen.findByText('starting@example.com')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: /save rating/i })).not.toBeInTheDocument();
+  });
+
+  it('should show the server message for non-admins', async () => {
+    server.use(
+      http.get(basePath, () => {
+        return HttpResponse.json(
+          { success: false, message: 'You do not have permission to manage this company.' },
+          { status: 403 }
+        );
+      })
+    );
+
+    renderWithProviders(<CompanyAdmin />);
+
+    expect(await screen.findByText(/do not have permission/i)).toBeInTheDocument();
+  });
+});
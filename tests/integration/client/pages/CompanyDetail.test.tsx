@@ -0,0 +1,779 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import CompanyDetail from '@/pages/CompanyDetail';
+import { renderWithProviders } from '../../../utils/test-helpers';
+import { server } from '../../../setup-frontend';
+import { http, HttpResponse } from 'msw';
+import { createMockSession, createMockUser } from '../../../utils/test-helpers';
+
+// Mock useAuth
+const mockUseAuth = vi.fn();
+vi.mock('@/hooks/useAuth', () => ({
+  useAuth: () => mockUseAuth(),
+  AuthProvider: ({ children }: { children: React.ReactNode }) => children,
+}));
+
+// Mock useNavigate and useParams
+const mockNavigate = vi.fn();
+const mockUseParams = vi.fn();
+vi.mock('react-router-dom', async () => {
+  const actual = await vi.importActual('react-router-dom');
+  return {
+    ...actual,
+    useNavigate: () => mockNavigate,
+    useParams: () => mockUseParams(),
+  };
+});
+
+// Render the page and wait for the company to load
+async function renderCompanyPage() {
+  renderWithProviders(<CompanyDetail />);
+  await screen.findByRole('heading', { level: 1 });
+}
+
+describe('CompanyDetail Page', () => {
+  const signingBonus = (overrides: Record<string, unknown> = {}) => ({
+    contractorId: 42,
+    companySlug: 'silicon-valley-consulting',
+    rule: 'approved_hours',
+    threshold: 20,
+    progress: 0,
+    amountCents: 50000,
+    unlockedAt: null,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockUseParams.mockReturnValue({ slug: 'silicon-valley-consulting' });
+    mockUseAuth.mockReturnValue({
+      user: null,
+      loading: false,
+    });
+    // Accepted, active and completed requests load their bonus progress
+    server.use(
+      http.get('/api/me/engagements/:id/signing-bonus', () => {
+        return HttpResponse.json({ success: true, bonus: signingBonus() });
+      })
+    );
+  });
+
+  describe('Rendering', () => {
+    it('should render company header and information', async () => {
+      await renderCompanyPage();
+
+      expect(screen.getByRole('heading', { level: 1, name: /silicon valley consulting/i })).toBeInTheDocument();
+      expect(screen.getByText(/marketing consultancy/i)).toBeInTheDocument();
+    });
+
+    it('should render compensation package', async () => {
+      await renderCompanyPage();
+
+      expect(screen.getByText(/💰 compensation package/i)).toBeInTheDocument();
+    });
+
+    it('should render part-time tasks section', async () => {
+      await renderCompanyPage();
+
+      expect(screen.getByText(/part-time tasks/i)).toBeInTheDocument();
+      expect(screen.getByText(/reddit community engagement/i)).toBeInTheDocument();
+      expect(screen.getByText(/content creation/i)).toBeInTheDocument();
+    });
+
+    it('should render onboarding process', async () => {
+      await renderCompanyPage();
+
+      expect(screen.getByText(/onboarding & payment process/i)).toBeInTheDocument();
+      // The first onboarding step; the join card below has a heading of its own
+      expect(screen.getByRole('heading', { level: 4, name: /join company slack/i })).toBeInTheDocument();
+    });
+  });
+
+  describe('Company Data', () => {
+    it('should render the company identified by the route slug', async () => {
+      mockUseParams.mockReturnValue({ slug: 'tech-innovations' });
+
+      await renderCompanyPage();
+
+      expect(screen.getByRole('heading', { level: 1 })).toHaveTextContent('Tech Innovations Corp');
+      expect(screen.getByText(/leading technology solutions/i)).toBeInTheDocument();
+      expect(screen.queryByText(/part-time tasks/i)).not.toBeInTheDocument();
+    });
+
+    it('should show the company\'s signing bonus terms', async () => {
+      await renderCompanyPage();
+
+      expect(screen.getByText('Bonus paid after 20 approved hours')).toBeInTheDocument();
+    });
+
+    it('should render not found for an unknown slug', async () => {
+      mockUseParams.mockReturnValue({ slug: 'no-such-company' });
+
+      renderWithProviders(<CompanyDetail />);
+
+      expect(await screen.findByText(/404/)).toBeInTheDocument();
+    });
+
+    it('should show an error when the company fails to load', async () => {
+      server.use(
+        http.get('/api/companies/:slug', () => {
+          return HttpResponse.json(
+            { success: false, message: 'Internal server error: database unavailable' },
+            { status: 500 }
+          );
+        })
+      );
+
+      renderWithProviders(<CompanyDetail />);
+
+      expect(await screen.findByText(/database unavailable/i)).toBeInTheDocument();
+    });
+
+    it('should request to join the company shown on the page', async () => {
+      const user = userEvent.setup();
+      mockUseParams.mockReturnValue({ slug: 'tech-innovations' });
+      mockUseAuth.mockReturnValue({
+        user: createMockUser({ email: 'user@example.com' }),
+        loading: false,
+      });
+
+      let body: any = null;
+      server.use(
+        http.post('/api/contractor-request', async ({ request }) => {
+          body = await request.json();
+          return HttpResponse.json({ success: true, message: 'Requested' });
+        })
+      );
+
+      await renderCompanyPage();
+      await user.click(screen.getByRole('button', { name: /join slack/i }));
+
+      await waitFor(() => {
+        expect(body).toEqual({ companySlug: 'tech-innovations', companyName: 'Tech Innovations Corp' });
+      });
+    });
+  });
+
+  describe('Authentication States', () => {
+    it('should show sign in required alert when not authenticated', async () => {
+      mockUseAuth.mockReturnValue({
+        user: null,
+        loading: false,
+      });
+
+      await renderCompanyPage();
+
+      expect(screen.getByText(/sign in required/i)).toBeInTheDocument();
+      expect(screen.getByText(/you need to be signed in/i)).toBeInTheDocument();
+    });
+
+    it('should show signed in alert when authenticated', async () => {
+      const mockUser = createMockUser({ email: 'user@example.com' });
+      mockUseAuth.mockReturnValue({
+        user: mockUser,
+        loading: false,
+      });
+
+      await renderCompanyPage();
+
+      expect(screen.getByText(/signed in as:/i)).toBeInTheDocument();
+      expect(screen.getByText(/user@example.com/i)).toBeInTheDocument();
+    });
+  });
+
+  describe('Join Slack Functionality', () => {
+    it('should show sign in message when clicking join without auth', async () => {
+      const user = userEvent.setup();
+      mockUseAuth.mockReturnValue({
+        user: null,
+        loading: false,
+      });
+
+      await renderCompanyPage();
+
+      const joinButton = screen.getByRole('button', { name: /sign in to join slack/i });
+      await user.click(joinButton);
+
+      await waitFor(() => {
+        expect(screen.getByText(/please sign in to join/i)).toBeInTheDocument();
+      });
+    });
+
+    it('should submit contractor request when authenticated', async () => {
+      const user = userEvent.setup();
+      const mockUser = createMockUser({ email: 'user@example.com' });
+      mockUseAuth.mockReturnValue({
+        user: mockUser,
+        loading: false,
+      });
+
+      server.use(
+        http.post('/api/contractor-request', () => {
+          return HttpResponse.json({
+            success: true,
+            message: "We've just pinged them. You'll be sent an email and text invite within 72 hours.",
+          });
+        })
+      );
+
+      await renderCompanyPage();
+
+      const joinButton = screen.getByRole('button', { name: /join slack/i });
+      await user.click(joinButton);
+
+      await waitFor(() => {
+        expect(screen.getByText(/we've just pinged them/i)).toBeInTheDocument();
+      });
+    });
+
+    it('should send the session access token with the contractor request', async () => {
+      const user = userEvent.setup();
+      const mockUser = createMockUser({ email: 'user@example.com' });
+      mockUseAuth.mockReturnValue({
+        user: mockUser,
+        session: createMockSession({ access_token: 'session-token', user: mockUser }),
+        loading: false,
+      });
+
+      let authorization: string | null = null;
+      let body: any = null;
+      server.use(
+        http.post('/api/contractor-request', async ({ request }) => {
+          authorization = request.headers.get('Authorization');
+          body = await request.json();
+          return HttpResponse.json({
+            success: true,
+            message: "We've just pinged them. You'll be sent an email and text invite within 72 hours.",
+          });
+        })
+      );
+
+      await renderCompanyPage();
+
+      await user.click(screen.getByRole('button', { name: /join slack/i }));
+
+      await waitFor(() => {
+        expect(authorization).toBe('Bearer session-token');
+      });
+      expect(body).not.toHaveProperty('email');
+    });
+
+    it('should handle user not found error', async () => {
+      const user = userEvent.setup();
+      const mockUser = createMockUser({ email: 'nonexistent@test.com' });
+      mockUseAuth.mockReturnValue({
+        user: mockUser,
+        loading: false,
+      });
+
+      server.use(
+        http.post('/api/contractor-request', () => {
+          return HttpResponse.json(
+            { success: false, message: 'User not found. Please complete the qualification form first.' },
+            { status: 404 }
+          );
+        })
+      );
+
+      await renderCompanyPage();
+
+      const joinButton = screen.getByRole('button', { name: /join slack/i });
+      await user.click(joinButton);
+
+      await waitFor(() => {
+        expect(screen.getByText(/you need to complete the qualification form/i)).toBeInTheDocument();
+      });
+
+      // Should navigate after 3 seconds
+      await waitFor(() => {
+        expect(mockNavigate).toHaveBeenCalledWith('/social-qualify-form');
+      }, { timeout: 4000 });
+    });
+
+    it('should handle duplicate request error', async () => {
+      const user = userEvent.setup();
+      const mockUser = createMockUser({ email: 'duplicate@test.com' });
+      mockUseAuth.mockReturnValue({
+        user: mockUser,
+        loading: false,
+      });
+
+      server.use(
+        http.post('/api/contractor-request', () => {
+          return HttpResponse.json(
+            { success: false, message: 'You have already requested to join this company.' },
+            { status: 400 }
+          );
+        })
+      );
+
+      await renderCompanyPage();
+
+      const joinButton = screen.getByRole('button', { name: /join slack/i });
+      await user.click(joinButton);
+
+      await waitFor(() => {
+        expect(screen.getByText(/already requested/i)).toBeInTheDocument();
+      });
+    });
+
+    it('should show loading state during request', async () => {
+      const user = userEvent.setup();
+      const mockUser = createMockUser({ email: 'user@example.com' });
+      mockUseAuth.mockReturnValue({
+        user: mockUser,
+        loading: false,
+      });
+
+      server.use(
+        http.post('/api/contractor-request', async () => {
+          await new Promise((resolve) => setTimeout(resolve, 100));
+          return HttpResponse.json({ success: true, message: 'Success' });
+        })
+      );
+
+      await renderCompanyPage();
+
+      const joinButton = screen.getByRole('button', { name: /join slack/i });
+      await user.click(joinButton);
+
+      expect(screen.getByText(/requesting/i)).toBeInTheDocument();
+      expect(joinButton).toBeDisabled();
+    });
+
+    it('should update button state after successful request', async () => {
+      const user = userEvent.setup();
+      const mockUser = createMockUser({ email: 'user@example.com' });
+      mockUseAuth.mockReturnValue({
+        user: mockUser,
+        loading: false,
+      });
+
+      server.use(
+        http.post('/api/contractor-request', () => {
+          return HttpResponse.json({
+            success: true,
+            message: "We've just pinged them.",
+          });
+        })
+      );
+
+      await renderCompanyPage();
+
+      const joinButton = screen.getByRole('button', { name: /join slack/i });
+      await user.click(joinButton);
+
+      await waitFor(() => {
+        expect(screen.getByRole('button', { name: /request sent ✓/i })).toBeInTheDocument();
+      });
+    });
+  });
+
+  describe('Existing Requests', () => {
+    const existingRequest = (status: string, canStartJob = false) => ({
+      id: 42,
+      companySlug: 'silicon-valley-consulting',
+      companyName: 'Silicon Valley Consulting',
+      status,
+      canStartJob,
+      createdAt: '2025-01-01T00:00:00.000Z',
+      updatedAt: '2025-01-01T00:00:00.000Z',
+    });
+
+    beforeEach(() => {
+      const mockUser = createMockUser({ email: 'user@example.com' });
+      mockUseAuth.mockReturnValue({
+        user: mockUser,
+        session: createMockSession({ access_token: 'session-token', user: mockUser }),
+        loading: false,
+      });
+    });
+
+    it('should restore a pending request instead of offering a duplicate', async () => {
+      server.use(
+        http.get('/api/me/contractor-requests', () => {
+          return HttpResponse.json({ success: true, requests: [existingRequest('pending')] });
+        })
+      );
+
+      await renderCompanyPage();
+
+      const sentButton = await screen.findByRole('button', { name: /request sent ✓/i });
+      expect(sentButton).toBeDisabled();
+      expect(screen.getByRole('button', { name: /withdraw request/i })).toBeInTheDocument();
+      expect(screen.queryByRole('button', { name: /^join slack$/i })).not.toBeInTheDocument();
+    });
+
+    it('should enable Start Job for an accepted request', async () => {
+      server.use(
+        http.get('/api/me/contractor-requests', () => {
+          return HttpResponse.json({ success: true, requests: [existingRequest('accepted', true)] });
+        })
+      );
+
+      await renderCompanyPage();
+
+      expect(await screen.findByRole('button', { name: /^start job$/i })).toBeEnabled();
+      expect(screen.queryByRole('button', { name: /withdraw request/i })).not.toBeInTheDocument();
+      expect(await screen.findByText('0 of 20 approved hours')).toBeInTheDocument();
+      expect(screen.getByRole('progressbar', { name: /signing bonus progress/i })).toBeInTheDocument();
+    });
+
+    it('should open the job dashboard when start job is clicked', async () => {
+      const user = userEvent.setup();
+      server.use(
+        http.get('/api/me/contractor-requests', () => {
+          return HttpResponse.json({ success: true, requests: [existingRequest('accepted', true)] });
+        })
+      );
+
+      await renderCompanyPage();
+
+      await user.click(await screen.findByRole('button', { name: /^start job$/i }));
+
+      expect(mockNavigate).toHaveBeenCalledWith('/dashboard');
+    });
+
+    it('should show progress toward the signing bonus', async () => {
+      let requestedId: string | undefined;
+      server.use(
+        http.get('/api/me/contractor-requests', () => {
+          return HttpResponse.json({ success: true, requests: [existingRequest('active', true)] });
+        }),
+        http.get('/api/me/engagements/:id/signing-bonus', ({ params }) => {
+          requestedId = params.id as string;
+          return HttpResponse.json({ success: true, bonus: signingBonus({ progress: 12.5 }) });
+        })
+      );
+
+      await renderCompanyPage();
+
+      expect(await screen.findByText('12.5 of 20 approved hours')).toBeInTheDocument();
+      expect(screen.getByRole('progressbar', { name: /signing bonus progress/i })).toBeInTheDocument();
+      expect(requestedId).toBe('42');
+    });
+
+    it('should show an unlocked signing bonus', async () => {
+      server.use(
+        http.get('/api/me/contractor-requests', () => {
+          return HttpResponse.json({ success: true, requests: [existingRequest('completed')] });
+        }),
+        http.get('/api/me/engagements/:id/signing-bonus', () => {
+          return HttpResponse.json({
+            success: true,
+            bonus: signingBonus({ progress: 21, unlockedAt: '2025-02-01T00:00:00.000Z' }),
+          });
+        })
+      );
+
+      await renderCompanyPage();
+
+      expect(await screen.findByText(/bonus unlocked .* added to your earnings/i)).toBeInTheDocument();
+    });
+
+    it('should not look up bonus progress for a pending request', async () => {
+      let requested = false;
+      server.use(
+        http.get('/api/me/contractor-requests', () => {
+          return HttpResponse.json({ success: true, requests: [existingRequest('pending')] });
+        }),
+        http.get('/api/me/engagements/:id/signing-bonus', () => {
+          requested = true;
+          return HttpResponse.json({ success: false }, { status: 404 });
+        })
+      );
+
+      await renderCompanyPage();
+
+      expect(await screen.findByRole('button', { name: /request sent ✓/i })).toBeInTheDocument();
+      expect(requested).toBe(false);
+      expect(screen.queryByRole('progressbar')).not.toBeInTheDocument();
+    });
+
+    it('should ignore requests for other companies', async () => {
+      server.use(
+        http.get('/api/me/contractor-requests', () => {
+          return HttpResponse.json({
+            success: true,
+            requests: [{ ...existingRequest('pending'), companySlug: 'tech-innovations' }],
+          });
+        })
+      );
+
+      await renderCompanyPage();
+
+      expect(await screen.findByRole('button', { name: /^join slack$/i })).toBeEnabled();
+    });
+
+    it('should withdraw a pending request', async () => {
+      const user = userEvent.setup();
+      let withdrawnId: string | undefined;
+      server.use(
+        http.get('/api/me/contractor-requests', () => {
+          return HttpResponse.json({ success: true, requests: [existingRequest('pending')] });
+        }),
+        http.delete('/api/me/contractor-requests/:id', ({ params }) => {
+          withdrawnId = params.id as string;
+          return HttpResponse.json({
+            success: true,
+            message: 'Your request has been withdrawn.',
+            request: existingRequest('withdrawn'),
+          });
+        })
+      );
+
+      await renderCompanyPage();
+
+      await user.click(await screen.findByRole('button', { name: /withdraw request/i }));
+
+      await waitFor(() => {
+        expect(screen.getByText(/your request has been withdrawn/i)).toBeInTheDocument();
+      });
+      expect(withdrawnId).toBe('42');
+      expect(screen.getByText('You withdrew your request.')).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: /request again/i })).toBeEnabled();
+      expect(screen.queryByRole('button', { name: /withdraw request/i })).not.toBeInTheDocument();
+    });
+
+    it('should let the user ask again after a declined request', async () => {
+      const user = userEvent.setup();
+      let requests = [existingRequest('rejected')];
+      server.use(
+        http.get('/api/me/contractor-requests', () => {
+          return HttpResponse.json({ success: true, requests });
+        }),
+        http.post('/api/contractor-request', () => {
+          requests = [{ ...existingRequest('pending'), id: 43 }, ...requests];
+          return HttpResponse.json({ success: true, message: "We've just pinged them." });
+        })
+      );
+
+      await renderCompanyPage();
+
+      expect(await screen.findByText('The company declined your request.')).toBeInTheDocument();
+      await user.click(screen.getByRole('button', { name: /request again/i }));
+
+      expect(await screen.findByRole('button', { name: /request sent ✓/i })).toBeDisabled();
+      expect(screen.getByRole('button', { name: /withdraw request/i })).toBeInTheDocument();
+    });
+  });
+
+  describe('Company Reviews', () => {
+    const signIn = () => {
+      const mockUser = createMockUser({ email: 'user@example.com' });
+      mockUseAuth.mockReturnValue({
+        user: mockUser,
+        session: createMockSession({ access_token: 'session-token', user: mockUser }),
+        loading: false,
+      });
+    };
+
+    const withRequestStatus = (status: string) =>
+      http.get('/api/me/contractor-requests', () => {
+        return HttpResponse.json({
+          success: true,
+          requests: [
+            {
+              id: 42,
+              companySlug: 'silicon-valley-consulting',
+              companyName: 'Silicon Valley Consulting',
+              status,
+              canStartJob: false,
+              createdAt: '2025-01-01T00:00:00.000Z',
+              updatedAt: '2025-01-01T00:00:00.000Z',
+            },
+          ],
+        });
+      });
+
+    it('should show the company rating and its reviews', async () => {
+      await renderCompanyPage();
+
+      expect(screen.getByText(/4\.5 from 2 reviews/i)).toBeInTheDocument();
+      expect(await screen.findByText('Clear tasks and quick approvals.')).toBeInTheDocument();
+      expect(screen.getByText('Good pay, busy weeks.')).toBeInTheDocument();
+      expect(screen.queryByRole('button', { name: /report review/i })).not.toBeInTheDocument();
+      expect(screen.queryByRole('button', { name: /post review/i })).not.toBeInTheDocument();
+    });
+
+    it('should say when a company has no reviews yet', async () => {
+      mockUseParams.mockReturnValue({ slug: 'tech-innovations' });
+
+      await renderCompanyPage();
+
+      expect(screen.getByText('No reviews yet')).toBeInTheDocument();
+    });
+
+    it('should load more reviews with the next cursor', async () => {
+      const user = userEvent.setup();
+      const cursors: (string | null)[] = [];
+      server.use(
+        http.get('/api/companies/:slug/reviews', ({ request }) => {
+          const cursor = new URL(request.url).searchParams.get('cursor');
+          cursors.push(cursor);
+          const review = {
+            id: cursor ? 1 : 2,
+            companySlug: 'silicon-valley-consulting',
+            rating: 4,
+            comment: cursor ? 'Older review' : 'Newer review',
+            createdAt: '2024-03-01T10:00:00.000Z',
+          };
+          return HttpResponse.json({ success: true, reviews: [review], nextCursor: cursor ? null : 'page-2' });
+        })
+      );
+
+      await renderCompanyPage();
+
+      await user.click(await screen.findByRole('button', { name: /load more reviews/i }));
+
+      expect(await screen.findByText('Older review')).toBeInTheDocument();
+      expect(screen.getByText('Newer review')).toBeInTheDocument();
+      expect(cursors[0]).toBeNull();
+      expect(cursors).toContain('page-2');
+      expect(screen.queryByRole('button', { name: /load more reviews/i })).not.toBeInTheDocument();
+    });
+
+    it('should let a contractor who completed an engagement post a review', async () => {
+      const user = userEvent.setup();
+      let posted: any;
+      signIn();
+      server.use(
+        withRequestStatus('completed'),
+        http.post('/api/companies/:slug/reviews', async ({ request }) => {
+          posted = await request.json();
+          return HttpResponse.json(
+            {
+              success: true,
+              message: 'Thanks for your review',
+              review: {
+                id: 3,
+                companySlug: 'silicon-valley-consulting',
+                rating: 5,
+                comment: 'Would work here again',
+                createdAt: '2024-03-03T10:00:00.000Z',
+              },
+            },
+            { status: 201 }
+          );
+        })
+      );
+
+      await renderCompanyPage();
+
+      const post = await screen.findByRole('button', { name: /post review/i });
+      expect(post).toBeDisabled();
+      await user.click(screen.getByRole('button', { name: 'Rate Silicon Valley Consulting 5 stars' }));
+      await user.type(screen.getByLabelText('Your review'), 'Would work here again');
+      await user.click(post);
+
+      expect(await screen.findByText('Thanks for your review')).toBeInTheDocument();
+      expect(screen.getByText('Would work here again')).toBeInTheDocument();
+      expect(posted).toEqual({ rating: 5, comment: 'Would work here again' });
+      expect(screen.queryByRole('button', { name: /post review/i })).not.toBeInTheDocument();
+    });
+
+    it('should not offer a review before the engagement is completed', async () => {
+      signIn();
+      server.use(withRequestStatus('active'));
+
+      await renderCompanyPage();
+
+      expect(await screen.findByText('Clear tasks and quick approvals.')).toBeInTheDocument();
+      expect(screen.queryByRole('button', { name: /post review/i })).not.toBeInTheDocument();
+    });
+
+    it('should report an abusive review with a reason', async () => {
+      const user = userEvent.setup();
+      let reported: any;
+      signIn();
+      server.use(
+        http.post('/api/companies/:slug/reviews/:id/flags', async ({ request, params }) => {
+          reported = { id: params.id, ...((await request.json()) as any) };
+          return HttpResponse.json({ success: true, message: "Thanks for letting us know. We'll take a look." });
+        })
+      );
+
+      await renderCompanyPage();
+
+      await user.click(await screen.findByRole('button', { name: 'Report review 2' }));
+      const send = screen.getByRole('button', { name: /send report/i });
+      expect(send).toBeDisabled();
+      await user.type(screen.getByLabelText('Why are you reporting this review?'), 'Spam');
+      await user.click(send);
+
+      expect(await screen.findByText("Thanks for letting us know. We'll take a look.")).toBeInTheDocument();
+      expect(reported).toEqual({ id: '2', reason: 'Spam' });
+      expect(screen.queryByRole('button', { name: 'Report review 2' })).not.toBeInTheDocument();
+      expect(screen.getByRole('button', { name: 'Report review 1' })).toBeInTheDocument();
+    });
+  });
+
+  describe('Start Job Functionality', () => {
+    it('should show waiting for approval when not approved', async () => {
+      await renderCompanyPage();
+
+      expect(screen.getByRole('button', { name: /waiting for approval/i })).toBeDisabled();
+      expect(screen.getByText(/available after company approval/i)).toBeInTheDocument();
+    });
+  });
+
+  describe('Currency Display', () => {
+    it('should display compensation in USD by default', async () => {
+      await renderCompanyPage();
+
+      await waitFor(() => {
+        expect(screen.getByText(/\$2\.00\/hour/)).toBeInTheDocument();
+        expect(screen.getByText(/\$500/)).toBeInTheDocument();
+      }, { timeout: 5000 });
+    });
+
+    it('should convert and display in other currencies', async () => {
+      server.use(
+        http.get('https://ipapi.co/json/', () => {
+          return HttpResponse.json({ currency: 'EUR', country_code: 'DE' });
+        }),
+        http.get('https://api.exchangerate-api.com/v4/latest/USD', () => {
+          return HttpResponse.json({
+            base: 'USD',
+            rates: { EUR: 0.85 },
+          });
+        })
+      );
+
+      await renderCompanyPage();
+
+      await waitFor(() => {
+        expect(screen.getByText(/prices shown in eur/i)).toBeInTheDocument();
+      }, { timeout: 5000 });
+    });
+  });
+
+  describe('Navigation', () => {
+    it('should have back to marketplace link', async () => {
+      await renderCompanyPage();
+
+      const backLink = screen.getByRole('link', { name: /← back to marketplace/i });
+      expect(backLink).toBeInTheDocument();
+      expect(backLink).toHaveAttribute('href', '/marketplace');
+    });
+
+    it('should have browse companies link', async () => {
+      await renderCompanyPage();
+
+      const browseLink = screen.getByRole('link', { name: /browse companies/i });
+      expect(browseLink).toBeInTheDocument();
+      expect(browseLink).toHaveAttribute('href', '/marketplace');
+    });
+  });
+
+  describe('Payment Protection Section', () => {
+    it('should render payment protection information', async () => {
+      await renderCompanyPage();
+
+      expect(screen.getByText(/payment protection/i)).toBeInTheDocument();
+      expect(screen.getByText(/fairdatause holds company funds/i)).toBeInTheDocument();
+    });
+  });
+});
+
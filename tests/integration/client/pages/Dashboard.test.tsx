@@ -0,0 +1,342 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import Dashboard from '@/pages/Dashboard';
+import { renderWithProviders, createMockSession, createMockUser } from '../../../utils/test-helpers';
+import { server } from '../../../setup-frontend';
+import { http, HttpResponse } from 'msw';
+
+const mockUseAuth = vi.fn();
+vi.mock('@/hooks/useAuth', () => ({
+  useAuth: () => mockUseAuth(),
+  AuthProvider: ({ children }: { children: React.ReactNode }) => children,
+}));
+
+const task = {
+  id: 5,
+  companySlug: 'silicon-valley-consulting',
+  title: 'Share the launch post',
+  description: 'Post it in two relevant subreddits',
+  taskDate: '2026-10-18',
+  createdAt: '2026-10-18T08:00:00.000Z',
+  submission: null,
+};
+
+const engagement = (overrides = {}) => ({
+  contractorId: 42,
+  companySlug: 'silicon-valley-consulting',
+  companyName: 'Silicon Valley Consulting',
+  status: 'active',
+  canStartJob: true,
+  hourlyRateCents: 2500,
+  tasks: [task],
+  ...overrides,
+});
+
+const timeEntry = (overrides = {}) => ({
+  id: 7,
+  contractorId: 42,
+  startedAt: '2026-10-12T09:00:00.000Z',
+  endedAt: '2026-10-12T11:00:00.000Z',
+  durationSeconds: 7200,
+  description: 'Moderation',
+  source: 'manual',
+  status: 'approved',
+  disputeReason: null,
+  rateCents: 2500,
+  amountCents: 5000,
+  reviewedAt: '2026-10-13T08:00:00.000Z',
+  ...overrides,
+});
+
+describe('Dashboard Page', () => {
+  let submissions: any[];
+  let timeEntries: any[];
+  let timeRequests: { path: string; body: any }[];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    submissions = [];
+    timeEntries = [timeEntry()];
+    timeRequests = [];
+    mockUseAuth.mockReturnValue({
+      user: createMockUser(),
+      session: createMockSession(),
+      loading: false,
+    });
+
+    server.use(
+      http.get('/api/me/reddit-verification', () => {
+        return HttpResponse.json({ success: true, verified: true, redditUsername: 'testuser' });
+      }),
+      http.get('/api/me/dashboard', () => {
+        return HttpResponse.json({ success: true, engagements: [engagement()] });
+      }),
+      http.post('/api/me/tasks/:id/submissions', async ({ request, params }) => {
+        const body = (await request.json()) as any;
+        submissions.push({ taskId: params.id, ...body });
+        return HttpResponse.json(
+          {
+            success: true,
+            message: 'Your work has been submitted.',
+            submission: {
+              id: 1,
+              taskId: Number(params.id),
+              body: body.body,
+              links: body.links,
+              attachments: [],
+              createdAt: '2026-10-18T09:00:00.000Z',
+            },
+          },
+          { status: 201 }
+        );
+      }),
+      http.get('/api/me/engagements/:id/time-entries', () => {
+        return HttpResponse.json({
+          success: true,
+          week: '2026-10-12',
+          entries: timeEntries,
+          totals: { seconds: 7200, approvedSeconds: 7200, approvedAmountCents: 5000 },
+        });
+      }),
+      http.post('/api/me/engagements/:id/timer/:action', async ({ request, params }) => {
+        timeRequests.push({ path: `timer/${params.action}`, body: await request.json() });
+        if (params.action === 'start') {
+          timeEntries = [
+            ...timeEntries,
+            timeEntry({ id: 8, endedAt: null, durationSeconds: null, status: 'pending', amountCents: null }),
+          ];
+        } else {
+          timeEntries = timeEntries.map((entry) =>
+            entry.endedAt === null ? { ...entry, endedAt: '2026-10-18T10:00:00.000Z', durationSeconds: 1800 } : entry
+          );
+        }
+        return HttpResponse.json({ success: true, message: 'ok' });
+      }),
+      http.post('/api/me/engagements/:id/time-entries', async ({ request }) => {
+        const body = (await request.json()) as any;
+        timeRequests.push({ path: 'time-entries', body });
+        return HttpResponse.json({ success: true, message: 'Hours logged' }, { status: 201 });
+      })
+    );
+  });
+
+  it('should ask signed-out users to sign in', async () => {
+    mockUseAuth.mockReturnValue({ user: null, session: null, loading: false });
+
+    renderWithProviders(<Dashboard />);
+
+    expect(await screen.findByText(/please sign in to see your tasks/i)).toBeInTheDocument();
+  });
+
+  it('should list engagements with their tasks', async () => {
+    renderWithProviders(<Dashboard />);
+
+    expect(await screen.findByText('Silicon Valley Consulting')).toBeInTheDocument();
+    expect(screen.getByText('Share the launch post')).toBeInTheDocument();
+    expect(screen.getByText('Post it in two relevant subreddits')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /submit work/i })).toBeDisabled();
+  });
+
+  it('should submit work with links and show it as submitted', async () => {
+    const user = userEvent.setup();
+    renderWithProviders(<Dashboard />);
+
+    await user.type(await screen.findByLabelText(/what did you do/i), 'Posted in r/startups');
+    await user.type(screen.getByLabelText(/links/i), 'https://reddit.com/r/startups/1{enter} ');
+    await user.click(screen.getByRole('button', { name: /submit work/i }));
+
+    expect(await screen.findByText(/^submitted/i)).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: 'https://reddit.com/r/startups/1' })).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: /submit work/i })).not.toBeInTheDocument();
+    expect(submissions).toEqual([
+      {
+        taskId: '5',
+        body: 'Posted in r/startups',
+        links: ['https://reddit.com/r/startups/1'],
+        attachments: [],
+      },
+    ]);
+  });
+
+  it('should show why a submission was refused', async () => {
+    const user = userEvent.setup();
+    server.use(
+      http.post('/api/me/tasks/:id/submissions', () => {
+        return HttpResponse.json(
+          { success: false, message: "You can't submit tasks while your request is suspended." },
+          { status: 403 }
+        );
+      })
+    );
+    renderWithProviders(<Dashboard />);
+
+    await user.type(await screen.findByLabelText(/what did you do/i), 'Posted it');
+    await user.click(screen.getByRole('button', { name: /submit work/i }));
+
+    expect(await screen.findByText(/while your request is suspended/i)).toBeInTheDocument();
+  });
+
+  it('should not offer the form when the contractor cannot start work', async () => {
+    server.use(
+      http.get('/api/me/dashboard', () => {
+        return HttpResponse.json({
+          success: true,
+          engagements: [engagement({ status: 'suspended', canStartJob: false })],
+        });
+      })
+    );
+    renderWithProviders(<Dashboard />);
+
+    expect(await screen.findByText(/on hold/i)).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: /submit work/i })).not.toBeInTheDocument();
+  });
+
+  it('should point contractors without engagements to the marketplace', async () => {
+    server.use(
+      http.get('/api/me/dashboard', () => {
+        return HttpResponse.json({ success: true, engagements: [] });
+      })
+    );
+    renderWithProviders(<Dashboard />);
+
+    expect(await screen.findByRole('link', { name: /find one in the marketplace/i })).toBeInTheDocument();
+  });
+
+  it('should show this week\'s hours with the hourly rate', async () => {
+    renderWithProviders(<Dashboard />);
+
+    expect(await screen.findByText('$25.00/hr')).toBeInTheDocument();
+    expect(await screen.findByText('2.00 h')).toBeInTheDocument();
+    expect(screen.getByText('approved')).toBeInTheDocument();
+    expect(screen.getByText(/total 2\.00 h · approved 2\.00 h \(\s*\$50\.00\)/i)).toBeInTheDocument();
+  });
+
+  it('should start and stop the timer', async () => {
+    const user = userEvent.setup();
+    renderWithProviders(<Dashboard />);
+
+    await user.type(await screen.findByLabelText(/working on/i), 'Replying to comments');
+    await user.click(screen.getByRole('button', { name: /start timer/i }));
+
+    expect(await screen.findByText('Running')).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: /stop timer/i }));
+
+    expect(await screen.findByRole('button', { name: /start timer/i })).toBeInTheDocument();
+    expect(timeRequests).toEqual([
+      { path: 'timer/start', body: { description: 'Replying to comments' } },
+      { path: 'timer/stop', body: {} },
+    ]);
+  });
+
+  it('should log hours manually', async () => {
+    const user = userEvent.setup();
+    renderWithProviders(<Dashboard />);
+
+    await user.type(await screen.findByLabelText(/started/i), '2026-10-13T09:00');
+    await user.type(screen.getByLabelText(/ended/i), '2026-10-13T10:30');
+    await user.click(screen.getByRole('button', { name: /log hours/i }));
+
+    await vi.waitFor(() => expect(timeRequests).toHaveLength(1));
+    expect(timeRequests[0].path).toBe('time-entries');
+    const { startedAt, endedAt } = timeRequests[0].body;
+    expect(new Date(endedAt).getTime() - new Date(startedAt).getTime()).toBe(90 * 60 * 1000);
+  });
+
+  it('should show a disputed entry with its reason', async () => {
+    timeEntries = [timeEntry({ status: 'disputed', disputeReason: 'Not on the schedule' })];
+    renderWithProviders(<Dashboard />);
+
+    expect(await screen.findByText('disputed')).toBeInTheDocument();
+    expect(screen.getByText('Not on the schedule')).toBeInTheDocument();
+  });
+
+  describe('Reddit verification', () => {
+    const unverified = (overrides = {}) =>
+      server.use(
+        http.get('/api/me/reddit-verification', () => {
+          return HttpResponse.json({ success: true, verified: false, redditUsername: 'testuser', ...overrides });
+        })
+      );
+
+    it('should issue a code and verify the profile once the code is on it', async () => {
+      const user = userEvent.setup();
+      let onProfile = false;
+      unverified();
+      server.use(
+        http.post('/api/me/reddit-verification/code', () => {
+          return HttpResponse.json({
+            success: true,
+            message: 'Add FDU-7KQ2M9XA to your Reddit profile description',
+            code: 'FDU-7KQ2M9XA',
+            redditUsername: 'testuser',
+            expiresAt: '2026-10-18T10:30:00.000Z',
+          });
+        }),
+        http.post('/api/me/reddit-verification/verify', () => {
+          return onProfile
+            ? HttpResponse.json({ success: true, message: 'Your Reddit account is verified.', status: 'verified' })
+            : HttpResponse.json(
+                {
+                  success: false,
+                  message: "We couldn't find your code on your Reddit profile yet. You have 9 checks left for this code.",
+                  status: 'code_not_found',
+                  attemptsRemaining: 9,
+                },
+                { status: 422 }
+              );
+        })
+      );
+      renderWithProviders(<Dashboard />);
+
+      expect(await screen.findByText(/prove you own u\/testuser/i)).toBeInTheDocument();
+      await user.click(screen.getByRole('button', { name: /get verification code/i }));
+
+      expect(await screen.findByText('FDU-7KQ2M9XA')).toBeInTheDocument();
+      await user.click(screen.getByRole('button', { name: /check my profile/i }));
+      expect(await screen.findByText(/you have 9 checks left/i)).toBeInTheDocument();
+
+      onProfile = true;
+      await user.click(screen.getByRole('button', { name: /check my profile/i }));
+      expect(await screen.findByText('Reddit account verified')).toBeInTheDocument();
+      expect(screen.getByText('Your Reddit account is verified.')).toBeInTheDocument();
+      expect(screen.queryByText('FDU-7KQ2M9XA')).not.toBeInTheDocument();
+    });
+
+    it('should offer a new code once the open one is spent', async () => {
+      const user = userEvent.setup();
+      unverified({ code: 'FDU-7KQ2M9XA', expiresAt: '2026-10-18T10:30:00.000Z' });
+      server.use(
+        http.post('/api/me/reddit-verification/verify', () => {
+          return HttpResponse.json(
+            {
+              success: false,
+              message: 'You have no active verification code. Please request a new one.',
+              status: 'no_active_code',
+            },
+            { status: 404 }
+          );
+        })
+      );
+      renderWithProviders(<Dashboard />);
+
+      await user.click(await screen.findByRole('button', { name: /check my profile/i }));
+
+      expect(await screen.findByText(/please request a new one/i)).toBeInTheDocument();
+      expect(screen.queryByText('FDU-7KQ2M9XA')).not.toBeInTheDocument();
+      expect(screen.getByRole('button', { name: /get verification code/i })).toBeEnabled();
+    });
+
+    it('should not ask users without a qualification record', async () => {
+      server.use(
+        http.get('/api/me/reddit-verification', () => {
+          return HttpResponse.json({ success: false, message: 'User not found.' }, { status: 404 });
+        })
+      );
+      renderWithProviders(<Dashboard />);
+
+      expect(await screen.findByText('Silicon Valley Consulting')).toBeInTheDocument();
+      expect(screen.queryByText(/reddit account/i)).not.toBeInTheDocument();
+    });
+  });
+});
@@ -5,6 +5,7 @@ import Marketplace from '@/pages/Marketplace';
 import { renderWithProviders } from '../../../utils/test-helpers';
 import { server } from '../../../setup-frontend';
 import { http, HttpResponse } from 'msw';
+import { mockCompanies } from '../../../mocks/companies';
 
 // Mock useNavigate
 const mockNavigate = vi.fn();
@@ -22,41 +23,150 @@ describe('Marketplace Page', () => {
   });
 
   describe('Rendering', () => {
-    it('should render page title and description', () => {
+    it('should render page title and description', async () => {
       renderWithProviders(<Marketplace />);
 
       expect(screen.getByText(/company marketplace/i)).toBeInTheDocument();
       expect(screen.getByText(/connect with leading companies/i)).toBeInTheDocument();
     });
 
-    it('should render all companies', () => {
+    it('should render all companies', async () => {
       renderWithProviders(<Marketplace />);
 
-      expect(screen.getByText(/silicon valley consulting/i)).toBeInTheDocument();
+      expect(await screen.findByText(/silicon valley consulting/i)).toBeInTheDocument();
       expect(screen.getByText(/tech innovations corp/i)).toBeInTheDocument();
       expect(screen.getByText(/digital marketing pro/i)).toBeInTheDocument();
     });
 
-    it('should show available badge for Silicon Valley Consulting', () => {
+    it('should show available badge for Silicon Valley Consulting', async () => {
       renderWithProviders(<Marketplace />);
 
-      expect(screen.getByText(/✓ available/i)).toBeInTheDocument();
+      expect(await screen.findByText(/✓ available/i)).toBeInTheDocument();
     });
 
-    it('should show locked icon for unavailable companies', () => {
+    it('should show each company\'s rating from contractor reviews', async () => {
+      renderWithProviders(<Marketplace />);
+
+      expect(await screen.findByLabelText('Rated 4.5 from 2 reviews')).toHaveTextContent('4.5 (2)');
+      expect(screen.getByLabelText('Rated 4.8 from 3 reviews')).toHaveTextContent('4.8 (3)');
+      expect(screen.getByLabelText('No reviews yet')).toHaveTextContent('New');
+    });
+
+    it('should show locked icon for unavailable companies', async () => {
       renderWithProviders(<Marketplace />);
 
       // Locked companies should have opacity and blur
-      const cards = screen.getAllByText(/tech innovations corp/i);
+      const cards = await screen.findAllByText(/tech innovations corp/i);
       expect(cards.length).toBeGreaterThan(0);
     });
   });
 
+  describe('Company Catalog', () => {
+    it('should load companies from the API', async () => {
+      renderWithProviders(<Marketplace />);
+
+      expect(await screen.findByText(/digital marketing pro/i)).toBeInTheDocument();
+      expect(screen.getByText(/35 hires/i)).toBeInTheDocument();
+    });
+
+    it('should show an error when companies fail to load', async () => {
+      server.use(
+        http.get('/api/companies', () => {
+          return HttpResponse.json(
+            { success: false, message: 'Internal server error: database unavailable' },
+            { status: 500 }
+          );
+        })
+      );
+
+      renderWithProviders(<Marketplace />);
+
+      expect(await screen.findByText(/database unavailable/i)).toBeInTheDocument();
+    });
+  });
+
+  describe('Filters', () => {
+    beforeEach(() => {
+      window.history.replaceState({}, '', '/marketplace');
+    });
+
+    it('should apply filters from the URL', async () => {
+      const requested: string[] = [];
+      server.events.on('request:start', ({ request }) => {
+        if (new URL(request.url).pathname === '/api/companies') requested.push(request.url);
+      });
+      window.history.replaceState({}, '', '/marketplace?category=Technology&sort=rate_desc');
+
+      renderWithProviders(<Marketplace />);
+
+      expect(await screen.findByText(/tech innovations/i)).toBeInTheDocument();
+      expect(screen.queryByText(/digital marketing pro/i)).not.toBeInTheDocument();
+      expect(screen.getByLabelText(/sort by/i)).toHaveValue('rate_desc');
+
+      const params = new URL(requested[0]).searchParams;
+      expect(params.get('category')).toBe('Technology');
+      expect(params.get('sort')).toBe('rate_desc');
+      server.events.removeAllListeners();
+    });
+
+    it('should write a chosen category to the URL', async () => {
+      const user = userEvent.setup();
+      renderWithProviders(<Marketplace />);
+      await screen.findByText(/digital marketing pro/i);
+
+      await user.selectOptions(screen.getByLabelText(/category/i), 'Digital Marketing');
+
+      await waitFor(() => {
+        expect(window.location.search).toBe('?category=Digital+Marketing');
+      });
+      await waitFor(() => {
+        expect(screen.queryByText(/tech innovations/i)).not.toBeInTheDocument();
+      });
+    });
+
+    it('should offer to clear filters when nothing matches', async () => {
+      const user = userEvent.setup();
+      window.history.replaceState({}, '', '/marketplace?q=nothing-matches');
+
+      renderWithProviders(<Marketplace />);
+
+      expect(await screen.findByText(/no companies match your filters/i)).toBeInTheDocument();
+      await user.click(screen.getByRole('button', { name: /clear filters/i }));
+
+      await waitFor(() => expect(window.location.search).toBe(''));
+      expect(await screen.findByText(/digital marketing pro/i)).toBeInTheDocument();
+    });
+
+    it('should load the next page with the cursor', async () => {
+      const user = userEvent.setup();
+      server.use(
+        http.get('/api/companies', ({ request }) => {
+          const cursor = new URL(request.url).searchParams.get('cursor');
+          return HttpResponse.json({
+            success: true,
+            companies: cursor ? [mockCompanies[2]] : mockCompanies.slice(0, 2),
+            categories: [],
+            nextCursor: cursor ? null : 'page-2',
+          });
+        })
+      );
+
+      renderWithProviders(<Marketplace />);
+      await screen.findByText(/tech innovations/i);
+      expect(screen.queryByText(/digital marketing pro/i)).not.toBeInTheDocument();
+
+      await user.click(screen.getByRole('button', { name: /load more companies/i }));
+
+      expect(await screen.findByText(/digital marketing pro/i)).toBeInTheDocument();
+      expect(screen.queryByRole('button', { name: /load more companies/i })).not.toBeInTheDocument();
+    });
+  });
+
   describe('Currency Detection', () => {
-    it('should default to USD while loading', () => {
+    it('should default to USD while loading', async () => {
       renderWithProviders(<Marketplace />);
 
-      const loadingText = screen.getAllByText(/\$--\/hour \+ \$--- bonus/);
+      const loadingText = await screen.findAllByText(/\$--\/hour \+ \$--- bonus/);
       expect(loadingText.length).toBeGreaterThan(0);
     });
 
@@ -103,7 +213,7 @@ describe('Marketplace Page', () => {
       renderWithProviders(<Marketplace />);
 
       // Find Silicon Valley Consulting card (available)
-      const companyCard = screen.getByText(/silicon valley consulting/i).closest('div[class*="Card"]');
+      const companyCard = (await screen.findByText(/silicon valley consulting/i)).closest('div[class*="Card"]');
       if (companyCard) {
         await user.click(companyCard);
       }
@@ -118,7 +228,7 @@ describe('Marketplace Page', () => {
       renderWithProviders(<Marketplace />);
 
       // Find a locked company card
-      const lockedCompany = screen.getByText(/tech innovations corp/i).closest('div[class*="Card"]');
+      const lockedCompany = (await screen.findByText(/tech innovations corp/i)).closest('div[class*="Card"]');
       if (lockedCompany) {
         await user.click(lockedCompany);
       }
@@ -134,7 +244,7 @@ describe('Marketplace Page', () => {
       const user = userEvent.setup();
       renderWithProviders(<Marketplace />);
 
-      const lockedCompany = screen.getByText(/tech innovations corp/i).closest('div[class*="Card"]');
+      const lockedCompany = (await screen.findByText(/tech innovations corp/i)).closest('div[class*="Card"]');
       if (lockedCompany) {
         await user.click(lockedCompany);
       }
@@ -165,23 +275,23 @@ describe('Marketplace Page', () => {
       }, { timeout: 5000 });
     });
 
-    it('should display hire count and rating', () => {
+    it('should display hire count and rating', async () => {
       renderWithProviders(<Marketplace />);
 
-      expect(screen.getByText(/14 hires/i)).toBeInTheDocument();
+      expect(await screen.findByText(/14 hires/i)).toBeInTheDocument();
       expect(screen.getByText(/4\.8/i)).toBeInTheDocument();
     });
 
-    it('should display company categories', () => {
+    it('should display company categories', async () => {
       renderWithProviders(<Marketplace />);
 
-      expect(screen.getByText(/marketing & growth/i)).toBeInTheDocument();
+      expect(await screen.findByText(/marketing & growth/i)).toBeInTheDocument();
       expect(screen.getByText(/technology/i)).toBeInTheDocument();
     });
   });
 
   describe('Navigation', () => {
-    it('should have back to home link', () => {
+    it('should have back to home link', async () => {
       renderWithProviders(<Marketplace />);
 
       const homeLink = screen.getByRole('link', { name: /← back to home/i });
@@ -191,7 +301,7 @@ describe('Marketplace Page', () => {
   });
 
   describe('Info Section', () => {
-    it('should render how marketplace works section', () => {
+    it('should render how marketplace works section', async () => {
       renderWithProviders(<Marketplace />);
 
       expect(screen.getByText(/how our marketplace works/i)).toBeInTheDocument();
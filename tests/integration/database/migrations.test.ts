@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { getTestDatabase } from '../../setup-backend';
+import {
+  getMigrationStatus,
+  loadMigrations,
+  migrateDown,
+  migrateUp,
+  type Migration,
+} from '../../../server/db/migrate';
+
+describe('Migrations', () => {
+  describe('loadMigrations', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(path.join(tmpdir(), 'migrations-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should load the bundled migrations in version order', () => {
+      const migrations = loadMigrations();
+
+      expect(migrations.length).toBeGreaterThan(0);
+      expect(migrations[0]).toMatchObject({ version: 1, name: 'initial_schema' });
+
+      const versions = migrations.map((m) => m.version);
+      expect(versions).toEqual([...versions].sort((a, b) => a - b));
+    });
+
+    it('should pair up and down files and checksum the up SQL', () => {
+      writeFileSync(path.join(dir, '0002_second.up.sql'), 'SELECT 2;');
+      writeFileSync(path.join(dir, '0002_second.down.sql'), 'SELECT -2;');
+      writeFileSync(path.join(dir, '0001_first.up.sql'), 'SELECT 1;');
+      writeFileSync(path.join(dir, '0001_first.down.sql'), 'SELECT -1;');
+
+      const migrations = loadMigrations(dir);
+
+      expect(migrations.map((m) => m.name)).toEqual(['first', 'second']);
+      expect(migrations[0]).toMatchObject({ up: 'SELECT 1;', down: 'SELECT -1;' });
+      expect(migrations[0].checksum).toMatch(/^[a-f0-9]{64}$/);
+    });
+
+    it('should reject a migration without a down file', () => {
+      writeFileSync(path.join(dir, '0001_first.up.sql'), 'SELECT 1;');
+
+      expect(() => loadMigrations(dir)).toThrow('must have both an up and a down file');
+    });
+
+    it('should reject badly named files', () => {
+      writeFileSync(path.join(dir, 'first.sql'), 'SELECT 1;');
+
+      expect(() => loadMigrations(dir)).toThrow("Invalid migration filename 'first.sql'");
+    });
+
+    it('should reject two names sharing a version', () => {
+      writeFileSync(path.join(dir, '0001_first.up.sql'), 'SELECT 1;');
+      writeFileSync(path.join(dir, '0001_other.down.sql'), 'SELECT -1;');
+
+      expect(() => loadMigrations(dir)).toThrow('Migration version 1 is used by both');
+    });
+  });
+
+  describe('runner', () => {
+    const db = getTestDatabase();
+
+    const scratch: Migration = {
+      version: 9001,
+      name: 'scratch_table',
+      up: 'CREATE TABLE migration_scratch (id SERIAL PRIMARY KEY)',
+      down: 'DROP TABLE migration_scratch',
+      checksum: 'scratch-checksum',
+    };
+
+    afterEach(async () => {
+      await db.query('DROP TABLE IF EXISTS migration_scratch');
+      await db.query('DELETE FROM schema_migrations WHERE version = $1', [scratch.version]);
+    });
+
+    it('should record applied migrations and skip them on the next run', async () => {
+      const first = await migrateUp(db, [scratch]);
+      const second = await migrateUp(db, [scratch]);
+
+      expect(first.map((m) => m.version)).toEqual([9001]);
+      expect(second).toEqual([]);
+
+      const row = await db.query('SELECT name, checksum FROM schema_migrations WHERE version = 9001');
+      expect(row.rows[0]).toEqual({ name: 'scratch_table', checksum: 'scratch-checksum' });
+    });
+
+    it('should refuse to run when an applied migration was edited', async () => {
+      await migrateUp(db, [scratch]);
+
+      await expect(
+        migrateUp(db, [{ ...scratch, checksum: 'edited' }])
+      ).rejects.toThrow('Checksum mismatch for migration 9001_scratch_table');
+    });
+
+    it('should revert the newest migration on down', async () => {
+      await migrateUp(db, [scratch]);
+
+      const reverted = await migrateDown(db, 1, [...loadMigrations(), scratch]);
+
+      expect(reverted.map((m) => m.version)).toEqual([9001]);
+      const table = await db.query("SELECT to_regclass('migration_scratch') AS name");
+      expect(table.rows[0].name).toBeNull();
+    });
+
+    it('should report pending and applied migrations in status', async () => {
+      const status = await getMigrationStatus(db, [...loadMigrations(), scratch]);
+
+      expect(status.find((m) => m.version === 1)).toMatchObject({ applied: true });
+      expect(status.find((m) => m.version === 9001)).toMatchObject({
+        applied: false,
+        appliedAt: null,
+      });
+    });
+
+    it('should roll back a failing migration without recording it', async () => {
+      const broken: Migration = { ...scratch, up: 'CREATE TABLE migration_scratch (; invalid' };
+
+      await expect(migrateUp(db, [broken])).rejects.toThrow();
+
+      const row = await db.query('SELECT 1 FROM schema_migrations WHERE version = 9001');
+      expect(row.rows).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest';
+import request from 'supertest';
+import { createServer } from '../../../server/index';
+
+describe('Company catalog API', () => {
+  const app = createServer();
+
+  describe('GET /api/companies', () => {
+    it('should list the seeded companies in marketplace order', async () => {
+      const response = await request(app).get('/api/companies').expect(200);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.companies.length).toBeGreaterThanOrEqual(21);
+      expect(response.body.companies[0]).toMatchObject({
+        slug: 'silicon-valley-consulting',
+        name: 'Silicon Valley Consulting',
+        isAvailable: true,
+      });
+    });
+
+    it('should expose compensation in dollars', async () => {
+      const response = await request(app).get('/api/companies').expect(200);
+      const svc = response.body.companies.find((c: any) => c.slug === 'silicon-valley-consulting');
+
+      expect(svc.hourlyRate).toBe(2);
+      expect(svc.bonus).toBe(500);
+      expect(svc.bonusRule).toBe('approved_hours');
+      expect(svc.bonusThreshold).toBe(20);
+    });
+
+    it('should return every category regardless of filters', async () => {
+      const response = await request(app)
+        .get('/api/companies?category=Technology')
+        .expect(200);
+
+      expect(response.body.categories).toContain('Technology');
+      expect(response.body.categories.length).toBeGreaterThan(1);
+      expect(response.body.companies.every((c: any) => c.category === 'Technology')).toBe(true);
+    });
+
+    it('should search names and descriptions case-insensitively', async () => {
+      const response = await request(app).get('/api/companies?q=SILICON').expect(200);
+
+      expect(response.body.companies.map((c: any) => c.slug)).toContain('silicon-valley-consulting');
+    });
+
+    it('should treat LIKE wildcards in the search as literal text', async () => {
+      const response = await request(app).get('/api/companies?q=%25').expect(200);
+
+      expect(response.body.companies).toEqual([]);
+    });
+
+    it('should filter by hourly rate range in dollars', async () => {
+      const response = await request(app)
+        .get('/api/companies?minRate=3&maxRate=4')
+        .expect(200);
+
+      expect(response.body.companies.length).toBeGreaterThan(0);
+      for (const company of response.body.companies) {
+        expect(company.hourlyRate).toBeGreaterThanOrEqual(3);
+        expect(company.hourlyRate).toBeLessThanOrEqual(4);
+      }
+    });
+
+    it('should sort by hourly rate', async () => {
+      const response = await request(app).get('/api/companies?sort=rate_desc').expect(200);
+      const rates = response.body.companies.map((c: any) => c.hourlyRate);
+
+      expect(rates).toEqual([...rates].sort((a, b) => b - a));
+    });
+
+    it('should page through every company with the cursor', async () => {
+      const all = await request(app).get('/api/companies?sort=hires_desc').expect(200);
+      const paged: string[] = [];
+      let cursor: string | null = null;
+
+      do {
+        const url: string = `/api/companies?sort=hires_desc&limit=5${cursor ? `&cursor=${cursor}` : ''}`;
+        const response = await request(app).get(url).expect(200);
+        expect(response.body.companies.length).toBeLessThanOrEqual(5);
+        paged.push(...response.body.companies.map((c: any) => c.slug));
+        cursor = response.body.nextCursor;
+      } while (cursor);
+
+      expect(paged).toEqual(all.body.companies.map((c: any) => c.slug));
+    });
+
+    it('should reject a cursor issued for a different sort', async () => {
+      const first = await request(app).get('/api/companies?limit=2').expect(200);
+
+      const response = await request(app)
+        .get(`/api/companies?sort=name_asc&cursor=${first.body.nextCursor}`)
+        .expect(400);
+
+      expect(response.body.success).toBe(false);
+      expect(response.body.message).toMatch(/invalid cursor/i);
+    });
+
+    it('should reject a forged cursor whose value does not fit the sort column', async () => {
+      const forge = (cursor: object) => Buffer.from(JSON.stringify(cursor)).toString('base64url');
+
+      for (const cursor of [
+        forge({ sort: 'rate_desc', value: 'abc', slug: 'x' }),
+        forge({ sort: 'rate_desc', value: 1.5, slug: 'x' }),
+        forge({ sort: 'rate_desc', value: 1e12, slug: 'x' }),
+        forge({ sort: 'name_asc', value: 5, slug: 'x' }),
+      ]) {
+        const sort = JSON.parse(Buffer.from(cursor, 'base64url').toString()).sort;
+        const response = await request(app).get(`/api/companies?sort=${sort}&cursor=${cursor}`).expect(400);
+        expect(response.body.message).toMatch(/invalid cursor/i);
+      }
+    });
+
+    it('should reject an inverted rate range', async () => {
+      const response = await request(app)
+        .get('/api/companies?minRate=5&maxRate=1')
+        .expect(400);
+
+      expect(response.body.success).toBe(false);
+      expect(response.body.message).toMatch(/minimum rate cannot be greater/i);
+    });
+
+    it('should reject an unknown sort order', async () => {
+      const response = await request(app).get('/api/companies?sort=cheapest').expect(400);
+
+      expect(response.body.success).toBe(false);
+    });
+  });
+
+  describe('GET /api/companies/:slug', () => {
+    it('should return the company with its tasks', async () => {
+      const response = await request(app)
+        .get('/api/companies/silicon-valley-consulting')
+        .expect(200);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.company.tasks).toHaveLength(3);
+      expect(response.body.company.websiteUrl).toMatch(/^https?:\/\//);
+    });
+
+    it('should return 404 for an unknown slug', async () => {
+      const response = await request(app)
+        .get('/api/companies/no-such-company')
+        .expect(404);
+
+      expect(response.body).toEqual({
+        success: false,
+        message: "Company 'no-such-company' not found",
+      });
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import request from 'supertest';
+import { createServer } from '../../../server/index';
+import {
+  addCompanyAdmin,
+  listCompanyAdmins,
+  removeCompanyAdmin,
+  UnknownCompanyError,
+} from '../../../server/services/company-admins';
+import { getTestDatabase } from '../../setup-backend';
+import { authHeader, testSupabaseUserId } from '../../utils/auth';
+
+describe('Company admins', () => {
+  const app = createServer();
+  const db = getTestDatabase();
+
+  const companySlug = 'silicon-valley-consulting';
+  const adminEmail = 'admins-admin-test@example.com';
+  const adminPath = `/api/admin/companies/${companySlug}/contractor-requests`;
+
+  beforeEach(async () => {
+    await db.query('DELETE FROM company_admins WHERE email ILIKE $1', ['admins-%test%']);
+  });
+
+  describe('Provisioning', () => {
+    it('should add an admin once per company, whatever the email case', async () => {
+      const first = await addCompanyAdmin(adminEmail, companySlug);
+      expect(first).toEqual({
+        admin: { id: expect.any(Number), email: adminEmail, companySlug, supabaseUserId: null },
+        created: true,
+      });
+
+      const again = await addCompanyAdmin(' Admins-Admin-Test@example.com ', companySlug);
+      expect(again).toEqual({ admin: first.admin, created: false });
+
+      await addCompanyAdmin(adminEmail, 'tech-innovations');
+      const ours = (await listCompanyAdmins()).filter((admin) => admin.email === adminEmail);
+      expect(ours.map((admin) => admin.companySlug)).toEqual([companySlug, 'tech-innovations']);
+      expect(await listCompanyAdmins('tech-innovations')).toContainEqual(
+        expect.objectContaining({ email: adminEmail })
+      );
+    });
+
+    it('should refuse companies outside the catalog', async () => {
+      await expect(addCompanyAdmin(adminEmail, 'no-such-company')).rejects.toBeInstanceOf(UnknownCompanyError);
+    });
+
+    it('should remove an admin', async () => {
+      await addCompanyAdmin(adminEmail, companySlug);
+
+      expect(await removeCompanyAdmin(adminEmail.toUpperCase(), companySlug)).toBe(true);
+      expect(await removeCompanyAdmin(adminEmail, companySlug)).toBe(false);
+      await request(app).get(adminPath).set('Authorization', authHeader({ email: adminEmail })).expect(403);
+    });
+  });
+
+  describe('Sign in', () => {
+    it('should let an admin in without a qualification record and link their account', async () => {
+      await addCompanyAdmin(adminEmail, companySlug);
+
+      await request(app).get(adminPath).set('Authorization', authHeader({ email: adminEmail })).expect(200);
+
+      const admin = (await listCompanyAdmins(companySlug)).find((a) => a.email === adminEmail);
+      expect(admin?.supabaseUserId).toBe(testSupabaseUserId(adminEmail));
+    });
+
+    it('should only let the linked account in once the admin has signed in', async () => {
+      await addCompanyAdmin(adminEmail, companySlug);
+      await request(app).get(adminPath).set('Authorization', authHeader({ email: adminEmail })).expect(200);
+
+      const otherAccount = authHeader({ email: adminEmail, sub: testSupabaseUserId('admins-other-test@example.com') });
+      await request(app).get(adminPath).set('Authorization', otherAccount).expect(403);
+    });
+  });
+});
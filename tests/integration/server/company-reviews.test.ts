@@ -0,0 +1,228 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import request from 'supertest';
+import { createServer } from '../../../server/index';
+import { listFlaggedCompanyReviews, setCompanyReviewHidden } from '../../../server/services/company-reviews';
+import { getTestDatabase } from '../../setup-backend';
+import { authHeader } from '../../utils/auth';
+
+describe('Company reviews', () => {
+  const app = createServer();
+  const db = getTestDatabase();
+
+  // A company no other test reviews, so its rating is only what these tests leave
+  const slug = 'ux-design-collective';
+  const basePath = `/api/companies/${slug}/reviews`;
+  const emails = [1, 2, 3, 4].map((n) => `company-review-${n}-test@example.com`);
+  const [reviewerAuth, ...otherAuths] = emails.map((email) => authHeader({ email }));
+
+  let userIds: number[];
+
+  async function insertUser(email: string): Promise<number> {
+    const result = await db.query(
+      `INSERT INTO users (email, phone, reddit_username, reddit_verified)
+       VALUES ($1, '1234567890', 'reviewtest', true)
+       RETURNING id`,
+      [email]
+    );
+    return result.rows[0].id;
+  }
+
+  async function insertContractor(userId: number, email: string, status: string) {
+    await db.query(
+      `INSERT INTO contractors (user_id, email, company_slug, company_name, status, joined_slack, can_start_job)
+       VALUES ($1, $2, $3, 'UX Design Collective', $4, true, false)`,
+      [userId, email, slug, status]
+    );
+  }
+
+  const review = (auth: string, body: object) =>
+    request(app).post(basePath).set('Authorization', auth).send(body);
+
+  const company = async () => (await request(app).get(`/api/companies/${slug}`).expect(200)).body.company;
+
+  beforeEach(async () => {
+    await db.query('DELETE FROM company_reviews WHERE company_slug = $1', [slug]);
+    await db.query('DELETE FROM contractors WHERE email LIKE $1', ['company-review-%test%']);
+    await db.query('DELETE FROM users WHERE email LIKE $1', ['company-review-%test%']);
+    await db.query('DELETE FROM company_admins WHERE email LIKE $1', ['company-review-%test%']);
+
+    userIds = [];
+    for (const email of emails) {
+      const userId = await insertUser(email);
+      userIds.push(userId);
+      await insertContractor(userId, email, 'completed');
+    }
+  });
+
+  describe('POST /api/companies/:slug/reviews', () => {
+    it('should save a review from a contractor who completed an engagement', async () => {
+      const response = await review(reviewerAuth, { rating: 4, comment: 'Fair and organized' }).expect(201);
+
+      expect(response.body).toEqual({
+        success: true,
+        message: 'Thanks for your review',
+        review: {
+          id: expect.any(Number),
+          companySlug: slug,
+          rating: 4,
+          comment: 'Fair and organized',
+          createdAt: expect.any(String),
+        },
+      });
+    });
+
+    it('should only take one review per company from each user', async () => {
+      await review(reviewerAuth, { rating: 4 }).expect(201);
+
+      const response = await review(reviewerAuth, { rating: 1 }).expect(409);
+      expect(response.body.message).toBe('You have already reviewed this company.');
+    });
+
+    it('should refuse users without a completed engagement', async () => {
+      await db.query("UPDATE contractors SET status = 'active' WHERE user_id = $1", [userIds[0]]);
+
+      const response = await review(reviewerAuth, { rating: 5 }).expect(403);
+      expect(response.body.message).toBe(
+        'Only contractors who completed an engagement with UX Design Collective can review it.'
+      );
+    });
+
+    it('should validate the rating', async () => {
+      const response = await review(reviewerAuth, { rating: 6 }).expect(400);
+      expect(response.body.message).toBe('Rating must be between 1 and 5 stars');
+    });
+
+    it('should 404 for an unknown company and require sign in', async () => {
+      await request(app)
+        .post('/api/companies/no-such-company/reviews')
+        .set('Authorization', reviewerAuth)
+        .send({ rating: 5 })
+        .expect(404);
+      await request(app).post(basePath).send({ rating: 5 }).expect(401);
+    });
+  });
+
+  describe('Company rating', () => {
+    it('should average the visible reviews on the company', async () => {
+      expect(await company()).toMatchObject({ rating: null, reviewCount: 0 });
+
+      await review(reviewerAuth, { rating: 5 }).expect(201);
+      await review(otherAuths[0], { rating: 4 }).expect(201);
+      await review(otherAuths[1], { rating: 4 }).expect(201);
+
+      expect(await company()).toMatchObject({ rating: 4.3, reviewCount: 3 });
+
+      const list = await request(app).get('/api/companies').query({ q: 'UX Design' }).expect(200);
+      expect(list.body.companies[0]).toMatchObject({ slug, rating: 4.3, reviewCount: 3 });
+    });
+  });
+
+  describe('GET /api/companies/:slug/reviews', () => {
+    it('should page through the reviews, newest first', async () => {
+      await review(reviewerAuth, { rating: 5, comment: 'first' }).expect(201);
+      await review(otherAuths[0], { rating: 4, comment: 'second' }).expect(201);
+      await review(otherAuths[1], { rating: 3, comment: 'third' }).expect(201);
+
+      const first = await request(app).get(basePath).query({ limit: 2 }).expect(200);
+      expect(first.body.reviews.map((r: any) => r.comment)).toEqual(['third', 'second']);
+      expect(first.body.nextCursor).toEqual(expect.any(String));
+      expect(first.body.reviews[0]).not.toHaveProperty('userId');
+
+      const second = await request(app)
+        .get(basePath)
+        .query({ limit: 2, cursor: first.body.nextCursor })
+        .expect(200);
+      expect(second.body.reviews.map((r: any) => r.comment)).toEqual(['first']);
+      expect(second.body.nextCursor).toBeNull();
+    });
+
+    it('should reject bad cursors and unknown companies', async () => {
+      const response = await request(app).get(basePath).query({ cursor: 'not-a-cursor' }).expect(400);
+      expect(response.body.message).toBe('Invalid cursor. Please start again from the first page.');
+
+      await request(app).get('/api/companies/no-such-company/reviews').expect(404);
+    });
+  });
+
+  describe('Moderation', () => {
+    // Users with no request to the company, whose reports count towards hiding a review
+    const reporterEmails = [1, 2, 3].map((n) => `company-review-reporter-${n}-test@example.com`);
+    const reporterAuths = reporterEmails.map((email) => authHeader({ email }));
+
+    let reviewId: number;
+
+    const flag = (auth: string, id = reviewId) =>
+      request(app)
+        .post(`${basePath}/${id}/flags`)
+        .set('Authorization', auth)
+        .send({ reason: 'Abusive language' });
+
+    beforeEach(async () => {
+      for (const email of reporterEmails) {
+        await insertUser(email);
+      }
+      await review(otherAuths[2], { rating: 4 }).expect(201);
+      reviewId = (await review(reviewerAuth, { rating: 1, comment: 'Rude' }).expect(201)).body.review.id;
+    });
+
+    it('should hide a review once three users report it', async () => {
+      await flag(reporterAuths[0]).expect(200);
+      await flag(reporterAuths[0]).expect(200);
+      await flag(reporterAuths[1]).expect(200);
+      expect(await company()).toMatchObject({ rating: 2.5, reviewCount: 2 });
+
+      const response = await flag(reporterAuths[2]).expect(200);
+      expect(response.body.message).toBe("Thanks for letting us know. We'll take a look.");
+
+      expect(await company()).toMatchObject({ rating: 4, reviewCount: 1 });
+      const list = await request(app).get(basePath).expect(200);
+      expect(list.body.reviews.map((r: any) => r.id)).not.toContain(reviewId);
+      await flag(reporterAuths[0]).expect(404);
+    });
+
+    it('should not count reports from the company\'s admins or contractors', async () => {
+      const adminEmail = 'company-review-admin-test@example.com';
+      await insertUser(adminEmail);
+      await db.query('INSERT INTO company_admins (email, company_slug) VALUES ($1, $2)', [adminEmail, slug]);
+
+      await flag(authHeader({ email: adminEmail })).expect(200);
+      await flag(otherAuths[0]).expect(200);
+      await flag(otherAuths[1]).expect(200);
+      await flag(reporterAuths[0]).expect(200);
+      await flag(reporterAuths[1]).expect(200);
+
+      expect(await company()).toMatchObject({ reviewCount: 2 });
+      const flagged = (await listFlaggedCompanyReviews()).find((r) => r.id === reviewId);
+      expect(flagged).toMatchObject({ hidden: false, flagCount: 5 });
+
+      await flag(reporterAuths[2]).expect(200);
+      expect(await company()).toMatchObject({ reviewCount: 1 });
+    });
+
+    it('should require a reason', async () => {
+      const response = await request(app)
+        .post(`${basePath}/${reviewId}/flags`)
+        .set('Authorization', reporterAuths[0])
+        .send({ reason: ' ' })
+        .expect(400);
+      expect(response.body.message).toBe('Please say what is wrong with this review');
+    });
+
+    it('should let support list reported reviews and restore them', async () => {
+      for (const auth of reporterAuths) {
+        await flag(auth).expect(200);
+      }
+
+      const flagged = (await listFlaggedCompanyReviews()).find((r) => r.id === reviewId);
+      expect(flagged).toMatchObject({ hidden: true, flagCount: 3, reasons: expect.arrayContaining(['Abusive language']) });
+
+      await setCompanyReviewHidden(reviewId, false);
+      expect(await company()).toMatchObject({ reviewCount: 2 });
+      expect((await listFlaggedCompanyReviews()).map((r) => r.id)).not.toContain(reviewId);
+
+      await setCompanyReviewHidden(reviewId, true);
+      expect(await company()).toMatchObject({ reviewCount: 1 });
+      await expect(setCompanyReviewHidden(999999, true)).rejects.toThrow('Company review 999999 not found');
+    });
+  });
+});
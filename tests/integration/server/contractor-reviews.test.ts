@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import request from 'supertest';
+import { createServer } from '../../../server/index';
+import { getTestDatabase } from '../../setup-backend';
+import { authHeader } from '../../utils/auth';
+
+describe('Company admin review queue', () => {
+  const app = createServer();
+  const db = getTestDatabase();
+
+  const companySlug = 'silicon-valley-consulting';
+  const adminEmail = 'review-admin-test@example.com';
+  const contractorEmail = 'review-contractor-test@example.com';
+  const adminAuth = authHeader({ email: adminEmail });
+  const basePath = `/api/admin/companies/${companySlug}/contractor-requests`;
+
+  let adminId: number;
+  let contractorId: number;
+
+  async function insertUser(email: string) {
+    const result = await db.query(
+      `INSERT INTO users (email, phone, reddit_username, reddit_verified)
+       VALUES ($1, '1234567890', 'reviewtest', true)
+       RETURNING id`,
+      [email]
+    );
+    return result.rows[0].id as number;
+  }
+
+  beforeEach(async () => {
+    await db.query('DELETE FROM contractors WHERE email LIKE $1', ['%review-%test%']);
+    await db.query('DELETE FROM users WHERE email LIKE $1', ['%review-%test%']);
+    await db.query('DELETE FROM company_admins WHERE email LIKE $1', ['%review-%test%']);
+
+    const userId = await insertUser(contractorEmail);
+
+    const admin = await db.query(
+      'INSERT INTO company_admins (email, company_slug) VALUES ($1, $2) RETURNING id',
+      [adminEmail, companySlug]
+    );
+    adminId = admin.rows[0].id;
+    const contractor = await db.query(
+      `INSERT INTO contractors (user_id, email, company_slug, company_name, status, joined_slack, can_start_job)
+       VALUES ($1, $2, $3, 'Silicon Valley Consulting', 'pending', true, false)
+       RETURNING id`,
+      [userId, contractorEmail, companySlug]
+    );
+    contractorId = contractor.rows[0].id;
+  });
+
+  describe('Access control', () => {
+    it('should require an access token', async () => {
+      await request(app).get(basePath).expect(401);
+    });
+
+    it('should reject users who are not admins of the company', async () => {
+      const response = await request(app)
+        .get(basePath)
+        .set('Authorization', authHeader({ email: contractorEmail }))
+        .expect(403);
+
+      expect(response.body).toEqual({
+        success: false,
+        message: 'You do not have permission to manage this company.',
+      });
+    });
+
+    it('should not let an admin review another company', async () => {
+      await request(app)
+        .get('/api/admin/companies/tech-innovations/contractor-requests')
+        .set('Authorization', adminAuth)
+        .expect(403);
+    });
+  });
+
+  describe('GET contractor-requests', () => {
+    it('should list pending requests by default', async () => {
+      const response = await request(app).get(basePath).set('Authorization', adminAuth).expect(200);
+
+      const mine = response.body.requests.filter((r: any) => r.email === contractorEmail);
+      expect(mine).toHaveLength(1);
+      expect(mine[0]).toMatchObject({
+        id: contractorId,
+        redditUsername: 'reviewtest',
+        status: 'pending',
+        canStartJob: false,
+      });
+    });
+
+    it('should reject an unknown status filter', async () => {
+      await request(app).get(`${basePath}?status=archived`).set('Authorization', adminAuth).expect(400);
+    });
+  });
+
+  describe('POST review', () => {
+    it('should accept a request and let the contractor start work', async () => {
+      const response = await request(app)
+        .post(`${basePath}/${contractorId}/review`)
+        .set('Authorization', adminAuth)
+        .send({ decision: 'accept' })
+        .expect(200);
+
+      expect(response.body.request).toMatchObject({ status: 'accepted', canStartJob: true });
+
+      const contractor = await db.query('SELECT status, can_start_job FROM contractors WHERE id = $1', [
+        contractorId,
+      ]);
+      expect(contractor.rows[0]).toEqual({ status: 'accepted', can_start_job: true });
+    });
+
+    it('should reject a request with a reason and record the actor', async () => {
+      await request(app)
+        .post(`${basePath}/${contractorId}/review`)
+        .set('Authorization', adminAuth)
+        .send({ decision: 'reject', reason: 'Account too new' })
+        .expect(200);
+
+      const history = await request(app)
+        .get(`${basePath}/${contractorId}/history`)
+        .set('Authorization', adminAuth)
+        .expect(200);
+
+      expect(history.body.history).toHaveLength(1);
+      expect(history.body.history[0]).toMatchObject({
+        fromStatus: 'pending',
+        toStatus: 'rejected',
+        canStartJob: false,
+        reason: 'Account too new',
+        actorEmail: adminEmail,
+      });
+
+      const row = await db.query(
+        'SELECT actor_user_id, actor_admin_id, created_at FROM contractor_status_events WHERE contractor_id = $1',
+        [contractorId]
+      );
+      expect(row.rows[0]).toMatchObject({ actor_user_id: null, actor_admin_id: adminId });
+      expect(row.rows[0].created_at).toBeInstanceOf(Date);
+    });
+
+    it('should require a reason when rejecting', async () => {
+      const response = await request(app)
+        .post(`${basePath}/${contractorId}/review`)
+        .set('Authorization', adminAuth)
+        .send({ decision: 'reject' })
+        .expect(400);
+
+      expect(response.body.message).toBe('A reason is required when rejecting a request');
+    });
+
+    it('should not review the same request twice', async () => {
+      await request(app)
+        .post(`${basePath}/${contractorId}/review`)
+        .set('Authorization', adminAuth)
+        .send({ decision: 'accept' })
+        .expect(200);
+
+      const response = await request(app)
+        .post(`${basePath}/${contractorId}/review`)
+        .set('Authorization', adminAuth)
+        .send({ decision: 'reject', reason: 'Changed my mind' })
+        .expect(409);
+
+      expect(response.body.message).toBe('A company cannot move a contractor request from accepted to rejected.');
+
+      const history = await db.query('SELECT 1 FROM contractor_status_events WHERE contractor_id = $1', [
+        contractorId,
+      ]);
+      expect(history.rows).toHaveLength(1);
+    });
+
+    it('should return 404 for a request belonging to another company', async () => {
+      await db.query(
+        'INSERT INTO company_admins (email, company_slug) VALUES ($1, $2)',
+        [adminEmail, 'tech-innovations']
+      );
+
+      await request(app)
+        .post(`/api/admin/companies/tech-innovations/contractor-requests/${contractorId}/review`)
+        .set('Authorization', adminAuth)
+        .send({ decision: 'accept' })
+        .expect(404);
+    });
+  });
+});
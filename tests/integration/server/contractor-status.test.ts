@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import request from 'supertest';
+import { createServer } from '../../../server/index';
+import {
+  assertContractorTransition,
+  InvalidContractorTransitionError,
+} from '../../../server/services/contractor-status';
+import { CONTRACTOR_STATUSES, getAllowedTransitions } from '../../../shared/schemas';
+import { getTestDatabase } from '../../setup-backend';
+import { authHeader } from '../../utils/auth';
+
+describe('Contractor status state machine', () => {
+  describe('assertContractorTransition', () => {
+    it('should allow the documented lifecycle', () => {
+      expect(() => assertContractorTransition('pending', 'accepted', 'company')).not.toThrow();
+      expect(() => assertContractorTransition('accepted', 'active', 'company')).not.toThrow();
+      expect(() => assertContractorTransition('active', 'suspended', 'company')).not.toThrow();
+      expect(() => assertContractorTransition('suspended', 'active', 'company')).not.toThrow();
+      expect(() => assertContractorTransition('active', 'completed', 'company')).not.toThrow();
+      expect(() => assertContractorTransition('pending', 'withdrawn', 'contractor')).not.toThrow();
+    });
+
+    it('should throw a typed error for illegal transitions', () => {
+      try {
+        assertContractorTransition('rejected', 'accepted', 'company');
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(InvalidContractorTransitionError);
+        expect(error).toMatchObject({ from: 'rejected', to: 'accepted', actor: 'company' });
+      }
+    });
+
+    it('should only let each actor make its own transitions', () => {
+      expect(() => assertContractorTransition('pending', 'withdrawn', 'company')).toThrow(
+        InvalidContractorTransitionError
+      );
+      expect(() => assertContractorTransition('pending', 'accepted', 'contractor')).toThrow(
+        InvalidContractorTransitionError
+      );
+    });
+
+    it('should treat rejected, withdrawn and completed as terminal', () => {
+      for (const status of ['rejected', 'withdrawn', 'completed'] as const) {
+        expect(getAllowedTransitions(status)).toEqual([]);
+      }
+    });
+
+    it('should only name known statuses in the transition table', () => {
+      for (const status of CONTRACTOR_STATUSES) {
+        for (const transition of getAllowedTransitions(status)) {
+          expect(CONTRACTOR_STATUSES).toContain(transition.to);
+        }
+      }
+    });
+  });
+
+  describe('POST /api/admin/companies/:slug/contractor-requests/:id/status', () => {
+    const app = createServer();
+    const db = getTestDatabase();
+
+    const companySlug = 'silicon-valley-consulting';
+    const adminEmail = 'status-admin-test@example.com';
+    const adminAuth = authHeader({ email: adminEmail });
+    let contractorId: number;
+
+    const changeStatus = (body: object) =>
+      request(app)
+        .post(`/api/admin/companies/${companySlug}/contractor-requests/${contractorId}/status`)
+        .set('Authorization', adminAuth)
+        .send(body);
+
+    beforeEach(async () => {
+      await db.query('DELETE FROM contractors WHERE email LIKE $1', ['%status-%test%']);
+      await db.query('DELETE FROM users WHERE email LIKE $1', ['%status-%test%']);
+      await db.query('DELETE FROM company_admins WHERE email LIKE $1', ['%status-%test%']);
+
+      const users = await db.query(
+        `INSERT INTO users (email, phone, reddit_username, reddit_verified)
+         VALUES ('status-contractor-test@example.com', '1234567890', 'statustest', true)
+         RETURNING id`
+      );
+      await db.query('INSERT INTO company_admins (email, company_slug) VALUES ($1, $2)', [
+        adminEmail,
+        companySlug,
+      ]);
+      const contractor = await db.query(
+        `INSERT INTO contractors (user_id, email, company_slug, company_name, status, joined_slack, can_start_job)
+         VALUES ($1, 'status-contractor-test@example.com', $2, 'Silicon Valley Consulting', 'pending', true, false)
+         RETURNING id`,
+        [users.rows[0].id, companySlug]
+      );
+      contractorId = contractor.rows[0].id;
+    });
+
+    it('should walk a contractor through the full lifecycle and record every event', async () => {
+      await changeStatus({ status: 'accepted' }).expect(200);
+      await changeStatus({ status: 'active' }).expect(200);
+      await changeStatus({ status: 'suspended', reason: 'Missed deadlines' }).expect(200);
+      await changeStatus({ status: 'active' }).expect(200);
+      const response = await changeStatus({ status: 'completed' }).expect(200);
+
+      expect(response.body.request).toMatchObject({ status: 'completed', canStartJob: false });
+
+      const events = await db.query(
+        `SELECT from_status, to_status, can_start_job, reason
+         FROM contractor_status_events WHERE contractor_id = $1 ORDER BY id`,
+        [contractorId]
+      );
+      expect(events.rows).toEqual([
+        { from_status: 'pending', to_status: 'accepted', can_start_job: true, reason: null },
+        { from_status: 'accepted', to_status: 'active', can_start_job: true, reason: null },
+        { from_status: 'active', to_status: 'suspended', can_start_job: false, reason: 'Missed deadlines' },
+        { from_status: 'suspended', to_status: 'active', can_start_job: true, reason: null },
+        { from_status: 'active', to_status: 'completed', can_start_job: false, reason: null },
+      ]);
+    });
+
+    it('should reject illegal transitions with 409 and leave the status unchanged', async () => {
+      const response = await changeStatus({ status: 'completed' }).expect(409);
+
+      expect(response.body).toEqual({
+        success: false,
+        message: 'A company cannot move a contractor request from pending to completed.',
+      });
+
+      const contractor = await db.query('SELECT status FROM contractors WHERE id = $1', [contractorId]);
+      expect(contractor.rows[0].status).toBe('pending');
+    });
+
+    it('should not let a company withdraw on behalf of a contractor', async () => {
+      await changeStatus({ status: 'withdrawn' }).expect(409);
+    });
+
+    it('should require a reason to suspend', async () => {
+      await changeStatus({ status: 'accepted' }).expect(200);
+      await changeStatus({ status: 'active' }).expect(200);
+
+      const response = await changeStatus({ status: 'suspended' }).expect(400);
+
+      expect(response.body.message).toBe('A reason is required for this status change');
+    });
+
+    it('should reject unknown statuses', async () => {
+      await changeStatus({ status: 'archived' }).expect(400);
+    });
+
+    it('should refuse statuses outside the database constraint', async () => {
+      await expect(
+        db.query("UPDATE contractors SET status = 'archived' WHERE id = $1", [contractorId])
+      ).rejects.toMatchObject({ code: '23514' });
+    });
+  });
+});
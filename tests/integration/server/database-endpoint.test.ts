@@ -3,6 +3,7 @@ import request from 'supertest';
 import { createServer } from '../../../server/index';
 import { getTestDatabase } from '../../setup-backend';
 import { createTestUserForInsert } from '../../factories/user';
+import { authHeader } from '../../utils/auth';
 
 // Store app instance in global scope for reuse
 declare global {
@@ -176,10 +177,10 @@ describe('Database-Backed Endpoint', () => {
       // Create contractor request
       const response = await request(app)
         .post('/api/contractor-request')
+        .set('Authorization', authHeader({ email: 'contractor@test.com' }))
         .send({
-          email: 'contractor@test.com',
-          companySlug: 'test-company',
-          companyName: 'Test Company',
+          companySlug: 'silicon-valley-consulting',
+          companyName: 'Not The Real Name',
         })
         .expect(200);
 
@@ -188,24 +189,72 @@ describe('Database-Backed Endpoint', () => {
       // Verify contractor was created in database
       const contractorResult = await db.query(
         'SELECT * FROM contractors WHERE user_id = $1 AND company_slug = $2',
-        [userId, 'test-company']
+        [userId, 'silicon-valley-consulting']
       );
 
       expect(contractorResult.rows).toHaveLength(1);
       expect(contractorResult.rows[0]).toMatchObject({
         user_id: userId,
         email: 'contractor@test.com',
-        company_slug: 'test-company',
-        company_name: 'Test Company',
+        company_slug: 'silicon-valley-consulting',
+        company_name: 'Silicon Valley Consulting',
         status: 'pending',
       });
     });
 
+    it('should only refuse a new request while an earlier one is still live', async () => {
+      await db.query(
+        `INSERT INTO users (email, phone, reddit_username, reddit_verified)
+         VALUES ($1, $2, $3, $4)`,
+        ['contractor@test.com', '2222222222', 'testuser', true]
+      );
+      const requestToJoin = () =>
+        request(app)
+          .post('/api/contractor-request')
+          .set('Authorization', authHeader({ email: 'contractor@test.com' }))
+          .send({ companySlug: 'silicon-valley-consulting' });
+
+      await requestToJoin().expect(200);
+      const duplicate = await requestToJoin().expect(400);
+      expect(duplicate.body.message).toBe(
+        'You have already requested to join this company. Please check your email for updates.'
+      );
+
+      await db.query("UPDATE contractors SET status = 'withdrawn' WHERE email = $1", ['contractor@test.com']);
+      await requestToJoin().expect(200);
+
+      const statuses = await db.query('SELECT status FROM contractors WHERE email = $1 ORDER BY id', [
+        'contractor@test.com',
+      ]);
+      expect(statuses.rows).toEqual([{ status: 'withdrawn' }, { status: 'pending' }]);
+    });
+
+    it('should return 404 for a company that is not in the catalog', async () => {
+      await db.query(
+        `INSERT INTO users (email, phone, reddit_username, reddit_verified)
+         VALUES ($1, $2, $3, $4)`,
+        ['contractor@test.com', '2222222222', 'testuser', true]
+      );
+
+      const response = await request(app)
+        .post('/api/contractor-request')
+        .set('Authorization', authHeader({ email: 'contractor@test.com' }))
+        .send({ companySlug: 'made-up-company', companyName: 'Made Up' })
+        .expect(404);
+
+      expect(response.body).toEqual({ success: false, message: "Company 'made-up-company' not found" });
+
+      const contractorResult = await db.query('SELECT * FROM contractors WHERE email = $1', [
+        'contractor@test.com',
+      ]);
+      expect(contractorResult.rows).toHaveLength(0);
+    });
+
     it('should return 404 when user does not exist', async () => {
       const response = await request(app)
         .post('/api/contractor-request')
+        .set('Authorization', authHeader({ email: 'nonexistent@test.com' }))
         .send({
-          email: 'nonexistent@test.com',
           companySlug: 'test-company',
           companyName: 'Test Company',
         })
@@ -232,8 +281,8 @@ describe('Database-Backed Endpoint', () => {
       // Try to create contractor with invalid data (should fail validation)
       const response = await request(app)
         .post('/api/contractor-request')
+        .set('Authorization', authHeader({ email: 'transaction@test.com' }))
         .send({
-          email: 'transaction@test.com',
           // Missing required fields
         })
         .expect(400);
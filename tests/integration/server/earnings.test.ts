@@ -0,0 +1,223 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { randomUUID } from 'crypto';
+import request from 'supertest';
+import { createServer } from '../../../server/index';
+import { withTransaction } from '../../../server/db';
+import { postLedgerTransaction, recordDailyDataAccess } from '../../../server/earnings';
+import { getDailyDataAccessRates } from '../../../server/earnings/rates';
+import { getTestDatabase } from '../../setup-backend';
+import { authHeader } from '../../utils/auth';
+
+describe('Earnings ledger', () => {
+  const app = createServer();
+  const db = getTestDatabase();
+
+  const email = 'earnings-test@example.com';
+  const otherEmail = 'earnings-other-test@example.com';
+  const redditRate = { platform: 'reddit' as const, amountCents: 500, currency: 'USD' };
+
+  let userId: number;
+  let otherUserId: number;
+
+  const createUser = async (userEmail: string, redditUsername: string, redditVerified: boolean) => {
+    const result = await db.query(
+      `INSERT INTO users (email, phone, reddit_username, reddit_verified, twitter_username, twitter_verified)
+       VALUES ($1, '1234567890', $2, $3, $4, true)
+       RETURNING id`,
+      [userEmail, redditUsername, redditVerified, `${redditUsername}_tw`]
+    );
+    return result.rows[0].id as number;
+  };
+
+  const entriesFor = async (id: number) => {
+    const result = await db.query(
+      `SELECT transaction_id, platform, account, amount_cents::int AS amount_cents, currency, description
+       FROM ledger_entries WHERE user_id = $1 ORDER BY id`,
+      [id]
+    );
+    return result.rows;
+  };
+
+  beforeEach(async () => {
+    await db.query('DELETE FROM users WHERE email LIKE $1', ['earnings-%test%']);
+    userId = await createUser(email, 'earner', true);
+    otherUserId = await createUser(otherEmail, 'unproven', false);
+  });
+
+  describe('getDailyDataAccessRates', () => {
+    it('should only pay Reddit daily by default', () => {
+      expect(getDailyDataAccessRates({})).toEqual([redditRate]);
+    });
+
+    it('should read rates and the currency from the environment', () => {
+      expect(
+        getDailyDataAccessRates({
+          REDDIT_DAILY_RATE_CENTS: '0',
+          TWITTER_DAILY_RATE_CENTS: '125',
+          EARNINGS_CURRENCY: 'eur',
+        })
+      ).toEqual([{ platform: 'twitter', amountCents: 125, currency: 'EUR' }]);
+    });
+
+    it('should reject invalid configuration', () => {
+      expect(() => getDailyDataAccessRates({ REDDIT_DAILY_RATE_CENTS: '4.99' })).toThrow(
+        "REDDIT_DAILY_RATE_CENTS must be a non-negative integer, got '4.99'"
+      );
+      expect(() => getDailyDataAccessRates({ EARNINGS_CURRENCY: 'dollars' })).toThrow(
+        'EARNINGS_CURRENCY must be a 3-letter currency code'
+      );
+    });
+  });
+
+  describe('recordDailyDataAccess', () => {
+    it('should credit each verified account against the platform', async () => {
+      const result = await recordDailyDataAccess('2026-03-01', [redditRate]);
+
+      expect(result.accessDate).toBe('2026-03-01');
+      expect(result.recorded.reddit).toBeGreaterThanOrEqual(1);
+      const entries = await entriesFor(userId);
+      expect(entries).toEqual([
+        {
+          transaction_id: entries[0].transaction_id,
+          platform: 'reddit',
+          account: 'user_earnings',
+          amount_cents: 500,
+          currency: 'USD',
+          description: 'Reddit data access for earner on 2026-03-01',
+        },
+        expect.objectContaining({
+          transaction_id: entries[0].transaction_id,
+          account: 'platform_receivable',
+          amount_cents: -500,
+        }),
+      ]);
+      expect(await entriesFor(otherUserId)).toEqual([]);
+    });
+
+    it('should record each account at most once a day', async () => {
+      await recordDailyDataAccess('2026-03-01', [redditRate]);
+      const rerun = await recordDailyDataAccess('2026-03-01', [redditRate]);
+      await recordDailyDataAccess('2026-03-02', [redditRate]);
+
+      expect(rerun.recorded.reddit).toBe(0);
+      const events = await db.query(
+        `SELECT to_char(access_date, 'YYYY-MM-DD') AS access_date, platform_username, amount_cents
+         FROM data_access_events WHERE user_id = $1 ORDER BY access_date`,
+        [userId]
+      );
+      expect(events.rows).toEqual([
+        { access_date: '2026-03-01', platform_username: 'earner', amount_cents: 500 },
+        { access_date: '2026-03-02', platform_username: 'earner', amount_cents: 500 },
+      ]);
+    });
+
+    it('should pay other platforms at their configured rate', async () => {
+      await recordDailyDataAccess('2026-03-01', [
+        { platform: 'twitter', amountCents: 125, currency: 'USD' },
+      ]);
+
+      const entries = await entriesFor(otherUserId);
+      expect(entries.map((e) => [e.platform, e.account, e.amount_cents])).toEqual([
+        ['twitter', 'user_earnings', 125],
+        ['twitter', 'platform_receivable', -125],
+      ]);
+    });
+
+    it('should reject a malformed date', async () => {
+      await expect(recordDailyDataAccess('03/01/2026', [redditRate])).rejects.toThrow(
+        "Invalid access date '03/01/2026'"
+      );
+    });
+  });
+
+  describe('Double entry', () => {
+    it('should refuse legs that do not sum to zero', async () => {
+      await expect(
+        postLedgerTransaction(db, {
+          userId,
+          platform: 'reddit',
+          currency: 'USD',
+          description: 'Unbalanced',
+          legs: [{ account: 'user_earnings', amountCents: 100 }],
+        })
+      ).rejects.toThrow('Ledger transaction does not balance: legs sum to 100');
+    });
+
+    it('should refuse to commit an unbalanced transaction written directly', async () => {
+      await expect(
+        withTransaction(async (client) => {
+          await client.query(
+            `INSERT INTO ledger_entries (transaction_id, user_id, platform, account, amount_cents, currency, description)
+             VALUES ($1, $2, 'reddit', 'user_earnings', 100, 'USD', 'Unbalanced')`,
+            [randomUUID(), userId]
+          );
+        })
+      ).rejects.toThrow(/does not balance/);
+
+      expect(await entriesFor(userId)).toEqual([]);
+    });
+  });
+
+  describe('GET /api/me/earnings', () => {
+    it('should require an access token', async () => {
+      await request(app).get('/api/me/earnings').expect(401);
+    });
+
+    it('should return zero balances before any access', async () => {
+      const response = await request(app)
+        .get('/api/me/earnings')
+        .set('Authorization', authHeader({ email }))
+        .expect(200);
+
+      expect(response.body).toEqual({ success: true, balances: [], platforms: [], history: [] });
+    });
+
+    it('should return balances per currency and platform with the newest history first', async () => {
+      await recordDailyDataAccess('2026-03-01', [redditRate]);
+      await recordDailyDataAccess('2026-03-02', [redditRate]);
+      await recordDailyDataAccess('2026-03-02', [{ platform: 'twitter', amountCents: 125, currency: 'USD' }]);
+
+      const response = await request(app)
+        .get('/api/me/earnings?limit=2')
+        .set('Authorization', authHeader({ email }))
+        .expect(200);
+
+      expect(response.body.balances).toEqual([{ currency: 'USD', amountCents: 1125 }]);
+      expect(response.body.platforms).toEqual([
+        { platform: 'reddit', currency: 'USD', amountCents: 1000 },
+        { platform: 'twitter', currency: 'USD', amountCents: 125 },
+      ]);
+      expect(response.body.history).toEqual([
+        {
+          id: expect.any(Number),
+          platform: 'twitter',
+          amountCents: 125,
+          currency: 'USD',
+          description: 'Twitter data access for earner_tw on 2026-03-02',
+          accessDate: '2026-03-02',
+          createdAt: expect.any(String),
+        },
+        expect.objectContaining({ platform: 'reddit', accessDate: '2026-03-02' }),
+      ]);
+    });
+
+    it('should only show the signed-in user\'s earnings', async () => {
+      await recordDailyDataAccess('2026-03-01', [{ platform: 'twitter', amountCents: 125, currency: 'USD' }]);
+
+      const response = await request(app)
+        .get('/api/me/earnings')
+        .set('Authorization', authHeader({ email: otherEmail }))
+        .expect(200);
+
+      expect(response.body.balances).toEqual([{ currency: 'USD', amountCents: 125 }]);
+      expect(response.body.history).toHaveLength(1);
+    });
+
+    it('should reject an invalid limit', async () => {
+      await request(app)
+        .get('/api/me/earnings?limit=0')
+        .set('Authorization', authHeader({ email }))
+        .expect(400);
+    });
+  });
+});
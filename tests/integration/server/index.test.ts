@@ -140,7 +140,7 @@ describe('Server Configuration', () => {
         { method: 'get', path: '/api/demo', expectedStatus: 200 },
         { method: 'post', path: '/api/check-user-exists', expectedStatus: 200 },
         { method: 'post', path: '/api/social-qualify-form', expectedStatus: 400 }, // Validation error expected
-        { method: 'post', path: '/api/contractor-request', expectedStatus: 400 }, // Validation error expected
+        { method: 'post', path: '/api/contractor-request', expectedStatus: 401 }, // Authentication required
       ];
 
       for (const route of routes) {
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import request from 'supertest';
+import { createServer } from '../../../server/index';
+import { getTestDatabase } from '../../setup-backend';
+import { authHeader } from '../../utils/auth';
+
+describe('Contractor requests for the current user', () => {
+  const app = createServer();
+  const db = getTestDatabase();
+
+  const contractorEmail = 'me-contractor-test@example.com';
+  const otherEmail = 'me-other-test@example.com';
+  const contractorAuth = authHeader({ email: contractorEmail });
+  const basePath = '/api/me/contractor-requests';
+
+  let pendingId: number;
+  let acceptedId: number;
+  let otherId: number;
+
+  async function insertUser(email: string) {
+    const result = await db.query(
+      `INSERT INTO users (email, phone, reddit_username, reddit_verified)
+       VALUES ($1, '1234567890', 'metest', true)
+       RETURNING id`,
+      [email]
+    );
+    return result.rows[0].id as number;
+  }
+
+  async function insertRequest(userId: number, email: string, slug: string, name: string, status: string) {
+    const result = await db.query(
+      `INSERT INTO contractors (user_id, email, company_slug, company_name, status, joined_slack, can_start_job)
+       VALUES ($1, $2, $3, $4, $5, true, $6)
+       RETURNING id`,
+      [userId, email, slug, name, status, status === 'accepted']
+    );
+    return result.rows[0].id as number;
+  }
+
+  beforeEach(async () => {
+    await db.query('DELETE FROM contractors WHERE email LIKE $1', ['%me-%test%']);
+    await db.query('DELETE FROM users WHERE email LIKE $1', ['%me-%test%']);
+
+    const userId = await insertUser(contractorEmail);
+    const otherUserId = await insertUser(otherEmail);
+
+    pendingId = await insertRequest(userId, contractorEmail, 'silicon-valley-consulting', 'Silicon Valley Consulting', 'pending');
+    acceptedId = await insertRequest(userId, contractorEmail, 'tech-innovations', 'Tech Innovations', 'accepted');
+    otherId = await insertRequest(otherUserId, otherEmail, 'silicon-valley-consulting', 'Silicon Valley Consulting', 'pending');
+  });
+
+  describe('GET /api/me/contractor-requests', () => {
+    it('should require an access token', async () => {
+      await request(app).get(basePath).expect(401);
+    });
+
+    it('should list only the current user\'s requests, newest first', async () => {
+      const response = await request(app).get(basePath).set('Authorization', contractorAuth).expect(200);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.requests.map((r: any) => r.id)).toEqual([acceptedId, pendingId]);
+      expect(response.body.requests[0]).toMatchObject({
+        companySlug: 'tech-innovations',
+        companyName: 'Tech Innovations',
+        status: 'accepted',
+        canStartJob: true,
+      });
+    });
+  });
+
+  describe('DELETE /api/me/contractor-requests/:id', () => {
+    it('should withdraw a pending request and record the event', async () => {
+      const response = await request(app)
+        .delete(`${basePath}/${pendingId}`)
+        .set('Authorization', contractorAuth)
+        .expect(200);
+
+      expect(response.body).toMatchObject({
+        success: true,
+        message: 'Your request has been withdrawn.',
+        request: { id: pendingId, status: 'withdrawn', canStartJob: false },
+      });
+
+      const events = await db.query(
+        'SELECT from_status, to_status FROM contractor_status_events WHERE contractor_id = $1',
+        [pendingId]
+      );
+      expect(events.rows).toEqual([{ from_status: 'pending', to_status: 'withdrawn' }]);
+    });
+
+    it('should refuse to withdraw a request that is no longer pending', async () => {
+      const response = await request(app)
+        .delete(`${basePath}/${acceptedId}`)
+        .set('Authorization', contractorAuth)
+        .expect(409);
+
+      expect(response.body).toEqual({
+        success: false,
+        message: 'Only pending requests can be withdrawn. This request is accepted.',
+      });
+    });
+
+    it('should not withdraw another user\'s request', async () => {
+      await request(app)
+        .delete(`${basePath}/${otherId}`)
+        .set('Authorization', contractorAuth)
+        .expect(404);
+
+      const contractor = await db.query('SELECT status FROM contractors WHERE id = $1', [otherId]);
+      expect(contractor.rows[0].status).toBe('pending');
+    });
+
+    it('should return 404 for a malformed id', async () => {
+      await request(app).delete(`${basePath}/abc`).set('Authorization', contractorAuth).expect(404);
+    });
+  });
+});
@@ -0,0 +1,323 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import request from 'supertest';
+import { createServer } from '../../../server/index';
+import { withTransaction } from '../../../server/db';
+import {
+  createOutboxTransports,
+  drainOutbox,
+  enqueueEmail,
+  getRetryDelaySeconds,
+  MAX_OUTBOX_ATTEMPTS,
+} from '../../../server/outbox';
+import { createStubSmsProvider } from '../../../server/outbox/sms';
+import { renderEmail } from '../../../server/outbox/templates';
+import {
+  createFileTransport,
+  createMailTransport,
+  createMemoryTransport,
+  type MailTransport,
+} from '../../../server/outbox/transports';
+import { getTestDatabase } from '../../setup-backend';
+import { authHeader } from '../../utils/auth';
+
+describe('Notification outbox', () => {
+  const app = createServer();
+  const db = getTestDatabase();
+
+  const companySlug = 'silicon-valley-consulting';
+  const adminEmail = 'outbox-admin-test@example.com';
+  const contractorEmail = 'outbox-contractor-test@example.com';
+  const payload = { companyName: 'Silicon Valley Consulting', companySlug };
+
+  // Other test files share the table, so only look at this file's recipients
+  const outboxFor = async (recipient: string) => {
+    const result = await db.query(
+      `SELECT template, payload, status, attempts, last_error, sent_at, next_attempt_at
+       FROM outbox_messages WHERE recipient = $1 ORDER BY id`,
+      [recipient]
+    );
+    return result.rows;
+  };
+
+  beforeEach(async () => {
+    await db.query('DELETE FROM outbox_messages WHERE recipient LIKE $1', ['outbox-%test%']);
+    await db.query('DELETE FROM contractors WHERE email LIKE $1', ['outbox-%test%']);
+    await db.query('DELETE FROM users WHERE email LIKE $1', ['outbox-%test%']);
+    await db.query('DELETE FROM company_admins WHERE email LIKE $1', ['outbox-%test%']);
+  });
+
+  describe('enqueueEmail', () => {
+    it('should only keep messages whose transaction commits', async () => {
+      await expect(
+        withTransaction(async (client) => {
+          await enqueueEmail(client, 'contractor_request_accepted', contractorEmail, payload);
+          throw new Error('boom');
+        })
+      ).rejects.toThrow('boom');
+
+      expect(await outboxFor(contractorEmail)).toEqual([]);
+
+      await withTransaction((client) =>
+        enqueueEmail(client, 'contractor_request_accepted', contractorEmail, payload)
+      );
+
+      expect(await outboxFor(contractorEmail)).toMatchObject([
+        { template: 'contractor_request_accepted', payload, status: 'pending', attempts: 0 },
+      ]);
+    });
+  });
+
+  describe('Contractor request notifications', () => {
+    beforeEach(async () => {
+      await db.query(
+        `INSERT INTO users (email, phone, reddit_username, reddit_verified)
+         VALUES ($1, '1234567890', 'outboxtest', true)`,
+        [contractorEmail]
+      );
+      await db.query('INSERT INTO company_admins (email, company_slug) VALUES ($1, $2)', [
+        adminEmail,
+        companySlug,
+      ]);
+    });
+
+    it('should queue a confirmation and a company notice with the request', async () => {
+      await request(app)
+        .post('/api/contractor-request')
+        .set('Authorization', authHeader({ email: contractorEmail }))
+        .send({ companySlug, companyName: 'Silicon Valley Consulting' })
+        .expect(200);
+
+      expect(await outboxFor(contractorEmail)).toMatchObject([
+        { template: 'contractor_request_received', payload, status: 'pending' },
+      ]);
+      expect(await outboxFor(adminEmail)).toMatchObject([
+        {
+          template: 'company_contractor_request',
+          payload: { ...payload, contractorEmail, redditUsername: 'outboxtest' },
+        },
+      ]);
+    });
+
+    it('should queue the decision email when the company reviews the request', async () => {
+      await request(app)
+        .post('/api/contractor-request')
+        .set('Authorization', authHeader({ email: contractorEmail }))
+        .send({ companySlug, companyName: 'Silicon Valley Consulting' })
+        .expect(200);
+      const contractor = await db.query('SELECT id FROM contractors WHERE email = $1', [contractorEmail]);
+
+      await request(app)
+        .post(`/api/admin/companies/${companySlug}/contractor-requests/${contractor.rows[0].id}/review`)
+        .set('Authorization', authHeader({ email: adminEmail }))
+        .send({ decision: 'reject', reason: 'Account too new' })
+        .expect(200);
+
+      const messages = await outboxFor(contractorEmail);
+      expect(messages.map((message) => message.template)).toEqual([
+        'contractor_request_received',
+        'contractor_request_rejected',
+      ]);
+      expect(messages[1].payload).toEqual({ ...payload, reason: 'Account too new' });
+    });
+  });
+
+  describe('drainOutbox', () => {
+    it('should render and send due messages, then mark them sent', async () => {
+      await enqueueEmail(db, 'contractor_request_accepted', contractorEmail, payload);
+      const transport = createMemoryTransport();
+
+      const result = await drainOutbox(
+        { mail: transport, sms: createStubSmsProvider() },
+        { batchSize: 100 }
+      );
+
+      expect(result.sent).toBeGreaterThanOrEqual(1);
+      const sent = transport.messages.filter((message) => message.to === contractorEmail);
+      expect(sent).toHaveLength(1);
+      expect(sent[0].subject).toBe('Silicon Valley Consulting accepted your request');
+      expect(sent[0].text).toContain(`/companies/${companySlug}`);
+
+      const [message] = await outboxFor(contractorEmail);
+      expect(message).toMatchObject({ status: 'sent', attempts: 1, last_error: null });
+      expect(message.sent_at).toBeInstanceOf(Date);
+
+      // Already sent, so a second drain leaves it alone
+      const again = createMemoryTransport();
+      await drainOutbox({ mail: again, sms: createStubSmsProvider() }, { batchSize: 100 });
+      expect(again.messages.filter((m) => m.to === contractorEmail)).toEqual([]);
+    });
+
+    it('should back off after a failure and give up after the last attempt', async () => {
+      await enqueueEmail(db, 'contractor_request_accepted', contractorEmail, payload);
+      const mail: MailTransport = {
+        name: 'failing',
+        send: async () => {
+          throw new Error('SMTP connection refused');
+        },
+      };
+      const failing = { mail, sms: createStubSmsProvider() };
+
+      await drainOutbox(failing, { batchSize: 100 });
+
+      let [message] = await outboxFor(contractorEmail);
+      expect(message).toMatchObject({
+        status: 'pending',
+        attempts: 1,
+        last_error: 'SMTP connection refused',
+      });
+      expect(message.next_attempt_at.getTime()).toBeGreaterThan(Date.now() + 30_000);
+
+      // Not due yet, so nothing is retried
+      await drainOutbox(failing, { batchSize: 100 });
+      [message] = await outboxFor(contractorEmail);
+      expect(message.attempts).toBe(1);
+
+      await db.query(
+        `UPDATE outbox_messages SET attempts = $2, next_attempt_at = CURRENT_TIMESTAMP
+         WHERE recipient = $1`,
+        [contractorEmail, MAX_OUTBOX_ATTEMPTS - 1]
+      );
+      await drainOutbox(failing, { batchSize: 100 });
+
+      [message] = await outboxFor(contractorEmail);
+      expect(message).toMatchObject({ status: 'failed', attempts: MAX_OUTBOX_ATTEMPTS });
+    });
+
+    it('should send without holding the claimed rows locked', async () => {
+      await enqueueEmail(db, 'contractor_request_accepted', contractorEmail, payload);
+      const seen: any[] = [];
+      const mail: MailTransport = {
+        name: 'inspecting',
+        send: async (message) => {
+          if (message.to !== contractorEmail) return;
+          // NOWAIT fails at once if the drain still holds the row lock
+          const row = await db.query(
+            `SELECT next_attempt_at > CURRENT_TIMESTAMP AS claimed
+             FROM outbox_messages WHERE recipient = $1 FOR UPDATE NOWAIT`,
+            [contractorEmail]
+          );
+          seen.push(...row.rows);
+        },
+      };
+
+      await drainOutbox({ mail, sms: createStubSmsProvider() }, { batchSize: 100 });
+
+      expect(seen).toEqual([{ claimed: true }]);
+      expect(await outboxFor(contractorEmail)).toMatchObject([{ status: 'sent', attempts: 1 }]);
+    });
+
+    it('should not let concurrent drains send the same message twice', async () => {
+      await enqueueEmail(db, 'contractor_request_accepted', contractorEmail, payload);
+      const transport = createMemoryTransport();
+      const transports = { mail: transport, sms: createStubSmsProvider() };
+
+      await Promise.all([
+        drainOutbox(transports, { batchSize: 100 }),
+        drainOutbox(transports, { batchSize: 100 }),
+      ]);
+
+      expect(transport.messages.filter((message) => message.to === contractorEmail)).toHaveLength(1);
+    });
+
+    it('should leave messages for a channel without a transport queued', async () => {
+      await enqueueEmail(db, 'contractor_request_accepted', contractorEmail, payload);
+
+      await drainOutbox({ sms: createStubSmsProvider() }, { batchSize: 100 });
+
+      expect(await outboxFor(contractorEmail)).toMatchObject([
+        { status: 'pending', attempts: 0, last_error: null },
+      ]);
+    });
+
+    it('should double the retry delay up to an hour', () => {
+      expect(getRetryDelaySeconds(1)).toBe(60);
+      expect(getRetryDelaySeconds(2)).toBe(120);
+      expect(getRetryDelaySeconds(4)).toBe(480);
+      expect(getRetryDelaySeconds(20)).toBe(3600);
+    });
+  });
+
+  describe('Templates', () => {
+    it('should escape user-supplied text in the HTML body', () => {
+      const email = renderEmail('contractor_request_rejected', {
+        ...payload,
+        reason: '<script>alert(1)</script>',
+      });
+
+      expect(email.text).toContain('Their reason: <script>alert(1)</script>');
+      expect(email.html).toContain('&lt;script&gt;');
+      expect(email.html).not.toContain('<script>');
+    });
+
+    it('should leave the reason out when there is none', () => {
+      const email = renderEmail('contractor_request_rejected', { ...payload, reason: null });
+
+      expect(email.text).not.toContain('Their reason');
+    });
+  });
+
+  describe('Transports', () => {
+    let directory: string;
+
+    afterEach(async () => {
+      if (directory) await rm(directory, { recursive: true, force: true });
+    });
+
+    it('should write .eml files with the file transport', async () => {
+      directory = await mkdtemp(path.join(tmpdir(), 'outbox-mail-'));
+      const transport = createFileTransport(directory);
+
+      await transport.send({
+        to: contractorEmail,
+        ...renderEmail('contractor_request_accepted', payload),
+      });
+
+      const files = await readdir(directory);
+      expect(files).toHaveLength(1);
+      expect(files[0]).toMatch(/\.eml$/);
+      const eml = await readFile(path.join(directory, files[0]), 'utf8');
+      expect(eml).toContain(`To: ${contractorEmail}`);
+      expect(eml).toContain('Subject: Silicon Valley Consulting accepted your request');
+    });
+
+    it('should pick the transport from the environment', () => {
+      expect(createMailTransport({ NODE_ENV: 'test' }).name).toBe('memory');
+      expect(createMailTransport({ NODE_ENV: 'development' }).name).toBe('file');
+      expect(
+        createMailTransport({ NODE_ENV: 'production', SMTP_URL: 'smtp://localhost:2525' }).name
+      ).toBe('smtp');
+      expect(createMailTransport({ MAIL_TRANSPORT: 'file' }).name).toBe('file');
+    });
+
+    it('should refuse SMTP without a URL or an unknown transport', () => {
+      expect(() => createMailTransport({ NODE_ENV: 'production' })).toThrow(
+        'SMTP_URL environment variable is not set'
+      );
+      expect(() => createMailTransport({ MAIL_TRANSPORT: 'pigeon' })).toThrow(/Unknown MAIL_TRANSPORT/);
+    });
+
+    it('should leave out unconfigured channels in production instead of throwing', () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const transports = createOutboxTransports({
+        NODE_ENV: 'production',
+        TWILIO_ACCOUNT_SID: 'AC123',
+        TWILIO_AUTH_TOKEN: 'token',
+        TWILIO_FROM_NUMBER: '+15550100',
+      });
+
+      expect(transports.mail).toBeUndefined();
+      expect(transports.sms?.name).toBe('twilio');
+      expect(consoleSpy).toHaveBeenCalledWith(
+        '[OUTBOX] Email disabled:',
+        'SMTP_URL environment variable is not set'
+      );
+      expect(createOutboxTransports({ NODE_ENV: 'production' })).toEqual({});
+
+      consoleSpy.mockRestore();
+    });
+  });
+});
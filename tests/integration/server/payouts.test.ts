@@ -0,0 +1,239 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { recordDailyDataAccess, getUserEarnings } from '../../../server/earnings';
+import {
+  approvePayoutRun,
+  createPayoutRun,
+  executePayoutRun,
+  exportPayoutRunCsv,
+  failPayoutRun,
+  getPayoutLineItems,
+  parsePayoutPeriod,
+  PayoutRunNotFoundError,
+  PayoutRunStatusError,
+  previousPayoutPeriod,
+} from '../../../server/payouts';
+import { getTestDatabase } from '../../setup-backend';
+
+describe('Payout runs', () => {
+  const db = getTestDatabase();
+
+  const period = '2025-Q3';
+  const twitterRate = { platform: 'twitter' as const, amountCents: 125, currency: 'USD' };
+  const youtubeRate = { platform: 'youtube' as const, amountCents: 300, currency: 'USD' };
+  const redditRate = { platform: 'reddit' as const, amountCents: 500, currency: 'USD' };
+
+  let userId: number;
+  let otherUserId: number;
+
+  const createUser = async (email: string, username: string, youtubeVerified: boolean) => {
+    const result = await db.query(
+      `INSERT INTO users (email, phone, reddit_username, reddit_verified, twitter_username, twitter_verified,
+                          youtube_username, youtube_verified)
+       VALUES ($1, '1234567890', $2, true, $2, true, $2, $3)
+       RETURNING id`,
+      [email, username, youtubeVerified]
+    );
+    return result.rows[0].id as number;
+  };
+
+  // Other test files may leave verified users behind, so only look at ours
+  const ourLineItems = async (runId: number) =>
+    (await getPayoutLineItems(runId)).filter((item) => [userId, otherUserId].includes(item.userId));
+
+  const accrue = async () => {
+    await recordDailyDataAccess('2025-07-01', [twitterRate, youtubeRate, redditRate]);
+    await recordDailyDataAccess('2025-09-30', [twitterRate]);
+    // Outside the quarter
+    await recordDailyDataAccess('2025-06-30', [twitterRate]);
+    await recordDailyDataAccess('2025-10-01', [twitterRate]);
+  };
+
+  beforeEach(async () => {
+    await db.query('DELETE FROM payout_runs WHERE period = $1', [period]);
+    await db.query('DELETE FROM users WHERE email LIKE $1', ['payouts-%test%']);
+    userId = await createUser('payouts-test@example.com', 'payee', true);
+    otherUserId = await createUser('payouts-other-test@example.com', 'payee, "jr"', false);
+  });
+
+  describe('Periods', () => {
+    it('should parse a quarter into its date range', () => {
+      expect(parsePayoutPeriod('2025-Q3')).toEqual({
+        period: '2025-Q3',
+        start: '2025-07-01',
+        end: '2025-10-01',
+      });
+      expect(parsePayoutPeriod('2025-Q4').end).toBe('2026-01-01');
+    });
+
+    it('should reject a malformed period', () => {
+      expect(() => parsePayoutPeriod('2025-Q5')).toThrow(
+        "Invalid payout period '2025-Q5'. Use YYYY-Qn, e.g. 2026-Q1."
+      );
+    });
+
+    it('should default to the last full quarter', () => {
+      expect(previousPayoutPeriod(new Date('2026-10-18T00:00:00Z'))).toBe('2026-Q3');
+      expect(previousPayoutPeriod(new Date('2026-02-01T00:00:00Z'))).toBe('2025-Q4');
+    });
+  });
+
+  describe('createPayoutRun', () => {
+    it('should create a line item per user with the quarter\'s batch platform earnings', async () => {
+      await accrue();
+
+      const { run, created } = await createPayoutRun(period);
+
+      expect(created).toBe(true);
+      expect(run).toMatchObject({
+        period,
+        periodStart: '2025-07-01',
+        periodEnd: '2025-10-01',
+        status: 'pending',
+        failureReason: null,
+      });
+      expect(await ourLineItems(run.id)).toEqual([
+        {
+          id: expect.any(Number),
+          userId,
+          email: 'payouts-test@example.com',
+          currency: 'USD',
+          amountCents: 550,
+          platformAmounts: { twitter: 250, youtube: 300 },
+        },
+        expect.objectContaining({
+          userId: otherUserId,
+          amountCents: 250,
+          platformAmounts: { twitter: 250 },
+        }),
+      ]);
+    });
+
+    it('should return the existing run when the period is run again', async () => {
+      await accrue();
+      const first = await createPayoutRun(period);
+      await recordDailyDataAccess('2025-08-15', [twitterRate]);
+
+      const second = await createPayoutRun(period);
+
+      expect(second.created).toBe(false);
+      expect(second.run.id).toBe(first.run.id);
+      expect(second.run.totals).toEqual(first.run.totals);
+      const runs = await db.query('SELECT id FROM payout_runs WHERE period = $1', [period]);
+      expect(runs.rows).toHaveLength(1);
+    });
+
+    it('should replace a failed run with a fresh one', async () => {
+      await accrue();
+      const first = await createPayoutRun(period);
+      await failPayoutRun(first.run.id, 'Provider rejected the batch');
+
+      const second = await createPayoutRun(period);
+
+      expect(second.created).toBe(true);
+      expect(second.run.id).not.toBe(first.run.id);
+      expect(await ourLineItems(second.run.id)).toHaveLength(2);
+    });
+  });
+
+  describe('Status changes', () => {
+    it('should approve then execute a run, debiting the paid earnings', async () => {
+      await accrue();
+      const { run } = await createPayoutRun(period);
+
+      expect((await approvePayoutRun(run.id)).status).toBe('approved');
+      const executed = await executePayoutRun(run.id);
+
+      expect(executed.status).toBe('executed');
+      expect(executed.executedAt).toBeInstanceOf(Date);
+      const earnings = await getUserEarnings(userId, 3);
+      // Reddit and the days outside the quarter are left
+      expect(earnings.balances).toEqual([{ currency: 'USD', amountCents: 750 }]);
+      expect(earnings.platforms).toEqual([
+        { platform: 'reddit', currency: 'USD', amountCents: 500 },
+        { platform: 'twitter', currency: 'USD', amountCents: 250 },
+        { platform: 'youtube', currency: 'USD', amountCents: 0 },
+      ]);
+      expect(earnings.history.map((entry) => entry.description)).toEqual(
+        expect.arrayContaining(['Twitter payout for 2025-Q3', 'YouTube payout for 2025-Q3'])
+      );
+
+      const payouts = await db.query(
+        `SELECT SUM(amount_cents)::int AS amount_cents FROM ledger_entries
+         WHERE user_id = $1 AND account = 'payouts'`,
+        [userId]
+      );
+      expect(payouts.rows[0].amount_cents).toBe(550);
+    });
+
+    it('should not execute a run that has not been approved', async () => {
+      const { run } = await createPayoutRun(period);
+
+      await expect(executePayoutRun(run.id)).rejects.toThrow(PayoutRunStatusError);
+      await expect(executePayoutRun(run.id)).rejects.toThrow(
+        `Payout run ${run.id} is pending and cannot be executed.`
+      );
+    });
+
+    it('should not fail or execute a run twice once it has been executed', async () => {
+      const { run } = await createPayoutRun(period);
+      await approvePayoutRun(run.id);
+      await executePayoutRun(run.id);
+
+      await expect(executePayoutRun(run.id)).rejects.toThrow(PayoutRunStatusError);
+      await expect(failPayoutRun(run.id, 'Too late')).rejects.toThrow(PayoutRunStatusError);
+    });
+
+    it('should record why a run failed', async () => {
+      const { run } = await createPayoutRun(period);
+
+      const failed = await failPayoutRun(run.id, 'Provider rejected the batch');
+
+      expect(failed).toMatchObject({ status: 'failed', failureReason: 'Provider rejected the batch' });
+      await expect(approvePayoutRun(run.id)).rejects.toThrow(PayoutRunStatusError);
+    });
+
+    it('should report a missing run', async () => {
+      await expect(approvePayoutRun(999999)).rejects.toThrow(PayoutRunNotFoundError);
+    });
+  });
+
+  describe('exportPayoutRunCsv', () => {
+    it('should only export an approved run', async () => {
+      const { run } = await createPayoutRun(period);
+
+      await expect(exportPayoutRunCsv(run.id)).rejects.toThrow(
+        `Payout run ${run.id} is pending and cannot be exported.`
+      );
+    });
+
+    it('should write one payment per line item', async () => {
+      await accrue();
+      const { run } = await createPayoutRun(period);
+      await approvePayoutRun(run.id);
+      const [item] = await ourLineItems(run.id);
+
+      const csv = await exportPayoutRunCsv(run.id);
+
+      const lines = csv.split('\r\n');
+      expect(lines[0]).toBe('reference,user_id,email,amount,currency');
+      expect(lines).toContain(
+        `FDU-2025-Q3-${item.id},${userId},payouts-test@example.com,5.50,USD`
+      );
+      expect(lines[lines.length - 1]).toBe('');
+    });
+
+    it('should quote fields that need it', async () => {
+      await db.query('UPDATE users SET email = $1 WHERE id = $2', [
+        'payouts-test,"quoted"@example.com',
+        userId,
+      ]);
+      await accrue();
+      const { run } = await createPayoutRun(period);
+      await approvePayoutRun(run.id);
+
+      const csv = await exportPayoutRunCsv(run.id);
+
+      expect(csv).toContain(`,"payouts-test,""quoted""@example.com",5.50,USD`);
+    });
+  });
+});
@@ -0,0 +1,236 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import request from 'supertest';
+import { createServer } from '../../../server/index';
+import { getUserEarnings } from '../../../server/earnings';
+import { getTestDatabase } from '../../setup-backend';
+import { authHeader } from '../../utils/auth';
+
+describe('Performance reviews', () => {
+  const app = createServer();
+  const db = getTestDatabase();
+
+  const adminEmail = 'rating-admin-test@example.com';
+  const contractorEmail = 'rating-contractor-test@example.com';
+  const adminAuth = authHeader({ email: adminEmail });
+  const contractorAuth = authHeader({ email: contractorEmail });
+  const basePath = '/api/admin/companies/silicon-valley-consulting/contractor-requests';
+  // A company no other test works with, so its terms can change here
+  const ratingCompany = 'data-analytics-firm';
+
+  let adminId: number;
+  let userId: number;
+  let contractorId: number;
+
+  async function insertUser(email: string) {
+    const result = await db.query(
+      `INSERT INTO users (email, phone, reddit_username, reddit_verified)
+       VALUES ($1, '1234567890', 'ratingtest', true)
+       RETURNING id`,
+      [email]
+    );
+    return result.rows[0].id as number;
+  }
+
+  async function insertContractor(companySlug: string, companyName: string, status: string) {
+    const result = await db.query(
+      `INSERT INTO contractors (user_id, email, company_slug, company_name, status, joined_slack, can_start_job)
+       VALUES ($1, $2, $3, $4, $5, true, $6)
+       RETURNING id`,
+      [userId, contractorEmail, companySlug, companyName, status, status === 'active']
+    );
+    return result.rows[0].id as number;
+  }
+
+  const rate = (id: number, body: object, path = basePath) =>
+    request(app).post(`${path}/${id}/performance-reviews`).set('Authorization', adminAuth).send(body);
+
+  beforeEach(async () => {
+    await db.query('DELETE FROM contractors WHERE email LIKE $1', ['rating-%test%']);
+    await db.query('DELETE FROM users WHERE email LIKE $1', ['rating-%test%']);
+    await db.query('DELETE FROM company_admins WHERE email LIKE $1', ['rating-%test%']);
+
+    userId = await insertUser(contractorEmail);
+    const admin = await db.query(
+      'INSERT INTO company_admins (email, company_slug) VALUES ($1, $2) RETURNING id',
+      [adminEmail, 'silicon-valley-consulting']
+    );
+    adminId = admin.rows[0].id;
+    contractorId = await insertContractor('silicon-valley-consulting', 'Silicon Valley Consulting', 'active');
+  });
+
+  describe('POST /api/admin/companies/:slug/contractor-requests/:id/performance-reviews', () => {
+    it('should save a rating with a comment', async () => {
+      const response = await rate(contractorId, { rating: 5, comment: 'Great work' }).expect(201);
+
+      expect(response.body).toEqual({
+        success: true,
+        message: 'Review saved',
+        review: {
+          id: expect.any(Number),
+          contractorId,
+          companySlug: 'silicon-valley-consulting',
+          companyName: 'Silicon Valley Consulting',
+          rating: 5,
+          comment: 'Great work',
+          createdAt: expect.any(String),
+        },
+      });
+
+      const saved = await db.query('SELECT reviewer_id FROM performance_reviews WHERE contractor_id = $1', [
+        contractorId,
+      ]);
+      expect(saved.rows).toEqual([{ reviewer_id: adminId }]);
+    });
+
+    it('should reject ratings outside 1 to 5 stars', async () => {
+      for (const rating of [0, 6]) {
+        const response = await rate(contractorId, { rating }).expect(400);
+        expect(response.body.message).toBe('Rating must be between 1 and 5 stars');
+      }
+
+      const response = await rate(contractorId, { rating: 3.5 }).expect(400);
+      expect(response.body.message).toBe('Rating must be a whole number of stars');
+    });
+
+    it('should refuse to rate a contractor who has not worked with the company', async () => {
+      await db.query("UPDATE contractors SET status = 'pending', can_start_job = false WHERE id = $1", [
+        contractorId,
+      ]);
+
+      const response = await rate(contractorId, { rating: 4 }).expect(409);
+      expect(response.body.message).toBe(
+        'Only contractors who have worked with you can be rated. This request is pending.'
+      );
+    });
+
+    it('should refuse to rate a contractor who was accepted but has not started', async () => {
+      await db.query("UPDATE contractors SET status = 'accepted' WHERE id = $1", [contractorId]);
+
+      const response = await rate(contractorId, { rating: 4 }).expect(409);
+      expect(response.body.message).toBe(
+        'Only contractors who have worked with you can be rated. This request is accepted.'
+      );
+    });
+
+    it('should not rate another company\'s contractors', async () => {
+      const otherId = await insertContractor('tech-innovations', 'Tech Innovations Corp', 'active');
+
+      await rate(otherId, { rating: 5 }).expect(404);
+      await rate(999999, { rating: 5 }).expect(404);
+    });
+
+    it('should require a company admin', async () => {
+      await request(app)
+        .post(`${basePath}/${contractorId}/performance-reviews`)
+        .set('Authorization', contractorAuth)
+        .send({ rating: 5 })
+        .expect(403);
+    });
+  });
+
+  describe('GET /api/admin/companies/:slug/contractor-requests/:id/performance-reviews', () => {
+    it('should list the contractor\'s reviews, newest first', async () => {
+      await rate(contractorId, { rating: 3, comment: 'First week' }).expect(201);
+      await rate(contractorId, { rating: 4, comment: 'Second week' }).expect(201);
+
+      const response = await request(app)
+        .get(`${basePath}/${contractorId}/performance-reviews`)
+        .set('Authorization', adminAuth)
+        .expect(200);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.reviews.map((r: any) => r.comment)).toEqual(['Second week', 'First week']);
+    });
+  });
+
+  describe('Multi-company access', () => {
+    const myReviews = () =>
+      request(app).get('/api/me/performance-reviews').set('Authorization', contractorAuth).expect(200);
+
+    const techInnovations = async (auth?: string) => {
+      const req = request(app).get('/api/companies/tech-innovations');
+      const response = await (auth ? req.set('Authorization', auth) : req).expect(200);
+      return response.body.company.isAvailable;
+    };
+
+    const applyToTechInnovations = () =>
+      request(app)
+        .post('/api/contractor-request')
+        .set('Authorization', contractorAuth)
+        .send({ companySlug: 'tech-innovations', companyName: 'Tech Innovations Corp' });
+
+    it('should keep other companies locked until a 4+ star review', async () => {
+      await rate(contractorId, { rating: 3 }).expect(201);
+
+      expect((await myReviews()).body).toMatchObject({ multiCompanyUnlocked: false });
+      expect(await techInnovations(contractorAuth)).toBe(false);
+
+      const response = await applyToTechInnovations().expect(403);
+      expect(response.body.message).toBe(
+        "Get a 4+ star review from a company you've worked with before applying to other companies."
+      );
+    });
+
+    it('should open every company once a company rates the user 4 stars', async () => {
+      await rate(contractorId, { rating: 4, comment: 'Solid' }).expect(201);
+
+      const reviews = await myReviews();
+      expect(reviews.body.multiCompanyUnlocked).toBe(true);
+      expect(reviews.body.reviews).toMatchObject([{ rating: 4, comment: 'Solid' }]);
+
+      expect(await techInnovations(contractorAuth)).toBe(true);
+      expect(await techInnovations()).toBe(false);
+
+      const list = await request(app)
+        .get('/api/companies')
+        .set('Authorization', contractorAuth)
+        .query({ limit: 50 })
+        .expect(200);
+      expect(list.body.companies.every((company: any) => company.isAvailable)).toBe(true);
+
+      await applyToTechInnovations().expect(200);
+    });
+  });
+
+  describe('Review rating bonus terms', () => {
+    beforeEach(async () => {
+      await db.query(
+        "UPDATE companies SET bonus_rule = 'review_rating', bonus_threshold = 5 WHERE slug = $1",
+        [ratingCompany]
+      );
+      await db.query('INSERT INTO company_admins (email, company_slug) VALUES ($1, $2)', [
+        adminEmail,
+        ratingCompany,
+      ]);
+    });
+
+    afterEach(async () => {
+      await db.query(
+        "UPDATE companies SET bonus_rule = 'approved_hours', bonus_threshold = 40 WHERE slug = $1",
+        [ratingCompany]
+      );
+    });
+
+    it('should unlock the bonus when the company gives the required rating', async () => {
+      const ratedId = await insertContractor(ratingCompany, 'Data Analytics Firm', 'active');
+      const path = `/api/admin/companies/${ratingCompany}/contractor-requests`;
+
+      await rate(ratedId, { rating: 4 }, path).expect(201);
+      expect((await getUserEarnings(userId, 5)).balances).toEqual([]);
+
+      await rate(ratedId, { rating: 5 }, path).expect(201);
+      expect((await getUserEarnings(userId, 5)).balances).toEqual([{ currency: 'USD', amountCents: 70000 }]);
+
+      const response = await request(app)
+        .get(`/api/me/engagements/${ratedId}/signing-bonus`)
+        .set('Authorization', contractorAuth)
+        .expect(200);
+      expect(response.body.bonus).toMatchObject({
+        rule: 'review_rating',
+        threshold: 5,
+        progress: 5,
+        unlockedAt: expect.any(String),
+      });
+    });
+  });
+});
@@ -0,0 +1,237 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import {
+  getPlatformVerifiers,
+  registerPlatformVerifier,
+  resetPlatformVerifiers,
+  verifySocialAccounts,
+} from '../../../server/platforms';
+import { createFacebookVerifier } from '../../../server/platforms/facebook';
+import { createRedditVerifier } from '../../../server/platforms/reddit';
+import { createTwitterVerifier } from '../../../server/platforms/twitter';
+import { createYouTubeVerifier } from '../../../server/platforms/youtube';
+import { createRedditClient } from '../../../server/services/reddit';
+import { startFakeHttpServer, type FakeHttpServer } from '../../utils/fake-http';
+import { startFakeReddit } from '../../utils/fake-reddit';
+
+describe('Social platform verifiers', () => {
+  let api: FakeHttpServer;
+
+  beforeAll(async () => {
+    api = await startFakeHttpServer();
+  });
+
+  afterAll(async () => {
+    await api.close();
+  });
+
+  beforeEach(() => {
+    api.reset();
+  });
+
+  describe('Twitter', () => {
+    const twitter = () => createTwitterVerifier({ bearerToken: 'test-bearer', apiUrl: api.url });
+
+    it('should verify an existing user with the bearer token', async () => {
+      api.replies.push({ body: { data: { id: '2244994945', name: 'Test', username: 'TestUser' } } });
+
+      expect(await twitter().verify('@testuser')).toEqual({
+        status: 'verified',
+        account: { id: '2244994945', username: 'TestUser' },
+      });
+      expect(api.requests[0].path).toBe('/2/users/by/username/testuser');
+      expect(api.requests[0].headers.authorization).toBe('Bearer test-bearer');
+    });
+
+    it('should report missing and suspended users from the errors array', async () => {
+      api.replies.push(
+        { body: { errors: [{ title: 'Not Found Error', detail: 'Could not find user with username: [ghost].' }] } },
+        { body: { errors: [{ title: 'Forbidden', detail: 'User has been suspended: [spammer].' }] } }
+      );
+
+      expect(await twitter().verify('ghost')).toEqual({ status: 'not_found' });
+      expect(await twitter().verify('spammer')).toEqual({ status: 'suspended' });
+    });
+
+    it('should treat an invalid handle as not found', async () => {
+      api.replies.push({ status: 400, body: { errors: [{ message: 'does not match' }] } });
+
+      expect(await twitter().verify('this_handle_is_far_too_long')).toEqual({ status: 'not_found' });
+    });
+
+    it('should pass on the rate-limit reset', async () => {
+      const reset = Math.floor(Date.now() / 1000) + 900;
+      api.replies.push({ status: 429, headers: { 'x-rate-limit-reset': String(reset) } });
+
+      const result = await twitter().verify('testuser');
+
+      expect(result).toMatchObject({ status: 'upstream_error', message: 'Twitter API error: 429' });
+      expect(result.status === 'upstream_error' && result.retryAfterMs).toBeGreaterThan(800_000);
+    });
+
+    it('should report a rejected or missing token as misconfigured', async () => {
+      api.replies.push({ status: 401, body: { title: 'Unauthorized' } });
+
+      expect(await twitter().verify('testuser')).toMatchObject({ status: 'misconfigured' });
+      expect(await createTwitterVerifier({ apiUrl: api.url }).verify('testuser')).toEqual({
+        status: 'misconfigured',
+        message: 'Twitter API credentials not configured (TWITTER_BEARER_TOKEN)',
+      });
+      expect(api.requests).toHaveLength(1);
+    });
+
+    it('should report network errors as upstream_error', async () => {
+      api.replies.push({ destroy: true });
+
+      expect(await twitter().verify('testuser')).toMatchObject({ status: 'upstream_error' });
+    });
+  });
+
+  describe('YouTube', () => {
+    const youtube = () => createYouTubeVerifier({ apiKey: 'test-key', apiUrl: api.url });
+
+    it('should look the channel up by handle', async () => {
+      api.replies.push({ body: { items: [{ id: 'UC123', snippet: { customUrl: '@testchannel' } }] } });
+
+      expect(await youtube().verify('testchannel')).toEqual({
+        status: 'verified',
+        account: { id: 'UC123', username: '@testchannel' },
+      });
+      const { url } = api.requests[0];
+      expect(url.pathname).toBe('/youtube/v3/channels');
+      expect(url.searchParams.get('forHandle')).toBe('@testchannel');
+      expect(url.searchParams.get('key')).toBe('test-key');
+    });
+
+    it('should report a handle with no channel as not found', async () => {
+      api.replies.push({ body: { kind: 'youtube#channelListResponse', items: [] } }, { body: {} });
+
+      expect(await youtube().verify('@ghost')).toEqual({ status: 'not_found' });
+      expect(await youtube().verify('@ghost')).toEqual({ status: 'not_found' });
+    });
+
+    it('should tell an exhausted quota from a bad key', async () => {
+      api.replies.push(
+        { status: 403, body: { error: { code: 403, errors: [{ reason: 'quotaExceeded' }] } } },
+        { status: 400, body: { error: { code: 400, errors: [{ reason: 'keyInvalid' }] } } }
+      );
+
+      expect(await youtube().verify('testchannel')).toMatchObject({ status: 'upstream_error' });
+      expect(await youtube().verify('testchannel')).toEqual({
+        status: 'misconfigured',
+        message: 'YouTube rejected the API key: keyInvalid',
+      });
+    });
+
+    it('should report server errors as upstream_error', async () => {
+      api.replies.push({ status: 503 });
+
+      expect(await youtube().verify('testchannel')).toEqual({
+        status: 'upstream_error',
+        message: 'YouTube API error: 503',
+      });
+    });
+  });
+
+  describe('Facebook', () => {
+    const facebook = () => createFacebookVerifier({ accessToken: 'app|secret', apiUrl: api.url });
+
+    it('should verify an existing profile', async () => {
+      api.replies.push({ body: { id: '10150', name: 'Test Page' } });
+
+      expect(await facebook().verify('testpage')).toEqual({
+        status: 'verified',
+        account: { id: '10150', username: 'testpage' },
+      });
+      expect(api.requests[0].url.pathname).toBe('/testpage');
+      expect(api.requests[0].url.searchParams.get('access_token')).toBe('app|secret');
+    });
+
+    it('should map Graph API error codes', async () => {
+      api.replies.push(
+        { status: 404, body: { error: { code: 803, message: 'Some of the aliases you requested do not exist' } } },
+        { status: 400, body: { error: { code: 190, message: 'Invalid OAuth access token' } } },
+        { status: 400, body: { error: { code: 4, message: 'Application request limit reached' } } }
+      );
+
+      expect(await facebook().verify('ghost')).toEqual({
+        status: 'unverifiable',
+        message: "Facebook can't look up 'ghost': Some of the aliases you requested do not exist",
+      });
+      expect(await facebook().verify('testpage')).toEqual({
+        status: 'misconfigured',
+        message: 'Facebook rejected the access token: Invalid OAuth access token',
+      });
+      expect(await facebook().verify('testpage')).toMatchObject({ status: 'upstream_error' });
+    });
+  });
+
+  describe('Reddit', () => {
+    it('should wrap the Reddit service verification', async () => {
+      const reddit = await startFakeReddit();
+      try {
+        const client = createRedditClient({
+          clientId: 'id',
+          clientSecret: 'secret',
+          authUrl: reddit.url,
+          apiUrl: reddit.url,
+        });
+        const verifier = createRedditVerifier(client);
+
+        expect(verifier).toMatchObject({ platform: 'reddit', required: true, ownershipProofRequired: true });
+        expect(await verifier.verify('testuser')).toMatchObject({
+          status: 'verified',
+          account: { username: 'testuser', linkKarma: 1200 },
+        });
+        expect(await verifier.verify('ghost')).toEqual({ status: 'not_found' });
+      } finally {
+        await reddit.close();
+      }
+    });
+  });
+
+  describe('Registry', () => {
+    afterEach(() => {
+      resetPlatformVerifiers();
+    });
+
+    it('should register the four built-in platforms', () => {
+      expect(getPlatformVerifiers().map((v) => v.platform)).toEqual([
+        'reddit',
+        'twitter',
+        'youtube',
+        'facebook',
+      ]);
+    });
+
+    it('should check only the handles given, with the registered verifiers', async () => {
+      const checked: string[] = [];
+      registerPlatformVerifier({
+        platform: 'twitter',
+        label: 'Twitter',
+        required: false,
+        verify: async (username) => {
+          checked.push(username);
+          return { status: 'verified', account: { id: '1', username } };
+        },
+      });
+      registerPlatformVerifier({
+        platform: 'reddit',
+        label: 'Reddit',
+        required: true,
+        verify: async () => ({ status: 'not_found' }),
+      });
+
+      const checks = await verifySocialAccounts({
+        redditUsername: 'someone',
+        twitterUsername: ' tweeter ',
+        youtubeUsername: '',
+      });
+
+      expect(checked).toEqual(['tweeter']);
+      expect(checks.map((c) => [c.verifier.platform, c.username, c.result.status])).toEqual([
+        ['reddit', 'someone', 'not_found'],
+        ['twitter', 'tweeter', 'verified'],
+      ]);
+    });
+  });
+});
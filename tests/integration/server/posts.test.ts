@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, beforeAll, afterAll } from 'vitest';
+import request from 'supertest';
+import { createServer } from '../../../server/index';
+import { resetRedditListingCache } from '../../../server/services/reddit-cache';
+import { startFakeReddit, type FakeReddit } from '../../utils/fake-reddit';
+
+describe('GET /api/posts', () => {
+  const app = createServer();
+  let reddit: FakeReddit;
+
+  const listingRequests = () => reddit.requests.filter((r) => r.path.startsWith('/r/'));
+
+  beforeAll(async () => {
+    reddit = await startFakeReddit();
+    process.env.REDDIT_AUTH_URL = reddit.url;
+    process.env.REDDIT_API_URL = reddit.url;
+  });
+
+  afterAll(async () => {
+    delete process.env.REDDIT_AUTH_URL;
+    delete process.env.REDDIT_API_URL;
+    await reddit.close();
+  });
+
+  beforeEach(async () => {
+    reddit.reset();
+    await resetRedditListingCache();
+  });
+
+  it('should map Reddit top posts to the feed shape', async () => {
+    const response = await request(app).get('/api/posts?subreddit=technology&limit=2').expect(200);
+
+    expect(response.body.success).toBe(true);
+    expect(response.body.posts).toEqual([
+      {
+        id: 'post0',
+        title: 'Post 0',
+        content: 'Body of post 0',
+        author: 'user0',
+        createdAt: new Date(1700000000 * 1000).toISOString(),
+        subreddit: 'technology',
+        score: 100,
+        url: 'https://example.com/post0',
+        permalink: 'https://www.reddit.com/r/technology/comments/post0/post_0/',
+        numComments: 0,
+        thumbnail: 'https://example.com/thumb0.jpg',
+        over18: false,
+      },
+      expect.objectContaining({ id: 'post1', title: 'Post 1', numComments: 2, thumbnail: null }),
+    ]);
+    expect(response.body.after).toBe('t3_post1');
+  });
+
+  it('should default to 25 posts from r/all', async () => {
+    const response = await request(app).get('/api/posts').expect(200);
+
+    expect(response.body.posts).toHaveLength(25);
+    const url = new URL(listingRequests()[0].path, reddit.url);
+    expect(url.pathname).toBe('/r/all/top.json');
+    expect(url.searchParams.get('limit')).toBe('25');
+  });
+
+  it('should pass the sort and, for top, the time window to Reddit', async () => {
+    await request(app).get('/api/posts?subreddit=pics&sort=top&t=week').expect(200);
+    await request(app).get('/api/posts?subreddit=pics&sort=rising&t=week').expect(200);
+    await request(app).get('/api/posts?subreddit=pics&sort=new').expect(200);
+
+    const urls = listingRequests().map((r) => new URL(r.path, reddit.url));
+    expect(urls.map((url) => url.pathname)).toEqual([
+      '/r/pics/top.json',
+      '/r/pics/rising.json',
+      '/r/pics/new.json',
+    ]);
+    expect(urls.map((url) => url.searchParams.get('t'))).toEqual(['week', null, null]);
+  });
+
+  it('should leave out NSFW posts unless over_18=true', async () => {
+    reddit.nsfwPosts = [1];
+
+    const filtered = await request(app).get('/api/posts?limit=3').expect(200);
+    const unfiltered = await request(app).get('/api/posts?limit=3&over_18=true').expect(200);
+
+    expect(filtered.body.posts.map((p: any) => p.id)).toEqual(['post0', 'post2']);
+    // The cursor still follows Reddit's page, not the filtered one
+    expect(filtered.body.after).toBe('t3_post2');
+    expect(unfiltered.body.posts.map((p: any) => [p.id, p.over18])).toEqual([
+      ['post0', false],
+      ['post1', true],
+      ['post2', false],
+    ]);
+    expect(listingRequests()).toHaveLength(1);
+  });
+
+  it('should continue from the after cursor until the listing runs out', async () => {
+    reddit.topPostCount = 5;
+
+    const first = await request(app).get('/api/posts?limit=3').expect(200);
+    const second = await request(app).get(`/api/posts?limit=3&after=${first.body.after}`).expect(200);
+
+    expect(first.body.posts.map((p: any) => p.id)).toEqual(['post0', 'post1', 'post2']);
+    expect(second.body.posts.map((p: any) => p.id)).toEqual(['post3', 'post4']);
+    expect(second.body.after).toBeNull();
+    expect(new URL(listingRequests()[1].path, reddit.url).searchParams.get('after')).toBe('t3_post2');
+  });
+
+  it('should serve repeat requests from the cache', async () => {
+    await request(app).get('/api/posts?subreddit=News&limit=5').expect(200);
+    const response = await request(app).get('/api/posts?subreddit=news&limit=5').expect(200);
+
+    expect(response.body.posts).toHaveLength(5);
+    expect(listingRequests()).toHaveLength(1);
+  });
+
+  it('should reject an invalid subreddit, limit, sort, window or cursor', async () => {
+    await request(app).get('/api/posts?subreddit=../admin').expect(400);
+    await request(app).get('/api/posts?limit=500').expect(400);
+    await request(app).get('/api/posts?sort=controversial').expect(400);
+    await request(app).get('/api/posts?t=decade').expect(400);
+    const response = await request(app).get('/api/posts?after=post1').expect(400);
+
+    expect(response.body.success).toBe(false);
+    expect(listingRequests()).toEqual([]);
+  });
+
+  it('should answer 502 when Reddit is unreachable', async () => {
+    reddit.apiReplies.push({ destroy: true });
+
+    const response = await request(app).get('/api/posts').expect(502);
+
+    expect(response.body.success).toBe(false);
+  });
+
+  // Last, since the shared client keeps the rate-limit window it is told about
+  it('should answer 503 with Retry-After when Reddit is rate limiting', async () => {
+    reddit.apiReplies.push({
+      status: 429,
+      headers: { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': '300' },
+    });
+
+    const response = await request(app).get('/api/posts').expect(503);
+
+    expect(response.body.success).toBe(false);
+    expect(Number(response.headers['retry-after'])).toBeGreaterThan(290);
+  });
+});
@@ -0,0 +1,205 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import request from 'supertest';
+import { createServer } from '../../../server/index';
+import {
+  createListingCache,
+  createMemoryListingStore,
+  createPostgresListingStore,
+  createRedditListingCache,
+  listingCacheKey,
+  type ListingCacheStore,
+} from '../../../server/services/reddit-cache';
+import { getTestDatabase } from '../../setup-backend';
+
+/**
+ * A fetcher that counts its calls and resolves only when released
+ */
+function deferredFetcher<T>(value: T) {
+  const fetcher = {
+    calls: 0,
+    release: () => {},
+    fetch: () => {
+      fetcher.calls++;
+      return new Promise<T>((resolve) => {
+        fetcher.release = () => resolve(value);
+      });
+    },
+  };
+  return fetcher;
+}
+
+const nextTick = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('Reddit listing cache', () => {
+  let store: ListingCacheStore;
+
+  beforeEach(() => {
+    store = createMemoryListingStore();
+  });
+
+  it('should key listings by subreddit, sort, time window, limit and cursor', () => {
+    expect(listingCacheKey({ subreddit: 'News', sort: 'top', limit: 25 })).toBe('news:top:25:');
+    expect(listingCacheKey({ subreddit: 'news', sort: 'top', t: 'week', limit: 25 })).toBe(
+      'news:top/week:25:'
+    );
+    expect(listingCacheKey({ subreddit: 'news', sort: 'top', limit: 25, after: 't3_abc' })).toBe(
+      'news:top:25:t3_abc'
+    );
+  });
+
+  it('should serve fresh entries without calling Reddit again', async () => {
+    const cache = createListingCache({ store, ttlMs: 60_000, staleMs: 60_000 });
+    let calls = 0;
+    const fetchListing = async () => [`listing ${++calls}`];
+
+    expect(await cache.get('k', fetchListing)).toEqual(['listing 1']);
+    expect(await cache.get('k', fetchListing)).toEqual(['listing 1']);
+
+    expect(calls).toBe(1);
+    expect(cache.stats()).toEqual({ store: 'memory', hits: 1, staleHits: 0, misses: 1, errors: 0 });
+  });
+
+  it('should coalesce concurrent misses into one request', async () => {
+    const cache = createListingCache({ store, ttlMs: 60_000, staleMs: 0 });
+    const fetcher = deferredFetcher(['shared']);
+
+    const pending = Promise.all([1, 2, 3].map(() => cache.get('k', fetcher.fetch)));
+    await nextTick();
+    fetcher.release();
+
+    expect(await pending).toEqual([['shared'], ['shared'], ['shared']]);
+    expect(fetcher.calls).toBe(1);
+    expect(cache.stats().misses).toBe(3);
+  });
+
+  it('should serve a stale entry while one background request refreshes it', async () => {
+    const cache = createListingCache({ store, ttlMs: 0, staleMs: 60_000 });
+    await cache.get('k', async () => 'old');
+    const fetcher = deferredFetcher('new');
+
+    expect(await cache.get('k', fetcher.fetch)).toBe('old');
+    expect(await cache.get('k', fetcher.fetch)).toBe('old');
+    expect(fetcher.calls).toBe(1);
+
+    fetcher.release();
+    await nextTick();
+
+    expect(await cache.get('k', async () => 'newer')).toBe('new');
+    expect(cache.stats()).toMatchObject({ staleHits: 3, misses: 1 });
+  });
+
+  it('should fetch again once an entry is past its stale window', async () => {
+    const cache = createListingCache({ store, ttlMs: 0, staleMs: 0 });
+
+    await cache.get('k', async () => 'first');
+
+    expect(await cache.get('k', async () => 'second')).toBe('second');
+    expect(cache.stats()).toMatchObject({ hits: 0, staleHits: 0, misses: 2 });
+  });
+
+  it('should count failures and keep the stale entry when a refresh fails', async () => {
+    const cache = createListingCache({ store, ttlMs: 0, staleMs: 60_000 });
+    const outage = async () => {
+      throw new Error('Reddit is down');
+    };
+
+    await expect(cache.get('k', outage)).rejects.toThrow('Reddit is down');
+    await cache.get('k', async () => 'kept');
+    expect(await cache.get('k', outage)).toBe('kept');
+    await nextTick();
+
+    expect(await cache.get('k', async () => 'kept')).toBe('kept');
+    expect(cache.stats().errors).toBe(2);
+  });
+
+  it('should fall back to Reddit when the store fails', async () => {
+    const broken: ListingCacheStore = {
+      name: 'broken',
+      get: async () => {
+        throw new Error('connection refused');
+      },
+      set: async () => {
+        throw new Error('connection refused');
+      },
+      clear: async () => {},
+    };
+    const cache = createListingCache({ store: broken, ttlMs: 60_000, staleMs: 0 });
+
+    expect(await cache.get('k', async () => 'direct')).toBe('direct');
+  });
+
+  it('should evict the oldest entries from the memory store', async () => {
+    const small = createMemoryListingStore(2);
+    const entry = { value: 1, freshUntil: new Date(), staleUntil: new Date() };
+
+    await small.set('a', entry);
+    await small.set('b', entry);
+    await small.set('c', entry);
+
+    expect(await small.get('a')).toBeNull();
+    expect(await small.get('c')).toEqual(entry);
+  });
+
+  describe('Postgres store', () => {
+    const db = getTestDatabase();
+
+    beforeEach(async () => {
+      await db.query('DELETE FROM reddit_listing_cache');
+    });
+
+    it('should share entries with a cache built after a cold start', async () => {
+      const options = { ttlMs: 60_000, staleMs: 60_000 };
+      const first = createListingCache({ store: createPostgresListingStore(), ...options });
+      await first.get('all:top:2:', async () => [{ id: 'abc', title: 'Cached' }]);
+
+      const second = createListingCache({ store: createPostgresListingStore(), ...options });
+      const listing = await second.get('all:top:2:', async () => []);
+
+      expect(listing).toEqual([{ id: 'abc', title: 'Cached' }]);
+      expect(second.stats()).toMatchObject({ store: 'postgres', hits: 1, misses: 0 });
+    });
+
+    it('should prune entries past their stale window', async () => {
+      const store = createPostgresListingStore();
+      const past = new Date(Date.now() - 1000);
+      await store.set('expired', { value: 1, freshUntil: past, staleUntil: past });
+
+      await store.set('current', {
+        value: 2,
+        freshUntil: new Date(Date.now() + 60_000),
+        staleUntil: new Date(Date.now() + 60_000),
+      });
+
+      const result = await db.query('SELECT cache_key FROM reddit_listing_cache');
+      expect(result.rows).toEqual([{ cache_key: 'current' }]);
+    });
+  });
+
+  describe('Configuration', () => {
+    it('should use Postgres in production and memory elsewhere', () => {
+      expect(createRedditListingCache({ NODE_ENV: 'production' }).stats().store).toBe('postgres');
+      expect(createRedditListingCache({ NODE_ENV: 'test' }).stats().store).toBe('memory');
+      expect(
+        createRedditListingCache({ NODE_ENV: 'production', REDDIT_CACHE_STORE: 'memory' }).stats().store
+      ).toBe('memory');
+    });
+
+    it('should reject an unknown store', () => {
+      expect(() => createRedditListingCache({ REDDIT_CACHE_STORE: 'redis' })).toThrow(
+        "Unknown REDDIT_CACHE_STORE 'redis'"
+      );
+    });
+  });
+
+  it('should report the shared cache counters on /health', async () => {
+    const response = await request(createServer()).get('/health').expect(200);
+
+    expect(response.body.redditCache).toEqual({
+      store: 'memory',
+      hits: expect.any(Number),
+      staleHits: expect.any(Number),
+      misses: expect.any(Number),
+      errors: expect.any(Number),
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_REDDIT_ELIGIBILITY_POLICY,
+  evaluateRedditEligibility,
+  getRedditEligibilityPolicy,
+} from '../../../server/services/reddit-eligibility';
+
+describe('Reddit eligibility', () => {
+  const now = new Date('2026-06-01T00:00:00Z');
+  const policy = { minAccountAgeDays: 30, minKarma: 100 };
+
+  const verified = (daysOld: number, linkKarma: number, commentKarma: number) => ({
+    status: 'verified' as const,
+    account: {
+      username: 'testuser',
+      createdAt: new Date(now.getTime() - daysOld * 24 * 60 * 60 * 1000),
+      linkKarma,
+      commentKarma,
+    },
+  });
+
+  describe('evaluateRedditEligibility', () => {
+    it('should accept an account that meets every rule and snapshot its numbers', () => {
+      expect(evaluateRedditEligibility(verified(400, 60, 40), policy, now)).toEqual({
+        eligible: true,
+        reasons: [],
+        accountCreatedAt: '2025-04-27T00:00:00.000Z',
+        accountAgeDays: 400,
+        karma: 100,
+        policy,
+        checkedAt: '2026-06-01T00:00:00.000Z',
+      });
+    });
+
+    it('should list every rule the account fails', () => {
+      const result = evaluateRedditEligibility(verified(2, 5, 3), policy, now);
+
+      expect(result.eligible).toBe(false);
+      expect(result.reasons).toEqual([
+        {
+          code: 'account_too_new',
+          message: 'Your Reddit account must be at least 30 days old (it is 2).',
+        },
+        {
+          code: 'insufficient_karma',
+          message: 'Your Reddit account needs at least 100 karma (it has 8).',
+        },
+      ]);
+    });
+
+    it('should never accept a suspended account', () => {
+      const result = evaluateRedditEligibility({ status: 'suspended' }, policy, now);
+
+      expect(result).toMatchObject({
+        eligible: false,
+        reasons: [{ code: 'suspended' }],
+        accountCreatedAt: null,
+        karma: null,
+      });
+    });
+
+    it('should accept any existing account under a zero policy', () => {
+      const result = evaluateRedditEligibility(
+        verified(0, 0, 0),
+        { minAccountAgeDays: 0, minKarma: 0 },
+        now
+      );
+
+      expect(result.eligible).toBe(true);
+    });
+  });
+
+  describe('getRedditEligibilityPolicy', () => {
+    it('should fall back to the defaults', () => {
+      expect(getRedditEligibilityPolicy({})).toEqual(DEFAULT_REDDIT_ELIGIBILITY_POLICY);
+    });
+
+    it('should read the thresholds from the environment', () => {
+      expect(
+        getRedditEligibilityPolicy({ REDDIT_MIN_ACCOUNT_AGE_DAYS: '7', REDDIT_MIN_KARMA: '0' })
+      ).toEqual({ minAccountAgeDays: 7, minKarma: 0 });
+    });
+
+    it('should refuse thresholds that are not non-negative integers', () => {
+      expect(() => getRedditEligibilityPolicy({ REDDIT_MIN_KARMA: '-1' })).toThrow(
+        "REDDIT_MIN_KARMA must be a non-negative integer, got '-1'"
+      );
+      expect(() => getRedditEligibilityPolicy({ REDDIT_MIN_ACCOUNT_AGE_DAYS: 'a month' })).toThrow(
+        /REDDIT_MIN_ACCOUNT_AGE_DAYS/
+      );
+    });
+  });
+});
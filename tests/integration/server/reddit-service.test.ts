@@ -1,286 +1,304 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import nock from 'nock';
-import { getTop, verifyRedditUser } from '../../../server/services/reddit';
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import {
+  createRedditClient,
+  getListing,
+  getTop,
+  RedditRateLimitError,
+  verifyRedditUser,
+  type RedditClientOptions,
+} from '../../../server/services/reddit';
+import { startFakeReddit, type FakeReddit } from '../../utils/fake-reddit';
 
 describe('Reddit Service', () => {
-  // Set test environment variables
+  let reddit: FakeReddit;
+
+  // A private client per test so cached tokens and rate limits never leak between tests
+  const client = (options: Partial<RedditClientOptions> = {}) =>
+    createRedditClient({
+      clientId: 'test_client_id',
+      clientSecret: 'test_client_secret',
+      authUrl: reddit.url,
+      apiUrl: reddit.url,
+      baseDelayMs: 1,
+      ...options,
+    });
+
+  const tokenRequests = () => reddit.requests.filter((r) => r.path === '/api/v1/access_token');
+  const apiRequests = () => reddit.requests.filter((r) => r.path !== '/api/v1/access_token');
+
+  beforeAll(async () => {
+    reddit = await startFakeReddit();
+    process.env.REDDIT_AUTH_URL = reddit.url;
+    process.env.REDDIT_API_URL = reddit.url;
+  });
+
+  afterAll(async () => {
+    delete process.env.REDDIT_AUTH_URL;
+    delete process.env.REDDIT_API_URL;
+    await reddit.close();
+  });
+
   beforeEach(() => {
     process.env.REDDIT_CLIENT_ID = 'test_client_id';
     process.env.REDDIT_CLIENT_SECRET = 'test_client_secret';
-    
-    // Clean all nock interceptors before each test
-    nock.cleanAll();
-    // Disable real HTTP connections (only allow mocked ones)
-    nock.disableNetConnect();
-  });
-
-  afterEach(() => {
-    // Clean up nock interceptors after each test
-    nock.cleanAll();
-    // Re-enable real HTTP connections for cleanup
-    nock.enableNetConnect();
+    reddit.reset();
   });
 
   describe('getTop', () => {
     it('should successfully fetch top posts from subreddit', async () => {
-      // Mock OAuth token endpoint
-      nock('https://www.reddit.com')
-        .post('/api/v1/access_token')
-        .reply(200, {
-          access_token: 'mock_access_token_12345',
-          token_type: 'bearer',
-          expires_in: 3600,
-        });
-
-      // Mock Reddit top posts endpoint
-      nock('https://oauth.reddit.com')
-        .get('/r/programming/top.json?limit=10')
-        .reply(200, {
-          data: {
-            children: [
-              {
-                data: {
-                  id: 'post1',
-                  title: 'Test Post 1',
-                  author: 'testuser1',
-                  score: 100,
-                  subreddit: 'programming',
-                  url: 'https://example.com/post1',
-                  created_utc: Date.now() / 1000,
-                },
-              },
-              {
-                data: {
-                  id: 'post2',
-                  title: 'Test Post 2',
-                  author: 'testuser2',
-                  score: 50,
-                  subreddit: 'programming',
-                  url: 'https://example.com/post2',
-                  created_utc: Date.now() / 1000,
-                },
-              },
-            ],
-          },
-        });
-
       const posts = await getTop('programming', 10);
 
-      expect(posts).toHaveLength(2);
+      expect(posts).toHaveLength(10);
       expect(posts[0]).toMatchObject({
-        id: 'post1',
-        title: 'Test Post 1',
-        author: 'testuser1',
+        id: 'post0',
+        title: 'Post 0',
+        author: 'user0',
         score: 100,
         subreddit: 'programming',
       });
+      expect(apiRequests()[0].authorization).toMatch(/^Bearer fake-token-/);
     });
 
-    it('should handle 429 rate limit error', async () => {
-      // Mock OAuth token endpoint
-      nock('https://www.reddit.com')
-        .post('/api/v1/access_token')
-        .reply(200, {
-          access_token: 'mock_access_token_12345',
-          token_type: 'bearer',
-          expires_in: 3600,
-        });
-
-      // Mock Reddit API returning 429 rate limit
-      nock('https://oauth.reddit.com')
-        .get('/r/all/top.json?limit=10')
-        .reply(429, {
-          message: 'Too Many Requests',
-        });
-
-      await expect(getTop('all', 10)).rejects.toThrow('Reddit API rate limit exceeded');
-    });
+    it('should use default subreddit "all" when not specified', async () => {
+      const posts = await getTop();
 
-    it('should handle 500 server error', async () => {
-      // Mock OAuth token endpoint
-      nock('https://www.reddit.com')
-        .post('/api/v1/access_token')
-        .reply(200, {
-          access_token: 'mock_access_token_12345',
-          token_type: 'bearer',
-          expires_in: 3600,
-        });
-
-      // Mock Reddit API returning 500 server error
-      nock('https://oauth.reddit.com')
-        .get('/r/all/top.json?limit=10')
-        .reply(500, {
-          error: 'Internal Server Error',
-        });
-
-      await expect(getTop('all', 10)).rejects.toThrow('Reddit API error: 500');
+      expect(posts).toHaveLength(10);
+      expect(apiRequests()[0].path).toBe('/r/all/top.json?limit=10');
     });
 
-    it('should handle OAuth token failure', async () => {
-      // Mock OAuth token endpoint failure
-      nock('https://www.reddit.com')
-        .post('/api/v1/access_token')
-        .reply(401, {
-          error: 'invalid_client',
-        });
-
-      await expect(getTop('all', 10)).rejects.toThrow('Failed to get Reddit OAuth token');
+    it('should respect limit parameter', async () => {
+      const posts = await getTop('programming', 5);
+
+      expect(posts).toHaveLength(5);
+      expect(apiRequests()[0].path).toBe('/r/programming/top.json?limit=5');
     });
 
     it('should handle network errors', async () => {
-      // Mock OAuth token endpoint
-      nock('https://www.reddit.com')
-        .post('/api/v1/access_token')
-        .reply(200, {
-          access_token: 'mock_access_token_12345',
-          token_type: 'bearer',
-          expires_in: 3600,
-        });
-
-      // Mock network error
-      nock('https://oauth.reddit.com')
-        .get('/r/all/top.json?limit=10')
-        .replyWithError('Network error');
+      reddit.apiReplies.push({ destroy: true });
 
       await expect(getTop('all', 10)).rejects.toThrow('Failed to fetch Reddit top posts');
     });
 
-    it('should use default subreddit "all" when not specified', async () => {
-      // Mock OAuth token endpoint
-      nock('https://www.reddit.com')
-        .post('/api/v1/access_token')
-        .reply(200, {
-          access_token: 'mock_access_token_12345',
-          token_type: 'bearer',
-          expires_in: 3600,
-        });
-
-      // Mock Reddit top posts endpoint for "all" subreddit
-      nock('https://oauth.reddit.com')
-        .get('/r/all/top.json?limit=10')
-        .reply(200, {
-          data: {
-            children: [],
-          },
-        });
+    it('should throw error when credentials are missing', async () => {
+      delete process.env.REDDIT_CLIENT_ID;
+      delete process.env.REDDIT_CLIENT_SECRET;
 
-      const posts = await getTop();
+      await expect(getTop('all', 10)).rejects.toThrow('Reddit API credentials not configured');
+    });
+  });
+
+  describe('getListing', () => {
+    it('should fetch the requested sort with the card fields', async () => {
+      reddit.nsfwPosts = [0];
 
-      expect(Array.isArray(posts)).toBe(true);
+      const posts = await getListing('pics', { sort: 'hot', limit: 2 });
+
+      expect(apiRequests()[0].path).toBe('/r/pics/hot.json?limit=2');
+      expect(posts[0]).toMatchObject({
+        permalink: '/r/pics/comments/post0/post_0/',
+        num_comments: 0,
+        thumbnail: 'https://example.com/thumb0.jpg',
+        over_18: true,
+      });
     });
 
-    it('should respect limit parameter', async () => {
-      // Mock OAuth token endpoint
-      nock('https://www.reddit.com')
-        .post('/api/v1/access_token')
-        .reply(200, {
-          access_token: 'mock_access_token_12345',
-          token_type: 'bearer',
-          expires_in: 3600,
-        });
-
-      // Mock Reddit top posts endpoint with limit=5
-      nock('https://oauth.reddit.com')
-        .get('/r/programming/top.json?limit=5')
-        .reply(200, {
-          data: {
-            children: Array.from({ length: 5 }, (_, i) => ({
-              data: {
-                id: `post${i}`,
-                title: `Post ${i}`,
-                author: `user${i}`,
-                score: i * 10,
-                subreddit: 'programming',
-                url: `https://example.com/post${i}`,
-                created_utc: Date.now() / 1000,
-              },
-            })),
-          },
-        });
+    it('should send the time window only for the top sort', async () => {
+      await getListing('pics', { sort: 'top', t: 'year', limit: 5, after: 't3_post4' });
+      await getListing('pics', { sort: 'new', t: 'year', limit: 5 });
 
-      const posts = await getTop('programming', 5);
+      expect(apiRequests().map((r) => r.path)).toEqual([
+        '/r/pics/top.json?limit=5&t=year&after=t3_post4',
+        '/r/pics/new.json?limit=5',
+      ]);
+    });
 
-      expect(posts).toHaveLength(5);
+    it('should name the sort when the request fails', async () => {
+      reddit.apiReplies.push({ destroy: true });
+
+      await expect(getListing('pics', { sort: 'rising', limit: 5 })).rejects.toThrow(
+        'Failed to fetch Reddit rising posts'
+      );
+    });
+  });
+
+  describe('verifyRedditUser', () => {
+    it('should return the account metadata for an existing user', async () => {
+      expect(await verifyRedditUser('testuser')).toEqual({
+        status: 'verified',
+        account: {
+          username: 'testuser',
+          createdAt: new Date(1500000000 * 1000),
+          linkKarma: 1200,
+          commentKarma: 3400,
+        },
+      });
     });
 
-    it('should throw error when credentials are missing', async () => {
+    it('should report a non-existent user as not_found', async () => {
+      expect(await verifyRedditUser('nonexistent')).toEqual({ status: 'not_found' });
+    });
+
+    it('should report a suspended user as suspended', async () => {
+      reddit.apiReplies.push({ body: { kind: 't2', data: { name: 'testuser', is_suspended: true } } });
+
+      expect(await verifyRedditUser('testuser')).toEqual({ status: 'suspended' });
+    });
+
+    it('should report a network error as upstream_error', async () => {
+      reddit.apiReplies.push({ destroy: true });
+
+      expect(await verifyRedditUser('testuser')).toMatchObject({ status: 'upstream_error' });
+    });
+
+    it('should report Reddit outages as upstream_error rather than not_found', async () => {
+      reddit.apiReplies.push({ status: 503 }, { status: 503 }, { status: 503 }, { status: 503 });
+
+      expect(await verifyRedditUser('testuser', client())).toMatchObject({
+        status: 'upstream_error',
+        message: expect.stringContaining('503'),
+      });
+    });
+
+    it('should pass on how long to wait when rate limited', async () => {
+      reddit.apiReplies.push({
+        status: 429,
+        headers: { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': '300' },
+      });
+
+      const result = await verifyRedditUser('testuser', client());
+
+      expect(result).toMatchObject({ status: 'upstream_error' });
+      expect(result.status === 'upstream_error' && result.retryAfterMs).toBeGreaterThan(290_000);
+    });
+
+    it('should report missing credentials as misconfigured', async () => {
       delete process.env.REDDIT_CLIENT_ID;
-      delete process.env.REDDIT_CLIENT_SECRET;
 
-      await expect(getTop('all', 10)).rejects.toThrow('Reddit API credentials not configured');
+      expect(await verifyRedditUser('testuser')).toEqual({
+        status: 'misconfigured',
+        message: 'Reddit API credentials not configured',
+      });
+    });
+
+    it('should report rejected credentials as misconfigured', async () => {
+      reddit.tokenReplies.push({ status: 401, body: { error: 'invalid_client' } });
 
-      // Restore for other tests
-      process.env.REDDIT_CLIENT_ID = 'test_client_id';
-      process.env.REDDIT_CLIENT_SECRET = 'test_client_secret';
+      expect(await verifyRedditUser('testuser', client())).toMatchObject({ status: 'misconfigured' });
     });
   });
 
-  describe('verifyRedditUser', () => {
-    it('should return true for existing user', async () => {
-      // Mock OAuth token endpoint
-      nock('https://www.reddit.com')
-        .post('/api/v1/access_token')
-        .reply(200, {
-          access_token: 'mock_access_token_12345',
-          token_type: 'bearer',
-          expires_in: 3600,
-        });
-
-      // Mock user exists
-      nock('https://oauth.reddit.com')
-        .get('/user/testuser/about')
-        .reply(200, {
-          kind: 't2',
-          data: {
-            name: 'testuser',
-            id: '2_test123',
-          },
-        });
-
-      const exists = await verifyRedditUser('testuser');
-
-      expect(exists).toBe(true);
+  describe('Token caching', () => {
+    it('should reuse one token across calls until it nears expiry', async () => {
+      const reddit$ = client();
+
+      await reddit$.getTop('all', 1);
+      await reddit$.getUser('testuser');
+      await reddit$.getUser('validuser');
+
+      expect(tokenRequests()).toHaveLength(1);
+      expect(apiRequests().map((r) => r.authorization)).toEqual([
+        'Bearer fake-token-1',
+        'Bearer fake-token-1',
+        'Bearer fake-token-1',
+      ]);
+    });
+
+    it('should share one token request between concurrent callers', async () => {
+      const reddit$ = client();
+
+      await Promise.all(['testuser', 'validuser', 'reddituser', 'nobody'].map((u) => reddit$.getUser(u)));
+
+      expect(tokenRequests()).toHaveLength(1);
+    });
+
+    it('should refresh the token shortly before expires_in', async () => {
+      // Expires in 30s, inside the default 60s refresh margin, so it is never reused
+      reddit.tokenExpiresIn = 30;
+      const reddit$ = client();
+
+      await reddit$.getUser('testuser');
+      await reddit$.getUser('testuser');
+
+      expect(tokenRequests()).toHaveLength(2);
+    });
+
+    it('should fetch a new token once when Reddit rejects the cached one', async () => {
+      const reddit$ = client();
+      await reddit$.getUser('testuser');
+      reddit.apiReplies.push({ status: 401, body: { message: 'Unauthorized' } });
+
+      expect(await reddit$.getUser('testuser')).toMatchObject({ name: 'testuser' });
+
+      expect(tokenRequests()).toHaveLength(2);
+      expect(apiRequests().at(-1)?.authorization).toBe('Bearer fake-token-2');
+    });
+
+    it('should handle OAuth token failure', async () => {
+      reddit.tokenReplies.push({ status: 401, body: { error: 'invalid_client' } });
+
+      await expect(client().getTop('all', 10)).rejects.toThrow('Failed to get Reddit OAuth token');
+    });
+  });
+
+  describe('Retries', () => {
+    it('should retry 5xx responses with backoff and then succeed', async () => {
+      reddit.apiReplies.push({ status: 503 }, { status: 502 });
+
+      const posts = await client().getTop('all', 3);
+
+      expect(posts).toHaveLength(3);
+      expect(apiRequests()).toHaveLength(3);
     });
 
-    it('should return false for non-existent user', async () => {
-      // Mock OAuth token endpoint
-      nock('https://www.reddit.com')
-        .post('/api/v1/access_token')
-        .reply(200, {
-          access_token: 'mock_access_token_12345',
-          token_type: 'bearer',
-          expires_in: 3600,
-        });
+    it('should handle 500 server error once retries run out', async () => {
+      reddit.apiReplies.push({ status: 500 }, { status: 500 }, { status: 500 });
 
-      // Mock user not found
-      nock('https://oauth.reddit.com')
-        .get('/user/nonexistent/about')
-        .reply(404);
+      await expect(client({ maxRetries: 2 }).getTop('all', 10)).rejects.toThrow(
+        'Reddit API error: 500'
+      );
+      expect(apiRequests()).toHaveLength(3);
+    });
+
+    it('should wait for x-ratelimit-reset after a 429', async () => {
+      reddit.apiReplies.push({
+        status: 429,
+        headers: { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': '0.2' },
+      });
 
-      const exists = await verifyRedditUser('nonexistent');
+      const started = Date.now();
+      const posts = await client().getTop('all', 1);
 
-      expect(exists).toBe(false);
+      expect(posts).toHaveLength(1);
+      expect(Date.now() - started).toBeGreaterThanOrEqual(150);
     });
 
-    it('should return false on network error', async () => {
-      // Mock OAuth token endpoint
-      nock('https://www.reddit.com')
-        .post('/api/v1/access_token')
-        .reply(200, {
-          access_token: 'mock_access_token_12345',
-          token_type: 'bearer',
-          expires_in: 3600,
-        });
+    it('should handle 429 rate limit error without waiting minutes for the reset', async () => {
+      reddit.apiReplies.push({
+        status: 429,
+        headers: { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': '300' },
+      });
+
+      const error = await client().getTop('all', 10).catch((e) => e);
+
+      expect(error).toBeInstanceOf(RedditRateLimitError);
+      expect(error.message).toBe('Reddit API rate limit exceeded');
+      expect(error.retryAfterMs).toBeGreaterThan(290_000);
+      expect(apiRequests()).toHaveLength(1);
+    });
 
-      // Mock network error
-      nock('https://oauth.reddit.com')
-        .get('/user/testuser/about')
-        .replyWithError('Network error');
+    it('should hold back a burst once the rate-limit window is used up', async () => {
+      const reddit$ = client();
+      reddit.apiReplies.push({
+        status: 200,
+        body: { kind: 't2', data: { name: 'testuser' } },
+        headers: { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': '120' },
+      });
 
-      const exists = await verifyRedditUser('testuser');
+      expect(await reddit$.getUser('testuser')).toMatchObject({ name: 'testuser' });
 
-      expect(exists).toBe(false);
+      // Reddit would refuse these, so they fail fast without being sent
+      await expect(reddit$.getUser('validuser')).rejects.toBeInstanceOf(RedditRateLimitError);
+      expect(apiRequests()).toHaveLength(1);
     });
   });
 });
-
@@ -0,0 +1,224 @@
+import { describe, it, expect, beforeEach, beforeAll, afterAll } from 'vitest';
+import request from 'supertest';
+import { createServer } from '../../../server/index';
+import {
+  generateRedditVerificationCode,
+  MAX_REDDIT_CODE_CHECKS,
+  MAX_REDDIT_CODES_PER_HOUR,
+} from '../../../server/services/reddit-ownership';
+import { getTestDatabase } from '../../setup-backend';
+import { authHeader } from '../../utils/auth';
+import { startFakeReddit, type FakeReddit } from '../../utils/fake-reddit';
+
+describe('Reddit ownership verification', () => {
+  const app = createServer();
+  const db = getTestDatabase();
+
+  const email = 'reddit-owner-test@example.com';
+  const auth = authHeader({ email });
+  const redditUsername = 'testuser';
+
+  let reddit: FakeReddit;
+  let userId: number;
+
+  const issueCode = () =>
+    request(app).post('/api/me/reddit-verification/code').set('Authorization', auth);
+  const verify = () =>
+    request(app).post('/api/me/reddit-verification/verify').set('Authorization', auth);
+
+  const isVerified = async () => {
+    const result = await db.query('SELECT reddit_verified FROM users WHERE id = $1', [userId]);
+    return result.rows[0].reddit_verified as boolean;
+  };
+
+  beforeAll(async () => {
+    reddit = await startFakeReddit();
+    process.env.REDDIT_AUTH_URL = reddit.url;
+    process.env.REDDIT_API_URL = reddit.url;
+  });
+
+  afterAll(async () => {
+    delete process.env.REDDIT_AUTH_URL;
+    delete process.env.REDDIT_API_URL;
+    await reddit.close();
+  });
+
+  beforeEach(async () => {
+    reddit.reset();
+    await db.query('DELETE FROM users WHERE email LIKE $1', ['reddit-owner-%test%']);
+    const result = await db.query(
+      `INSERT INTO users (email, phone, reddit_username, reddit_verified)
+       VALUES ($1, '1234567890', $2, false)
+       RETURNING id`,
+      [email, redditUsername]
+    );
+    userId = result.rows[0].id;
+  });
+
+  describe('GET /api/me/reddit-verification', () => {
+    const status = () => request(app).get('/api/me/reddit-verification').set('Authorization', auth);
+
+    it('should report the open code until the account is verified', async () => {
+      expect((await status().expect(200)).body).toEqual({ success: true, verified: false, redditUsername });
+
+      const { body: issued } = await issueCode().expect(200);
+      expect((await status().expect(200)).body).toEqual({
+        success: true,
+        verified: false,
+        redditUsername,
+        code: issued.code,
+        expiresAt: issued.expiresAt,
+      });
+
+      reddit.profiles[redditUsername] = issued.code;
+      await verify().expect(200);
+      expect((await status().expect(200)).body).toEqual({ success: true, verified: true, redditUsername });
+    });
+
+    it('should require a qualification record', async () => {
+      await request(app)
+        .get('/api/me/reddit-verification')
+        .set('Authorization', authHeader({ email: 'reddit-owner-unknown-test@example.com' }))
+        .expect(404);
+    });
+  });
+
+  describe('POST /api/me/reddit-verification/code', () => {
+    it('should require an access token', async () => {
+      await request(app).post('/api/me/reddit-verification/code').expect(401);
+    });
+
+    it('should issue a code for the user\'s Reddit account', async () => {
+      const response = await issueCode().expect(200);
+
+      expect(response.body).toMatchObject({
+        success: true,
+        code: expect.stringMatching(/^FDU-[A-Z2-9]{8}$/),
+        redditUsername,
+      });
+      expect(response.body.message).toContain(response.body.code);
+      const minutesLeft = (new Date(response.body.expiresAt).getTime() - Date.now()) / 60_000;
+      expect(minutesLeft).toBeGreaterThan(29);
+      expect(minutesLeft).toBeLessThanOrEqual(30);
+    });
+
+    it('should limit how many codes a user can request per hour', async () => {
+      for (let i = 0; i < MAX_REDDIT_CODES_PER_HOUR; i++) {
+        await issueCode().expect(200);
+      }
+
+      const response = await issueCode().expect(429);
+
+      expect(response.body.success).toBe(false);
+      expect(Number(response.headers['retry-after'])).toBeGreaterThan(3500);
+    });
+
+    it('should refuse once the account is verified', async () => {
+      await db.query('UPDATE users SET reddit_verified = true WHERE id = $1', [userId]);
+
+      await issueCode().expect(409);
+    });
+  });
+
+  describe('POST /api/me/reddit-verification/verify', () => {
+    it('should verify when the code is in the profile description', async () => {
+      const { body } = await issueCode().expect(200);
+      reddit.profiles[redditUsername] = `Hi there! ${body.code.toLowerCase()}`;
+
+      const response = await verify().expect(200);
+
+      expect(response.body).toEqual({
+        success: true,
+        message: 'Your Reddit account is verified.',
+        status: 'verified',
+      });
+      expect(await isVerified()).toBe(true);
+    });
+
+    it('should verify when the code is posted to the profile', async () => {
+      const { body } = await issueCode().expect(200);
+      reddit.submissions[redditUsername] = [
+        { title: 'Something else' },
+        { title: 'Verifying my account', selftext: `Code: ${body.code}` },
+      ];
+
+      await verify().expect(200);
+
+      expect(await isVerified()).toBe(true);
+      expect(reddit.requests.map((r) => r.path)).toContain(
+        `/user/${redditUsername}/submitted?limit=25&sort=new`
+      );
+    });
+
+    it('should stay unverified until the code shows up', async () => {
+      await issueCode().expect(200);
+
+      const response = await verify().expect(422);
+
+      expect(response.body).toMatchObject({
+        success: false,
+        status: 'code_not_found',
+        attemptsRemaining: MAX_REDDIT_CODE_CHECKS - 1,
+      });
+      expect(await isVerified()).toBe(false);
+    });
+
+    it('should only accept the newest code', async () => {
+      const first = await issueCode().expect(200);
+      await issueCode().expect(200);
+      reddit.profiles[redditUsername] = first.body.code;
+
+      await verify().expect(422);
+
+      expect(await isVerified()).toBe(false);
+    });
+
+    it('should require a code that has not expired', async () => {
+      const { body } = await issueCode().expect(200);
+      reddit.profiles[redditUsername] = body.code;
+      await db.query(
+        `UPDATE reddit_verification_codes SET expires_at = CURRENT_TIMESTAMP - INTERVAL '1 minute'
+         WHERE user_id = $1`,
+        [userId]
+      );
+
+      const response = await verify().expect(404);
+
+      expect(response.body.status).toBe('no_active_code');
+      expect(await isVerified()).toBe(false);
+    });
+
+    it('should stop checking a code after too many attempts', async () => {
+      const { body } = await issueCode().expect(200);
+      await db.query('UPDATE reddit_verification_codes SET attempts = $2 WHERE user_id = $1', [
+        userId,
+        MAX_REDDIT_CODE_CHECKS,
+      ]);
+      reddit.profiles[redditUsername] = body.code;
+
+      const response = await verify().expect(429);
+
+      expect(response.body.status).toBe('too_many_attempts');
+      expect(reddit.requests).toEqual([]);
+    });
+
+    it('should report Reddit outages without verifying', async () => {
+      await issueCode().expect(200);
+      reddit.apiReplies.push({ destroy: true });
+
+      const response = await verify().expect(503);
+
+      expect(response.body.status).toBe('upstream_error');
+      expect(await isVerified()).toBe(false);
+    });
+  });
+
+  it('should generate codes from the unambiguous alphabet', () => {
+    const codes = new Set(Array.from({ length: 50 }, () => generateRedditVerificationCode()));
+
+    expect(codes.size).toBe(50);
+    for (const code of codes) {
+      expect(code).toMatch(/^FDU-[A-HJ-NP-Z2-9]{8}$/);
+    }
+  });
+});
@@ -0,0 +1,198 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import request from 'supertest';
+import { createServer } from '../../../server/index';
+import { getUserEarnings, utcDate } from '../../../server/earnings';
+import { timesheetWeek } from '../../../server/services/time-entries';
+import { getTestDatabase } from '../../setup-backend';
+import { authHeader } from '../../utils/auth';
+
+describe('Signing bonuses', () => {
+  const app = createServer();
+  const db = getTestDatabase();
+
+  const adminEmail = 'bonus-admin-test@example.com';
+  const contractorEmail = 'bonus-contractor-test@example.com';
+  const adminAuth = authHeader({ email: adminEmail });
+  const contractorAuth = authHeader({ email: contractorEmail });
+  // A company no other test works with, so its terms can change here
+  const taskCompany = 'data-analytics-firm';
+
+  const lastWeek = timesheetWeek(undefined, new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)).week;
+  const at = (time: string) => `${lastWeek}T${time}:00.000Z`;
+
+  let userId: number;
+
+  async function insertUser(email: string) {
+    const result = await db.query(
+      `INSERT INTO users (email, phone, reddit_username, reddit_verified)
+       VALUES ($1, '1234567890', 'bonustest', true)
+       RETURNING id`,
+      [email]
+    );
+    return result.rows[0].id as number;
+  }
+
+  async function insertEngagement(companySlug: string, companyName: string) {
+    await db.query('INSERT INTO company_admins (email, company_slug) VALUES ($1, $2)', [
+      adminEmail,
+      companySlug,
+    ]);
+    const result = await db.query(
+      `INSERT INTO contractors (user_id, email, company_slug, company_name, status, joined_slack, can_start_job, hourly_rate_cents)
+       VALUES ($1, $2, $3, $4, 'active', true, true, 200)
+       RETURNING id`,
+      [userId, contractorEmail, companySlug, companyName]
+    );
+    return result.rows[0].id as number;
+  }
+
+  const progress = (contractorId: number) =>
+    request(app)
+      .get(`/api/me/engagements/${contractorId}/signing-bonus`)
+      .set('Authorization', contractorAuth);
+
+  beforeEach(async () => {
+    await db.query('DELETE FROM tasks WHERE title LIKE $1', ['Bonus test%']);
+    await db.query('DELETE FROM contractors WHERE email LIKE $1', ['bonus-%test%']);
+    await db.query('DELETE FROM users WHERE email LIKE $1', ['bonus-%test%']);
+    await db.query('DELETE FROM company_admins WHERE email LIKE $1', ['bonus-%test%']);
+
+    userId = await insertUser(contractorEmail);
+  });
+
+  describe('Approved hours', () => {
+    let contractorId: number;
+
+    const approveHours = async (start: string, end: string) => {
+      const entry = await request(app)
+        .post(`/api/me/engagements/${contractorId}/time-entries`)
+        .set('Authorization', contractorAuth)
+        .send({ startedAt: at(start), endedAt: at(end) })
+        .expect(201);
+      await request(app)
+        .post(`/api/admin/companies/silicon-valley-consulting/time-entries/${entry.body.entry.id}/review`)
+        .set('Authorization', adminAuth)
+        .send({ decision: 'approve' })
+        .expect(200);
+    };
+
+    beforeEach(async () => {
+      contractorId = await insertEngagement('silicon-valley-consulting', 'Silicon Valley Consulting');
+    });
+
+    it('should report progress toward the company\'s terms', async () => {
+      await approveHours('00:00', '12:30');
+
+      const response = await progress(contractorId).expect(200);
+      expect(response.body).toEqual({
+        success: true,
+        bonus: {
+          contractorId,
+          companySlug: 'silicon-valley-consulting',
+          rule: 'approved_hours',
+          threshold: 20,
+          progress: 12.5,
+          amountCents: 50000,
+          unlockedAt: null,
+        },
+      });
+    });
+
+    it('should not count hours that are not approved', async () => {
+      await request(app)
+        .post(`/api/me/engagements/${contractorId}/time-entries`)
+        .set('Authorization', contractorAuth)
+        .send({ startedAt: at('00:00'), endedAt: at('23:00') })
+        .expect(201);
+
+      const response = await progress(contractorId).expect(200);
+      expect(response.body.bonus.progress).toBe(0);
+    });
+
+    it('should credit the bonus once when the approved hours reach the threshold', async () => {
+      await approveHours('00:00', '12:00');
+      expect((await getUserEarnings(userId, 5)).balances).toEqual([{ currency: 'USD', amountCents: 2400 }]);
+
+      await approveHours('12:00', '20:00');
+
+      const earnings = await getUserEarnings(userId, 5);
+      expect(earnings.balances).toEqual([{ currency: 'USD', amountCents: 2400 + 1600 + 50000 }]);
+      expect(earnings.platforms).toContainEqual({ platform: 'bonus', currency: 'USD', amountCents: 50000 });
+      expect(earnings.history[0].description).toBe('Signing bonus from Silicon Valley Consulting');
+
+      const response = await progress(contractorId).expect(200);
+      expect(response.body.bonus).toMatchObject({ progress: 20, unlockedAt: expect.any(String) });
+
+      await approveHours('20:00', '23:00');
+      const bonuses = await db.query(
+        `SELECT COUNT(*)::int AS count FROM ledger_entries e
+         JOIN signing_bonuses b ON b.id = e.signing_bonus_id
+         WHERE b.contractor_id = $1 AND e.account = 'user_earnings'`,
+        [contractorId]
+      );
+      expect(bonuses.rows[0].count).toBe(1);
+    });
+
+    it('should only show the user their own engagements', async () => {
+      await request(app)
+        .get(`/api/me/engagements/${contractorId}/signing-bonus`)
+        .set('Authorization', adminAuth)
+        .expect(404);
+      await progress(999999).expect(404);
+    });
+  });
+
+  describe('Submitted tasks', () => {
+    let contractorId: number;
+
+    const submitTask = async (title: string) => {
+      const task = await db.query(
+        `INSERT INTO tasks (company_slug, title, task_date) VALUES ($1, $2, $3) RETURNING id`,
+        [taskCompany, title, utcDate()]
+      );
+      await request(app)
+        .post(`/api/me/tasks/${task.rows[0].id}/submissions`)
+        .set('Authorization', contractorAuth)
+        .send({ body: 'Done' })
+        .expect(201);
+    };
+
+    beforeEach(async () => {
+      await db.query(
+        "UPDATE companies SET bonus_rule = 'submitted_tasks', bonus_threshold = 2 WHERE slug = $1",
+        [taskCompany]
+      );
+      contractorId = await insertEngagement(taskCompany, 'Data Analytics Firm');
+    });
+
+    afterEach(async () => {
+      await db.query(
+        "UPDATE companies SET bonus_rule = 'approved_hours', bonus_threshold = 40 WHERE slug = $1",
+        [taskCompany]
+      );
+    });
+
+    it('should unlock the bonus after enough task submissions', async () => {
+      await submitTask('Bonus test: first');
+      expect((await progress(contractorId).expect(200)).body.bonus).toMatchObject({
+        rule: 'submitted_tasks',
+        threshold: 2,
+        progress: 1,
+        amountCents: 70000,
+        unlockedAt: null,
+      });
+
+      await submitTask('Bonus test: second');
+      expect((await getUserEarnings(userId, 5)).balances).toEqual([{ currency: 'USD', amountCents: 70000 }]);
+    });
+
+    it('should keep the terms the bonus unlocked under', async () => {
+      await submitTask('Bonus test: first');
+      await submitTask('Bonus test: second');
+      await db.query('UPDATE companies SET bonus_threshold = 10 WHERE slug = $1', [taskCompany]);
+
+      const response = await progress(contractorId).expect(200);
+      expect(response.body.bonus).toMatchObject({ threshold: 2, progress: 2, unlockedAt: expect.any(String) });
+    });
+  });
+});
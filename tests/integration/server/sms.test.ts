@@ -0,0 +1,251 @@
+import { describe, it, expect, beforeEach, afterEach, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import request from 'supertest';
+import { createServer } from '../../../server/index';
+import { drainOutbox } from '../../../server/outbox';
+import {
+  createSmsProvider,
+  createStubSmsProvider,
+  normalizePhone,
+  type SmsProvider,
+} from '../../../server/outbox/sms';
+import { createMemoryTransport } from '../../../server/outbox/transports';
+import { getTestDatabase } from '../../setup-backend';
+import { authHeader } from '../../utils/auth';
+
+describe('SMS notifications', () => {
+  const app = createServer();
+  const db = getTestDatabase();
+
+  const companySlug = 'silicon-valley-consulting';
+  const adminEmail = 'sms-admin-test@example.com';
+  const contractorEmail = 'sms-contractor-test@example.com';
+  // Unique to this file so opt-outs never touch other tests' users
+  const phone = '(555) 010-4477';
+  const webhookToken = 'test-sms-webhook-token';
+
+  let contractorUserId: number;
+  let contractorId: number;
+
+  const deliveriesFor = async (userId: number) => {
+    const result = await db.query(
+      `SELECT template, status, provider, provider_message_id, error, phone, body
+       FROM sms_deliveries WHERE user_id = $1 ORDER BY id`,
+      [userId]
+    );
+    return result.rows;
+  };
+
+  const accept = () =>
+    request(app)
+      .post(`/api/admin/companies/${companySlug}/contractor-requests/${contractorId}/review`)
+      .set('Authorization', authHeader({ email: adminEmail }))
+      .send({ decision: 'accept' })
+      .expect(200);
+
+  const inbound = (body: object, token = webhookToken) =>
+    request(app).post(`/api/sms/inbound?token=${token}`).type('form').send(body);
+
+  // Only this file's texts, so other files' queued messages don't interfere
+  const drain = (sms: SmsProvider) =>
+    drainOutbox({ mail: createMemoryTransport(), sms }, { batchSize: 100 });
+
+  beforeAll(() => {
+    process.env.SMS_WEBHOOK_TOKEN = webhookToken;
+  });
+
+  afterAll(() => {
+    delete process.env.SMS_WEBHOOK_TOKEN;
+  });
+
+  beforeEach(async () => {
+    await db.query('DELETE FROM contractors WHERE email LIKE $1', ['sms-%test%']);
+    await db.query('DELETE FROM users WHERE email LIKE $1', ['sms-%test%']);
+    await db.query('DELETE FROM company_admins WHERE email LIKE $1', ['sms-%test%']);
+
+    const users = await db.query(
+      `INSERT INTO users (email, phone, reddit_username, reddit_verified)
+       VALUES ($1, $2, 'smstest', true)
+       RETURNING id`,
+      [contractorEmail, phone]
+    );
+    contractorUserId = users.rows[0].id;
+    await db.query('INSERT INTO company_admins (email, company_slug) VALUES ($1, $2)', [
+      adminEmail,
+      companySlug,
+    ]);
+    const contractor = await db.query(
+      `INSERT INTO contractors (user_id, email, company_slug, company_name, status, joined_slack, can_start_job)
+       VALUES ($1, $2, $3, 'Silicon Valley Consulting', 'pending', true, false)
+       RETURNING id`,
+      [contractorUserId, contractorEmail, companySlug]
+    );
+    contractorId = contractor.rows[0].id;
+  });
+
+  describe('Acceptance', () => {
+    it('should text the contractor alongside the acceptance email', async () => {
+      await accept();
+
+      const queued = await db.query(
+        'SELECT channel, template, recipient FROM outbox_messages WHERE user_id = $1',
+        [contractorUserId]
+      );
+      expect(queued.rows).toEqual([
+        { channel: 'sms', template: 'contractor_request_accepted', recipient: phone },
+      ]);
+
+      const sms = createStubSmsProvider();
+      await drain(sms);
+
+      const texts = sms.messages.filter((message) => message.to === '+15550104477');
+      expect(texts).toHaveLength(1);
+      expect(texts[0].body).toContain('Silicon Valley Consulting accepted your request');
+      expect(texts[0].body).toMatch(/Reply STOP to opt out\.$/);
+
+      expect(await deliveriesFor(contractorUserId)).toMatchObject([
+        { template: 'contractor_request_accepted', status: 'sent', provider: 'stub', phone },
+      ]);
+    });
+
+    it('should not text on rejection', async () => {
+      await request(app)
+        .post(`/api/admin/companies/${companySlug}/contractor-requests/${contractorId}/review`)
+        .set('Authorization', authHeader({ email: adminEmail }))
+        .send({ decision: 'reject', reason: 'Account too new' })
+        .expect(200);
+
+      const queued = await db.query('SELECT 1 FROM outbox_messages WHERE user_id = $1', [
+        contractorUserId,
+      ]);
+      expect(queued.rows).toEqual([]);
+    });
+
+    it('should record a failed delivery and retry later', async () => {
+      await accept();
+      const failing: SmsProvider = {
+        name: 'failing',
+        send: async () => {
+          throw new Error('Carrier unavailable');
+        },
+      };
+
+      await drain(failing);
+
+      expect(await deliveriesFor(contractorUserId)).toMatchObject([
+        { status: 'failed', provider: 'failing', error: 'Carrier unavailable' },
+      ]);
+      const outbox = await db.query(
+        'SELECT status, attempts FROM outbox_messages WHERE user_id = $1',
+        [contractorUserId]
+      );
+      expect(outbox.rows).toEqual([{ status: 'pending', attempts: 1 }]);
+    });
+  });
+
+  describe('Opt-out', () => {
+    it('should record STOP for the sender and skip their texts', async () => {
+      const response = await inbound({ From: '+15550104477', Body: ' stop ' }).expect(200);
+
+      expect(response.body).toEqual({
+        success: true,
+        message: 'You have been unsubscribed from FairDataUse texts.',
+        action: 'opted_out',
+      });
+      const optOut = await db.query('SELECT keyword FROM sms_opt_outs WHERE user_id = $1', [
+        contractorUserId,
+      ]);
+      expect(optOut.rows).toEqual([{ keyword: 'STOP' }]);
+
+      await accept();
+      const sms = createStubSmsProvider();
+      await drain(sms);
+
+      expect(sms.messages.filter((message) => message.to === '+15550104477')).toEqual([]);
+      expect(await deliveriesFor(contractorUserId)).toMatchObject([{ status: 'opted_out' }]);
+      const outbox = await db.query('SELECT status, sent_at FROM outbox_messages WHERE user_id = $1', [
+        contractorUserId,
+      ]);
+      expect(outbox.rows).toEqual([{ status: 'skipped', sent_at: null }]);
+    });
+
+    it('should opt back in on START', async () => {
+      await inbound({ From: '+15550104477', Body: 'UNSUBSCRIBE' }).expect(200);
+      const response = await inbound({ From: '+15550104477', Body: 'START' }).expect(200);
+
+      expect(response.body.action).toBe('opted_in');
+      const optOut = await db.query('SELECT 1 FROM sms_opt_outs WHERE user_id = $1', [contractorUserId]);
+      expect(optOut.rows).toEqual([]);
+    });
+
+    it('should ignore other replies', async () => {
+      const response = await inbound({ From: '+15550104477', Body: 'Please stop texting me' }).expect(200);
+
+      expect(response.body.action).toBe('ignored');
+      const optOut = await db.query('SELECT 1 FROM sms_opt_outs WHERE user_id = $1', [contractorUserId]);
+      expect(optOut.rows).toEqual([]);
+    });
+
+    it('should reject webhook calls without the token', async () => {
+      await inbound({ From: '+15550104477', Body: 'STOP' }, 'wrong-token').expect(401);
+
+      const optOut = await db.query('SELECT 1 FROM sms_opt_outs WHERE user_id = $1', [contractorUserId]);
+      expect(optOut.rows).toEqual([]);
+    });
+
+    it('should reject a non-ASCII token as long as the real one', async () => {
+      const token = encodeURIComponent('é'.repeat(webhookToken.length));
+      await inbound({ From: '+15550104477', Body: 'STOP' }, token).expect(401);
+    });
+
+    it('should require a sender', async () => {
+      await inbound({ Body: 'STOP' }).expect(400);
+    });
+  });
+
+  describe('Providers', () => {
+    let directory: string;
+
+    afterEach(async () => {
+      if (directory) await rm(directory, { recursive: true, force: true });
+    });
+
+    it('should normalize phone numbers to E.164', () => {
+      expect(normalizePhone('(555) 010-4477')).toBe('+15550104477');
+      expect(normalizePhone('1-555-010-4477')).toBe('+15550104477');
+      expect(normalizePhone('+44 20 7946 0958')).toBe('+442079460958');
+      expect(() => normalizePhone('12345')).toThrow(/invalid phone number/);
+    });
+
+    it('should append stub texts to a file when configured', async () => {
+      directory = await mkdtemp(path.join(tmpdir(), 'sms-'));
+      const file = path.join(directory, 'texts.log');
+      const sms = createStubSmsProvider(file);
+
+      await sms.send({ to: '+15550104477', body: 'Hello' });
+      await sms.send({ to: '+15550104477', body: 'Again' });
+
+      const lines = (await readFile(file, 'utf8')).trim().split('\n').map((line) => JSON.parse(line));
+      expect(lines).toMatchObject([
+        { id: 'stub-1', to: '+15550104477', body: 'Hello' },
+        { id: 'stub-2', body: 'Again' },
+      ]);
+    });
+
+    it('should pick the provider from the environment', () => {
+      expect(createSmsProvider({ NODE_ENV: 'test' }).name).toBe('stub');
+      expect(
+        createSmsProvider({
+          NODE_ENV: 'production',
+          TWILIO_ACCOUNT_SID: 'AC123',
+          TWILIO_AUTH_TOKEN: 'secret',
+          TWILIO_FROM_NUMBER: '+15550000000',
+        }).name
+      ).toBe('twilio');
+      expect(() => createSmsProvider({ NODE_ENV: 'production' })).toThrow(/TWILIO_ACCOUNT_SID/);
+      expect(() => createSmsProvider({ SMS_PROVIDER: 'pigeon' })).toThrow(/Unknown SMS_PROVIDER/);
+    });
+  });
+});
@@ -0,0 +1,312 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import request from 'supertest';
+import { createServer } from '../../../server/index';
+import { utcDate } from '../../../server/earnings';
+import { getTestDatabase } from '../../setup-backend';
+import { authHeader } from '../../utils/auth';
+
+describe('Daily tasks', () => {
+  const app = createServer();
+  const db = getTestDatabase();
+
+  const companySlug = 'silicon-valley-consulting';
+  const adminEmail = 'tasks-admin-test@example.com';
+  const contractorEmail = 'tasks-contractor-test@example.com';
+  const adminAuth = authHeader({ email: adminEmail });
+  const contractorAuth = authHeader({ email: contractorEmail });
+  const adminPath = `/api/admin/companies/${companySlug}/tasks`;
+
+  const daysAgo = (days: number) => utcDate(new Date(Date.now() - days * 24 * 60 * 60 * 1000));
+
+  let contractorId: number;
+  let taskId: number;
+
+  async function insertUser(email: string) {
+    const result = await db.query(
+      `INSERT INTO users (email, phone, reddit_username, reddit_verified)
+       VALUES ($1, '1234567890', 'taskstest', true)
+       RETURNING id`,
+      [email]
+    );
+    return result.rows[0].id as number;
+  }
+
+  async function insertTask(title: string, taskDate: string, slug = companySlug) {
+    const result = await db.query(
+      `INSERT INTO tasks (company_slug, title, task_date) VALUES ($1, $2, $3) RETURNING id`,
+      [slug, title, taskDate]
+    );
+    return result.rows[0].id as number;
+  }
+
+  const setStatus = (status: string, canStartJob: boolean) =>
+    db.query('UPDATE contractors SET status = $1, can_start_job = $2 WHERE id = $3', [
+      status,
+      canStartJob,
+      contractorId,
+    ]);
+
+  const submit = (id: number, body: object) =>
+    request(app).post(`/api/me/tasks/${id}/submissions`).set('Authorization', contractorAuth).send(body);
+
+  beforeEach(async () => {
+    await db.query('DELETE FROM tasks WHERE title LIKE $1', ['Tasks test%']);
+    await db.query('DELETE FROM contractors WHERE email LIKE $1', ['tasks-%test%']);
+    await db.query('DELETE FROM users WHERE email LIKE $1', ['tasks-%test%']);
+    await db.query('DELETE FROM company_admins WHERE email LIKE $1', ['tasks-%test%']);
+
+    const userId = await insertUser(contractorEmail);
+    await db.query('INSERT INTO company_admins (email, company_slug) VALUES ($1, $2)', [
+      adminEmail,
+      companySlug,
+    ]);
+    const contractor = await db.query(
+      `INSERT INTO contractors (user_id, email, company_slug, company_name, status, joined_slack, can_start_job)
+       VALUES ($1, $2, $3, 'Silicon Valley Consulting', 'active', true, true)
+       RETURNING id`,
+      [userId, contractorEmail, companySlug]
+    );
+    contractorId = contractor.rows[0].id;
+    taskId = await insertTask('Tasks test: share the launch post', utcDate());
+  });
+
+  describe('Company admin', () => {
+    it('should only let the company\'s admins manage tasks', async () => {
+      await request(app).get(adminPath).expect(401);
+      await request(app).get(adminPath).set('Authorization', contractorAuth).expect(403);
+      await request(app)
+        .post('/api/admin/companies/tech-innovations/tasks')
+        .set('Authorization', adminAuth)
+        .send({ title: 'Tasks test: elsewhere' })
+        .expect(403);
+    });
+
+    it('should assign a task for today by default', async () => {
+      const response = await request(app)
+        .post(adminPath)
+        .set('Authorization', adminAuth)
+        .send({ title: '  Tasks test: reply to comments ', description: 'Reply to 5 comments' })
+        .expect(201);
+
+      expect(response.body).toEqual({
+        success: true,
+        message: 'Task assigned',
+        task: {
+          id: expect.any(Number),
+          companySlug,
+          title: 'Tasks test: reply to comments',
+          description: 'Reply to 5 comments',
+          taskDate: utcDate(),
+          createdAt: expect.any(String),
+        },
+      });
+    });
+
+    it('should validate the task', async () => {
+      const response = await request(app)
+        .post(adminPath)
+        .set('Authorization', adminAuth)
+        .send({ title: '', taskDate: '2026-13-45' })
+        .expect(400);
+
+      expect(response.body.message).toContain('Title is required');
+      expect(response.body.message).toContain('Task date must be a real date');
+    });
+
+    it('should list tasks newest first with submission counts', async () => {
+      const olderId = await insertTask('Tasks test: older', daysAgo(2));
+      await submit(taskId, { body: 'Shared it' }).expect(201);
+
+      const response = await request(app).get(adminPath).set('Authorization', adminAuth).expect(200);
+
+      const ours = response.body.tasks.filter((task: any) => task.title.startsWith('Tasks test'));
+      expect(ours.map((task: any) => [task.id, task.submissionCount])).toEqual([
+        [taskId, 1],
+        [olderId, 0],
+      ]);
+    });
+
+    it('should list submissions with their attachments and serve the files', async () => {
+      await submit(taskId, {
+        body: 'Shared it',
+        links: ['https://reddit.com/r/test/comments/abc'],
+        attachments: [
+          { filename: 'proof.txt', contentType: 'text/plain', data: Buffer.from('hello').toString('base64') },
+        ],
+      }).expect(201);
+
+      const response = await request(app)
+        .get(`${adminPath}/${taskId}/submissions`)
+        .set('Authorization', adminAuth)
+        .expect(200);
+
+      expect(response.body.submissions).toEqual([
+        {
+          id: expect.any(Number),
+          taskId,
+          contractorId,
+          email: contractorEmail,
+          body: 'Shared it',
+          links: ['https://reddit.com/r/test/comments/abc'],
+          attachments: [
+            { id: expect.any(Number), filename: 'proof.txt', contentType: 'text/plain', sizeBytes: 5 },
+          ],
+          createdAt: expect.any(String),
+        },
+      ]);
+
+      const attachmentId = response.body.submissions[0].attachments[0].id;
+      const file = await request(app)
+        .get(`/api/admin/companies/${companySlug}/task-attachments/${attachmentId}`)
+        .set('Authorization', adminAuth)
+        .expect(200);
+      expect(file.text).toBe('hello');
+      expect(file.headers['content-disposition']).toBe('attachment; filename="proof.txt"');
+
+      await db.query('INSERT INTO company_admins (email, company_slug) VALUES ($1, $2)', [
+        adminEmail,
+        'tech-innovations',
+      ]);
+      await request(app)
+        .get(`/api/admin/companies/tech-innovations/task-attachments/${attachmentId}`)
+        .set('Authorization', adminAuth)
+        .expect(404);
+    });
+
+    it('should 404 for another company\'s task', async () => {
+      const otherTaskId = await insertTask('Tasks test: other company', utcDate(), 'tech-innovations');
+
+      await request(app)
+        .get(`${adminPath}/${otherTaskId}/submissions`)
+        .set('Authorization', adminAuth)
+        .expect(404);
+    });
+  });
+
+  describe('GET /api/me/dashboard', () => {
+    it('should require an access token', async () => {
+      await request(app).get('/api/me/dashboard').expect(401);
+    });
+
+    it('should list engagements with recent tasks and the contractor\'s submissions', async () => {
+      const yesterdayId = await insertTask('Tasks test: yesterday', daysAgo(1));
+      await insertTask('Tasks test: tomorrow', daysAgo(-1));
+      await insertTask('Tasks test: too old', daysAgo(14));
+      await submit(yesterdayId, { body: 'Done yesterday' }).expect(201);
+
+      const response = await request(app)
+        .get('/api/me/dashboard')
+        .set('Authorization', contractorAuth)
+        .expect(200);
+
+      expect(response.body.engagements).toHaveLength(1);
+      const [engagement] = response.body.engagements;
+      expect(engagement).toMatchObject({
+        contractorId,
+        companySlug,
+        companyName: 'Silicon Valley Consulting',
+        status: 'active',
+        canStartJob: true,
+      });
+      const ours = engagement.tasks.filter((task: any) => task.title.startsWith('Tasks test'));
+      expect(ours.map((task: any) => [task.title, task.submission?.body ?? null])).toEqual([
+        ['Tasks test: share the launch post', null],
+        ['Tasks test: yesterday', 'Done yesterday'],
+      ]);
+    });
+
+    it('should leave out requests that are not engagements', async () => {
+      await setStatus('pending', false);
+
+      const response = await request(app)
+        .get('/api/me/dashboard')
+        .set('Authorization', contractorAuth)
+        .expect(200);
+
+      expect(response.body).toEqual({ success: true, engagements: [] });
+    });
+  });
+
+  describe('POST /api/me/tasks/:id/submissions', () => {
+    it('should save the submission with its links and attachments', async () => {
+      const response = await submit(taskId, {
+        body: 'Shared the post',
+        links: ['https://reddit.com/r/test/comments/abc'],
+        attachments: [{ filename: 'screenshot.png', data: Buffer.from([1, 2, 3]).toString('base64') }],
+      }).expect(201);
+
+      expect(response.body).toEqual({
+        success: true,
+        message: 'Your work has been submitted.',
+        submission: {
+          id: expect.any(Number),
+          taskId,
+          body: 'Shared the post',
+          links: ['https://reddit.com/r/test/comments/abc'],
+          attachments: [
+            {
+              id: expect.any(Number),
+              filename: 'screenshot.png',
+              contentType: 'application/octet-stream',
+              sizeBytes: 3,
+            },
+          ],
+          createdAt: expect.any(String),
+        },
+      });
+    });
+
+    it('should only accept one submission per task', async () => {
+      await submit(taskId, { body: 'First' }).expect(201);
+
+      const response = await submit(taskId, { body: 'Second' }).expect(409);
+
+      expect(response.body.message).toBe('You have already submitted this task.');
+    });
+
+    it('should refuse contractors who cannot start work', async () => {
+      await setStatus('suspended', false);
+
+      const response = await submit(taskId, { body: 'Shared it' }).expect(403);
+
+      expect(response.body.message).toBe("You can't submit tasks while your request is suspended.");
+      const saved = await db.query('SELECT 1 FROM task_submissions WHERE task_id = $1', [taskId]);
+      expect(saved.rows).toHaveLength(0);
+    });
+
+    it('should 404 for tasks of other companies or future days', async () => {
+      const otherTaskId = await insertTask('Tasks test: other company', utcDate(), 'tech-innovations');
+      const futureTaskId = await insertTask('Tasks test: tomorrow', daysAgo(-1));
+
+      await submit(otherTaskId, { body: 'Shared it' }).expect(404);
+      await submit(futureTaskId, { body: 'Shared it' }).expect(404);
+      await submit(999999, { body: 'Shared it' }).expect(404);
+    });
+
+    it('should validate the submission', async () => {
+      const response = await submit(taskId, {
+        body: ' ',
+        links: ['not a url'],
+        attachments: [{ filename: 'x.bin', data: 'not base64!' }],
+      }).expect(400);
+
+      expect(response.body.message).toContain('Describe the work you did');
+      expect(response.body.message).toContain('Links must be full URLs');
+      expect(response.body.message).toContain('Attachment data must be base64');
+    });
+
+    it('should limit the total size of attachments', async () => {
+      const big = Buffer.alloc(3 * 1024 * 1024).toString('base64');
+
+      const response = await submit(taskId, {
+        body: 'Shared it',
+        attachments: [
+          { filename: 'a.bin', data: big },
+          { filename: 'b.bin', data: big },
+        ],
+      }).expect(400);
+
+      expect(response.body.message).toBe('Attachments must be 5 MB or less in total');
+    });
+  });
+});
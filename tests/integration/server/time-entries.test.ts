@@ -0,0 +1,389 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import request from 'supertest';
+import { createServer } from '../../../server/index';
+import { getUserEarnings } from '../../../server/earnings';
+import { startTimer, timesheetWeek } from '../../../server/services/time-entries';
+import { getTestDatabase } from '../../setup-backend';
+import { authHeader } from '../../utils/auth';
+
+describe('Time tracking', () => {
+  const app = createServer();
+  const db = getTestDatabase();
+
+  const companySlug = 'silicon-valley-consulting';
+  const adminEmail = 'hours-admin-test@example.com';
+  const contractorEmail = 'hours-contractor-test@example.com';
+  const adminAuth = authHeader({ email: adminEmail });
+  const contractorAuth = authHeader({ email: contractorEmail });
+  const adminPath = `/api/admin/companies/${companySlug}`;
+
+  // Last week is over, so manual entries there never end in the future
+  const lastWeek = timesheetWeek(undefined, new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)).week;
+  const at = (time: string, day = lastWeek) => `${day}T${time}:00.000Z`;
+
+  let userId: number;
+  let contractorId: number;
+  let mePath: string;
+
+  async function insertUser(email: string) {
+    const result = await db.query(
+      `INSERT INTO users (email, phone, reddit_username, reddit_verified)
+       VALUES ($1, '1234567890', 'hourstest', true)
+       RETURNING id`,
+      [email]
+    );
+    return result.rows[0].id as number;
+  }
+
+  const logHours = (startedAt: string, endedAt: string, description = 'Moderation') =>
+    request(app)
+      .post(`${mePath}/time-entries`)
+      .set('Authorization', contractorAuth)
+      .send({ startedAt, endedAt, description });
+
+  const review = (entryId: number, body: object) =>
+    request(app)
+      .post(`${adminPath}/time-entries/${entryId}/review`)
+      .set('Authorization', adminAuth)
+      .send(body);
+
+  beforeEach(async () => {
+    await db.query('DELETE FROM contractors WHERE email LIKE $1', ['hours-%test%']);
+    await db.query('DELETE FROM users WHERE email LIKE $1', ['hours-%test%']);
+    await db.query('DELETE FROM company_admins WHERE email LIKE $1', ['hours-%test%']);
+
+    userId = await insertUser(contractorEmail);
+    await db.query('INSERT INTO company_admins (email, company_slug) VALUES ($1, $2)', [
+      adminEmail,
+      companySlug,
+    ]);
+    const contractor = await db.query(
+      `INSERT INTO contractors (user_id, email, company_slug, company_name, status, joined_slack, can_start_job)
+       VALUES ($1, $2, $3, 'Silicon Valley Consulting', 'pending', true, false)
+       RETURNING id`,
+      [userId, contractorEmail, companySlug]
+    );
+    contractorId = contractor.rows[0].id;
+    mePath = `/api/me/engagements/${contractorId}`;
+
+    await request(app)
+      .post(`${adminPath}/contractor-requests/${contractorId}/review`)
+      .set('Authorization', adminAuth)
+      .send({ decision: 'accept' })
+      .expect(200);
+  });
+
+  it('should snapshot the company\'s hourly rate when the request is accepted', async () => {
+    const result = await db.query('SELECT hourly_rate_cents FROM contractors WHERE id = $1', [
+      contractorId,
+    ]);
+    expect(result.rows[0].hourly_rate_cents).toBe(200);
+
+    const response = await logHours(at('09:00'), at('10:00')).expect(201);
+    expect(response.body.entry).toMatchObject({ rateCents: 200, amountCents: 200, status: 'pending' });
+  });
+
+  describe('Timer', () => {
+    it('should start and stop a timer', async () => {
+      const started = await request(app)
+        .post(`${mePath}/timer/start`)
+        .set('Authorization', contractorAuth)
+        .send({ description: 'Replying to comments' })
+        .expect(201);
+
+      expect(started.body.entry).toMatchObject({
+        contractorId,
+        endedAt: null,
+        durationSeconds: null,
+        amountCents: null,
+        source: 'timer',
+        status: 'pending',
+        description: 'Replying to comments',
+      });
+
+      // Pretend the timer has run for half an hour
+      await db.query(
+        "UPDATE time_entries SET started_at = started_at - INTERVAL '30 minutes' WHERE id = $1",
+        [started.body.entry.id]
+      );
+      const stopped = await request(app)
+        .post(`${mePath}/timer/stop`)
+        .set('Authorization', contractorAuth)
+        .expect(200);
+
+      expect(stopped.body.entry.id).toBe(started.body.entry.id);
+      expect(stopped.body.entry.durationSeconds).toBeGreaterThanOrEqual(1800);
+      expect(stopped.body.entry.amountCents).toBeGreaterThanOrEqual(100);
+    });
+
+    it('should stop a timer left running at the longest entry allowed', async () => {
+      const started = await request(app)
+        .post(`${mePath}/timer/start`)
+        .set('Authorization', contractorAuth)
+        .expect(201);
+
+      // Forgotten over a weekend
+      await db.query(
+        "UPDATE time_entries SET started_at = started_at - INTERVAL '60 hours' WHERE id = $1",
+        [started.body.entry.id]
+      );
+      const stopped = await request(app)
+        .post(`${mePath}/timer/stop`)
+        .set('Authorization', contractorAuth)
+        .expect(200);
+
+      expect(stopped.body.entry.durationSeconds).toBe(24 * 60 * 60);
+      expect(stopped.body.entry.amountCents).toBe(24 * 200);
+    });
+
+    it('should allow only one running timer', async () => {
+      await request(app).post(`${mePath}/timer/start`).set('Authorization', contractorAuth).expect(201);
+
+      const response = await request(app)
+        .post(`${mePath}/timer/start`)
+        .set('Authorization', contractorAuth)
+        .expect(409);
+      expect(response.body.message).toBe('A timer is already running. Stop it first.');
+    });
+
+    it('should not start a timer inside hours already logged', async () => {
+      await logHours(at('09:00'), at('11:00')).expect(201);
+
+      await expect(
+        startTimer({ userId, contractorId, description: 'Moderation', now: new Date(at('10:00')) })
+      ).rejects.toThrow('These hours overlap time you already logged.');
+      await startTimer({ userId, contractorId, description: 'Moderation', now: new Date(at('11:00')) });
+    });
+
+    it('should refuse to stop a timer that is not running', async () => {
+      const response = await request(app)
+        .post(`${mePath}/timer/stop`)
+        .set('Authorization', contractorAuth)
+        .expect(409);
+      expect(response.body.message).toBe('No timer is running.');
+    });
+
+    it('should let a suspended contractor stop their timer but not start one', async () => {
+      const started = await request(app)
+        .post(`${mePath}/timer/start`)
+        .set('Authorization', contractorAuth)
+        .expect(201);
+      await db.query(
+        "UPDATE time_entries SET started_at = started_at - INTERVAL '5 minutes' WHERE id = $1",
+        [started.body.entry.id]
+      );
+      await db.query(
+        "UPDATE contractors SET status = 'suspended', can_start_job = false WHERE id = $1",
+        [contractorId]
+      );
+
+      await request(app).post(`${mePath}/timer/stop`).set('Authorization', contractorAuth).expect(200);
+      const response = await request(app)
+        .post(`${mePath}/timer/start`)
+        .set('Authorization', contractorAuth)
+        .expect(403);
+      expect(response.body.message).toBe("You can't log hours while your request is suspended.");
+    });
+  });
+
+  describe('Manual entries', () => {
+    it('should validate the entry', async () => {
+      const backwards = await logHours(at('10:00'), at('09:00')).expect(400);
+      expect(backwards.body.message).toContain('must be after');
+
+      const tooLong = await logHours(at('09:00'), at('10:00', timesheetWeek(undefined).week)).expect(400);
+      expect(tooLong.body.message).toContain('24');
+    });
+
+    it('should refuse entries that end in the future', async () => {
+      const response = await logHours(
+        new Date(Date.now() - 60 * 60 * 1000).toISOString(),
+        new Date(Date.now() + 60 * 60 * 1000).toISOString()
+      ).expect(400);
+      expect(response.body.message).toBe("Entries can't end in the future. Use the timer instead.");
+    });
+
+    it('should refuse overlapping hours', async () => {
+      await logHours(at('09:00'), at('11:00')).expect(201);
+
+      const response = await logHours(at('10:30'), at('12:00')).expect(409);
+      expect(response.body.message).toBe('These hours overlap time you already logged.');
+      // Touching ends don't overlap
+      await logHours(at('11:00'), at('12:00')).expect(201);
+    });
+
+    it('should refuse requests that cannot start work', async () => {
+      await db.query(
+        "UPDATE contractors SET status = 'suspended', can_start_job = false WHERE id = $1",
+        [contractorId]
+      );
+      await logHours(at('09:00'), at('10:00')).expect(403);
+    });
+
+    it('should refuse engagements without an agreed hourly rate', async () => {
+      await db.query('UPDATE contractors SET hourly_rate_cents = NULL WHERE id = $1', [contractorId]);
+
+      const response = await logHours(at('09:00'), at('10:00')).expect(409);
+      expect(response.body.message).toBe(
+        "This engagement has no agreed hourly rate yet, so hours can't be logged. Please contact the company."
+      );
+      await request(app).post(`${mePath}/timer/start`).set('Authorization', contractorAuth).expect(409);
+    });
+
+    it('should not let users log hours on someone else\'s engagement', async () => {
+      await request(app)
+        .post(`${mePath}/time-entries`)
+        .set('Authorization', adminAuth)
+        .send({ startedAt: at('09:00'), endedAt: at('10:00') })
+        .expect(404);
+      await request(app).get(`${mePath}/time-entries`).set('Authorization', adminAuth).expect(404);
+    });
+  });
+
+  describe('Timesheets', () => {
+    it('should list a week\'s entries with totals', async () => {
+      await logHours(at('09:00'), at('11:00')).expect(201);
+      const approved = await logHours(at('13:00'), at('14:30')).expect(201);
+      await review(approved.body.entry.id, { decision: 'approve' }).expect(200);
+
+      const response = await request(app)
+        .get(`${mePath}/time-entries?week=${lastWeek}`)
+        .set('Authorization', contractorAuth)
+        .expect(200);
+
+      expect(response.body.week).toBe(lastWeek);
+      expect(response.body.entries.map((entry: any) => entry.status)).toEqual(['pending', 'approved']);
+      expect(response.body.entries[0]).not.toHaveProperty('email');
+      expect(response.body.totals).toEqual({
+        seconds: 3.5 * 3600,
+        approvedSeconds: 1.5 * 3600,
+        approvedAmountCents: 300,
+      });
+
+      const thisWeek = await request(app)
+        .get(`${mePath}/time-entries`)
+        .set('Authorization', contractorAuth)
+        .expect(200);
+      expect(thisWeek.body.entries).toEqual([]);
+    });
+
+    it('should only accept Mondays as the week', async () => {
+      const tuesday = new Date(`${lastWeek}T00:00:00Z`);
+      tuesday.setUTCDate(tuesday.getUTCDate() + 1);
+
+      const response = await request(app)
+        .get(`${mePath}/time-entries?week=${tuesday.toISOString().slice(0, 10)}`)
+        .set('Authorization', contractorAuth)
+        .expect(400);
+      expect(response.body.message).toBe('Week must start on a Monday');
+    });
+
+    it('should export the week as CSV', async () => {
+      await logHours(at('09:00'), at('10:30'), 'Replies, "top" threads').expect(201);
+
+      const response = await request(app)
+        .get(`${mePath}/timesheet.csv?week=${lastWeek}`)
+        .set('Authorization', contractorAuth)
+        .expect(200);
+
+      expect(response.headers['content-type']).toContain('text/csv');
+      expect(response.headers['content-disposition']).toContain(`timesheet-${lastWeek}.csv`);
+      expect(response.text).toBe(
+        'date,email,started_at,ended_at,hours,status,rate,amount,currency,description\r\n' +
+          `${lastWeek},${contractorEmail},${at('09:00')},${at('10:30')},1.50,pending,2.00,3.00,USD,"Replies, ""top"" threads"\r\n`
+      );
+    });
+  });
+
+  describe('Company review', () => {
+    it('should only let the company\'s admins see and review hours', async () => {
+      const entry = await logHours(at('09:00'), at('10:00')).expect(201);
+
+      await request(app).get(`${adminPath}/time-entries`).set('Authorization', contractorAuth).expect(403);
+      await request(app)
+        .post(`/api/admin/companies/tech-innovations/time-entries/${entry.body.entry.id}/review`)
+        .set('Authorization', adminAuth)
+        .send({ decision: 'approve' })
+        .expect(403);
+    });
+
+    it('should list the company\'s entries by status with emails', async () => {
+      await logHours(at('09:00'), at('10:00')).expect(201);
+      const approved = await logHours(at('11:00'), at('12:00')).expect(201);
+      await review(approved.body.entry.id, { decision: 'approve' }).expect(200);
+
+      const response = await request(app)
+        .get(`${adminPath}/time-entries?week=${lastWeek}&status=pending`)
+        .set('Authorization', adminAuth)
+        .expect(200);
+
+      const ours = response.body.entries.filter((entry: any) => entry.contractorId === contractorId);
+      expect(ours).toHaveLength(1);
+      expect(ours[0]).toMatchObject({ email: contractorEmail, status: 'pending' });
+
+      const csv = await request(app)
+        .get(`${adminPath}/timesheet.csv?week=${lastWeek}`)
+        .set('Authorization', adminAuth)
+        .expect(200);
+      expect(csv.headers['content-disposition']).toContain(`timesheet-${companySlug}-${lastWeek}.csv`);
+      expect(csv.text.match(new RegExp(contractorEmail, 'g'))).toHaveLength(2);
+    });
+
+    it('should credit the contractor\'s earnings when hours are approved', async () => {
+      const entry = await logHours(at('09:00'), at('12:00')).expect(201);
+
+      const response = await review(entry.body.entry.id, { decision: 'approve' }).expect(200);
+      expect(response.body).toMatchObject({
+        success: true,
+        message: 'Hours approved',
+        entry: { status: 'approved', amountCents: 600, reviewedAt: expect.any(String) },
+      });
+
+      const earnings = await getUserEarnings(userId, 5);
+      expect(earnings.balances).toEqual([{ currency: 'USD', amountCents: 600 }]);
+      expect(earnings.history[0].description).toBe(
+        `3.00 h for Silicon Valley Consulting on ${lastWeek}`
+      );
+
+      const legs = await db.query(
+        'SELECT account, amount_cents::int FROM ledger_entries WHERE time_entry_id = $1 ORDER BY account',
+        [entry.body.entry.id]
+      );
+      expect(legs.rows).toEqual([
+        { account: 'company_receivable', amount_cents: -600 },
+        { account: 'user_earnings', amount_cents: 600 },
+      ]);
+
+      const again = await review(entry.body.entry.id, { decision: 'dispute', reason: 'Too late' }).expect(409);
+      expect(again.body.message).toBe('This entry is already approved.');
+    });
+
+    it('should require a reason to dispute, and allow approving a disputed entry later', async () => {
+      const entry = await logHours(at('09:00'), at('10:00')).expect(201);
+      const entryId = entry.body.entry.id;
+
+      const missing = await review(entryId, { decision: 'dispute' }).expect(400);
+      expect(missing.body.message).toBe('A reason is required when disputing an entry');
+
+      const disputed = await review(entryId, { decision: 'dispute', reason: 'Not on the schedule' }).expect(200);
+      expect(disputed.body.entry).toMatchObject({ status: 'disputed', disputeReason: 'Not on the schedule' });
+      expect((await getUserEarnings(userId, 5)).balances).toEqual([]);
+
+      const approved = await review(entryId, { decision: 'approve' }).expect(200);
+      expect(approved.body.entry).toMatchObject({ status: 'approved', disputeReason: null });
+      expect((await getUserEarnings(userId, 5)).balances).toEqual([{ currency: 'USD', amountCents: 200 }]);
+    });
+
+    it('should not review a running timer or another company\'s entry', async () => {
+      const started = await request(app)
+        .post(`${mePath}/timer/start`)
+        .set('Authorization', contractorAuth)
+        .expect(201);
+
+      const running = await review(started.body.entry.id, { decision: 'approve' }).expect(409);
+      expect(running.body.message).toBe("This entry's timer is still running.");
+
+      await review(999999, { decision: 'approve' }).expect(404);
+    });
+  });
+});
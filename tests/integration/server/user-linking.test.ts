@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import request from 'supertest';
+import { createServer } from '../../../server/index';
+import { loadMigrations } from '../../../server/db/migrate';
+import { resolveLinkedUser } from '../../../server/services/users';
+import { getTestDatabase } from '../../setup-backend';
+import { authHeader } from '../../utils/auth';
+
+describe('Supabase identity linking', () => {
+  const app = createServer();
+  const db = getTestDatabase();
+
+  const identityA = '11111111-1111-4111-8111-111111111111';
+  const identityB = '22222222-2222-4222-8222-222222222222';
+
+  async function insertUser(email: string, createdAt: string, supabaseUserId: string | null = null) {
+    const result = await db.query(
+      `INSERT INTO users (email, phone, reddit_username, reddit_verified, created_at, supabase_user_id)
+       VALUES ($1, '1234567890', 'testuser', true, $2, $3)
+       RETURNING id`,
+      [email, createdAt, supabaseUserId]
+    );
+    return result.rows[0].id as number;
+  }
+
+  beforeEach(async () => {
+    await db.query('DELETE FROM users WHERE email ILIKE $1 OR supabase_user_id IN ($2, $3)', [
+      '%link-test%',
+      identityA,
+      identityB,
+    ]);
+  });
+
+  describe('resolveLinkedUser', () => {
+    it('should link the most recent unlinked row with the same email on first use', async () => {
+      await insertUser('link-test@example.com', '2025-01-01');
+      const newest = await insertUser('link-test@example.com', '2025-02-01');
+
+      const user = await resolveLinkedUser({ id: identityA, email: 'link-test@example.com', role: 'authenticated' });
+
+      expect(user).toMatchObject({ id: newest, supabase_user_id: identityA });
+    });
+
+    it('should match emails case-insensitively', async () => {
+      const id = await insertUser('Link-Test@Example.com', '2025-01-01');
+
+      const user = await resolveLinkedUser({ id: identityA, email: 'link-test@example.com', role: 'authenticated' });
+
+      expect(user?.id).toBe(id);
+    });
+
+    it('should resolve through the link even when the token email changes', async () => {
+      const id = await insertUser('link-test@example.com', '2025-01-01', identityA);
+
+      const user = await resolveLinkedUser({ id: identityA, email: 'link-test-new@example.com', role: 'authenticated' });
+
+      expect(user?.id).toBe(id);
+    });
+
+    it('should never hand a linked row to a different identity', async () => {
+      await insertUser('link-test@example.com', '2025-01-01', identityA);
+
+      const user = await resolveLinkedUser({ id: identityB, email: 'link-test@example.com', role: 'authenticated' });
+
+      expect(user).toBeNull();
+    });
+
+    it('should return null when the identity has no qualification record', async () => {
+      const user = await resolveLinkedUser({ id: identityA, email: 'link-test-missing@example.com', role: 'authenticated' });
+
+      expect(user).toBeNull();
+    });
+  });
+
+  describe('user-scoped routes', () => {
+    it('should file contractor requests against the linked row, not every row with the email', async () => {
+      const older = await insertUser('link-test@example.com', '2025-01-01');
+      const linked = await insertUser('link-test@example.com', '2025-02-01');
+
+      await request(app)
+        .post('/api/contractor-request')
+        .set('Authorization', authHeader({ sub: identityA, email: 'link-test@example.com' }))
+        .send({ companySlug: 'silicon-valley-consulting', companyName: 'Silicon Valley Consulting' })
+        .expect(200);
+
+      const contractors = await db.query('SELECT user_id FROM contractors WHERE user_id IN ($1, $2)', [older, linked]);
+      expect(contractors.rows).toEqual([{ user_id: linked }]);
+    });
+  });
+
+  describe('backfill migration', () => {
+    const backfill = loadMigrations().find((m) => m.name === 'link_supabase_users')!;
+
+    afterEach(async () => {
+      await db.query('DROP SCHEMA IF EXISTS auth CASCADE');
+    });
+
+    it('should link rows by email when Supabase auth.users is available', async () => {
+      await insertUser('link-test@example.com', '2025-01-01');
+      const newest = await insertUser('link-test@example.com', '2025-02-01');
+      await db.query('CREATE SCHEMA auth');
+      await db.query('CREATE TABLE auth.users (id UUID PRIMARY KEY, email TEXT)');
+      await db.query('INSERT INTO auth.users (id, email) VALUES ($1, $2)', [identityA, 'LINK-TEST@example.com']);
+
+      await db.query(backfill.up);
+
+      const result = await db.query(
+        'SELECT id, supabase_user_id FROM users WHERE email = $1 ORDER BY id',
+        ['link-test@example.com']
+      );
+      expect(result.rows).toEqual([
+        { id: newest - 1, supabase_user_id: null },
+        { id: newest, supabase_user_id: identityA },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { http, HttpResponse } from 'msw';
+import type { Company, CompanyReview } from '@shared/schemas';
+
+export const mockCompanies: Company[] = [
+  {
+    slug: 'silicon-valley-consulting',
+    name: 'Silicon Valley Consulting',
+    acronym: 'SVC',
+    description: 'A marketing consultancy helping technology companies grow their communities and engagement',
+    websiteUrl: 'https://SiliconValleyConsulting.io',
+    category: 'Marketing & Growth',
+    hourlyRate: 2,
+    bonus: 500,
+    bonusRule: 'approved_hours',
+    bonusThreshold: 20,
+    hiresCount: 14,
+    rating: 4.5,
+    reviewCount: 2,
+    gradient: 'from-purple-600 to-blue-600',
+    isAvailable: true,
+    tasks: [
+      {
+        title: 'Reddit Community Engagement',
+        description: "Role play as authentic users of SVC's clients to help their clients grow their subreddit communities organically.",
+      },
+      {
+        title: 'Content Creation',
+        description: 'Create authentic posts, comments, and discussions that align with client objectives.',
+      },
+      {
+        title: 'Community Building',
+        description: 'Help foster genuine discussions and engagement within target communities.',
+      },
+    ],
+  },
+  {
+    slug: 'tech-innovations',
+    name: 'Tech Innovations Corp',
+    acronym: 'TIC',
+    description: 'Leading technology solutions for enterprise clients',
+    websiteUrl: null,
+    category: 'Technology',
+    hourlyRate: 3.5,
+    bonus: 750,
+    bonusRule: 'approved_hours',
+    bonusThreshold: 40,
+    hiresCount: 28,
+    rating: null,
+    reviewCount: 0,
+    gradient: 'from-green-600 to-teal-600',
+    isAvailable: false,
+    tasks: [],
+  },
+  {
+    slug: 'digital-marketing-pro',
+    name: 'Digital Marketing Pro',
+    acronym: 'DMP',
+    description: 'Full-service digital marketing agency for SaaS companies',
+    websiteUrl: null,
+    category: 'Digital Marketing',
+    hourlyRate: 4,
+    bonus: 600,
+    bonusRule: 'approved_hours',
+    bonusThreshold: 40,
+    hiresCount: 35,
+    rating: 4.8,
+    reviewCount: 3,
+    gradient: 'from-pink-600 to-red-600',
+    isAvailable: false,
+    tasks: [],
+  },
+];
+
+export const mockCompanyReviews: CompanyReview[] = [
+  {
+    id: 2,
+    companySlug: 'silicon-valley-consulting',
+    rating: 5,
+    comment: 'Clear tasks and quick approvals.',
+    createdAt: '2024-03-02T10:00:00.000Z',
+  },
+  {
+    id: 1,
+    companySlug: 'silicon-valley-consulting',
+    rating: 4,
+    comment: 'Good pay, busy weeks.',
+    createdAt: '2024-03-01T10:00:00.000Z',
+  },
+];
+
+export const companiesHandlers = [
+  http.get('/api/companies', ({ request }) => {
+    const params = new URL(request.url).searchParams;
+    const q = params.get('q')?.toLowerCase();
+    const category = params.get('category');
+
+    const companies = mockCompanies.filter(
+      (c) =>
+        (!q || c.name.toLowerCase().includes(q)) &&
+        (!category || c.category === category)
+    );
+    const categories = [...new Set(mockCompanies.map((c) => c.category))].sort();
+
+    return HttpResponse.json({ success: true, companies, categories, nextCursor: null });
+  }),
+
+  http.get('/api/companies/:slug', ({ params }) => {
+    const company = mockCompanies.find((c) => c.slug === params.slug);
+
+    if (!company) {
+      return HttpResponse.json(
+        { success: false, message: `Company '${params.slug}' not found` },
+        { status: 404 }
+      );
+    }
+
+    return HttpResponse.json({ success: true, company });
+  }),
+
+  http.get('/api/companies/:slug/reviews', ({ params }) => {
+    const reviews = mockCompanyReviews.filter((r) => r.companySlug === params.slug);
+    return HttpResponse.json({ success: true, reviews, nextCursor: null });
+  }),
+];
@@ -3,6 +3,7 @@ import { redditHandlers } from './reddit';
 import { ipapiHandlers } from './ipapi';
 import { exchangeRateHandlers } from './exchange-rate';
 import { supabaseHandlers } from './supabase';
+import { companiesHandlers } from './companies';
 
 // Combine all API handlers
 export const handlers = [
@@ -10,6 +11,7 @@ export const handlers = [
   ...ipapiHandlers,
   ...exchangeRateHandlers,
   ...supabaseHandlers,
+  ...companiesHandlers,
   
   // Internal API handlers (for frontend tests)
   http.post('/api/check-user-exists', async ({ request }) => {
@@ -58,10 +60,18 @@ export const handlers = [
   }),
   
   http.post('/api/contractor-request', async ({ request }) => {
-    const body = await request.json() as any;
-    
+    const authorization = request.headers.get('Authorization');
+
+    // Mock missing session
+    if (!authorization) {
+      return HttpResponse.json(
+        { success: false, message: 'Authentication required. Please sign in and try again.' },
+        { status: 401 }
+      );
+    }
+
     // Mock user not found
-    if (body.email === 'nonexistent@test.com') {
+    if (authorization === 'Bearer nonexistent-token') {
       return HttpResponse.json(
         { success: false, message: 'User not found. Please complete the qualification form first.' },
         { status: 404 }
@@ -69,7 +79,7 @@ export const handlers = [
     }
     
     // Mock duplicate request
-    if (body.email === 'duplicate@test.com') {
+    if (authorization === 'Bearer duplicate-token') {
       return HttpResponse.json(
         { success: false, message: 'You have already requested to join this company.' },
         { status: 400 }
@@ -83,6 +93,34 @@ export const handlers = [
     });
   }),
   
+  http.get('/api/me/contractor-requests', ({ request }) => {
+    if (!request.headers.get('Authorization')) {
+      return HttpResponse.json(
+        { success: false, message: 'Authentication required. Please sign in and try again.' },
+        { status: 401 }
+      );
+    }
+
+    // Mock a user who has not requested to join any company yet
+    return HttpResponse.json({ success: true, requests: [] });
+  }),
+
+  http.delete('/api/me/contractor-requests/:id', ({ params }) => {
+    return HttpResponse.json({
+      success: true,
+      message: 'Your request has been withdrawn.',
+      request: {
+        id: Number(params.id),
+        companySlug: 'silicon-valley-consulting',
+        companyName: 'Silicon Valley Consulting',
+        status: 'withdrawn',
+        canStartJob: false,
+        createdAt: '2025-01-01T00:00:00.000Z',
+        updatedAt: '2025-01-02T00:00:00.000Z',
+      },
+    });
+  }),
+
   http.get('/api/ping', () => {
     return HttpResponse.json({ message: 'test ping' });
   }),
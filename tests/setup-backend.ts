@@ -10,6 +10,7 @@ import {
   cleanupTestData as cleanupTestDataUtil,
   ensureDatabaseEnvironment
 } from "./test-db-setup";
+import { TEST_SUPABASE_JWT_SECRET } from "./utils/auth";
 
 // Test database configuration
 let testPool: Pool | null = null;
@@ -62,6 +63,9 @@ export const mockServer = setupServer(
         data: {
           name: username,
           id: "2_test123",
+          created_utc: 1500000000,
+          link_karma: 1200,
+          comment_karma: 3400,
         },
       });
     }
@@ -91,6 +95,7 @@ beforeAll(async () => {
   process.env.REDDIT_CLIENT_ID = "test_client_id";
   process.env.REDDIT_CLIENT_SECRET = "test_client_secret";
   process.env.PING_MESSAGE = "test ping";
+  process.env.SUPABASE_JWT_SECRET = TEST_SUPABASE_JWT_SECRET;
   
   // Set database URL for server endpoints
   process.env.TEST_DATABASE_URL = getTestDatabaseUrl();
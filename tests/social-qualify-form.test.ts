@@ -1,8 +1,10 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, beforeAll, afterAll } from 'vitest';
 import request from 'supertest';
 import { createServer } from '../server/index';
 import { getTestDatabase, mockServer } from './setup-backend';
 import { HttpResponse, http } from 'msw';
+import { startFakeHttpServer, type FakeHttpServer } from './utils/fake-http';
+import { startFakeReddit, type FakeReddit } from './utils/fake-reddit';
 
 describe('POST /api/social-qualify-form', () => {
   const app = createServer();
@@ -55,7 +57,15 @@ describe('POST /api/social-qualify-form', () => {
         twitter_username: validFormData.twitterUsername,
         youtube_username: validFormData.youtubeUsername,
         facebook_username: validFormData.facebookUsername,
-        reddit_verified: true
+        // Ownership is only proven later with a verification code
+        reddit_verified: false,
+        reddit_eligibility: {
+          eligible: true,
+          reasons: [],
+          accountCreatedAt: '2017-07-14T02:40:00.000Z',
+          karma: 4600,
+          policy: { minAccountAgeDays: 30, minKarma: 100 }
+        }
       });
     });
 
@@ -227,13 +237,28 @@ describe('POST /api/social-qualify-form', () => {
   });
 
   describe('Reddit API integration', () => {
+    // The Reddit client caches its token, so failures are staged on a fresh fake Reddit
+    let reddit: FakeReddit;
+
+    beforeAll(async () => {
+      reddit = await startFakeReddit();
+      process.env.REDDIT_AUTH_URL = reddit.url;
+      process.env.REDDIT_API_URL = reddit.url;
+    });
+
+    afterAll(async () => {
+      delete process.env.REDDIT_AUTH_URL;
+      delete process.env.REDDIT_API_URL;
+      await reddit.close();
+    });
+
+    beforeEach(() => {
+      reddit.reset();
+    });
+
     it('should reject when Reddit API OAuth fails', async () => {
       // Mock Reddit OAuth to fail
-      mockServer.use(
-        http.post('https://www.reddit.com/api/v1/access_token', () => {
-          return new HttpResponse(null, { status: 401 });
-        })
-      );
+      reddit.tokenReplies.push({ status: 401 });
 
       const response = await request(app)
         .post('/api/social-qualify-form')
@@ -241,11 +266,12 @@ describe('POST /api/social-qualify-form', () => {
           ...validFormData,
           email: 'oauth-fail@example.com'
         })
-        .expect(400);
+        .expect(500);
 
+      // Our credentials are at fault, not the applicant's username
       expect(response.body).toMatchObject({
         success: false,
-        message: expect.stringContaining("does not exist")
+        message: expect.stringContaining("temporarily unavailable")
       });
 
       // Verify user was NOT saved to database
@@ -258,11 +284,7 @@ describe('POST /api/social-qualify-form', () => {
 
     it('should reject when Reddit API has network error', async () => {
       // Mock Reddit API to throw network error
-      mockServer.use(
-        http.post('https://www.reddit.com/api/v1/access_token', () => {
-          return HttpResponse.error();
-        })
-      );
+      reddit.tokenReplies.push({ destroy: true });
 
       const response = await request(app)
         .post('/api/social-qualify-form')
@@ -270,11 +292,11 @@ describe('POST /api/social-qualify-form', () => {
           ...validFormData,
           email: 'network-error@example.com'
         })
-        .expect(400);
+        .expect(503);
 
       expect(response.body).toMatchObject({
         success: false,
-        message: expect.stringContaining("does not exist")
+        message: expect.stringContaining("couldn't reach Reddit")
       });
 
       // Verify user was NOT saved to database
@@ -284,6 +306,199 @@ describe('POST /api/social-qualify-form', () => {
       );
       expect(userResult.rows).toHaveLength(0);
     });
+
+    it('should reject a suspended Reddit account', async () => {
+      reddit.apiReplies.push({ body: { kind: 't2', data: { name: 'testuser', is_suspended: true } } });
+
+      const response = await request(app)
+        .post('/api/social-qualify-form')
+        .send({
+          ...validFormData,
+          email: 'suspended-test@example.com'
+        })
+        .expect(403);
+
+      expect(response.body).toMatchObject({
+        success: false,
+        message: "Reddit user 'testuser' does not qualify. Your Reddit account is suspended.",
+        eligibility: { eligible: false, reasons: [{ code: 'suspended' }] }
+      });
+    });
+
+    it('should explain why a new, low-karma account does not qualify', async () => {
+      reddit.apiReplies.push({
+        body: {
+          kind: 't2',
+          data: {
+            name: 'testuser',
+            created_utc: Date.now() / 1000 - 3 * 24 * 60 * 60,
+            link_karma: 4,
+            comment_karma: 1
+          }
+        }
+      });
+
+      const response = await request(app)
+        .post('/api/social-qualify-form')
+        .send({
+          ...validFormData,
+          email: 'new-account-test@example.com'
+        })
+        .expect(403);
+
+      expect(response.body.message).toBe(
+        "Reddit user 'testuser' does not qualify. " +
+          'Your Reddit account must be at least 30 days old (it is 3). ' +
+          'Your Reddit account needs at least 100 karma (it has 5).'
+      );
+      expect(response.body.eligibility).toMatchObject({
+        eligible: false,
+        accountAgeDays: 3,
+        karma: 5,
+        reasons: [{ code: 'account_too_new' }, { code: 'insufficient_karma' }]
+      });
+      const userResult = await db.query(
+        'SELECT * FROM users WHERE email = $1',
+        ['new-account-test@example.com']
+      );
+      expect(userResult.rows).toHaveLength(0);
+    });
+
+    it('should apply the thresholds configured in the environment', async () => {
+      process.env.REDDIT_MIN_KARMA = '10000';
+
+      try {
+        const response = await request(app)
+          .post('/api/social-qualify-form')
+          .send({
+            ...validFormData,
+            email: 'karma-policy-test@example.com'
+          })
+          .expect(403);
+
+        expect(response.body.eligibility.reasons).toEqual([
+          {
+            code: 'insufficient_karma',
+            message: 'Your Reddit account needs at least 10000 karma (it has 4600).'
+          }
+        ]);
+      } finally {
+        delete process.env.REDDIT_MIN_KARMA;
+      }
+    });
+
+    it('should ask the user to retry later when Reddit is rate limiting', async () => {
+      reddit.apiReplies.push({
+        status: 429,
+        headers: { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': '300' }
+      });
+
+      const response = await request(app)
+        .post('/api/social-qualify-form')
+        .send({
+          ...validFormData,
+          email: 'rate-limited-test@example.com'
+        })
+        .expect(503);
+
+      expect(Number(response.headers['retry-after'])).toBeGreaterThan(290);
+      const userResult = await db.query(
+        'SELECT * FROM users WHERE email = $1',
+        ['rate-limited-test@example.com']
+      );
+      expect(userResult.rows).toHaveLength(0);
+    });
+  });
+
+  describe('Optional social accounts', () => {
+    let twitter: FakeHttpServer;
+
+    const twitterUser = (email: string) =>
+      db.query('SELECT twitter_username, twitter_verified, youtube_verified FROM users WHERE email = $1', [email]);
+
+    beforeAll(async () => {
+      twitter = await startFakeHttpServer();
+      process.env.TWITTER_API_URL = twitter.url;
+      process.env.TWITTER_BEARER_TOKEN = 'test-bearer';
+    });
+
+    afterAll(async () => {
+      delete process.env.TWITTER_API_URL;
+      delete process.env.TWITTER_BEARER_TOKEN;
+      await twitter.close();
+    });
+
+    beforeEach(() => {
+      twitter.reset();
+    });
+
+    it('should store which handles were verified', async () => {
+      twitter.replies.push({ body: { data: { id: '1', username: 'testtwitter' } } });
+
+      await request(app)
+        .post('/api/social-qualify-form')
+        .send({ ...validFormData, email: 'twitter-verified-test@example.com' })
+        .expect(200);
+
+      // YouTube has no API key configured here, so its handle is saved unverified
+      expect((await twitterUser('twitter-verified-test@example.com')).rows).toEqual([
+        { twitter_username: 'testtwitter', twitter_verified: true, youtube_verified: false }
+      ]);
+    });
+
+    it('should reject a handle that does not exist on its platform', async () => {
+      twitter.replies.push({ body: { errors: [{ title: 'Not Found Error' }] } });
+
+      const response = await request(app)
+        .post('/api/social-qualify-form')
+        .send({ ...validFormData, email: 'twitter-missing-test@example.com' })
+        .expect(400);
+
+      expect(response.body.message).toBe(
+        "Twitter user 'testtwitter' does not exist. Please check the username and try again."
+      );
+      expect((await twitterUser('twitter-missing-test@example.com')).rows).toHaveLength(0);
+    });
+
+    it('should not block qualification when an optional platform is down', async () => {
+      twitter.replies.push({ status: 503 });
+
+      await request(app)
+        .post('/api/social-qualify-form')
+        .send({ ...validFormData, email: 'twitter-down-test@example.com' })
+        .expect(200);
+
+      expect((await twitterUser('twitter-down-test@example.com')).rows).toEqual([
+        { twitter_username: 'testtwitter', twitter_verified: false, youtube_verified: false }
+      ]);
+    });
+
+    it('should save a Facebook profile the Graph API will not look up unverified', async () => {
+      const facebook = await startFakeHttpServer();
+      process.env.FACEBOOK_API_URL = facebook.url;
+      process.env.FACEBOOK_ACCESS_TOKEN = 'app|secret';
+      try {
+        facebook.replies.push({
+          status: 404,
+          body: { error: { code: 803, message: 'Some of the aliases you requested do not exist' } }
+        });
+
+        await request(app)
+          .post('/api/social-qualify-form')
+          .send({ ...validFormData, email: 'facebook-private-test@example.com' })
+          .expect(200);
+
+        const user = await db.query(
+          'SELECT facebook_username, facebook_verified FROM users WHERE email = $1',
+          ['facebook-private-test@example.com']
+        );
+        expect(user.rows).toEqual([{ facebook_username: 'testfacebook', facebook_verified: false }]);
+      } finally {
+        delete process.env.FACEBOOK_API_URL;
+        delete process.env.FACEBOOK_ACCESS_TOKEN;
+        await facebook.close();
+      }
+    });
   });
 
   describe('Database error handling', () => {
@@ -1,6 +1,5 @@
 import { Pool } from 'pg';
-import * as fs from 'fs';
-import * as path from 'path';
+import { migrateUp } from '../server/db/migrate';
 
 /**
  * Database setup utilities for local testing
@@ -260,20 +259,12 @@ async function ensureTestDatabase(): Promise<void> {
 }
 
 /**
- * Sets up the database schema for testing
+ * Sets up the database schema for testing by applying any pending migrations
  */
 export async function setupTestDatabase(pool: Pool): Promise<void> {
-  const sqlFilePath = path.join(__dirname, 'database-setup.sql');
-  
-  if (!fs.existsSync(sqlFilePath)) {
-    throw new Error(`Schema file not found: ${sqlFilePath}`);
-  }
-
-  const schema = fs.readFileSync(sqlFilePath, 'utf8');
-  
   try {
-    console.log('🗄️  Setting up test database schema...');
-    await pool.query(schema);
+    console.log('🗄️  Applying database migrations...');
+    await migrateUp(pool);
     console.log('✅ Test database schema setup complete');
   } catch (error) {
     console.error('❌ Failed to setup test database schema:', error);
@@ -287,6 +278,7 @@ export async function setupTestDatabase(pool: Pool): Promise<void> {
 export async function cleanupTestData(pool: Pool): Promise<void> {
   try {
     // Clean up in reverse order of dependencies
+    await pool.query("DELETE FROM outbox_messages WHERE recipient LIKE '%test%' OR recipient LIKE '%@example.com'");
     await pool.query("DELETE FROM contractors WHERE email LIKE '%test%' OR email LIKE '%@example.com'");
     await pool.query("DELETE FROM users WHERE email LIKE '%test%' OR email LIKE '%@example.com'");
   } catch (error) {
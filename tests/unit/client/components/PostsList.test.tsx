@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
 import { PostsList } from '@/components/PostsList';
 import { renderWithProviders } from '../../../utils/test-helpers';
 import { server } from '../../../setup-frontend';
@@ -134,6 +135,80 @@ describe('PostsList Component', () => {
         expect(screen.getByText(/no posts available/i)).toBeInTheDocument();
       });
     });
+
+    it('should render Reddit details on each card', async () => {
+      server.use(
+        http.get('/api/posts', () => {
+          return HttpResponse.json({
+            success: true,
+            posts: [
+              {
+                id: 'abc1',
+                title: 'Sunset Photo',
+                content: 'https://example.com/sunset.jpg',
+                author: 'photographer',
+                createdAt: '2024-01-01T00:00:00Z',
+                subreddit: 'pics',
+                score: 4321,
+                url: 'https://example.com/sunset.jpg',
+                permalink: 'https://www.reddit.com/r/pics/comments/abc1/sunset_photo/',
+                numComments: 87,
+                thumbnail: 'https://example.com/sunset-thumb.jpg',
+                over18: true,
+              },
+            ],
+            after: null,
+          });
+        })
+      );
+
+      const { container } = renderWithProviders(<PostsList />);
+
+      const link = await screen.findByRole('link', { name: 'Sunset Photo' });
+      expect(link).toHaveAttribute('href', 'https://www.reddit.com/r/pics/comments/abc1/sunset_photo/');
+      expect(screen.getByText('NSFW')).toBeInTheDocument();
+      expect(screen.getByText('r/pics')).toBeInTheDocument();
+      expect(screen.getByText('4321')).toBeInTheDocument();
+      expect(screen.getByText('87 comments')).toBeInTheDocument();
+      expect(container.querySelector('img')).toHaveAttribute('src', 'https://example.com/sunset-thumb.jpg');
+    });
+
+    it('should load the next page when there are more posts', async () => {
+      const user = userEvent.setup();
+      const pages: Record<string, unknown> = {
+        '': {
+          success: true,
+          posts: [
+            { id: 'abc1', title: 'First Page Post', content: 'One', author: 'alice', createdAt: '2024-01-01T00:00:00Z' },
+          ],
+          after: 't3_abc1',
+        },
+        t3_abc1: {
+          success: true,
+          posts: [
+            { id: 'abc2', title: 'Second Page Post', content: 'Two', author: 'bob', createdAt: '2024-01-02T00:00:00Z' },
+          ],
+          after: null,
+        },
+      };
+
+      server.use(
+        http.get('/api/posts', ({ request }) => {
+          const after = new URL(request.url).searchParams.get('after') ?? '';
+          return HttpResponse.json(pages[after]);
+        })
+      );
+
+      renderWithProviders(<PostsList />);
+
+      await user.click(await screen.findByRole('button', { name: /load more posts/i }));
+
+      await waitFor(() => {
+        expect(screen.getByText('Second Page Post')).toBeInTheDocument();
+      });
+      expect(screen.getByText('First Page Post')).toBeInTheDocument();
+      expect(screen.queryByRole('button', { name: /load more posts/i })).not.toBeInTheDocument();
+    });
   });
 
   describe('Error Handling', () => {
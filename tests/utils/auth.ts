@@ -0,0 +1,58 @@
+import { createHash, createHmac } from 'crypto';
+
+/**
+ * Local signing key for Supabase access tokens in backend tests
+ * Mirrors the HS256 secret a Supabase project uses, so no live Supabase is needed
+ */
+export const TEST_SUPABASE_JWT_SECRET = 'test-supabase-jwt-secret';
+
+interface TestTokenClaims {
+  sub?: string;
+  email?: string;
+  role?: string;
+  aud?: string;
+  exp?: number;
+}
+
+/**
+ * Stable fake Supabase user id per email, so parallel test files never share an identity
+ */
+export function testSupabaseUserId(email: string): string {
+  const hex = createHash('sha256').update(email).digest('hex');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-4${hex.slice(13, 16)}-8${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+}
+
+function encode(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+/**
+ * Sign an access token shaped like the ones Supabase issues after a magic-link login
+ */
+export function signTestToken(
+  claims: TestTokenClaims = {},
+  secret: string = TEST_SUPABASE_JWT_SECRET
+): string {
+  const email = claims.email ?? 'test@example.com';
+  const header = encode({ alg: 'HS256', typ: 'JWT' });
+  const payload = encode({
+    sub: testSupabaseUserId(email),
+    email,
+    role: 'authenticated',
+    aud: 'authenticated',
+    exp: Math.floor(Date.now() / 1000) + 3600,
+    ...claims,
+  });
+  const signature = createHmac('sha256', secret)
+    .update(`${header}.${payload}`)
+    .digest('base64url');
+
+  return `${header}.${payload}.${signature}`;
+}
+
+/**
+ * Authorization header value for a signed test token
+ */
+export function authHeader(claims: TestTokenClaims = {}): string {
+  return `Bearer ${signTestToken(claims)}`;
+}
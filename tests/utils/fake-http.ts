@@ -0,0 +1,77 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+
+/**
+ * A canned reply; `destroy` drops the connection instead
+ */
+export interface FakeHttpResponse {
+  status?: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+  destroy?: boolean;
+}
+
+export interface FakeHttpRequest {
+  method: string;
+  path: string;
+  url: URL;
+  headers: IncomingMessage['headers'];
+}
+
+/**
+ * Local HTTP server standing in for a third-party API
+ *
+ * Replies come from the `replies` queue first, then from `defaultReply`.
+ */
+export interface FakeHttpServer {
+  url: string;
+  requests: FakeHttpRequest[];
+  replies: FakeHttpResponse[];
+  reset(): void;
+  close(): Promise<void>;
+}
+
+export async function startFakeHttpServer(
+  defaultReply: (url: URL) => FakeHttpResponse = () => ({ status: 404 })
+): Promise<FakeHttpServer> {
+  const fake: FakeHttpServer = {
+    url: '',
+    requests: [],
+    replies: [],
+    reset() {
+      fake.requests = [];
+      fake.replies = [];
+    },
+    close: () =>
+      new Promise((resolve) => {
+        server.close(() => resolve());
+        server.closeAllConnections();
+      }),
+  };
+
+  const server: Server = createServer((req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    fake.requests.push({
+      method: req.method ?? 'GET',
+      path: `${url.pathname}${url.search}`,
+      url,
+      headers: req.headers,
+    });
+    const reply = fake.replies.shift() ?? defaultReply(url);
+
+    // Drain the request body before replying so keep-alive connections stay usable
+    req.resume();
+    req.on('end', () => {
+      if (reply.destroy) {
+        res.socket?.destroy();
+        return;
+      }
+      res.writeHead(reply.status ?? 200, { 'Content-Type': 'application/json', ...reply.headers });
+      res.end(reply.body === undefined ? '' : JSON.stringify(reply.body));
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  fake.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  return fake;
+}
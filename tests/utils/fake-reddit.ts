@@ -0,0 +1,183 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+
+/**
+ * A canned reply from the fake Reddit server; `destroy` drops the connection instead
+ */
+export interface FakeRedditResponse {
+  status?: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+  destroy?: boolean;
+}
+
+export interface FakeRedditRequest {
+  method: string;
+  path: string;
+  authorization?: string;
+}
+
+/**
+ * Local stand-in for both www.reddit.com (OAuth) and oauth.reddit.com (API)
+ *
+ * Replies come from the `tokenReplies` / `apiReplies` queues first, then fall
+ * back to a working Reddit: a fresh token per request, pages of a
+ * `topPostCount`-post listing for /r/:subreddit/:sort.json (the posts listed in
+ * `nsfwPosts` marked over_18), 200/404 for
+ * /user/:name/about (with the bio from `profiles`) and the user's
+ * `submissions` for /user/:name/submitted.
+ */
+export interface FakeReddit {
+  url: string;
+  requests: FakeRedditRequest[];
+  tokenReplies: FakeRedditResponse[];
+  apiReplies: FakeRedditResponse[];
+  knownUsers: string[];
+  profiles: Record<string, string>;
+  submissions: Record<string, Array<{ title: string; selftext?: string }>>;
+  tokensIssued: number;
+  tokenExpiresIn: number;
+  topPostCount: number;
+  nsfwPosts: number[];
+  reset(): void;
+  close(): Promise<void>;
+}
+
+export async function startFakeReddit(): Promise<FakeReddit> {
+  const fake: FakeReddit = {
+    url: '',
+    requests: [],
+    tokenReplies: [],
+    apiReplies: [],
+    knownUsers: ['testuser', 'validuser', 'reddituser', 'austrie'],
+    profiles: {},
+    submissions: {},
+    tokensIssued: 0,
+    tokenExpiresIn: 3600,
+    topPostCount: 100,
+    nsfwPosts: [],
+    reset() {
+      fake.requests = [];
+      fake.tokenReplies = [];
+      fake.apiReplies = [];
+      fake.profiles = {};
+      fake.submissions = {};
+      fake.tokensIssued = 0;
+      fake.tokenExpiresIn = 3600;
+      fake.topPostCount = 100;
+      fake.nsfwPosts = [];
+    },
+    close: () =>
+      new Promise((resolve) => {
+        server.close(() => resolve());
+        server.closeAllConnections();
+      }),
+  };
+
+  const defaultReply = (url: URL): FakeRedditResponse => {
+    if (url.pathname === '/api/v1/access_token') {
+      fake.tokensIssued++;
+      return {
+        body: {
+          access_token: `fake-token-${fake.tokensIssued}`,
+          token_type: 'bearer',
+          expires_in: fake.tokenExpiresIn,
+        },
+      };
+    }
+
+    const listing = url.pathname.match(/^\/r\/([^/]+)\/(hot|new|top|rising)\.json$/);
+    if (listing) {
+      const limit = Number(url.searchParams.get('limit') ?? 25);
+      // Pages continue after the post named by ?after=t3_post<N>
+      const after = url.searchParams.get('after')?.match(/^t3_post(\d+)$/);
+      const start = after ? Number(after[1]) + 1 : 0;
+      const count = Math.max(Math.min(limit, fake.topPostCount - start), 0);
+      return {
+        body: {
+          data: {
+            children: Array.from({ length: count }, (_, offset) => {
+              const i = start + offset;
+              return {
+                data: {
+                  id: `post${i}`,
+                  title: `Post ${i}`,
+                  selftext: `Body of post ${i}`,
+                  author: `user${i}`,
+                  score: 100 - i,
+                  subreddit: listing[1],
+                  url: `https://example.com/post${i}`,
+                  permalink: `/r/${listing[1]}/comments/post${i}/post_${i}/`,
+                  num_comments: i * 2,
+                  thumbnail: i % 2 === 0 ? `https://example.com/thumb${i}.jpg` : 'self',
+                  over_18: fake.nsfwPosts.includes(i),
+                  created_utc: 1700000000 + i,
+                },
+              };
+            }),
+          },
+        },
+      };
+    }
+
+    const user = url.pathname.match(/^\/user\/([^/]+)\/(about|submitted)$/);
+    const username = user && decodeURIComponent(user[1]);
+    if (username && fake.knownUsers.includes(username)) {
+      if (user[2] === 'submitted') {
+        const posts = fake.submissions[username] ?? [];
+        return {
+          body: {
+            data: {
+              children: posts.map((post, i) => ({
+                data: { id: `sub${i}`, selftext: '', created_utc: 1700000000 + i, ...post },
+              })),
+            },
+          },
+        };
+      }
+
+      return {
+        body: {
+          kind: 't2',
+          data: {
+            name: username,
+            id: '2_test123',
+            created_utc: 1500000000,
+            link_karma: 1200,
+            comment_karma: 3400,
+            subreddit: { public_description: fake.profiles[username] ?? '' },
+          },
+        },
+      };
+    }
+
+    return { status: 404, body: { message: 'Not Found', error: 404 } };
+  };
+
+  const server: Server = createServer((req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    fake.requests.push({
+      method: req.method ?? 'GET',
+      path: `${url.pathname}${url.search}`,
+      authorization: req.headers.authorization,
+    });
+
+    const queue = url.pathname === '/api/v1/access_token' ? fake.tokenReplies : fake.apiReplies;
+    const reply = queue.shift() ?? defaultReply(url);
+
+    // Drain the request body before replying so keep-alive connections stay usable
+    req.resume();
+    req.on('end', () => {
+      if (reply.destroy) {
+        res.socket?.destroy();
+        return;
+      }
+      res.writeHead(reply.status ?? 200, { 'Content-Type': 'application/json', ...reply.headers });
+      res.end(JSON.stringify(reply.body ?? {}));
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  fake.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  return fake;
+}